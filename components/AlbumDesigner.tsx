@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState, ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import JSZip from 'jszip';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+    ALBUM_FONTS, ALBUM_LAYOUTS, ALBUM_TEXTURES, AlbumOptions, createAlbumPages, getPageSizeMm, GRID_SIZES,
+    PAGE_ORIENTATIONS, PAGE_SIZES, PageSizeId,
+} from '../lib/albumUtils';
+import PdfExportControls from './PdfExportControls';
+import { cn, downloadBlob } from '../lib/utils';
+
+interface AlbumDesignerImage {
+    id: string;
+    label: string;
+    url: string;
+}
+
+// Previews render at a fraction of the print resolution, which is plenty for a thumbnail.
+const PREVIEW_DPI = 40;
+const PAGE_SIZE_IDS = Object.keys(PAGE_SIZES) as PageSizeId[];
+
+const primaryButtonClasses = "font-bold text-center text-black bg-neutral-200 py-2 px-6 rounded-lg transition-all duration-300 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed";
+const chipButtonClasses = "text-sm text-center text-neutral-300 bg-neutral-800 border-2 border-transparent py-1.5 px-3 rounded-lg transition-all duration-200 hover:bg-neutral-700";
+const selectedChipButtonClasses = "bg-neutral-200 hover:bg-white border-neutral-200 text-black font-bold";
+const inputClasses = "w-full bg-neutral-900 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-neutral-200 placeholder-neutral-500 focus:outline-none focus:border-neutral-400";
+
+const Field = ({ label, children }: { label: string, children: ReactNode }) => (
+    <div className="flex flex-col gap-2">
+        <h4 className="text-sm font-semibold text-neutral-400">{label}</h4>
+        {children}
+    </div>
+);
+
+function Chips<T extends string>({ values, selected, label, onSelect }: { values: T[], selected: T, label: (value: T) => string, onSelect: (value: T) => void }) {
+    return (
+        <div className="flex flex-wrap gap-2">
+            {values.map(value => (
+                <button key={value} onClick={() => onSelect(value)} className={cn(chipButtonClasses, selected === value && selectedChipButtonClasses)}>
+                    {label(value)}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Lays out Photoshoot keepers as album pages. The template is stored with the project, and so
+ * are the captions, which start as the style names and can be edited here.
+ */
+const AlbumDesigner = ({ images, options, onOptionsChange, onClose }: {
+    images: AlbumDesignerImage[],
+    options: AlbumOptions,
+    onOptionsChange: (options: AlbumOptions) => void,
+    onClose: () => void,
+}) => {
+    const { t } = useLanguage();
+    const [previewPages, setPreviewPages] = useState<string[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const albumImages = useMemo(
+        () => images.map(image => ({ url: image.url, caption: options.captions[image.id] ?? image.label })),
+        [images, options.captions]
+    );
+
+    // Re-render the preview shortly after the last change, so typing a title doesn't render every keystroke.
+    useEffect(() => {
+        let isCurrent = true;
+        const timer = setTimeout(() => {
+            createAlbumPages(albumImages, options, PREVIEW_DPI)
+                .then(pages => { if (isCurrent) setPreviewPages(pages); })
+                .catch(error => console.error("Failed to render album preview:", error));
+        }, 300);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timer);
+        };
+    }, [albumImages, options]);
+
+    const update = (changes: Partial<AlbumOptions>) => onOptionsChange({ ...options, ...changes });
+
+    const getPdfPages = async () => {
+        const { width, height } = getPageSizeMm(options);
+        const pages = await createAlbumPages(albumImages, options);
+        return pages.map(imageUrl => ({ imageUrl, widthMm: width, heightMm: height }));
+    };
+
+    const handleDownload = async () => {
+        setIsCreating(true);
+        try {
+            const pages = await createAlbumPages(albumImages, options);
+            if (pages.length === 1) {
+                const link = document.createElement('a');
+                link.href = pages[0];
+                link.download = 'ai-photoshoot-album.jpg';
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+            } else {
+                const zip = new JSZip();
+                pages.forEach((page, index) => {
+                    zip.file(`album-page-${String(index + 1).padStart(2, '0')}.jpg`, page.slice(page.indexOf(',') + 1), { base64: true });
+                });
+                downloadBlob(await zip.generateAsync({ type: 'blob' }), 'ai-photoshoot-album.zip');
+            }
+        } catch (error) {
+            console.error("Failed to create album page:", error);
+            alert(t('photoshoot.albumCreationError'));
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, y: 20 }}
+                animate={{ scale: 1, y: 0 }}
+                exit={{ scale: 0.95, y: 20 }}
+                transition={{ duration: 0.2 }}
+                className="bg-neutral-900 border border-neutral-700 rounded-2xl w-[90vw] h-[90vh] max-w-6xl flex flex-col overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-neutral-800 flex justify-between items-center gap-4 flex-shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-neutral-100">{t('albumDesigner.title')}</h2>
+                        <p className="text-sm text-neutral-400 mt-1">{t('albumDesigner.subtitle')}</p>
+                    </div>
+                    <button onClick={onClose} className="text-neutral-500 hover:text-white">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </header>
+
+                <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+                    <aside className="md:w-96 flex-shrink-0 overflow-y-auto p-4 flex flex-col gap-5 border-b md:border-b-0 md:border-r border-neutral-800">
+                        <Field label={t('albumDesigner.layout')}>
+                            <Chips values={ALBUM_LAYOUTS} selected={options.layout} label={value => t(`albumDesigner.layouts.${value}`)} onSelect={layout => update({ layout })} />
+                            {options.layout === 'grid' && (
+                                <Chips values={GRID_SIZES} selected={options.gridSize} label={value => value.replace('x', ' × ')} onSelect={gridSize => update({ gridSize })} />
+                            )}
+                        </Field>
+
+                        <Field label={t('albumDesigner.pageSize')}>
+                            <Chips values={PAGE_SIZE_IDS} selected={options.pageSize} label={value => t(`albumDesigner.pageSizes.${value}`)} onSelect={pageSize => update({ pageSize })} />
+                            {options.pageSize !== 'square' && (
+                                <Chips values={PAGE_ORIENTATIONS} selected={options.orientation} label={value => t(`albumDesigner.orientations.${value}`)} onSelect={orientation => update({ orientation })} />
+                            )}
+                        </Field>
+
+                        <Field label={t('albumDesigner.background')}>
+                            <div className="flex items-center gap-3">
+                                <input
+                                    type="color"
+                                    value={options.backgroundColor}
+                                    onChange={(e) => update({ backgroundColor: e.target.value })}
+                                    className="w-10 h-10 rounded border border-neutral-700 bg-transparent cursor-pointer"
+                                />
+                                <span className="text-sm text-neutral-400 font-mono">{options.backgroundColor}</span>
+                            </div>
+                            <Chips values={ALBUM_TEXTURES} selected={options.texture} label={value => t(`albumDesigner.textures.${value}`)} onSelect={texture => update({ texture })} />
+                        </Field>
+
+                        <Field label={t('albumDesigner.pageTitle')}>
+                            <input value={options.title} onChange={(e) => update({ title: e.target.value })} placeholder={t('albumDesigner.pageTitlePlaceholder')} className={inputClasses} />
+                            <input value={options.subtitle} onChange={(e) => update({ subtitle: e.target.value })} placeholder={t('albumDesigner.pageSubtitlePlaceholder')} className={inputClasses} />
+                        </Field>
+
+                        <Field label={t('albumDesigner.fonts')}>
+                            {(['titleFont', 'captionFont'] as const).map(key => (
+                                <label key={key} className="flex items-center gap-3 text-sm text-neutral-300">
+                                    <span className="w-20 flex-shrink-0">{t(`albumDesigner.${key}`)}</span>
+                                    <select value={options[key]} onChange={(e) => update({ [key]: e.target.value })} className={inputClasses} style={{ fontFamily: options[key] }}>
+                                        {ALBUM_FONTS.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
+                                    </select>
+                                </label>
+                            ))}
+                        </Field>
+
+                        <Field label={t('albumDesigner.captions')}>
+                            <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                <input type="checkbox" checked={options.showCaptions} onChange={(e) => update({ showCaptions: e.target.checked })} className="accent-neutral-200" />
+                                {t('albumDesigner.showCaptions')}
+                            </label>
+                            {options.showCaptions && images.map(image => (
+                                <input
+                                    key={image.id}
+                                    value={options.captions[image.id] ?? image.label}
+                                    onChange={(e) => update({ captions: { ...options.captions, [image.id]: e.target.value } })}
+                                    className={inputClasses}
+                                />
+                            ))}
+                        </Field>
+
+                        {(options.layout === 'grid' || options.layout === 'collage') && (
+                            <Field label={t('albumDesigner.arrangement')}>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={options.seed}
+                                        onChange={(e) => update({ seed: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                        className={cn(inputClasses, "w-32 font-mono")}
+                                    />
+                                    <button onClick={() => update({ seed: Math.floor(Math.random() * 100000) })} className={chipButtonClasses}>
+                                        {t('albumDesigner.shuffle')}
+                                    </button>
+                                </div>
+                                <p className="text-xs text-neutral-500">{t('albumDesigner.seedHint')}</p>
+                            </Field>
+                        )}
+                    </aside>
+
+                    <section className="flex-1 overflow-y-auto p-4 flex flex-col gap-4">
+                        <div className="flex flex-wrap items-start justify-between gap-4">
+                            <p className="text-sm text-neutral-400">{t('albumDesigner.pageCount', previewPages.length)}</p>
+                            <div className="flex flex-col items-end gap-3">
+                                <button onClick={handleDownload} disabled={isCreating || images.length === 0} className={primaryButtonClasses}>
+                                    {isCreating ? t('photoshoot.creatingAlbumButton') : previewPages.length > 1 ? t('albumDesigner.downloadPages') : t('albumDesigner.download')}
+                                </button>
+                                <PdfExportControls
+                                    getPages={getPdfPages}
+                                    fileName="ai-photoshoot-album.pdf"
+                                    title={options.title}
+                                    disabled={images.length === 0}
+                                    className="items-end"
+                                />
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap justify-center gap-6">
+                            {previewPages.map((page, index) => (
+                                <img key={index} src={page} alt={t('albumDesigner.pageAlt', index + 1)} className="max-w-full max-h-[60vh] shadow-lg rounded-sm" />
+                            ))}
+                        </div>
+                    </section>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default AlbumDesigner;
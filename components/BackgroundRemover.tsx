@@ -5,32 +5,68 @@
 import React, { useState, useRef, ChangeEvent, DragEvent, MouseEvent as ReactMouseEvent } from 'react';
 import { motion } from 'framer-motion';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
-import { removeBackgroundFromImageAtPoint } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getModelForOperation, removeBackgroundFromImageAtPoint } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { InvalidInputError, isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import { PROCESSING_MODES, ProcessingMode, useBatchProcessor } from '../lib/useBatchProcessor';
+import { dataUrlToBlob, readImageDimensions } from '../lib/mediaStore';
+import BatchPanel, { BatchModeToggle } from './BatchPanel';
 
 
 export default function BackgroundRemover({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isDragOver, setIsDragOver] = useState(false);
     
     const imageRef = useRef<HTMLImageElement>(null);
+    const [mode, setMode] = useRouteParam<ProcessingMode>('mode', 'single', PROCESSING_MODES);
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            setUploadedImage(reader.result as string);
+    // There is no point to click on in batch mode, so the subject in the centre of each image is kept.
+    const batch = useBatchProcessor(async (source, options) => {
+        const dimensions = await readImageDimensions(await dataUrlToBlob(source));
+        if (!dimensions) throw new InvalidInputError('Could not read the image dimensions');
+        const resultUrl = await removeBackgroundFromImageAtPoint(source, dimensions.width / 2, dimensions.height / 2, options);
+        addImageToLibrary(resultUrl, {
+            toolId: 'backgroundRemover',
+            operation: 'removeBackgroundFromImageAtPoint',
+            inputs: { source },
+            model: getModelForOperation('removeBackgroundFromImageAtPoint'),
+        });
+        return resultUrl;
+    });
+
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImage(null);
             setError(null);
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    useToolHandoff('backgroundRemover', {
+        source: handleImageUpload,
+    });
+
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             handleImageUpload(e.target.files[0]);
@@ -62,11 +98,18 @@ export default function BackgroundRemover({ onBack }: { onBack: () => void }) {
         const y = (e.clientY - rect.top) * scaleY;
 
         try {
-            const resultDataUrl = await removeBackgroundFromImageAtPoint(uploadedImage, x, y);
+            const resultDataUrl = await removeBackgroundFromImageAtPoint(uploadedImage, x, y, { signal: getSignal() });
             setGeneratedImage(resultDataUrl);
+            addImageToLibrary(resultDataUrl, {
+                toolId: 'backgroundRemover',
+                operation: 'removeBackgroundFromImageAtPoint',
+                inputs: { source: uploadedImage },
+                model: getModelForOperation('removeBackgroundFromImageAtPoint'),
+            });
             setView('result');
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             // Stay on config view to show the error
         } finally {
             setIsLoading(false);
@@ -74,6 +117,7 @@ export default function BackgroundRemover({ onBack }: { onBack: () => void }) {
     };
 
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setError(null);
@@ -84,7 +128,7 @@ export default function BackgroundRemover({ onBack }: { onBack: () => void }) {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-no-bg.png';
+        link.download = `tracquoc-ai-no-bg.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -158,6 +202,7 @@ export default function BackgroundRemover({ onBack }: { onBack: () => void }) {
                      <h3 className="font-bold text-2xl text-neutral-200 mb-4 text-center">{t('backgroundRemover.result')}</h3>
                     <div className="aspect-square w-full bg-black/20 rounded-lg border-2 border-dashed border-neutral-700 flex items-center justify-center text-neutral-500 text-center relative overflow-hidden">
                         {generatedImage && <img src={generatedImage} alt="Generated result" className="w-full h-full object-contain" />}
+                        {generatedImage && <SendToMenu imageUrl={generatedImage} fromToolId="backgroundRemover" className="absolute top-2 right-2 z-10" />}
                     </div>
                 </div>
             </div>
@@ -207,7 +252,10 @@ export default function BackgroundRemover({ onBack }: { onBack: () => void }) {
                     <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('backgroundRemover.subtitle')}</p>
                 </div>
                 
-                {view === 'config' ? renderConfigView() : renderResultView()}
+                {view === 'config' && <BatchModeToggle mode={mode} onChange={setMode} disabled={batch.isRunning} />}
+                {mode === 'batch'
+                    ? <BatchPanel batch={batch} archiveName="tracquoc-ai-no-bg" hint={t('backgroundRemover.batchHint')} />
+                    : view === 'config' ? renderConfigView() : renderResultView()}
                 
             </motion.div>
         </main>
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState, ChangeEvent, DragEvent } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { BatchProcessor, ProcessingMode } from '../lib/useBatchProcessor';
+import { getErrorMessage } from '../lib/errorMessages';
+import { cn } from '../lib/utils';
+
+// Folders dropped onto the page arrive as directory entries; this walks them for their files.
+const readEntry = async (entry: FileSystemEntry): Promise<{ file: File; path: string }[]> => {
+    const path = entry.fullPath.replace(/^\//, '');
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [{ file, path }];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: { file: File; path: string }[] = [];
+    // readEntries hands out a directory's contents in chunks, until it returns an empty list.
+    for (;;) {
+        const entries = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (entries.length === 0) return files;
+        for (const child of entries) {
+            files.push(...await readEntry(child));
+        }
+    }
+};
+
+/** Switches a tool between its usual one-image view and batch mode. */
+export const BatchModeToggle = ({ mode, onChange, disabled }: { mode: ProcessingMode; onChange: (mode: ProcessingMode) => void; disabled?: boolean }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="inline-flex bg-neutral-900/70 border border-neutral-800 rounded-lg p-1 mb-8">
+            {(['single', 'batch'] as const).map(option => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    disabled={disabled}
+                    className={cn(
+                        "px-4 py-1.5 rounded-md text-sm font-semibold transition-colors disabled:cursor-not-allowed",
+                        mode === option ? 'bg-neutral-200 text-black' : 'text-neutral-400 hover:text-white',
+                    )}
+                >
+                    {t(`batch.${option}Mode`)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+interface BatchPanelProps {
+    batch: BatchProcessor;
+    /** Name of the downloaded ZIP, without the extension. */
+    archiveName: string;
+    /** Set while the tool's settings can't be applied yet, e.g. no mask has been painted. */
+    startDisabled?: boolean;
+    /** A short note on how the tool's settings apply to every file. */
+    hint?: string;
+}
+
+/**
+ * Batch mode for a single-image tool: collects files or whole folders, runs them with the
+ * tool's current settings and shows each one's progress, with retry for the ones that failed.
+ */
+const BatchPanel = ({ batch, archiveName, startDisabled, hint }: BatchPanelProps) => {
+    const { t } = useLanguage();
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [isZipping, setIsZipping] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const { items, isRunning } = batch;
+
+    // Directory picking isn't part of React's input props, so the attribute is set by hand.
+    useEffect(() => {
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    const addFiles = (files: { file: File; path?: string }[]) => {
+        const added = batch.addFiles(files);
+        setNotice(added === 0 ? t('batch.noImages') : null);
+    };
+
+    const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = (Array.from(e.target.files ?? []) as File[]).map(file => ({ file, path: file.webkitRelativePath }));
+        e.target.value = '';
+        addFiles(files);
+    };
+
+    const handleDrop = async (e: DragEvent<HTMLElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(false);
+        // Entries must be taken before the first await, while the drop data is still readable.
+        const entries = (Array.from(e.dataTransfer.items) as DataTransferItem[])
+            .map(item => item.webkitGetAsEntry())
+            .filter((entry): entry is FileSystemEntry => !!entry);
+        const files = (await Promise.all(entries.map(readEntry))).flat();
+        addFiles(files);
+    };
+
+    const handleDownloadZip = async () => {
+        setIsZipping(true);
+        try {
+            const content = await batch.exportZip();
+            const url = URL.createObjectURL(content);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${archiveName}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error("Failed to create or download ZIP:", err);
+            setNotice(t('batch.zipFailed'));
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const doneCount = items.filter(item => item.status === 'done').length;
+    const failedCount = items.filter(item => item.status === 'error').length;
+    const hasWork = items.some(item => item.status === 'pending' || item.status === 'error');
+    const secondaryButtonClasses = "font-bold text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-6 rounded-lg transition-all duration-300 hover:bg-neutral-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="w-full flex flex-col gap-6">
+            <div className="w-full bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-6 shadow-lg flex flex-col gap-4">
+                <div
+                    onDrop={handleDrop}
+                    onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+                    onDragLeave={() => setIsDragOver(false)}
+                    className={cn(
+                        "w-full flex flex-col items-center justify-center gap-3 text-center text-neutral-500 border-2 border-dashed rounded-lg p-8 transition-colors",
+                        isDragOver ? 'border-neutral-400 bg-neutral-800/60' : 'border-neutral-700',
+                    )}
+                >
+                    <p className="text-lg font-bold text-neutral-300">{t('batch.dropHint')}</p>
+                    <div className="flex flex-wrap justify-center gap-3">
+                        <label className="cursor-pointer text-sm font-semibold text-neutral-200 bg-neutral-800 border border-neutral-700 rounded-lg px-4 py-2 hover:bg-neutral-700">
+                            {t('batch.chooseFiles')}
+                            <input type="file" multiple accept="image/png, image/jpeg, image/webp" className="hidden" onChange={handleFileChange} />
+                        </label>
+                        <button onClick={() => folderInputRef.current?.click()} className="text-sm font-semibold text-neutral-200 bg-neutral-800 border border-neutral-700 rounded-lg px-4 py-2 hover:bg-neutral-700">
+                            {t('batch.chooseFolder')}
+                        </button>
+                        <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleFileChange} />
+                    </div>
+                    {hint && <p className="text-sm max-w-xl">{hint}</p>}
+                </div>
+
+                {notice && <p className="text-sm text-amber-300">{notice}</p>}
+
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                    <p className="text-neutral-300">
+                        {t('batch.summary', doneCount, items.length)}
+                        {failedCount > 0 && <span className="text-red-400"> · {t('batch.failedCount', failedCount)}</span>}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        {isRunning ? (
+                            <button onClick={batch.stop} className={secondaryButtonClasses}>{t('batch.stop')}</button>
+                        ) : (
+                            <button
+                                onClick={batch.start}
+                                disabled={!hasWork || startDisabled}
+                                className="flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                            >
+                                {doneCount > 0 || failedCount > 0 ? t('batch.resume') : t('batch.start')}
+                            </button>
+                        )}
+                        <button onClick={handleDownloadZip} disabled={doneCount === 0 || isZipping} className={secondaryButtonClasses}>
+                            {isZipping ? t('batch.creatingZip') : t('batch.downloadZip')}
+                        </button>
+                        <button onClick={batch.clear} disabled={items.length === 0} className={secondaryButtonClasses}>{t('batch.clear')}</button>
+                    </div>
+                </div>
+            </div>
+
+            {items.length > 0 && (
+                <div className="grid grid-cols-[repeat(auto-fill,minmax(8rem,1fr))] gap-3">
+                    {items.map(item => (
+                        <div key={item.id} className="flex flex-col gap-1">
+                            <div className={cn(
+                                "relative aspect-square rounded-lg overflow-hidden bg-black/40 border-2",
+                                item.status === 'done' ? 'border-emerald-600/60' : item.status === 'error' ? 'border-red-600/60' : item.status === 'running' ? 'border-sky-600/60' : 'border-neutral-800',
+                            )}>
+                                <img src={item.resultUrl ?? item.preview} alt={item.name} className="w-full h-full object-contain" />
+                                {item.status === 'running' && (
+                                    <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                        <svg className="animate-spin h-8 w-8 text-neutral-300" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                    </div>
+                                )}
+                                {item.status === 'error' && item.error && (
+                                    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-2 p-2 text-center">
+                                        <p className="text-xs text-red-300 line-clamp-3" title={item.error.message}>{getErrorMessage(item.error, t)}</p>
+                                        <button onClick={() => batch.retry(item.id)} disabled={batch.isRunning} className="text-xs bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40 disabled:opacity-50 disabled:cursor-not-allowed">{t('common.retry')}</button>
+                                    </div>
+                                )}
+                                {item.status !== 'running' && (
+                                    <button
+                                        onClick={() => batch.remove(item.id)}
+                                        className="absolute top-1 right-1 p-1 bg-black/60 rounded-full text-neutral-300 hover:text-white"
+                                        aria-label={t('batch.remove')}
+                                        title={t('batch.remove')}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                                    </button>
+                                )}
+                            </div>
+                            <p className="text-xs text-neutral-400 truncate" title={item.name}>{item.name}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchPanel;
@@ -4,10 +4,19 @@
 */
 import React, { useState, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { generateCloneEffectImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generateCloneEffectImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import { PROCESSING_MODES, ProcessingMode, useBatchProcessor } from '../lib/useBatchProcessor';
+import BatchPanel, { BatchModeToggle } from './BatchPanel';
 
 const Uploader = ({ onImageUpload }: { onImageUpload: (file: File) => void }) => {
     const { t } = useLanguage();
@@ -71,31 +80,52 @@ const ImageViewer = ({ title, imageUrl, children }: { title: string, imageUrl: s
 
 export default function CloneEffect({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [refinePrompt, setRefinePrompt] = useState('');
+    const [refinePrompt, setRefinePrompt] = useProjectState('refinePrompt', '');
+    const [mode, setMode] = useRouteParam<ProcessingMode>('mode', 'single', PROCESSING_MODES);
+    const batch = useBatchProcessor(async (source, options) => {
+        const resultUrl = await generateCloneEffectImage(source, undefined, options);
+        addImageToLibrary(resultUrl, {
+            toolId: 'cloneEffect',
+            operation: 'generateCloneEffectImage',
+            inputs: { source },
+            model: getModelForOperation('generateCloneEffectImage'),
+        });
+        return resultUrl;
+    });
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const imageDataUrl = reader.result as string;
-            setUploadedImage(imageDataUrl);
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImage(null);
             setError(null);
             setRefinePrompt('');
-            handleGenerate(imageDataUrl);
+            handleGenerate(dataUrl);
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    useToolHandoff('cloneEffect', {
+        source: handleImageUpload,
+    });
+
     const handleDownload = () => {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-clone.png';
+        link.download = `tracquoc-ai-clone.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -107,10 +137,11 @@ export default function CloneEffect({ onBack }: { onBack: () => void }) {
         setError(null);
         setView('result');
         try {
-            const resultUrl = await generateCloneEffectImage(image, instructions);
+            const resultUrl = await generateCloneEffectImage(image, instructions, { signal: getSignal() });
             setGeneratedImage(resultUrl);
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -118,6 +149,7 @@ export default function CloneEffect({ onBack }: { onBack: () => void }) {
     };
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setError(null);
@@ -155,6 +187,7 @@ export default function CloneEffect({ onBack }: { onBack: () => void }) {
                              <button onClick={() => handleGenerate(uploadedImage!, refinePrompt)} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button>
                          </div>
                     )}
+                    {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="cloneEffect" className="absolute top-2 right-2 z-10" />}
                 </ImageViewer>
             </div>
 
@@ -238,7 +271,10 @@ export default function CloneEffect({ onBack }: { onBack: () => void }) {
                     <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('cloneEffect.subtitle')}</p>
                 </div>
                 
-                {view === 'config' ? renderConfigView() : renderResultView()}
+                {view === 'config' && <BatchModeToggle mode={mode} onChange={setMode} disabled={batch.isRunning} />}
+                {mode === 'batch'
+                    ? <BatchPanel batch={batch} archiveName="tracquoc-ai-clones" />
+                    : view === 'config' ? renderConfigView() : renderResultView()}
 
             </motion.div>
         </main>
@@ -2,12 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, DragEvent, ChangeEvent } from 'react';
+import React, { useState, useEffect, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { recolorImageWithPaletteImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { recolorImageWithPaletteImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
 
 const Uploader = ({ onImageUpload, imageUrl, onImageRemove, inputId, title, description }: { onImageUpload: (file: File) => void, imageUrl: string | null, onImageRemove: () => void, inputId: string, title: string, description: string }) => {
     const { t } = useLanguage();
@@ -77,26 +83,29 @@ const Uploader = ({ onImageUpload, imageUrl, onImageRemove, inputId, title, desc
 
 export default function ColorPaletteSwap({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [originalDimensions, setOriginalDimensions] = useState<{width: number, height: number} | null>(null);
-    const [paletteImage, setPaletteImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [originalDimensions, setOriginalDimensions] = useProjectState<{width: number, height: number} | null>('originalDimensions', null);
+    const [paletteImage, setPaletteImage] = useProjectState<string | null>('paletteImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     
-    const handleOriginalImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const dataUrl = reader.result as string;
-            setUploadedImage(dataUrl);
+    const loadOriginalImage = (dataUrl: string) => {
+        setUploadedImage(dataUrl);
 
-            const img = new Image();
-            img.onload = () => {
-                setOriginalDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-            };
-            img.src = dataUrl;
+        const img = new Image();
+        img.onload = () => {
+            setOriginalDimensions({ width: img.naturalWidth, height: img.naturalHeight });
         };
+        img.src = dataUrl;
+    };
+
+    const handleOriginalImageUpload = (file: File) => {
+        const reader = new FileReader();
+        reader.onloadend = () => loadOriginalImage(reader.result as string);
         reader.readAsDataURL(file);
     };
     
@@ -107,6 +116,23 @@ export default function ColorPaletteSwap({ onBack }: { onBack: () => void }) {
         };
         reader.readAsDataURL(file);
     };
+
+    // A library image fills the original slot first, then the palette slot.
+    useEffect(() => {
+        if (selectedImageForTool && view === 'config') {
+            if (uploadedImage) {
+                setPaletteImage(selectedImageForTool);
+            } else {
+                loadOriginalImage(selectedImageForTool);
+            }
+            clearSelectedImageForTool();
+        }
+    }, [selectedImageForTool, clearSelectedImageForTool, view, uploadedImage]);
+
+    useToolHandoff('colorPaletteSwap', {
+        source: loadOriginalImage,
+        palette: setPaletteImage,
+    });
     
     const handlePaletteChangeInResult = (file: File) => {
         const reader = new FileReader();
@@ -122,7 +148,7 @@ export default function ColorPaletteSwap({ onBack }: { onBack: () => void }) {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-recolored.png';
+        link.download = `tracquoc-ai-recolored.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -138,10 +164,17 @@ export default function ColorPaletteSwap({ onBack }: { onBack: () => void }) {
         setView('result');
 
         try {
-            const resultUrl = await recolorImageWithPaletteImage(uploadedImage, currentPalette, originalDimensions);
+            const resultUrl = await recolorImageWithPaletteImage(uploadedImage, currentPalette, originalDimensions, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'colorPaletteSwap',
+                operation: 'recolorImageWithPaletteImage',
+                inputs: { source: uploadedImage, palette: currentPalette },
+                model: getModelForOperation('recolorImageWithPaletteImage'),
+            });
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -149,6 +182,7 @@ export default function ColorPaletteSwap({ onBack }: { onBack: () => void }) {
     };
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setPaletteImage(null);
         setGeneratedImage(null);
@@ -228,6 +262,7 @@ export default function ColorPaletteSwap({ onBack }: { onBack: () => void }) {
                             </div>
                         )}
                          {generatedImage && !isLoading && <img src={generatedImage} alt={t('colorPaletteSwap.recoloredImage')} className="w-full h-full object-contain" />}
+                         {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="colorPaletteSwap" className="absolute top-2 right-2 z-10" />}
                     </div>
                 </div>
             </div>
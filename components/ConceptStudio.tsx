@@ -4,15 +4,22 @@
 */
 import React, { useState, DragEvent, ChangeEvent, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { generateStyledImage, generateBackgroundFromConcept, extractOutfitFromImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generateStyledImage, generateBackgroundFromConcept, extractOutfitFromImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { settlePending, useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import type { JobPriority } from '../services/generationQueue';
 
 type Step = 'UPLOAD' | 'STUDIO';
 
 interface GeneratedImageState {
-    status: 'pending' | 'done' | 'error';
+    status: 'pending' | 'done' | 'error' | 'cancelled';
     url?: string;
     error?: string;
     poseId: string;
@@ -64,7 +71,7 @@ const Uploader = ({ title, description, imageUrl, onImageUpload, onImageRemove,
     );
 };
 
-const AssetViewer = ({ title, imageUrl, isLoading, error, onRetry }: { title: string, imageUrl: string | null, isLoading: boolean, error: string | null, onRetry?: () => void }) => {
+const AssetViewer = ({ title, imageUrl, isLoading, error, isCancelled, onRetry }: { title: string, imageUrl: string | null, isLoading: boolean, error: string | null, isCancelled?: boolean, onRetry?: () => void }) => {
     const { t } = useLanguage();
     return (
         <div className="flex flex-col items-center gap-2 w-full">
@@ -76,14 +83,14 @@ const AssetViewer = ({ title, imageUrl, isLoading, error, onRetry }: { title: st
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
                 )}
-                {error && !isLoading && (
+                {(error || isCancelled) && !isLoading && (
                     <div className="p-4 text-red-400">
-                        <p className="font-semibold mb-2">{t('kidsStudio.generationFailed')}</p>
-                        <p className="text-xs text-slate-400 mb-4">{error}</p>
+                        <p className="font-semibold mb-2">{isCancelled ? t('common.cancelled') : t('kidsStudio.generationFailed')}</p>
+                        {error && <p className="text-xs text-slate-400 mb-4">{error}</p>}
                         {onRetry && <button onClick={onRetry} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button>}
                     </div>
                 )}
-                {imageUrl && !isLoading && !error && <img src={imageUrl} alt={t(title)} className="w-full h-full object-cover"/>}
+                {imageUrl && !isLoading && !error && !isCancelled && <img src={imageUrl} alt={t(title)} className="w-full h-full object-cover"/>}
             </div>
         </div>
     );
@@ -110,17 +117,19 @@ const KID_POSES = [
 
 export default function ConceptStudio({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [step, setStep] = useState<Step>('UPLOAD');
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [step, setStep] = useProjectState<Step>('step', 'UPLOAD');
     // Uploaded images
-    const [characterImage, setCharacterImage] = useState<string | null>(null);
-    const [conceptImage, setConceptImage] = useState<string | null>(null);
+    const [characterImage, setCharacterImage] = useProjectState<string | null>('characterImage', null);
+    const [conceptImage, setConceptImage] = useProjectState<string | null>('conceptImage', null);
     
     // Generated assets
-    const [extractedBackground, setExtractedBackground] = useState<string | null>(null);
-    const [extractedOutfit, setExtractedOutfit] = useState<string | null>(null);
+    const [extractedBackground, setExtractedBackground] = useProjectState<string | null>('extractedBackground', null);
+    const [extractedOutfit, setExtractedOutfit] = useProjectState<string | null>('extractedOutfit', null);
     
     // Generated final images
-    const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImageState>>({});
+    const [generatedImages, setGeneratedImages] = useProjectState<Record<string, GeneratedImageState>>('generatedImages', {}, settlePending);
 
     // Loading & Error states
     const [isBackgroundLoading, setIsBackgroundLoading] = useState(false);
@@ -131,7 +140,7 @@ export default function ConceptStudio({ onBack }: { onBack: () => void }) {
     const [outfitError, setOutfitError] = useState<string | null>(null);
     
     // Compose options
-    const [selectedPoses, setSelectedPoses] = useState<string[]>([]);
+    const [selectedPoses, setSelectedPoses] = useProjectState<string[]>('selectedPoses', []);
 
     useEffect(() => {
         // Clear results when pose selection changes after a generation
@@ -147,7 +156,13 @@ export default function ConceptStudio({ onBack }: { onBack: () => void }) {
         reader.readAsDataURL(file);
     };
 
+    useToolHandoff('conceptStudio', {
+        character: setCharacterImage,
+        concept: setConceptImage,
+    });
+
     const handleStartOver = () => {
+        cancel();
         setStep('UPLOAD');
         setCharacterImage(null);
         setConceptImage(null);
@@ -167,10 +182,11 @@ export default function ConceptStudio({ onBack }: { onBack: () => void }) {
         setIsBackgroundLoading(true);
         setBackgroundError(null);
         try {
-            const result = await generateBackgroundFromConcept(conceptImage);
+            const result = await generateBackgroundFromConcept(conceptImage, { signal: getSignal() });
             setExtractedBackground(result);
         } catch (err) {
-            setBackgroundError(err instanceof Error ? err.message : "Background creation failed.");
+            if (isCancelledError(err)) return;
+            setBackgroundError(getErrorMessage(err, t, "Background creation failed."));
         } finally {
             setIsBackgroundLoading(false);
         }
@@ -181,10 +197,11 @@ export default function ConceptStudio({ onBack }: { onBack: () => void }) {
         setIsOutfitLoading(true);
         setOutfitError(null);
         try {
-            const result = await extractOutfitFromImage(conceptImage);
+            const result = await extractOutfitFromImage(conceptImage, undefined, { signal: getSignal() });
             setExtractedOutfit(result);
         } catch (err) {
-            setOutfitError(err instanceof Error ? err.message : "Outfit extraction failed.");
+            if (isCancelledError(err)) return;
+            setOutfitError(getErrorMessage(err, t, "Outfit extraction failed."));
         } finally {
             setIsOutfitLoading(false);
         }
@@ -204,7 +221,7 @@ export default function ConceptStudio({ onBack }: { onBack: () => void }) {
         );
     };
 
-    const generateSingleImage = async (poseId: string) => {
+    const generateSingleImage = async (poseId: string, priority: JobPriority = 'interactive') => {
         if (!characterImage || !extractedBackground || !extractedOutfit) return;
 
         const pose = KID_POSES.find(p => p.id === poseId);
@@ -232,13 +249,27 @@ After satisfying the identity preservation rule, perform the following compositi
 4.  **Seamless Integration:** The lighting, shadows, and color grading on the person must be adjusted to perfectly match the new background and environment for a cohesive final photograph.
 `;
             
-            const resultUrl = await generateStyledImage(prompt, [characterImage, extractedBackground, extractedOutfit]);
+            const resultUrl = await generateStyledImage(prompt, [characterImage, extractedBackground, extractedOutfit], undefined, { signal: getSignal(), priority });
             setGeneratedImages(prev => ({
                 ...prev,
                 [poseId]: { ...prev[poseId], status: 'done', url: resultUrl }
             }));
+            addImageToLibrary(resultUrl, {
+                toolId: 'conceptStudio',
+                operation: 'generateStyledImage',
+                prompt: pose.prompt,
+                inputs: { character: characterImage, concept: conceptImage },
+                model: getModelForOperation('generateStyledImage'),
+            });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Final image generation failed.";
+            if (isCancelledError(err)) {
+                setGeneratedImages(prev => ({
+                    ...prev,
+                    [poseId]: { ...prev[poseId], status: 'cancelled' }
+                }));
+                return;
+            }
+            const errorMessage = getErrorMessage(err, t, "Final image generation failed.");
             setGeneratedImages(prev => ({
                 ...prev,
                 [poseId]: { ...prev[poseId], status: 'error', error: errorMessage }
@@ -250,7 +281,7 @@ After satisfying the identity preservation rule, perform the following compositi
         if (selectedPoses.length === 0) return;
         setIsComposing(true);
 
-        const generationPromises = selectedPoses.map(poseId => generateSingleImage(poseId));
+        const generationPromises = selectedPoses.map(poseId => generateSingleImage(poseId, 'batch'));
         await Promise.all(generationPromises);
 
         setIsComposing(false);
@@ -260,7 +291,7 @@ After satisfying the identity preservation rule, perform the following compositi
         if (!url) return;
         const link = document.createElement('a');
         link.href = url;
-        link.download = `tracquoc-ai-concept-${poseId}.png`;
+        link.download = `tracquoc-ai-concept-${poseId}.${imageFileExtension(url)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -319,6 +350,11 @@ After satisfying the identity preservation rule, perform the following compositi
                      <button onClick={handleFinalGeneration} disabled={isComposing || !extractedBackground || !extractedOutfit || selectedPoses.length === 0} className="w-full mt-4 flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105">
                         {generateButtonText()}
                     </button>
+                    {isComposing && (
+                        <button onClick={cancel} className="w-full flex items-center justify-center gap-2 text-neutral-200 font-bold py-2 px-6 rounded-lg bg-neutral-800/50 hover:bg-neutral-700/50 transition-colors">
+                            {t('common.stop')}
+                        </button>
+                    )}
                 </div>
             </div>
     
@@ -337,6 +373,7 @@ After satisfying the identity preservation rule, perform the following compositi
                                         imageUrl={imgState?.url ?? null}
                                         isLoading={!imgState || imgState.status === 'pending'}
                                         error={imgState?.error ?? null}
+                                        isCancelled={imgState?.status === 'cancelled'}
                                         onRetry={() => generateSingleImage(poseId)}
                                     />
                                     {imgState?.status === 'done' && imgState.url && (
@@ -350,6 +387,9 @@ After satisfying the identity preservation rule, perform the following compositi
                                             </svg>
                                         </button>
                                     )}
+                                    {imgState?.status === 'done' && imgState.url && (
+                                        <SendToMenu imageUrl={imgState.url} fromToolId="conceptStudio" className="absolute top-24 right-2 z-10 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity" />
+                                    )}
                                 </div>
                             );
                         })}
@@ -4,10 +4,18 @@
 */
 import React, { useState, DragEvent, ChangeEvent, useRef } from 'react';
 import { motion, useMotionValue, useSpring, useTransform } from 'framer-motion';
-import { generateDepthMap } from '../services/geminiService';
+import { generateDepthMap, getModelForOperation } from '../services/geminiService';
 import { cn } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import { PROCESSING_MODES, ProcessingMode, useBatchProcessor } from '../lib/useBatchProcessor';
+import BatchPanel, { BatchModeToggle } from './BatchPanel';
 
 const Uploader = ({ onImageUpload, isLoading }: { onImageUpload: (file: File) => void, isLoading: boolean }) => {
     const { t } = useLanguage();
@@ -70,11 +78,25 @@ const Uploader = ({ onImageUpload, isLoading }: { onImageUpload: (file: File) =>
 
 export default function DepthEffect({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [depthMapLayer, setDepthMapLayer] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [depthMapLayer, setDepthMapLayer] = useProjectState<string | null>('depthMapLayer', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [mode, setMode] = useRouteParam<ProcessingMode>('mode', 'single', PROCESSING_MODES);
+    // Batch mode exports the depth maps themselves, ready for a parallax or 3D tool.
+    const batch = useBatchProcessor(async (source, options) => {
+        const resultUrl = await generateDepthMap(source, options);
+        addImageToLibrary(resultUrl, {
+            toolId: 'depthEffect',
+            operation: 'generateDepthMap',
+            inputs: { source },
+            model: getModelForOperation('generateDepthMap'),
+        });
+        return resultUrl;
+    });
     
     const containerRef = useRef<HTMLDivElement>(null);
     const mouseX = useMotionValue(0.5);
@@ -105,28 +127,37 @@ export default function DepthEffect({ onBack }: { onBack: () => void }) {
     const fgX = useTransform(mouseXSpring, [0, 1], [-25, 25]);
     const fgY = useTransform(mouseYSpring, [0, 1], [-25, 25]);
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const imageDataUrl = reader.result as string;
-            setUploadedImage(imageDataUrl);
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setDepthMapLayer(null);
             setError(null);
-            handleGenerateDepthMap(imageDataUrl);
+            handleGenerateDepthMap(dataUrl);
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    useToolHandoff('depthEffect', {
+        source: handleImageUpload,
+    });
+
     const handleGenerateDepthMap = async (image: string) => {
         if (!image) return;
         setIsLoading(true);
         setError(null);
         setView('result');
         try {
-            const depthMap = await generateDepthMap(image);
+            const depthMap = await generateDepthMap(image, { signal: getSignal() });
             setDepthMapLayer(depthMap);
         } catch (err) {
-            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            if (isCancelledError(err)) return;
+            const message = getErrorMessage(err, t);
             setError(message);
             console.error(err);
         } finally {
@@ -135,6 +166,7 @@ export default function DepthEffect({ onBack }: { onBack: () => void }) {
     };
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setDepthMapLayer(null);
         setError(null);
@@ -258,7 +290,10 @@ export default function DepthEffect({ onBack }: { onBack: () => void }) {
                     <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('depthEffect.subtitle')}</p>
                 </div>
                 
-                {view === 'config' ? renderConfigView() : renderResultView()}
+                {view === 'config' && <BatchModeToggle mode={mode} onChange={setMode} disabled={batch.isRunning} />}
+                {mode === 'batch'
+                    ? <BatchPanel batch={batch} archiveName="tracquoc-ai-depth-maps" hint={t('depthEffect.batchHint')} />
+                    : view === 'config' ? renderConfigView() : renderResultView()}
 
             </motion.div>
         </main>
@@ -2,12 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, DragEvent, ChangeEvent } from 'react';
+import React, { useState, useRef, useEffect, DragEvent, ChangeEvent, PointerEvent as ReactPointerEvent } from 'react';
 import { motion } from 'framer-motion';
-import { swapFacesInImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { swapFacesInImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
 
 // Uploader Component
 const Uploader = ({ title, description, imageUrl, onImageUpload, onImageRemove, inputId }: { title: string, description: string, imageUrl: string | null, onImageUpload: (file: File) => void, onImageRemove: () => void, inputId: string }) => {
@@ -76,6 +82,117 @@ const Uploader = ({ title, description, imageUrl, onImageUpload, onImageRemove,
     );
 };
 
+// Lets the user paint over the face to replace when the target photo shows several people.
+// The strokes become a black-and-white mask at the image's full resolution.
+const FaceMaskEditor = ({ imageUrl, onMaskChange }: { imageUrl: string, onMaskChange: (maskDataUrl: string | null) => void }) => {
+    const { t } = useLanguage();
+    const imageRef = useRef<HTMLImageElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+    const [brushSize, setBrushSize] = useState(40);
+    const [hasMask, setHasMask] = useState(false);
+
+    const clearMask = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+        onMaskChange(null);
+    };
+
+    // A new target image invalidates whatever was painted on the previous one.
+    useEffect(() => {
+        clearMask();
+    }, [imageUrl]);
+
+    const handleImageLoad = () => {
+        const image = imageRef.current;
+        const canvas = canvasRef.current;
+        if (!image || !canvas) return;
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+    };
+
+    // Pointer position in canvas pixels, which are the image's natural pixels.
+    const getPoint = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const paintTo = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const point = getPoint(e);
+        const from = lastPointRef.current ?? point;
+        ctx.strokeStyle = 'white';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPointRef.current = point;
+    };
+
+    const handlePointerDown = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointRef.current = null;
+        paintTo(e);
+    };
+
+    const handlePointerMove = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+        if (lastPointRef.current) paintTo(e);
+    };
+
+    const handlePointerUp = () => {
+        const canvas = canvasRef.current;
+        lastPointRef.current = null;
+        if (!canvas) return;
+        const mask = document.createElement('canvas');
+        mask.width = canvas.width;
+        mask.height = canvas.height;
+        const ctx = mask.getContext('2d');
+        if (!ctx) return;
+        ctx.fillStyle = 'black';
+        ctx.fillRect(0, 0, mask.width, mask.height);
+        ctx.drawImage(canvas, 0, 0);
+        setHasMask(true);
+        onMaskChange(mask.toDataURL('image/png'));
+    };
+
+    return (
+        <div className="w-full max-w-3xl bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-6 shadow-lg flex flex-col items-center gap-4">
+            <div className="text-center">
+                <h3 className="font-bold text-2xl text-neutral-200 mb-1">{t('faceSwap.maskTitle')}</h3>
+                <p className="text-neutral-300 text-sm">{t('faceSwap.maskDesc')}</p>
+            </div>
+            <div className="relative max-w-full">
+                <img ref={imageRef} src={imageUrl} alt={t('faceSwap.targetImageTitle')} onLoad={handleImageLoad} className="max-h-[60vh] max-w-full object-contain rounded-md select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+            </div>
+            <div className="w-full flex items-center gap-4 flex-wrap">
+                <label htmlFor="face-mask-brush" className="text-sm text-neutral-300 whitespace-nowrap">{t('faceSwap.brushSize')}:</label>
+                <input id="face-mask-brush" type="range" min="10" max="120" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="flex-grow h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer" />
+                <button onClick={clearMask} disabled={!hasMask} className="text-sm font-semibold text-neutral-300 bg-neutral-700/50 px-3 py-1 rounded-md hover:bg-neutral-700 disabled:opacity-50">
+                    {t('faceSwap.clearMask')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
 // ImageViewer for the result page
 const ImageViewer = ({ title, imageUrl, children }: { title: string, imageUrl: string | null, children?: React.ReactNode }) => {
     return (
@@ -92,23 +209,43 @@ const ImageViewer = ({ title, imageUrl, children }: { title: string, imageUrl: s
 // Main component
 export default function FaceSwap({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [sourceFaceImage, setSourceFaceImage] = useState<string | null>(null);
-    const [targetImage, setTargetImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [sourceFaceImage, setSourceFaceImage] = useProjectState<string | null>('sourceFaceImage', null);
+    const [targetImage, setTargetImage] = useProjectState<string | null>('targetImage', null);
+    const [faceMask, setFaceMask] = useProjectState<string | null>('faceMask', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [refinePrompt, setRefinePrompt] = useState('');
+    const [refinePrompt, setRefinePrompt] = useProjectState('refinePrompt', '');
 
 
-    const handleImageUpload = (file: File, setImage: (dataUrl: string) => void) => {
+    const handleImageUpload = (fileOrDataUrl: File | string, setImage: (dataUrl: string) => void) => {
+        if (typeof fileOrDataUrl === 'string') {
+            setImage(fileOrDataUrl);
+            return;
+        }
         const reader = new FileReader();
         reader.onloadend = () => {
             setImage(reader.result as string);
         };
-        reader.readAsDataURL(file);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    // A library image fills the face slot first, then the target slot.
+    useEffect(() => {
+        if (selectedImageForTool && view === 'config') {
+            handleImageUpload(selectedImageForTool, sourceFaceImage ? setTargetImage : setSourceFaceImage);
+            clearSelectedImageForTool();
+        }
+    }, [selectedImageForTool, clearSelectedImageForTool, view, sourceFaceImage]);
+
+    useToolHandoff('faceSwap', {
+        face: setSourceFaceImage,
+        target: (imageUrl) => { setTargetImage(imageUrl); setFaceMask(null); },
+    });
+
     const handleGenerate = async (instructions?: string) => {
         if (!sourceFaceImage || !targetImage) return;
 
@@ -120,10 +257,18 @@ export default function FaceSwap({ onBack }: { onBack: () => void }) {
         try {
             // sourceImageDataUrl is the image to modify (our targetImage)
             // targetFaceDataUrl is the image with the face to use (our sourceFaceImage)
-            const resultUrl = await swapFacesInImage(targetImage, sourceFaceImage, undefined, instructions);
+            const resultUrl = await swapFacesInImage(targetImage, sourceFaceImage, faceMask ?? undefined, instructions, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'faceSwap',
+                operation: 'swapFacesInImage',
+                instructions: instructions?.trim() || undefined,
+                inputs: { target: targetImage, face: sourceFaceImage },
+                model: getModelForOperation('swapFacesInImage'),
+            });
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -134,15 +279,17 @@ export default function FaceSwap({ onBack }: { onBack: () => void }) {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-faceswap.png';
+        link.download = `tracquoc-ai-faceswap.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
     };
 
     const handleStartOver = () => {
+        cancel();
         setSourceFaceImage(null);
         setTargetImage(null);
+        setFaceMask(null);
         setGeneratedImage(null);
         setError(null);
         setRefinePrompt('');
@@ -167,10 +314,11 @@ export default function FaceSwap({ onBack }: { onBack: () => void }) {
                     description={t('faceSwap.targetImageDesc')}
                     imageUrl={targetImage}
                     onImageUpload={(file) => handleImageUpload(file, setTargetImage)}
-                    onImageRemove={() => setTargetImage(null)}
+                    onImageRemove={() => { setTargetImage(null); setFaceMask(null); }}
                     inputId="target-image-upload"
                 />
             </div>
+            {targetImage && <FaceMaskEditor imageUrl={targetImage} onMaskChange={setFaceMask} />}
              <button
                 onClick={() => handleGenerate()}
                 disabled={isGenerateDisabled}
@@ -205,6 +353,7 @@ export default function FaceSwap({ onBack }: { onBack: () => void }) {
                              </div>
                         )}
                         {generatedImage && <img src={generatedImage} alt="Face swap result" className="w-full h-full object-contain" />}
+                        {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="faceSwap" className="absolute top-2 right-2 z-10" />}
                     </div>
                 </div>
             </div>
@@ -5,18 +5,26 @@
 import React, { useState, useRef, useEffect, useCallback, ChangeEvent, DragEvent, MouseEvent as ReactMouseEvent, TouchEvent as ReactTouchEvent } from 'react';
 import { motion } from 'framer-motion';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
-import { fillMaskedImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { fillMaskedImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
 
 export default function Inpainter({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [prompt, setPrompt] = useState('');
-    const [submittedPrompt, setSubmittedPrompt] = useState('');
-    const [refinePrompt, setRefinePrompt] = useState('');
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [prompt, setPrompt] = useProjectState('prompt', '');
+    const [submittedPrompt, setSubmittedPrompt] = useProjectState('submittedPrompt', '');
+    const [refinePrompt, setRefinePrompt] = useProjectState('refinePrompt', '');
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -29,17 +37,34 @@ export default function Inpainter({ onBack }: { onBack: () => void }) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            setUploadedImage(reader.result as string);
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImage(null);
             setError(null);
             clearCanvas();
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    // Listen for an image selection from the global media library
+    useEffect(() => {
+        if (selectedImageForTool && view === 'config') {
+            handleImageUpload(selectedImageForTool);
+            clearSelectedImageForTool();
+        }
+    }, [selectedImageForTool, clearSelectedImageForTool, view]);
+
+    useToolHandoff('inpainter', {
+        source: handleImageUpload,
+    }, setPrompt);
+
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             handleImageUpload(e.target.files[0]);
@@ -209,11 +234,20 @@ export default function Inpainter({ onBack }: { onBack: () => void }) {
                 throw new Error("Could not process image mask.");
             }
             
-            const resultUrl = await fillMaskedImage(submittedPrompt, maskedImageDataUrl, instructions);
+            const resultUrl = await fillMaskedImage(submittedPrompt, maskedImageDataUrl, instructions, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'inpainter',
+                operation: 'fillMaskedImage',
+                prompt: submittedPrompt,
+                instructions: instructions?.trim() || undefined,
+                inputs: { source: uploadedImage },
+                model: getModelForOperation('fillMaskedImage'),
+            });
 
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -227,6 +261,7 @@ export default function Inpainter({ onBack }: { onBack: () => void }) {
     }
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setError(null);
@@ -240,7 +275,7 @@ export default function Inpainter({ onBack }: { onBack: () => void }) {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-inpainted.png';
+        link.download = `tracquoc-ai-inpainted.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -341,6 +376,7 @@ export default function Inpainter({ onBack }: { onBack: () => void }) {
                         {generatedImage && !isLoading && (
                             <img src={generatedImage} alt="Generated result" className="w-full h-full object-contain" />
                         )}
+                        {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="inpainter" className="absolute top-2 right-2 z-10" />}
                     </div>
                 </div>
             </div>
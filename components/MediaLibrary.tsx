@@ -2,36 +2,361 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
+import React, { ChangeEvent, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useMediaLibrary } from '../contexts/MediaLibraryContext';
+import { useMediaLibrary, LibraryItem } from '../contexts/MediaLibraryContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { cn } from '../lib/utils';
+import { getTool } from '../lib/tools';
+import { collectTags, collectToolIds, DEFAULT_LIBRARY_FILTERS, filterLibraryItems, LibraryFilters, LibrarySort } from '../lib/libraryFilters';
+import type { Album, StoredImage } from '../lib/mediaStore';
+import { buildLineage, findChildren, hasLineage, LineageNode } from '../lib/lineage';
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const DetailRow = ({ label, children }: { label: string, children: React.ReactNode }) => (
+    <div>
+        <dt className="text-xs uppercase tracking-wide text-neutral-500">{label}</dt>
+        <dd className="text-sm text-neutral-200 break-words">{children}</dd>
+    </div>
+);
+
+const inputClasses = "bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-sm text-neutral-200";
+
+const toolTitle = (t: (key: string) => string, toolId: string) => {
+    const key = getTool(toolId)?.titleKey;
+    return key ? t(key) : toolId;
+};
+
+const StarRating = ({ value, onChange }: { value: number, onChange: (value: number | undefined) => void }) => (
+    <div className="flex gap-1">
+        {[1, 2, 3, 4, 5].map(star => (
+            <button
+                key={star}
+                // Clicking the current rating again clears it.
+                onClick={() => onChange(star === value ? undefined : star)}
+                className={cn('text-lg leading-none transition-colors', star <= value ? 'text-yellow-400' : 'text-neutral-600 hover:text-neutral-400')}
+                aria-label={`${star}`}
+            >
+                ★
+            </button>
+        ))}
+    </div>
+);
+
+const TagEditor = ({ tags, onChange }: { tags: string[], onChange: (tags: string[]) => void }) => {
+    const { t } = useLanguage();
+    const [draft, setDraft] = useState('');
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = draft.trim().toLowerCase();
+        if (tag && !tags.includes(tag)) {
+            onChange([...tags, tag]);
+        }
+        setDraft('');
+    };
+
+    return (
+        <div className="flex flex-col gap-2 mt-1">
+            {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 bg-neutral-800 rounded-full px-2 py-0.5 text-xs">
+                            {tag}
+                            <button onClick={() => onChange(tags.filter(existing => existing !== tag))} className="text-neutral-500 hover:text-white">&times;</button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            <form onSubmit={handleAdd}>
+                <input value={draft} onChange={(e) => setDraft(e.target.value)} placeholder={t('mediaLibrary.addTagPlaceholder')} className={cn(inputClasses, 'w-full')} />
+            </form>
+        </div>
+    );
+};
+
+const LibraryToolbar = ({ filters, onChange, albums, tags, toolIds, onCreateAlbum, onRenameAlbum, onDeleteAlbum }: {
+    filters: LibraryFilters,
+    onChange: (filters: LibraryFilters) => void,
+    albums: Album[],
+    tags: string[],
+    toolIds: string[],
+    onCreateAlbum: () => void,
+    onRenameAlbum: (id: string) => void,
+    onDeleteAlbum: (id: string) => void,
+}) => {
+    const { t } = useLanguage();
+    const update = (patch: Partial<LibraryFilters>) => onChange({ ...filters, ...patch });
+
+    return (
+        <div className="p-4 border-b border-neutral-800 flex flex-col gap-3 flex-shrink-0">
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    onClick={() => update({ albumId: null })}
+                    className={cn('text-sm px-3 py-1 rounded-full transition-colors', !filters.albumId ? 'bg-neutral-200 text-black font-semibold' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700')}
+                >
+                    {t('mediaLibrary.allImages')}
+                </button>
+                {albums.map(album => (
+                    <button
+                        key={album.id}
+                        onClick={() => update({ albumId: album.id })}
+                        className={cn('text-sm px-3 py-1 rounded-full transition-colors', filters.albumId === album.id ? 'bg-neutral-200 text-black font-semibold' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700')}
+                    >
+                        {album.name}
+                    </button>
+                ))}
+                <button onClick={onCreateAlbum} className="text-sm px-3 py-1 rounded-full border border-dashed border-neutral-600 text-neutral-400 hover:text-white hover:border-neutral-400">
+                    + {t('mediaLibrary.newAlbum')}
+                </button>
+                {filters.albumId && (
+                    <>
+                        <button onClick={() => onRenameAlbum(filters.albumId!)} className="text-xs text-neutral-400 hover:text-white">{t('mediaLibrary.renameAlbum')}</button>
+                        <button onClick={() => onDeleteAlbum(filters.albumId!)} className="text-xs text-neutral-400 hover:text-red-400">{t('mediaLibrary.deleteAlbum')}</button>
+                    </>
+                )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <input type="search" value={filters.search} onChange={(e) => update({ search: e.target.value })} placeholder={t('mediaLibrary.searchPlaceholder')} className={cn(inputClasses, 'flex-grow min-w-[12rem]')} />
+                <select value={filters.toolId ?? ''} onChange={(e) => update({ toolId: e.target.value || null })} className={inputClasses}>
+                    <option value="">{t('mediaLibrary.allTools')}</option>
+                    {toolIds.map(toolId => <option key={toolId} value={toolId}>{toolTitle(t, toolId)}</option>)}
+                </select>
+                <select value={filters.tag ?? ''} onChange={(e) => update({ tag: e.target.value || null })} className={inputClasses}>
+                    <option value="">{t('mediaLibrary.allTags')}</option>
+                    {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                </select>
+                <input type="date" value={filters.dateFrom} onChange={(e) => update({ dateFrom: e.target.value })} className={inputClasses} aria-label={t('mediaLibrary.dateFrom')} title={t('mediaLibrary.dateFrom')} />
+                <input type="date" value={filters.dateTo} onChange={(e) => update({ dateTo: e.target.value })} className={inputClasses} aria-label={t('mediaLibrary.dateTo')} title={t('mediaLibrary.dateTo')} />
+                <label className="flex items-center gap-1 text-sm text-neutral-300">
+                    <input type="checkbox" checked={filters.favoritesOnly} onChange={(e) => update({ favoritesOnly: e.target.checked })} />
+                    {t('mediaLibrary.favoritesOnly')}
+                </label>
+                <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as LibrarySort })} className={inputClasses} aria-label={t('mediaLibrary.sortBy')}>
+                    <option value="newest">{t('mediaLibrary.sort.newest')}</option>
+                    <option value="oldest">{t('mediaLibrary.sort.oldest')}</option>
+                    <option value="rating">{t('mediaLibrary.sort.rating')}</option>
+                    <option value="largest">{t('mediaLibrary.sort.largest')}</option>
+                </select>
+            </div>
+        </div>
+    );
+};
+
+type LineageHandlers = { onSelect: (item: LibraryItem) => void, onRerun: (item: LibraryItem) => void };
+
+const LineageCard: React.FC<{ node: LineageNode<LibraryItem>, isSelected: boolean } & LineageHandlers> = ({ node, isSelected, onSelect, onRerun }) => {
+    const { t } = useLanguage();
+    const provenance = node.item.provenance;
+    return (
+        <div className={cn('w-48 flex-shrink-0 flex flex-col bg-neutral-800/60 rounded-lg border transition-colors', isSelected ? 'border-neutral-200' : 'border-neutral-700 hover:border-neutral-500')}>
+            <button onClick={() => onSelect(node.item)} className="flex gap-2 items-start text-left p-2">
+                <img src={node.item.thumbnailUrl} className="w-14 h-14 rounded object-cover flex-shrink-0" alt={node.role ?? t('mediaLibrary.lineage')} />
+                <div className="min-w-0 text-xs flex flex-col gap-0.5">
+                    <span className="font-semibold text-neutral-200 truncate">{provenance ? toolTitle(t, provenance.toolId) : t('mediaLibrary.unknownSource')}</span>
+                    {provenance?.operation && <span className="font-mono text-neutral-400 truncate">{provenance.operation}</span>}
+                    {node.role && <span className="text-neutral-500 capitalize">{t('mediaLibrary.usedAs', node.role)}</span>}
+                    {provenance?.prompt && <span className="text-neutral-400 line-clamp-2">{provenance.prompt}</span>}
+                </div>
+            </button>
+            {provenance && getTool(provenance.toolId) && (
+                <button onClick={() => onRerun(node.item)} className="text-xs font-semibold text-neutral-300 border-t border-neutral-700 py-1 hover:bg-neutral-700/50 hover:text-white rounded-b-lg">
+                    {t('mediaLibrary.rerunStep')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+// Draws an image with everything that went into it to its left, recursively.
+const LineageBranch: React.FC<{ node: LineageNode<LibraryItem>, selectedId: string | null } & LineageHandlers> = ({ node, selectedId, onSelect, onRerun }) => {
+    const { t } = useLanguage();
+    const hasInputs = node.parents.length > 0 || node.untrackedInputs.length > 0;
+    return (
+        <div className="flex items-center gap-3">
+            {hasInputs && (
+                <>
+                    <div className="flex flex-col gap-3 border-r border-neutral-700 pr-3">
+                        {node.parents.map(parent => <LineageBranch key={`${parent.role}-${parent.item.id}`} node={parent} selectedId={selectedId} onSelect={onSelect} onRerun={onRerun} />)}
+                        {node.untrackedInputs.map((role, index) => (
+                            <span key={`${role}-${index}`} className="w-48 text-xs text-neutral-500 border border-dashed border-neutral-700 rounded-lg p-2 capitalize">
+                                {t('mediaLibrary.untrackedInput', role)}
+                            </span>
+                        ))}
+                    </div>
+                    <span className="text-neutral-500">→</span>
+                </>
+            )}
+            <LineageCard node={node} isSelected={node.item.id === selectedId} onSelect={onSelect} onRerun={onRerun} />
+        </div>
+    );
+};
+
+const LineageView = ({ item, items, selectedId, onSelect, onRerun, onClose }: { item: LibraryItem, items: LibraryItem[], selectedId: string | null, onClose: () => void } & LineageHandlers) => {
+    const { t } = useLanguage();
+    const lineage = useMemo(() => buildLineage(item, items), [item, items]);
+    const children = useMemo(() => findChildren(item.id, items), [item, items]);
+
+    return (
+        <div className="flex flex-col gap-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold text-neutral-100">{t('mediaLibrary.lineage')}</h3>
+                <button onClick={onClose} className="text-sm font-semibold text-neutral-300 bg-neutral-700/50 px-3 py-1 rounded-md hover:bg-neutral-700">
+                    {t('mediaLibrary.backToLibrary')}
+                </button>
+            </div>
+            <div className="overflow-x-auto pb-2">
+                <LineageBranch node={lineage} selectedId={selectedId} onSelect={onSelect} onRerun={onRerun} />
+            </div>
+            {children.length > 0 && (
+                <div>
+                    <h4 className="text-xs uppercase tracking-wide text-neutral-500 mb-2">{t('mediaLibrary.lineageChildren')}</h4>
+                    <div className="flex flex-wrap gap-3">
+                        {children.map(child => (
+                            <LineageCard key={child.id} node={{ item: child, parents: [], untrackedInputs: [] }} isSelected={child.id === selectedId} onSelect={onSelect} onRerun={onRerun} />
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ItemDetails = ({ item, items, albums, onUpdate, onShowItem, onShowLineage, onUse, onClose }: { item: LibraryItem, items: LibraryItem[], albums: Album[], onUpdate: (patch: Partial<StoredImage>) => void, onShowItem: (item: LibraryItem) => void, onShowLineage: () => void, onUse: () => void, onClose: () => void }) => {
+    const { t } = useLanguage();
+    const provenance = item.provenance;
+
+    const toggleAlbum = (albumId: string) => {
+        const albumIds = item.albumIds ?? [];
+        onUpdate({ albumIds: albumIds.includes(albumId) ? albumIds.filter(id => id !== albumId) : [...albumIds, albumId] });
+    };
+
+    return (
+        <aside className="w-full md:w-80 flex-shrink-0 border-t md:border-t-0 md:border-l border-neutral-800 p-4 overflow-y-auto flex flex-col gap-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-bold text-neutral-100">{t('mediaLibrary.details')}</h3>
+                <button onClick={onClose} className="text-neutral-500 hover:text-white" aria-label={t('mediaLibrary.closeDetails')}>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+            <img src={item.url} className="w-full rounded-lg bg-black/20 object-contain max-h-64" alt={t('mediaLibrary.details')} />
+            <button onClick={onUse} className="w-full text-black font-bold py-2 px-4 rounded-lg bg-neutral-200 hover:bg-white transition-colors">
+                {t('mediaLibrary.useInTool')}
+            </button>
+            {hasLineage(item, items) && (
+                <button onClick={onShowLineage} className="w-full text-sm font-semibold text-neutral-300 bg-neutral-800 py-2 px-4 rounded-lg hover:bg-neutral-700 transition-colors">
+                    {t('mediaLibrary.showLineage')}
+                </button>
+            )}
+            <div className="flex items-center justify-between">
+                <StarRating value={item.rating ?? 0} onChange={(rating) => onUpdate({ rating })} />
+                <button
+                    onClick={() => onUpdate({ favorite: !item.favorite })}
+                    className={cn('text-sm font-semibold px-3 py-1 rounded-md transition-colors', item.favorite ? 'bg-red-500/20 text-red-300' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700')}
+                >
+                    {item.favorite ? '♥' : '♡'} {t('mediaLibrary.favorite')}
+                </button>
+            </div>
+            <dl className="flex flex-col gap-3">
+                <DetailRow label={t('mediaLibrary.tags')}>
+                    <TagEditor tags={item.tags ?? []} onChange={(tags) => onUpdate({ tags })} />
+                </DetailRow>
+                {albums.length > 0 && (
+                    <DetailRow label={t('mediaLibrary.albums')}>
+                        <div className="flex flex-col gap-1 mt-1">
+                            {albums.map(album => (
+                                <label key={album.id} className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" checked={item.albumIds?.includes(album.id) ?? false} onChange={() => toggleAlbum(album.id)} />
+                                    {album.name}
+                                </label>
+                            ))}
+                        </div>
+                    </DetailRow>
+                )}
+                <DetailRow label={t('mediaLibrary.tool')}>{provenance ? toolTitle(t, provenance.toolId) : t('mediaLibrary.unknownSource')}</DetailRow>
+                {provenance?.operation && <DetailRow label={t('mediaLibrary.operation')}><span className="font-mono text-xs">{provenance.operation}</span></DetailRow>}
+                <DetailRow label={t('mediaLibrary.createdAt')}>{new Date(item.createdAt).toLocaleString()}</DetailRow>
+                {item.width && item.height && <DetailRow label={t('mediaLibrary.dimensions')}>{item.width} × {item.height}</DetailRow>}
+                <DetailRow label={t('mediaLibrary.fileSize')}>{formatBytes(item.size)}</DetailRow>
+                {provenance?.model && <DetailRow label={t('mediaLibrary.model')}><span className="font-mono text-xs">{provenance.model}</span></DetailRow>}
+                {provenance?.prompt && <DetailRow label={t('mediaLibrary.prompt')}>{provenance.prompt}</DetailRow>}
+                {provenance?.instructions && <DetailRow label={t('mediaLibrary.instructions')}>{provenance.instructions}</DetailRow>}
+                {provenance && provenance.inputs.length > 0 && (
+                    <DetailRow label={t('mediaLibrary.inputs')}>
+                        <ul className="flex flex-col gap-1 mt-1">
+                            {provenance.inputs.map((input, index) => {
+                                const source = input.libraryId ? items.find(candidate => candidate.id === input.libraryId) : undefined;
+                                return (
+                                    <li key={index} className="flex items-center gap-2">
+                                        {source ? (
+                                            <button onClick={() => onShowItem(source)} className="flex items-center gap-2 hover:text-white">
+                                                <img src={source.thumbnailUrl} className="w-8 h-8 rounded object-cover" alt={input.role} />
+                                                <span className="capitalize underline">{input.role}</span>
+                                            </button>
+                                        ) : (
+                                            <span className="capitalize text-neutral-400">{input.role}</span>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </DetailRow>
+                )}
+            </dl>
+        </aside>
+    );
+};
 
 export default function MediaLibrary() {
     const { t } = useLanguage();
-    const { libraryImages, removeImagesFromLibrary, clearLibrary, selectImageForTool } = useMediaLibrary();
+    const { libraryItems, updateLibraryItems, removeImagesFromLibrary, clearLibrary, selectImageForTool, rerunInTool, albums, createAlbum, renameAlbum, deleteAlbum, exportLibrary, importLibrary, storageEstimate, storageError } = useMediaLibrary();
     const [isOpen, setIsOpen] = useState(false);
     const [selectionMode, setSelectionMode] = useState(false);
     const [selectedImages, setSelectedImages] = useState<string[]>([]);
+    const [detailItemId, setDetailItemId] = useState<string | null>(null);
+    const detailItem = libraryItems.find(item => item.id === detailItemId) ?? null;
+    const [lineageItemId, setLineageItemId] = useState<string | null>(null);
+    const lineageItem = libraryItems.find(item => item.id === lineageItemId) ?? null;
+    const [filters, setFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+    const [isTransferring, setIsTransferring] = useState(false);
 
-    const toggleImageSelection = (imageUrl: string) => {
+    const visibleItems = useMemo(() => filterLibraryItems(libraryItems, filters), [libraryItems, filters]);
+    const tags = useMemo(() => collectTags(libraryItems), [libraryItems]);
+    const toolIds = useMemo(() => collectToolIds(libraryItems), [libraryItems]);
+
+    const toggleImageSelection = (id: string) => {
         setSelectedImages(prev =>
-            prev.includes(imageUrl)
-                ? prev.filter(img => img !== imageUrl)
-                : [...prev, imageUrl]
+            prev.includes(id)
+                ? prev.filter(selectedId => selectedId !== id)
+                : [...prev, id]
         );
     };
 
-    const handleImageClick = (imageUrl: string) => {
+    const handleImageClick = (item: LibraryItem) => {
         if (selectionMode) {
-            toggleImageSelection(imageUrl);
+            toggleImageSelection(item.id);
         } else {
-            selectImageForTool(imageUrl);
-            setIsOpen(false);
+            setDetailItemId(item.id);
         }
     };
 
+    const handleUseInTool = (item: LibraryItem) => {
+        selectImageForTool(item);
+        setDetailItemId(null);
+        setIsOpen(false);
+    };
+
+    const handleRerun = (item: LibraryItem) => {
+        rerunInTool(item).catch(error => console.error("Failed to open the step in its tool", error));
+        setDetailItemId(null);
+        setIsOpen(false);
+    };
+
     const handleDeleteSelected = () => {
         if (window.confirm(t('mediaLibrary.confirmDeleteSelected'))) {
             removeImagesFromLibrary(selectedImages);
@@ -48,6 +373,75 @@ export default function MediaLibrary() {
         }
     };
 
+    const handleCreateAlbum = async () => {
+        const name = window.prompt(t('mediaLibrary.albumNamePrompt'))?.trim();
+        if (!name) return;
+        try {
+            const album = await createAlbum(name);
+            setFilters(prev => ({ ...prev, albumId: album.id }));
+        } catch (error) {
+            console.error("Failed to create album", error);
+        }
+    };
+
+    const handleRenameAlbum = (id: string) => {
+        const album = albums.find(candidate => candidate.id === id);
+        const name = window.prompt(t('mediaLibrary.albumNamePrompt'), album?.name)?.trim();
+        if (name) {
+            renameAlbum(id, name);
+        }
+    };
+
+    const handleDeleteAlbum = (id: string) => {
+        if (window.confirm(t('mediaLibrary.confirmDeleteAlbum'))) {
+            deleteAlbum(id);
+            setFilters(prev => ({ ...prev, albumId: null }));
+        }
+    };
+
+    const handleAddSelectedToAlbum = (albumId: string) => {
+        updateLibraryItems(selectedImages, item => ({
+            albumIds: item.albumIds?.includes(albumId) ? item.albumIds : [...(item.albumIds ?? []), albumId],
+        }));
+        setSelectedImages([]);
+        setSelectionMode(false);
+    };
+
+    const handleExport = async () => {
+        setIsTransferring(true);
+        try {
+            const bundle = await exportLibrary();
+            const url = URL.createObjectURL(bundle);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `tracquoc-ai-library-${new Date().toISOString().slice(0, 10)}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error("Failed to export the media library", error);
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsTransferring(true);
+        try {
+            const { added, skipped } = await importLibrary(file);
+            window.alert(t('mediaLibrary.importResult', added, skipped));
+        } catch (error) {
+            console.error("Failed to import the media library", error);
+            window.alert(t('mediaLibrary.importFailed'));
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
     const toggleSelectionMode = () => {
         setSelectionMode(!selectionMode);
         setSelectedImages([]);
@@ -86,17 +480,45 @@ export default function MediaLibrary() {
                         >
                             {/* Header */}
                             <header className="p-4 border-b border-neutral-800 flex justify-between items-center flex-shrink-0">
-                                <h2 className="text-2xl font-bold text-neutral-100">{t('mediaLibrary.title')}</h2>
+                                <div>
+                                    <h2 className="text-2xl font-bold text-neutral-100">{t('mediaLibrary.title')}</h2>
+                                    {storageEstimate && (
+                                        <div className="flex items-center gap-2 mt-1">
+                                            <div className="w-32 h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+                                                <div className="h-full bg-neutral-300" style={{ width: `${storageEstimate.quota ? Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100) : 0}%` }} />
+                                            </div>
+                                            <span className="text-xs text-neutral-500">{t('mediaLibrary.storageUsage', formatBytes(storageEstimate.usage), formatBytes(storageEstimate.quota))}</span>
+                                        </div>
+                                    )}
+                                    {storageError && <p className="text-xs text-red-400 mt-1">{t('mediaLibrary.storageError')}</p>}
+                                </div>
                                 <div className="flex items-center gap-4">
+                                    {!selectionMode && (
+                                        <>
+                                            <button onClick={handleExport} disabled={isTransferring || libraryItems.length === 0} className="text-sm font-semibold text-neutral-300 hover:text-white disabled:opacity-50">
+                                                {t('mediaLibrary.exportLibrary')}
+                                            </button>
+                                            <label htmlFor="library-import" className={cn("text-sm font-semibold text-neutral-300 hover:text-white cursor-pointer", isTransferring && "opacity-50 pointer-events-none")}>
+                                                {t('mediaLibrary.importLibrary')}
+                                            </label>
+                                            <input id="library-import" type="file" className="hidden" accept=".zip,application/zip" onChange={handleImport} disabled={isTransferring} />
+                                        </>
+                                    )}
                                     <button onClick={toggleSelectionMode} className="text-sm font-semibold text-neutral-300 bg-neutral-700/50 px-3 py-1 rounded-md hover:bg-neutral-700">
                                         {selectionMode ? t('mediaLibrary.cancel') : t('mediaLibrary.select')}
                                     </button>
+                                    {selectionMode && albums.length > 0 && (
+                                        <select value="" onChange={(e) => e.target.value && handleAddSelectedToAlbum(e.target.value)} disabled={selectedImages.length === 0} className={cn(inputClasses, 'disabled:opacity-50')}>
+                                            <option value="">{t('mediaLibrary.addToAlbum')}</option>
+                                            {albums.map(album => <option key={album.id} value={album.id}>{album.name}</option>)}
+                                        </select>
+                                    )}
                                     {selectionMode ? (
                                         <button onClick={handleDeleteSelected} disabled={selectedImages.length === 0} className="text-sm font-semibold text-white bg-red-600 px-3 py-1 rounded-md hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed">
                                             {t('mediaLibrary.deleteSelected')} ({selectedImages.length})
                                         </button>
                                     ) : (
-                                        <button onClick={handleDeleteAll} disabled={libraryImages.length === 0} className="text-sm font-semibold text-neutral-300 hover:text-red-400 disabled:opacity-50">
+                                        <button onClick={handleDeleteAll} disabled={libraryItems.length === 0} className="text-sm font-semibold text-neutral-300 hover:text-red-400 disabled:opacity-50">
                                             {t('mediaLibrary.deleteAll')}
                                         </button>
                                     )}
@@ -106,40 +528,82 @@ export default function MediaLibrary() {
                                 </div>
                             </header>
 
+                            {libraryItems.length > 0 && (
+                                <LibraryToolbar
+                                    filters={filters}
+                                    onChange={setFilters}
+                                    albums={albums}
+                                    tags={tags}
+                                    toolIds={toolIds}
+                                    onCreateAlbum={handleCreateAlbum}
+                                    onRenameAlbum={handleRenameAlbum}
+                                    onDeleteAlbum={handleDeleteAlbum}
+                                />
+                            )}
+
                             {/* Body */}
-                            <div className="flex-grow p-4 overflow-y-auto">
-                                {libraryImages.length === 0 ? (
-                                    <div className="flex items-center justify-center h-full text-center text-neutral-500">
-                                        <p>{t('mediaLibrary.emptyMessage')}</p>
-                                    </div>
-                                ) : (
-                                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
-                                        {libraryImages.map((imgUrl) => (
-                                            <div
-                                                key={imgUrl}
-                                                onClick={() => handleImageClick(imgUrl)}
-                                                className={cn(
-                                                    "relative group aspect-square rounded-lg overflow-hidden cursor-pointer transition-all duration-200",
-                                                    selectionMode ? "ring-2 ring-offset-2 ring-offset-neutral-900" : "hover:scale-105",
-                                                    selectedImages.includes(imgUrl) ? "ring-neutral-200" : "ring-transparent"
-                                                )}
-                                            >
-                                                <img src={imgUrl} className="w-full h-full object-cover" alt={`Library image`} />
-                                                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity" />
-                                                {selectionMode && (
-                                                    <div className="absolute top-2 right-2 w-6 h-6 rounded-full border-2 border-white flex items-center justify-center bg-black/50">
-                                                        {selectedImages.includes(imgUrl) && (
-                                                            <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }}>
-                                                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
-                                                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                                                </svg>
-                                                            </motion.div>
-                                                        )}
-                                                    </div>
-                                                )}
-                                            </div>
-                                        ))}
-                                    </div>
+                            <div className="flex-grow flex flex-col md:flex-row min-h-0">
+                                <div className="flex-grow p-4 overflow-y-auto">
+                                    {lineageItem && !selectionMode ? (
+                                        <LineageView
+                                            item={lineageItem}
+                                            items={libraryItems}
+                                            selectedId={detailItemId}
+                                            onSelect={(item) => setDetailItemId(item.id)}
+                                            onRerun={handleRerun}
+                                            onClose={() => setLineageItemId(null)}
+                                        />
+                                    ) : libraryItems.length === 0 || visibleItems.length === 0 ? (
+                                        <div className="flex items-center justify-center h-full text-center text-neutral-500">
+                                            <p>{libraryItems.length === 0 ? t('mediaLibrary.emptyMessage') : t('mediaLibrary.noMatches')}</p>
+                                        </div>
+                                    ) : (
+                                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+                                            {visibleItems.map((item) => (
+                                                <div
+                                                    key={item.id}
+                                                    onClick={() => handleImageClick(item)}
+                                                    className={cn(
+                                                        "relative group aspect-square rounded-lg overflow-hidden cursor-pointer transition-all duration-200",
+                                                        selectionMode ? "ring-2 ring-offset-2 ring-offset-neutral-900" : "hover:scale-105",
+                                                        selectedImages.includes(item.id) || (!selectionMode && detailItemId === item.id) ? "ring-2 ring-offset-2 ring-offset-neutral-900 ring-neutral-200" : "ring-transparent"
+                                                    )}
+                                                >
+                                                    <img src={item.thumbnailUrl} className="w-full h-full object-cover" alt={`Library image`} loading="lazy" />
+                                                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                                    {(item.favorite || item.rating) && !selectionMode && (
+                                                        <div className="absolute bottom-1 left-1 flex items-center gap-1 bg-black/60 rounded-full px-2 py-0.5 text-xs">
+                                                            {item.favorite && <span className="text-red-400">♥</span>}
+                                                            {item.rating && <span className="text-yellow-400">{'★'.repeat(item.rating)}</span>}
+                                                        </div>
+                                                    )}
+                                                    {selectionMode && (
+                                                        <div className="absolute top-2 right-2 w-6 h-6 rounded-full border-2 border-white flex items-center justify-center bg-black/50">
+                                                            {selectedImages.includes(item.id) && (
+                                                                <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }}>
+                                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+                                                                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                                                    </svg>
+                                                                </motion.div>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                                {detailItem && !selectionMode && (
+                                    <ItemDetails
+                                        item={detailItem}
+                                        items={libraryItems}
+                                        albums={albums}
+                                        onUpdate={(patch) => updateLibraryItems([detailItem.id], () => patch)}
+                                        onShowItem={(item) => setDetailItemId(item.id)}
+                                        onShowLineage={() => setLineageItemId(detailItem.id)}
+                                        onUse={() => handleUseInTool(detailItem)}
+                                        onClose={() => setDetailItemId(null)}
+                                    />
                                 )}
                             </div>
                         </motion.div>
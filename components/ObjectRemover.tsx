@@ -5,17 +5,29 @@
 import React, { useState, useRef, useEffect, useCallback, ChangeEvent, DragEvent, MouseEvent as ReactMouseEvent, TouchEvent as ReactTouchEvent } from 'react';
 import { motion } from 'framer-motion';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
-import { removeObjectFromImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { removeObjectFromImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { useRouteParam } from '../lib/router';
+import { PROCESSING_MODES, ProcessingMode, useBatchProcessor } from '../lib/useBatchProcessor';
+import BatchPanel, { BatchModeToggle } from './BatchPanel';
 
 export default function ObjectRemover({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [mode, setMode] = useRouteParam<ProcessingMode>('mode', 'single', PROCESSING_MODES);
 
     const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
     const [brushSize, setBrushSize] = useState(40);
@@ -26,17 +38,34 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            setUploadedImage(reader.result as string);
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImage(null);
             setError(null);
             clearCanvas();
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    // Listen for an image selection from the global media library
+    useEffect(() => {
+        if (selectedImageForTool && view === 'config') {
+            handleImageUpload(selectedImageForTool);
+            clearSelectedImageForTool();
+        }
+    }, [selectedImageForTool, clearSelectedImageForTool, view]);
+
+    useToolHandoff('objectRemover', {
+        source: handleImageUpload,
+    });
+
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             handleImageUpload(e.target.files[0]);
@@ -160,11 +189,11 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
         }
     }, []);
 
-    const getMaskedImageDataUrl = useCallback(async (): Promise<string | null> => {
-        if (!uploadedImage) return null;
-        
+    // Cuts the painted mask out of an image. The mask is stretched to the image's size, so one
+    // painted on a sample can be applied to every image of a batch shot with the same framing.
+    const getMaskedImageDataUrl = useCallback(async (image: string): Promise<string> => {
         const originalImage = new Image();
-        originalImage.src = uploadedImage;
+        originalImage.src = image;
         await new Promise((resolve, reject) => {
              originalImage.onload = resolve;
              originalImage.onerror = reject;
@@ -184,7 +213,18 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
         }
         
         return tempCanvas.toDataURL('image/png');
-    }, [uploadedImage]);
+    }, []);
+
+    const batch = useBatchProcessor(async (source, options) => {
+        const resultUrl = await removeObjectFromImage(await getMaskedImageDataUrl(source), options);
+        addImageToLibrary(resultUrl, {
+            toolId: 'objectRemover',
+            operation: 'removeObjectFromImage',
+            inputs: { source },
+            model: getModelForOperation('removeObjectFromImage'),
+        });
+        return resultUrl;
+    });
 
     const handleRemove = async () => {
         if (!uploadedImage || !maskExists) return;
@@ -195,16 +235,19 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
         setView('result');
 
         try {
-            const maskedImageDataUrl = await getMaskedImageDataUrl();
-            if (!maskedImageDataUrl) {
-                throw new Error("Could not process image mask.");
-            }
-            
-            const resultUrl = await removeObjectFromImage(maskedImageDataUrl);
+            const maskedImageDataUrl = await getMaskedImageDataUrl(uploadedImage);
+            const resultUrl = await removeObjectFromImage(maskedImageDataUrl, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'objectRemover',
+                operation: 'removeObjectFromImage',
+                inputs: { source: uploadedImage },
+                model: getModelForOperation('removeObjectFromImage'),
+            });
 
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -212,6 +255,7 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
     };
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setError(null);
@@ -222,7 +266,7 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-removed.png';
+        link.download = `tracquoc-ai-removed.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -277,14 +321,20 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
                         <button onClick={clearCanvas} className="p-2 rounded-md bg-red-500/80 hover:bg-red-500 text-white transition-colors text-sm font-semibold flex items-center gap-2"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg> {t('objectRemover.clear')}</button>
                     </div>
                 </div>
-                <button
-                    onClick={handleRemove}
-                    disabled={isRemoveDisabled}
-                    className="w-full mt-auto flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105"
-                >
-                    {isLoading ? t('objectRemover.removing') : t('objectRemover.remove')}
-                </button>
+                {mode === 'single' && (
+                    <button
+                        onClick={handleRemove}
+                        disabled={isRemoveDisabled}
+                        className="w-full mt-auto flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105"
+                    >
+                        {isLoading ? t('objectRemover.removing') : t('objectRemover.remove')}
+                    </button>
+                )}
             </div>
+
+            {mode === 'batch' && (
+                <BatchPanel batch={batch} archiveName="tracquoc-ai-removed" startDisabled={!maskExists} hint={t('objectRemover.batchHint')} />
+            )}
         </div>
     );
 
@@ -311,6 +361,7 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
                         {generatedImage && !isLoading && (
                             <img src={generatedImage} alt="Generated result" className="w-full h-full object-contain" />
                         )}
+                        {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="objectRemover" className="absolute top-2 right-2 z-10" />}
                     </div>
                 </div>
             </div>
@@ -358,6 +409,7 @@ export default function ObjectRemover({ onBack }: { onBack: () => void }) {
                     <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('objectRemover.subtitle')}</p>
                 </div>
                 
+                {view === 'config' && <BatchModeToggle mode={mode} onChange={setMode} disabled={batch.isRunning} />}
                 {view === 'config' ? renderConfigView() : renderResultView()}
                 
             </motion.div>
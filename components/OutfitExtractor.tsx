@@ -4,11 +4,19 @@
 */
 import React, { useState, DragEvent, ChangeEvent, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { extractOutfitFromImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { extractOutfitFromImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
-import { useMediaLibrary } from '../contexts/MediaLibraryContext';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import { PROCESSING_MODES, ProcessingMode, useBatchProcessor } from '../lib/useBatchProcessor';
+import BatchPanel, { BatchModeToggle } from './BatchPanel';
 
 const Uploader = ({ onImageUpload }: { onImageUpload: (file: File) => void }) => {
     const { t } = useLanguage();
@@ -72,14 +80,26 @@ const ImageViewer = ({ title, imageUrl, children }: { title: string, imageUrl: s
 
 export default function OutfitExtractor({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
+    const { getSignal, cancel } = useGenerationController();
     const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool } = useMediaLibrary();
 
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [refinePrompt, setRefinePrompt] = useState('');
+    const [refinePrompt, setRefinePrompt] = useProjectState('refinePrompt', '');
+    const [mode, setMode] = useRouteParam<ProcessingMode>('mode', 'single', PROCESSING_MODES);
+    const batch = useBatchProcessor(async (source, options) => {
+        const resultUrl = await extractOutfitFromImage(source, undefined, options);
+        addImageToLibrary(resultUrl, {
+            toolId: 'outfitExtractor',
+            operation: 'extractOutfitFromImage',
+            inputs: { source },
+            model: getModelForOperation('extractOutfitFromImage'),
+        });
+        return resultUrl;
+    });
     
     // Listen for an image selection from the global media library
     useEffect(() => {
@@ -110,11 +130,15 @@ export default function OutfitExtractor({ onBack }: { onBack: () => void }) {
         reader.readAsDataURL(fileOrDataUrl);
     };
 
+    useToolHandoff('outfitExtractor', {
+        source: handleImageUpload,
+    });
+
     const handleDownload = () => {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-outfit.png';
+        link.download = `tracquoc-ai-outfit.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -126,11 +150,18 @@ export default function OutfitExtractor({ onBack }: { onBack: () => void }) {
         setError(null);
         setView('result');
         try {
-            const resultUrl = await extractOutfitFromImage(image, instructions);
+            const resultUrl = await extractOutfitFromImage(image, instructions, { signal: getSignal() });
             setGeneratedImage(resultUrl);
-            addImageToLibrary(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'outfitExtractor',
+                operation: 'extractOutfitFromImage',
+                instructions: instructions?.trim() || undefined,
+                inputs: { source: image },
+                model: getModelForOperation('extractOutfitFromImage'),
+            });
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -138,6 +169,7 @@ export default function OutfitExtractor({ onBack }: { onBack: () => void }) {
     };
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setError(null);
@@ -175,6 +207,7 @@ export default function OutfitExtractor({ onBack }: { onBack: () => void }) {
                              <button onClick={() => handleExtract(uploadedImage!, refinePrompt)} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button>
                          </div>
                     )}
+                    {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="outfitExtractor" className="absolute top-2 right-2 z-10" />}
                 </ImageViewer>
             </div>
 
@@ -253,7 +286,10 @@ export default function OutfitExtractor({ onBack }: { onBack: () => void }) {
                     <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('outfitExtractor.subtitle')}</p>
                 </div>
                 
-                {view === 'config' ? renderConfigView() : renderResultView()}
+                {view === 'config' && <BatchModeToggle mode={mode} onChange={setMode} disabled={batch.isRunning} />}
+                {mode === 'batch'
+                    ? <BatchPanel batch={batch} archiveName="tracquoc-ai-outfits" />
+                    : view === 'config' ? renderConfigView() : renderResultView()}
 
             </motion.div>
         </main>
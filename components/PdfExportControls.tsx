@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { BLEED_OPTIONS_MM, createPdf, PdfPage } from '../lib/pdfExport';
+import { cn, downloadBlob } from '../lib/utils';
+
+const chipButtonClasses = "text-xs text-center text-neutral-300 bg-neutral-800 border-2 border-transparent py-1 px-3 rounded-lg transition-all duration-200 hover:bg-neutral-700";
+const selectedChipButtonClasses = "bg-neutral-200 hover:bg-white border-neutral-200 text-black font-bold";
+const defaultButtonClasses = "font-bold text-center text-neutral-300 border-2 border-neutral-700 py-2 px-6 rounded-lg transition-all duration-300 hover:bg-neutral-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Bleed and crop mark options with a button that downloads a print PDF. The pages are only
+ * rendered when the button is pressed.
+ */
+const PdfExportControls = ({ getPages, fileName, title, disabled, className, buttonClassName }: {
+    getPages: () => Promise<PdfPage[]>,
+    fileName: string,
+    title?: string,
+    disabled?: boolean,
+    className?: string,
+    buttonClassName?: string,
+}) => {
+    const { t } = useLanguage();
+    const [bleedMm, setBleedMm] = useState(0);
+    const [cropMarks, setCropMarks] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const handleDownload = async () => {
+        setIsCreating(true);
+        try {
+            const pdf = await createPdf(await getPages(), { bleedMm, cropMarks, title });
+            downloadBlob(pdf, fileName);
+        } catch (error) {
+            console.error("Failed to create PDF:", error);
+            alert(t('pdfExport.creationError'));
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <div className={cn("flex flex-col gap-3", className)}>
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-neutral-400 mr-1">{t('pdfExport.bleed')}</span>
+                {BLEED_OPTIONS_MM.map(value => (
+                    <button key={value} onClick={() => setBleedMm(value)} className={cn(chipButtonClasses, bleedMm === value && selectedChipButtonClasses)}>
+                        {value === 0 ? t('pdfExport.noBleed') : t('pdfExport.bleedMm', value)}
+                    </button>
+                ))}
+                <label className="flex items-center gap-2 text-sm text-neutral-300 ml-2">
+                    <input type="checkbox" checked={cropMarks} onChange={(e) => setCropMarks(e.target.checked)} className="accent-neutral-200" />
+                    {t('pdfExport.cropMarks')}
+                </label>
+            </div>
+            <button onClick={handleDownload} disabled={disabled || isCreating} className={buttonClassName ?? defaultButtonClasses}>
+                {isCreating ? t('pdfExport.creating') : t('pdfExport.download')}
+            </button>
+        </div>
+    );
+};
+
+export default PdfExportControls;
@@ -4,12 +4,29 @@
 */
 import React, { useState, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { generatePhotoBoothImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generatePhotoBoothImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import { dataUrlToBlob, readImageDimensions } from '../lib/mediaStore';
+import PdfExportControls from './PdfExportControls';
 
 type PhotoBoothCount = 4 | 6 | 8 | 9 | 12;
+const PHOTO_BOOTH_COUNTS: PhotoBoothCount[] = [4, 6, 8, 9, 12];
+const PHOTO_BOOTH_COUNT_VALUES = PHOTO_BOOTH_COUNTS.map(String);
+// Photo paper sizes for the print PDF, in portrait; landscape results are printed sideways.
+const PRINT_SIZES = [
+    { id: '4x6', widthMm: 101.6, heightMm: 152.4 },
+    { id: '5x7', widthMm: 127, heightMm: 177.8 },
+    { id: '8x10', widthMm: 203.2, heightMm: 254 },
+];
 
 // Uploader Component
 const Uploader = ({ onImageUpload }: { onImageUpload: (file: File) => void }) => {
@@ -76,26 +93,40 @@ const OptionButton = ({ label, isSelected, onClick }: { label: string, isSelecte
 
 export default function PhotoBooth({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [photoBoothCount, setPhotoBoothCount] = useState<PhotoBoothCount>(9);
+    const [printSizeId, setPrintSizeId] = useState(PRINT_SIZES[0].id);
+    // Kept in the URL (#/photo-booth?count=12) so the layout survives a refresh and can be shared.
+    const [photoBoothCountParam, setPhotoBoothCountParam] = useRouteParam('count', '9', PHOTO_BOOTH_COUNT_VALUES);
+    const photoBoothCount = Number(photoBoothCountParam) as PhotoBoothCount;
 
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const imageDataUrl = reader.result as string;
-            setUploadedImage(imageDataUrl);
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImage(null);
             setError(null);
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
+
+    useToolHandoff('photoBooth', {
+        source: handleImageUpload,
+    });
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setError(null);
@@ -116,10 +147,17 @@ export default function PhotoBooth({ onBack }: { onBack: () => void }) {
         setView('result');
 
         try {
-            const resultUrl = await generatePhotoBoothImage(uploadedImage, photoBoothCount);
+            const resultUrl = await generatePhotoBoothImage(uploadedImage, photoBoothCount, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'photoBooth',
+                operation: 'generatePhotoBoothImage',
+                inputs: { source: uploadedImage },
+                model: getModelForOperation('generatePhotoBoothImage'),
+            });
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -130,12 +168,24 @@ export default function PhotoBooth({ onBack }: { onBack: () => void }) {
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = `tracquoc-ai-photobooth.jpg`;
+        link.download = `tracquoc-ai-photobooth.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
     };
 
+    const getPdfPages = async () => {
+        if (!generatedImage) return [];
+        const printSize = PRINT_SIZES.find(size => size.id === printSizeId) ?? PRINT_SIZES[0];
+        const dimensions = await readImageDimensions(await dataUrlToBlob(generatedImage));
+        const isLandscape = dimensions !== null && dimensions.width > dimensions.height;
+        return [{
+            imageUrl: generatedImage,
+            widthMm: isLandscape ? printSize.heightMm : printSize.widthMm,
+            heightMm: isLandscape ? printSize.widthMm : printSize.heightMm,
+        }];
+    };
+
     const isGenerateDisabled = !uploadedImage || isLoading;
 
     const renderConfigView = () => (
@@ -164,8 +214,8 @@ export default function PhotoBooth({ onBack }: { onBack: () => void }) {
                 <div>
                     <h4 className="font-bold text-neutral-300 mb-2">{t('photoBooth.photoCount')}</h4>
                     <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                         {([4, 6, 8, 9, 12] as PhotoBoothCount[]).map(count => (
-                            <OptionButton key={count} label={`${count} Photos`} isSelected={photoBoothCount === count} onClick={() => setPhotoBoothCount(count)} />
+                         {PHOTO_BOOTH_COUNTS.map(count => (
+                            <OptionButton key={count} label={`${count} Photos`} isSelected={photoBoothCount === count} onClick={() => setPhotoBoothCountParam(String(count))} />
                          ))}
                     </div>
                 </div>
@@ -201,6 +251,7 @@ export default function PhotoBooth({ onBack }: { onBack: () => void }) {
                         </div>
                     )}
                     {generatedImage && <img src={generatedImage} alt="Photo Booth Result" className="w-full h-full object-contain" />}
+                    {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="photoBooth" className="absolute top-2 right-2 z-10" />}
                 </div>
             </div>
             
@@ -220,6 +271,20 @@ export default function PhotoBooth({ onBack }: { onBack: () => void }) {
                     {t('common.startOver')}
                 </button>
             </div>
+
+            {generatedImage && !isLoading && (
+                <div className="w-full bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-6 shadow-lg flex flex-col gap-4">
+                    <h4 className="font-bold text-neutral-300">{t('pdfExport.printSize')}</h4>
+                    <div className="grid grid-cols-3 gap-2">
+                        {PRINT_SIZES.map(size => (
+                            <React.Fragment key={size.id}>
+                                <OptionButton label={t('pdfExport.inches', size.id.replace('x', ' × '))} isSelected={printSizeId === size.id} onClick={() => setPrintSizeId(size.id)} />
+                            </React.Fragment>
+                        ))}
+                    </div>
+                    <PdfExportControls getPages={getPdfPages} fileName={`tracquoc-ai-photobooth-${printSizeId}.pdf`} />
+                </div>
+            )}
         </div>
     );
 
@@ -2,107 +2,58 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef, useEffect, DragEvent } from 'react';
+import React, { useState, ChangeEvent, useRef, useEffect, useMemo, DragEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateStyledImage, generateConceptSuggestions, generateImageFromPrompt } from '../services/geminiService';
+import { generateStyledImage, generateConceptSuggestions, generateImageFromPrompt, getModelForOperation, ConceptSuggestions, GenerationOptions } from '../services/geminiService';
 import PolaroidCard from './PolaroidCard';
 import JSZip from 'jszip';
-import { cn, resizeImageToAspectRatio } from '../lib/utils';
+import { cn, resizeImageToAspectRatio, imageFileExtension } from '../lib/utils';
+import { AlbumOptions, DEFAULT_ALBUM_OPTIONS } from '../lib/albumUtils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
-import { useMediaLibrary } from '../contexts/MediaLibraryContext';
-
-const PHOTO_STYLE_CATEGORIES = {
-    'Portraits & Close-ups': [
-        { id: 'smiling_portrait', prompt: 'A portrait of the person from the original photo, but they are smiling warmly at the camera. Maintain the exact same background, lighting, and overall style as the original image.' },
-        { id: 'laughing_portrait', prompt: 'A portrait of the person from the original photo, captured mid-laugh, looking genuinely happy. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'serious_close_up', prompt: 'A dramatic close-up shot focusing on the person\'s face, with a serious and confident expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'thoughtful_look', prompt: 'A three-quarter portrait of the person from the original photo, but they are looking thoughtfully away from the camera, into the distance. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'side_profile', prompt: 'A portrait of the person from the original photo taken from a side profile angle. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'head_tilt', prompt: 'A portrait of the person from the original photo, with their head tilted slightly, showing a curious and engaging expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'playful_wink', prompt: 'A close-up portrait of the person from the original photo giving a playful wink to the camera. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'soft_smile', prompt: 'A portrait of the person from the original photo with a soft, gentle, closed-mouth smile. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-    ],
-    'Full & Medium Shots': [
-        { id: 'confident_full_body', prompt: 'A full-body shot of the person from the original photo, showing their complete outfit. They should be standing in a relaxed but confident pose. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'walking_pose', prompt: 'A full-body shot of the person from the original photo, captured as if they are walking confidently. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'hands_in_pockets', prompt: 'A medium shot of the person from the original photo, standing casually with their hands in their pockets. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'arms_crossed', prompt: 'A medium shot of the person from the original photo, with their arms crossed confidently, looking directly at the camera. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'hand_on_hip', prompt: 'A three-quarter shot of the person from the original photo with one hand placed confidently on their hip. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'leaning_pose', prompt: 'A full-body shot of the person from the original photo, leaning casually against an unseen object, looking relaxed. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'jumping_in_the_air', prompt: 'An energetic full-body shot of the person from the original photo captured mid-jump, expressing joy or excitement. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'twirling_shot', prompt: 'A dynamic full-body shot of the person from the original photo captured mid-twirl, with their clothing and hair showing motion. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-    ],
-    'Creative Angles & Perspectives': [
-        { id: 'low_angle_shot', prompt: 'A full-body shot of the person from the original photo taken from a low angle, looking up at them. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'high_angle_shot', prompt: 'A photo of the person from the original photo taken from a high angle, looking down at them. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'from_below_face', prompt: 'A creative close-up shot of the person\'s face from the original photo, taken from directly below, looking up. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'over_the_shoulder_glance', prompt: 'A close-up portrait of the person from the original photo, glancing over their shoulder towards the camera with a subtle expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'looking_over_shoulder', prompt: 'A photo of the person from the original photo, looking back over their shoulder at the camera with a slight smile. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-    ],
-    'Fashion & Editorial': [
-        { id: 'editorial_lean', prompt: 'A high-fashion, full-body editorial shot where the person is leaning against a wall with a sophisticated and detached expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'power_stance', prompt: 'An assertive, full-body power stance, with legs apart and a direct, strong gaze towards the camera, common in fashion advertisements. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'hand_on_collar', prompt: 'A close-up, editorial-style shot where the person\'s hand is thoughtfully touching their collar or lapel. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'silhouette_pose', prompt: 'A dramatic silhouette of the person against a bright background, emphasizing the shape of their body and clothing. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'motion_blur', prompt: 'A creative shot with intentional motion blur, capturing the person moving fluidly, suggesting energy and dynamism, often seen in sportswear ads. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'architectural_pose', prompt: 'A full-body shot where the person\'s pose interacts with strong architectural lines in the background, creating a visually striking composition. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'lounging_elegantly', prompt: 'An elegant full-body shot of the person lounging on a stylish piece of furniture. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'dramatic_gaze', prompt: 'A close-up portrait with a dramatic, intense gaze, with high-contrast lighting. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-    ],
-    'Themed, Sitting & Lying Poses': [
-        { id: 'sitting_pose', prompt: 'A full-body shot of the person from the original photo sitting casually, in a relaxed pose. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'crouching_pose', prompt: 'A trendy full-body shot of the person from the original photo in a crouching or squatting pose. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'lying_on_grass', prompt: 'A relaxed shot of the person from the original photo lying down on their back or side, as if on a grass or a blanket. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'hand_on_chin', prompt: 'A portrait of the person from the original photo with their hand resting thoughtfully on their chin, looking pensive or creative. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'holding_balloons', prompt: 'A playful photo of the person from the original photo, reimagined to be holding a large bunch of balloons, looking joyful. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'holding_flowers', prompt: 'A beautiful portrait of the person from the original photo, reimagined to be holding a bouquet of flowers. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-    ],
-    'Dynamic & Candid': [
-        { id: 'candid_moment', prompt: 'A candid-style photo of the person from the original photo, as if they were captured in a natural, unposed moment, perhaps adjusting their clothing or hair. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'hair_in_motion', prompt: 'A dynamic photo of the person from the original photo where their hair is in motion, as if caught in a gentle breeze or during a turn. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'adjusting_jacket', prompt: 'A candid-style photo of the person from the original photo in the middle of adjusting their jacket, collar, or sleeve. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'hand_towards_camera', prompt: 'A dynamic photo where the person from the original photo is reaching one hand out towards the camera in a friendly, inviting gesture. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'dancing_pose', prompt: 'A dynamic full-body shot of the person from the original photo in a fluid dancing pose, expressing movement and joy. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-        { id: 'shielding_eyes_from_sun', prompt: 'A photo of the person from the original photo using their hand to shield their eyes from a bright light source (like the sun), creating a natural, candid look. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
-    ]
-};
-
-const CAMERA_ANGLES = [
-    { id: 'Eye-Level', labelKey: 'photoshoot.angles.eyeLevel' },
-    { id: 'Low Angle', labelKey: 'photoshoot.angles.lowAngle' },
-    { id: 'High Angle', labelKey: 'photoshoot.angles.highAngle' },
-    { id: 'Dutch Angle', labelKey: 'photoshoot.angles.dutchAngle' },
-    { id: 'Worm\'s Eye View', labelKey: 'photoshoot.angles.wormsEyeView' },
-    { id: 'Bird\'s Eye View', labelKey: 'photoshoot.angles.birdsEyeView' }
-];
-
-const COLOR_GRADES = [
-    { id: 'None', labelKey: 'photoshoot.grades.none' },
-    { id: 'Cinematic Teal & Orange', labelKey: 'photoshoot.grades.cinematic' },
-    { id: 'Vintage Film', labelKey: 'photoshoot.grades.vintage' },
-    { id: 'High-Contrast B&W', labelKey: 'photoshoot.grades.highContrast' },
-    { id: 'Vibrant & Punchy', labelKey: 'photoshoot.grades.vibrant' },
-    { id: 'Muted & Moody', labelKey: 'photoshoot.grades.muted' },
-    { id: 'Warm & Golden', labelKey: 'photoshoot.grades.warm' },
-    { id: 'Cool & Crisp', labelKey: 'photoshoot.grades.cool' }
-];
-
-const ALL_PHOTO_STYLES = Object.values(PHOTO_STYLE_CATEGORIES).flat();
-
-type ImageStatus = 'pending' | 'done' | 'error';
+import PhotoshootPresetManager from './PhotoshootPresetManager';
+import AlbumDesigner from './AlbumDesigner';
+import SocialExportPanel from './SocialExportPanel';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import { useRouteListParam, useRouteParam } from '../lib/router';
+import { ASPECT_RATIOS, AspectRatio, useSettings } from '../lib/settings';
+import { resolvePresets, useCustomPresets } from '../lib/photoshootPresets';
+import { blobToDataUrl, MODELS_STORE } from '../lib/mediaStore';
+import { useStoredImages, StoredImageItem } from '../lib/useStoredImages';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+
+type ImageStatus = 'pending' | 'done' | 'error' | 'cancelled';
 interface GeneratedImage {
     status: ImageStatus;
     url?: string;
     error?: string;
 }
-interface Concept {
-    background: string;
-    poses: string[];
-    cameraAngle: string;
-    colorGrade: string;
+/** The candidates generated for one style, shown as a stack on its card. */
+interface StyleResult {
+    candidates: GeneratedImage[];
+    /** The candidate on top of the stack. */
+    shown: number;
+    /** The keeper; only starred candidates go into the ZIP and the album. */
+    starred: number | null;
 }
 
+// Shareable like the other settings, so kept as strings.
+const VARIATION_COUNTS = ['1', '2', '3', '4'];
+
+/**
+ * Candidates still pending can't finish any more, so they become cancelled and can be retried.
+ * Also upgrades projects saved when each style had a single image.
+ */
+const settleStyleResults = (results: Record<string, StyleResult | GeneratedImage>): Record<string, StyleResult> =>
+    Object.fromEntries(Object.entries(results).map(([id, result]) => {
+        const styleResult: StyleResult = 'candidates' in result ? result : { candidates: [result], shown: 0, starred: 0 };
+        const candidates = styleResult.candidates.map(candidate => candidate.status === 'pending' ? { ...candidate, status: 'cancelled' as const } : candidate);
+        return [id, { ...styleResult, candidates }];
+    }));
+
 const primaryButtonClasses = "font-bold text-lg text-center text-black bg-neutral-200 py-3 px-8 rounded-lg transition-all duration-300 hover:scale-105 hover:bg-white shadow-lg shadow-neutral-900/40";
 const secondaryButtonClasses = "font-bold text-lg text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-8 rounded-lg transition-all duration-300 hover:scale-105 hover:bg-neutral-800 hover:text-white";
 const chipButtonClasses = "text-sm text-center text-neutral-300 bg-neutral-800 border-2 border-transparent py-2 px-4 rounded-lg transition-all duration-200 hover:bg-neutral-700";
@@ -243,47 +194,48 @@ const AccordionSection = ({ title, description, children, isOpen, onToggle }: {
 
 export default function Photoshoot({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool, libraryImages: mediaLibrary, removeImagesFromLibrary } = useMediaLibrary();
-
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [outfitImage, setOutfitImage] = useState<string | null>(null);
-    const [objectImage, setObjectImage] = useState<string | null>(null);
-    const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
-    const [selectedStyles, setSelectedStyles] = useState<string[]>([]);
-    const [selectedCameraAngle, setSelectedCameraAngle] = useState<string>('Eye-Level');
-    const [selectedColorGrade, setSelectedColorGrade] = useState<string>('None');
-    const [aspectRatio, setAspectRatio] = useState<string>('1:1');
-    const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
+    const { addImageToLibrary, selectedImageForTool, clearSelectedImageForTool, removeImagesFromLibrary } = useMediaLibrary();
+
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [outfitImage, setOutfitImage] = useProjectState<string | null>('outfitImage', null);
+    const [objectImage, setObjectImage] = useProjectState<string | null>('objectImage', null);
+    const [backgroundImage, setBackgroundImage] = useProjectState<string | null>('backgroundImage', null);
+    const { defaultAspectRatio } = useSettings();
+    // Built-in presets followed by the user's own, see the preset manager.
+    const customPresets = useCustomPresets();
+    const presets = useMemo(() => resolvePresets(customPresets, t), [customPresets, t]);
+    const allPhotoStyles = useMemo(() => presets.categories.flatMap(category => category.styles), [presets]);
+    // Allowed values for the settings that are kept in the URL.
+    const styleIds = useMemo(() => allPhotoStyles.map(style => style.id), [allPhotoStyles]);
+    const cameraAngleIds = useMemo(() => presets.cameraAngles.map(angle => angle.id), [presets]);
+    const colorGradeIds = useMemo(() => presets.colorGrades.map(grade => grade.id), [presets]);
+    const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false);
+    // Shareable settings live in the URL, e.g. #/photoshoot?styles=side_profile,walking_pose&ratio=9:16
+    const [selectedStyles, setSelectedStyles] = useRouteListParam('styles', styleIds);
+    const [selectedCameraAngle, setSelectedCameraAngle] = useRouteParam<string>('angle', 'Eye-Level', cameraAngleIds);
+    const [selectedColorGrade, setSelectedColorGrade] = useRouteParam<string>('grade', 'None', colorGradeIds);
+    const [aspectRatio, setAspectRatio] = useRouteParam<AspectRatio>('ratio', defaultAspectRatio, ASPECT_RATIOS);
+    const [variationCount, setVariationCount] = useRouteParam('variations', '1', VARIATION_COUNTS);
+    const [generatedImages, setGeneratedImages] = useProjectState<Record<string, StyleResult>>('generatedImages', {}, settleStyleResults);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
-    const [appState, setAppState] = useState<'config' | 'generating' | 'results-shown'>('config');
+    const [albumImages, setAlbumImages] = useState<{ id: string, label: string, url: string }[] | null>(null);
+    const [albumOptions, setAlbumOptions] = useProjectState<AlbumOptions>('albumOptions', DEFAULT_ALBUM_OPTIONS, saved => ({ ...DEFAULT_ALBUM_OPTIONS, ...saved }));
+    const [socialExportImages, setSocialExportImages] = useState<{ id: string, label: string, url: string }[] | null>(null);
+    const [appState, setAppState] = useProjectState<'config' | 'generating' | 'results-shown'>('appState', 'config', saved => saved === 'generating' ? 'results-shown' : saved);
     const [openAccordion, setOpenAccordion] = useState<string | null>('step2');
-    const [refinePrompt, setRefinePrompt] = useState('');
-    const [concept, setConcept] = useState<Concept | null>(null);
+    const [refinePrompt, setRefinePrompt] = useProjectState('refinePrompt', '');
+    const [concept, setConcept] = useProjectState<ConceptSuggestions | null>('concept', null);
     const [isGeneratingConcept, setIsGeneratingConcept] = useState<boolean>(false);
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [isDraggingOverPolaroid, setIsDraggingOverPolaroid] = useState(false);
     const [step1Tab, setStep1Tab] = useState<'upload' | 'generate'>('upload');
-    const [modelGenPrompt, setModelGenPrompt] = useState('');
+    const [modelGenPrompt, setModelGenPrompt] = useProjectState('modelGenPrompt', '');
     const [isGeneratingModel, setIsGeneratingModel] = useState(false);
-    const [localLibrary, setLocalLibrary] = useState<string[]>(() => {
-        try {
-            const savedLibrary = localStorage.getItem('aiPhotoshootModelLibrary');
-            return savedLibrary ? JSON.parse(savedLibrary) : [];
-        } catch (error) {
-            console.error("Failed to load model library from localStorage", error);
-            return [];
-        }
-    });
-
-    useEffect(() => {
-        try {
-            localStorage.setItem('aiPhotoshootModelLibrary', JSON.stringify(localLibrary));
-        } catch (error) {
-            console.error("Failed to save model library to localStorage", error);
-        }
-    }, [localLibrary]);
+    const { getSignal, cancel } = useGenerationController();
+    const { items: modelLibrary, addImage: addModelImage, removeImages: removeModelImages } = useStoredImages(MODELS_STORE);
+    const [activeModelId, setActiveModelId] = useState<string | null>(null);
 
     const handleImageUpload = (fileOrDataUrl: File | string, setImage: (dataUrl: string) => void) => {
         if (typeof fileOrDataUrl === 'string') {
@@ -306,12 +258,13 @@ export default function Photoshoot({ onBack }: { onBack: () => void }) {
     }, [selectedImageForTool, clearSelectedImageForTool]);
 
 
-    const handleSelectFromLibrary = (imageUrl: string) => {
-        if (uploadedImage === imageUrl) return;
+    const handleSelectFromLibrary = async (item: StoredImageItem) => {
+        if (activeModelId === item.id) return;
     
+        const imageUrl = await blobToDataUrl(item.blob);
         setUploadedImage(imageUrl);
+        setActiveModelId(item.id);
         setGeneratedImages({});
-        setSelectedStyles([]);
         setOutfitImage(null);
         setObjectImage(null);
         setBackgroundImage(null);
@@ -323,57 +276,72 @@ export default function Photoshoot({ onBack }: { onBack: () => void }) {
         handleImageUpload(fileOrDataUrl, (dataUrl) => {
             setUploadedImage(dataUrl);
             setGeneratedImages({});
-            setSelectedStyles([]);
             setOutfitImage(null);
             setObjectImage(null);
             setBackgroundImage(null);
             setConcept(null);
+            setActiveModelId(null);
             // Also add to local "model" library for quick access
-            setLocalLibrary(prev => {
-                if (prev.includes(dataUrl)) return prev;
-                return [dataUrl, ...prev];
-            });
+            addModelImage(dataUrl)
+                .then(item => setActiveModelId(item.id))
+                .catch(error => console.error("Failed to save model to the model library", error));
         });
     };
 
+    useToolHandoff('photoshoot', {
+        person: handleMainImageUpload,
+        outfit: setOutfitImage,
+        object: setObjectImage,
+        background: setBackgroundImage,
+    }, (prompt, operation) => {
+        if (operation !== 'generateImageFromPrompt') return;
+        setModelGenPrompt(prompt);
+        setStep1Tab('generate');
+    });
+
     const handleGenerateModel = async () => {
         if (!modelGenPrompt) return;
         setIsGeneratingModel(true);
         try {
-            const imageUrl = await generateImageFromPrompt(modelGenPrompt);
-            addImageToLibrary(imageUrl); // Add to global library
+            const imageUrl = await generateImageFromPrompt(modelGenPrompt, { signal: getSignal() });
+            const libraryItem = await addImageToLibrary(imageUrl, { // Add to global library
+                toolId: 'photoshoot',
+                operation: 'generateImageFromPrompt',
+                prompt: modelGenPrompt,
+                inputs: {},
+                model: getModelForOperation('generateImageFromPrompt'),
+            });
             setUploadedImage(imageUrl);
             setGeneratedImages({});
-            setSelectedStyles([]);
             setOutfitImage(null);
             setObjectImage(null);
             setBackgroundImage(null);
             setConcept(null);
-            setLocalLibrary(prev => {
-                if (prev.includes(imageUrl)) return prev;
-                return [imageUrl, ...prev];
-            });
+            const modelItem = await addModelImage(imageUrl, { libraryId: libraryItem?.id });
+            setActiveModelId(modelItem.id);
         } catch (error) {
+            if (isCancelledError(error)) return;
             console.error("Failed to generate model:", error);
-            alert(`Failed to generate model: ${(error as Error).message}`);
+            alert(`Failed to generate model: ${getErrorMessage(error, t)}`);
         } finally {
             setIsGeneratingModel(false);
         }
     };
 
-    const handleDeleteFromLibrary = (imageUrlToDelete: string, event: React.MouseEvent) => {
+    const handleDeleteFromLibrary = (item: StoredImageItem, event: React.MouseEvent) => {
         event.stopPropagation(); // Prevent the click from also selecting the image.
 
-        setLocalLibrary(prev => prev.filter(img => img !== imageUrlToDelete));
+        removeModelImages([item.id]).catch(error => console.error("Failed to delete model from the model library", error));
         // Also remove from global library if it exists there
-        if (mediaLibrary.includes(imageUrlToDelete)) {
-            removeImagesFromLibrary([imageUrlToDelete]);
+        if (item.libraryId) {
+            removeImagesFromLibrary([item.libraryId]);
         }
 
 
         // If the deleted image was the active one, clear it.
-        if (uploadedImage === imageUrlToDelete) {
+        if (activeModelId === item.id) {
             setUploadedImage(null);
+            setActiveModelId(null);
         }
     };
 
@@ -392,7 +360,7 @@ export default function Photoshoot({ onBack }: { onBack: () => void }) {
     };
 
     const handleSelectAll = () => {
-        setSelectedStyles(ALL_PHOTO_STYLES.map(s => s.id));
+        setSelectedStyles(styleIds);
     };
 
     const handleClearSelection = () => {
@@ -406,16 +374,12 @@ export default function Photoshoot({ onBack }: { onBack: () => void }) {
         setIsGeneratingConcept(true);
         setConcept(null);
         try {
-            const poseIds = ALL_PHOTO_STYLES.map(p => p.id);
-            const angleIds = CAMERA_ANGLES.map(a => a.id);
-            const gradeIds = COLOR_GRADES.map(g => g.id);
+            const suggestions = await generateConceptSuggestions(conceptImages, allPhotoStyles, presets.cameraAngles, presets.colorGrades, { signal: getSignal() });
 
-            const suggestions = await generateConceptSuggestions(conceptImages, poseIds, angleIds, gradeIds);
-            
             setConcept(suggestions);
             setSelectedStyles(suggestions.poses);
-            setSelectedCameraAngle(suggestions.cameraAngle);
-            setSelectedColorGrade(suggestions.colorGrade);
+            if (suggestions.cameraAngle) setSelectedCameraAngle(suggestions.cameraAngle);
+            if (suggestions.colorGrade) setSelectedColorGrade(suggestions.colorGrade);
 
             // Open the accordions to show the user the selections
             setOpenAccordion('step3');
@@ -524,9 +488,11 @@ Your single most important, critical, and unbreakable task is to perfectly prese
         }
         promptFragments.push(`The final output MUST be ${aspectRatioDescription} aspect ratio.`);
         
-        promptFragments.push(`The camera angle should be: ${selectedCameraAngle}.`);
+        const cameraAngle = presets.cameraAngles.find(angle => angle.id === selectedCameraAngle);
+        const colorGrade = presets.colorGrades.find(grade => grade.id === selectedColorGrade);
+        promptFragments.push(`The camera angle should be: ${cameraAngle?.prompt ?? selectedCameraAngle}.`);
         if (selectedColorGrade !== 'None') {
-            promptFragments.push(`The final image should have a ${selectedColorGrade} color grade.`);
+            promptFragments.push(`The final image should have a ${colorGrade?.prompt ?? selectedColorGrade} color grade.`);
         }
 
         let finalPrompt = identityLockRule + promptFragments.join(' ') + ' ' + basePrompt;
@@ -538,93 +504,134 @@ Your single most important, critical, and unbreakable task is to perfectly prese
         return { finalPrompt, imageUrls };
     };
 
+    // Provenance for a styled photo, recorded with it in the media library.
+    const describeStyledPhoto = (stylePrompt: string, instructions?: string) => ({
+        toolId: 'photoshoot',
+        operation: 'generateStyledImage',
+        prompt: stylePrompt,
+        instructions: instructions?.trim() || undefined,
+        inputs: { person: uploadedImage, outfit: outfitImage, object: objectImage, background: backgroundImage },
+        model: getModelForOperation('generateStyledImage'),
+    });
+
+    const setCandidate = (styleId: string, index: number, image: GeneratedImage) => {
+        setGeneratedImages(prev => {
+            const result = prev[styleId];
+            if (!result) return prev;
+            const candidates = [...result.candidates];
+            candidates[index] = image;
+            return { ...prev, [styleId]: { ...result, candidates } };
+        });
+    };
+
+    // Generates one candidate for a style into the given slot of its stack.
+    const generateCandidate = async (style: { id: string, prompt: string }, index: number, options: GenerationOptions, instructions?: string) => {
+        try {
+            const { finalPrompt, imageUrls } = await constructApiPayload(style.prompt, instructions);
+            const resultUrl = await generateStyledImage(finalPrompt, imageUrls, undefined, options);
+            addImageToLibrary(resultUrl, describeStyledPhoto(style.prompt, instructions));
+            setCandidate(style.id, index, { status: 'done', url: resultUrl });
+        } catch (err) {
+            if (isCancelledError(err)) {
+                setCandidate(style.id, index, { status: 'cancelled' });
+                return;
+            }
+            setCandidate(style.id, index, { status: 'error', error: getErrorMessage(err, t) });
+            console.error(`Failed to generate image for ${style.id}:`, err);
+        }
+    };
+
     const handleGenerateClick = async () => {
         if (!uploadedImage || selectedStyles.length === 0) return;
 
         setIsLoading(true);
         setAppState('generating');
         
-        const stylesToGenerate = ALL_PHOTO_STYLES.filter(style => selectedStyles.includes(style.id));
+        const stylesToGenerate = allPhotoStyles.filter(style => selectedStyles.includes(style.id));
+        const count = Number(variationCount);
 
-        const initialImages: Record<string, GeneratedImage> = {};
+        const initialImages: Record<string, StyleResult> = {};
         stylesToGenerate.forEach(style => {
-            initialImages[style.id] = { status: 'pending' };
+            // With a single candidate there is nothing to pick, so it is the keeper from the start.
+            initialImages[style.id] = { candidates: Array.from({ length: count }, () => ({ status: 'pending' })), shown: 0, starred: count === 1 ? 0 : null };
         });
         setGeneratedImages(initialImages);
 
-        const concurrencyLimit = 2;
-        const stylesQueue = [...stylesToGenerate];
-
-        const processStyle = async (style: { id: string, prompt: string }) => {
-            try {
-                const { finalPrompt, imageUrls } = await constructApiPayload(style.prompt);
-                const resultUrl = await generateStyledImage(finalPrompt, imageUrls);
-                addImageToLibrary(resultUrl);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [style.id]: { status: 'done', url: resultUrl },
-                }));
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [style.id]: { status: 'error', error: errorMessage },
-                }));
-                console.error(`Failed to generate image for ${style.id}:`, err);
-            }
-        };
+        const signal = getSignal();
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (stylesQueue.length > 0) {
-                const style = stylesQueue.shift();
-                if (style) {
-                    await processStyle(style);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        // The shared generation queue decides how many of these run at once.
+        await Promise.all(stylesToGenerate.flatMap(style =>
+            Array.from({ length: count }, (_, index) => generateCandidate(style, index, { signal, priority: 'batch' }))));
 
         setIsLoading(false);
         setAppState('results-shown');
     };
 
+    // Adds a new candidate to the style's stack; a failed or cancelled candidate is retried in place instead.
     const handleRegeneratePhoto = async (photoId: string) => {
-        if (!uploadedImage || generatedImages[photoId]?.status === 'pending') {
+        const result = generatedImages[photoId];
+        const current = result?.candidates[result.shown];
+        if (!uploadedImage || !result || current?.status === 'pending') {
             return;
         }
         
-        const style = ALL_PHOTO_STYLES.find(s => s.id === photoId);
+        const style = allPhotoStyles.find(s => s.id === photoId);
         if (!style) {
             console.error(`Style "${photoId}" not found.`);
             return;
         }
 
-        setGeneratedImages(prev => ({
-            ...prev,
-            [photoId]: { status: 'pending' },
-        }));
+        const index = current && current.status !== 'done' ? result.shown : result.candidates.length;
+        setGeneratedImages(prev => {
+            const candidates = [...prev[photoId].candidates];
+            candidates[index] = { status: 'pending' };
+            return { ...prev, [photoId]: { ...prev[photoId], candidates, shown: index } };
+        });
 
-        try {
-            const { finalPrompt, imageUrls } = await constructApiPayload(style.prompt, refinePrompt);
-            const resultUrl = await generateStyledImage(finalPrompt, imageUrls);
-            addImageToLibrary(resultUrl);
-            setGeneratedImages(prev => ({
-                ...prev,
-                [photoId]: { status: 'done', url: resultUrl },
-            }));
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setGeneratedImages(prev => ({
-                ...prev,
-                [photoId]: { status: 'error', error: errorMessage },
-            }));
-            console.error(`Failed to regenerate image for ${photoId}:`, err);
-        }
+        await generateCandidate(style, index, { signal: getSignal() }, refinePrompt);
+    };
+
+    const handleShowCandidate = (photoId: string, index: number) => {
+        setGeneratedImages(prev => ({ ...prev, [photoId]: { ...prev[photoId], shown: index } }));
+    };
+
+    const handleToggleStar = (photoId: string) => {
+        setGeneratedImages(prev => {
+            const result = prev[photoId];
+            return { ...prev, [photoId]: { ...result, starred: result.starred === result.shown ? null : result.shown } };
+        });
+    };
+
+    // Removes the shown candidate from the stack. It stays in the media library.
+    const handleDiscardCandidate = (photoId: string) => {
+        setGeneratedImages(prev => {
+            const { [photoId]: result, ...rest } = prev;
+            const candidates = result.candidates.filter((_, index) => index !== result.shown);
+            if (candidates.length === 0) return rest;
+            const starred = result.starred === null || result.starred === result.shown ? null
+                : result.starred > result.shown ? result.starred - 1 : result.starred;
+            return { ...prev, [photoId]: { candidates, shown: Math.min(result.shown, candidates.length - 1), starred } };
+        });
+    };
+
+    // Once a keeper is starred, the other candidates of that style are discarded.
+    const handleDiscardUnstarred = () => {
+        setGeneratedImages(prev => Object.fromEntries((Object.entries(prev) as [string, StyleResult][]).map(([id, result]) =>
+            result.starred === null
+                ? [id, result]
+                : [id, { candidates: [result.candidates[result.starred]], shown: 0, starred: 0 }])));
     };
     
+    // Cancels every in-flight request; styles that had not started yet are marked as cancelled too.
+    const handleStop = () => {
+        cancel();
+        setGeneratedImages(settleStyleResults);
+    };
+
     const handleReset = () => {
+        cancel();
         setUploadedImage(null);
+        setActiveModelId(null);
         setOutfitImage(null);
         setObjectImage(null);
         setBackgroundImage(null);
@@ -639,41 +646,68 @@ Your single most important, critical, and unbreakable task is to perfectly prese
     };
 
     const handleDownloadIndividualImage = (photoId: string, url?: string) => {
-        const imageUrl = url || generatedImages[photoId]?.url;
+        const result = generatedImages[photoId];
+        const imageUrl = url || result?.candidates[result.shown]?.url;
         if (imageUrl) {
             const link = document.createElement('a');
             link.href = imageUrl;
             const safeFileName = photoId.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-            link.download = `ai-photoshoot-${safeFileName}.jpg`;
+            const candidateSuffix = result && result.candidates.length > 1 ? `-${result.shown + 1}` : '';
+            link.download = `ai-photoshoot-${safeFileName}${candidateSuffix}.${imageFileExtension(imageUrl)}`;
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
         }
     };
 
+    /**
+     * The starred candidate of every style, in the order the styles are listed. Alerts and returns
+     * null when there is nothing to export yet.
+     */
+    const getKeepers = (): { style: { id: string, label: string }, url: string }[] | null => {
+        const results = Object.values(generatedImages) as StyleResult[];
+        const candidates = results.flatMap(result => result.candidates);
+        if (!candidates.some(image => image.status === 'done' && image.url)) {
+            alert(t('photoshoot.noImagesGeneratedError'));
+            return null;
+        }
+        if (candidates.some(image => image.status === 'pending')) {
+            alert(t('photoshoot.waitForAllImagesError'));
+            return null;
+        }
+        const keepers = allPhotoStyles.flatMap(style => {
+            const result = generatedImages[style.id];
+            const keeper = result && result.starred !== null ? result.candidates[result.starred] : undefined;
+            return keeper?.status === 'done' && keeper.url ? [{ style, url: keeper.url }] : [];
+        });
+        if (keepers.length === 0) {
+            alert(t('photoshoot.noStarredImagesError'));
+            return null;
+        }
+        return keepers;
+    };
+
+    const handleOpenAlbumDesigner = () => {
+        const keepers = getKeepers();
+        if (!keepers) return;
+        setAlbumImages(keepers.map(({ style, url }) => ({ id: style.id, label: style.label, url })));
+    };
+
+    const handleOpenSocialExport = () => {
+        const keepers = getKeepers();
+        if (!keepers) return;
+        setSocialExportImages(keepers.map(({ style, url }) => ({ id: style.id, label: style.label, url })));
+    };
+
     const handleDownloadAll = async () => {
+        const keepers = getKeepers();
+        if (!keepers) return;
         setIsDownloading(true);
         try {
-            const imagesToZip = Object.entries(generatedImages)
-                .filter(([, image]) => image.status === 'done' && image.url);
-
-            if (imagesToZip.length === 0) {
-                alert(t('photoshoot.noImagesGeneratedError'));
-                setIsDownloading(false);
-                return;
-            }
-    
-            if (imagesToZip.length < selectedStyles.length) {
-                alert(t('photoshoot.waitForAllImagesError'));
-                setIsDownloading(false);
-                return;
-            }
-    
             const zip = new JSZip();
     
-            for (const [id, image] of imagesToZip) {
-                const safeFileName = id.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-                const dataUrl = image.url!;
+            for (const { style, url: dataUrl } of keepers) {
+                const safeFileName = style.id.toLowerCase().replace(/[^a-z0-9]+/g, '-');
                 
                 const match = dataUrl.match(/^data:(image\/(?:png|jpeg|webp));base64,(.*)$/);
                 if (match) {
@@ -801,17 +835,17 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                 <div className="w-full">
                                     <h3 className="text-xl font-bold text-neutral-300 mb-2">{t('photoshoot.libraryTitle')}</h3>
                                     <div className="bg-black/20 backdrop-blur-md border border-neutral-800 rounded-lg p-3 min-h-[100px]">
-                                        {localLibrary.length === 0 ? (
+                                        {modelLibrary.length === 0 ? (
                                             <div className="flex items-center justify-center h-full py-8">
                                                 <p className="text-neutral-500 text-sm text-center">{t('photoshoot.libraryEmpty')}</p>
                                             </div>
                                         ) : (
                                             <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
-                                                {localLibrary.map((imgUrl, index) => (
-                                                    <div key={index} onClick={() => handleSelectFromLibrary(imgUrl)} className={cn("relative group aspect-square rounded-md overflow-hidden cursor-pointer ring-2 ring-offset-2 ring-offset-black transition-all", uploadedImage === imgUrl ? "ring-neutral-200" : "ring-transparent hover:ring-neutral-500")}>
-                                                        <img src={imgUrl} className="w-full h-full object-cover" alt={`Library image ${index + 1}`} />
+                                                {modelLibrary.map((item, index) => (
+                                                    <div key={item.id} onClick={() => handleSelectFromLibrary(item)} className={cn("relative group aspect-square rounded-md overflow-hidden cursor-pointer ring-2 ring-offset-2 ring-offset-black transition-all", activeModelId === item.id ? "ring-neutral-200" : "ring-transparent hover:ring-neutral-500")}>
+                                                        <img src={item.thumbnailUrl} className="w-full h-full object-cover" alt={`Library image ${index + 1}`} />
                                                          <button
-                                                            onClick={(e) => handleDeleteFromLibrary(imgUrl, e)}
+                                                            onClick={(e) => handleDeleteFromLibrary(item, e)}
                                                             className="absolute top-1 right-1 p-1 bg-black/60 rounded-full text-white hover:bg-red-500 transition-all opacity-0 group-hover:opacity-100 z-10"
                                                             aria-label="Delete from library"
                                                         >
@@ -864,12 +898,15 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                     onToggle={() => setOpenAccordion(openAccordion === 'step3' ? null : 'step3')}
                                 >
                                     <div className="space-y-4">
+                                        <div className="flex justify-end">
+                                            <button onClick={() => setIsPresetManagerOpen(true)} className="text-sm font-semibold text-neutral-300 hover:text-white transition-colors">{t('photoshoot.editPresets')}</button>
+                                        </div>
                                         <div>
                                             <h4 className="text-md font-bold text-neutral-400 mb-2">{t('photoshoot.cameraAngle')}</h4>
                                             <div className="flex flex-wrap gap-3">
-                                                {CAMERA_ANGLES.map(angle => (
+                                                {presets.cameraAngles.map(angle => (
                                                     <button key={angle.id} onClick={() => setSelectedCameraAngle(angle.id)} className={cn(chipButtonClasses, selectedCameraAngle === angle.id && selectedChipButtonClasses)}>
-                                                        {t(angle.labelKey)}
+                                                        {angle.label}
                                                     </button>
                                                 ))}
                                             </div>
@@ -877,9 +914,9 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                         <div>
                                             <h4 className="text-md font-bold text-neutral-400 mb-2">{t('photoshoot.colorGrade')}</h4>
                                             <div className="flex flex-wrap gap-3">
-                                                {COLOR_GRADES.map(grade => (
+                                                {presets.colorGrades.map(grade => (
                                                     <button key={grade.id} onClick={() => setSelectedColorGrade(grade.id)} className={cn(chipButtonClasses, selectedColorGrade === grade.id && selectedChipButtonClasses)}>
-                                                        {t(grade.labelKey)}
+                                                        {grade.label}
                                                     </button>
                                                 ))}
                                             </div>
@@ -895,7 +932,7 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                 >
                                     <h4 className="text-md font-bold text-neutral-400 mb-2">{t('photoshoot.aspectRatio')}</h4>
                                     <div className="flex flex-wrap gap-3">
-                                        {['1:1', '9:16', '16:9', '4:3', '3:4'].map(ratio => (
+                                        {ASPECT_RATIOS.map(ratio => (
                                             <button
                                                 key={ratio}
                                                 onClick={() => setAspectRatio(ratio)}
@@ -914,22 +951,36 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                     onToggle={() => setOpenAccordion(openAccordion === 'step5' ? null : 'step5')}
                                 >
                                     <div className="flex justify-end gap-4 mb-4 border-b border-neutral-800 pb-4">
+                                        <button onClick={() => setIsPresetManagerOpen(true)} className="text-sm font-semibold text-neutral-300 hover:text-white transition-colors mr-auto">{t('photoshoot.editPresets')}</button>
                                         <button onClick={handleSelectAll} className="text-sm font-semibold text-neutral-300 hover:text-white transition-colors">{t('photoshoot.selectAll')}</button>
                                         <button onClick={handleClearSelection} className="text-sm font-semibold text-neutral-300 hover:text-white transition-colors">{t('photoshoot.clearSelection')}</button>
                                     </div>
                 
+                                    <div className="flex flex-wrap items-center gap-3 mb-4">
+                                        <h4 className="text-md font-bold text-neutral-400">{t('photoshoot.variationsPerStyle')}</h4>
+                                        {VARIATION_COUNTS.map(count => (
+                                            <button
+                                                key={count}
+                                                onClick={() => setVariationCount(count)}
+                                                className={cn(chipButtonClasses, variationCount === count && selectedChipButtonClasses)}
+                                            >
+                                                {count}
+                                            </button>
+                                        ))}
+                                    </div>
+                
                                     <div className="space-y-6 max-h-[30vh] overflow-y-auto pr-2">
-                                        {Object.entries(PHOTO_STYLE_CATEGORIES).map(([category, styles]) => (
-                                            <div key={category}>
-                                                <h3 className="text-lg font-bold text-neutral-300 mb-3">{t(`photoshoot.categories.${category}`)}</h3>
+                                        {presets.categories.map(category => (
+                                            <div key={category.id}>
+                                                <h3 className="text-lg font-bold text-neutral-300 mb-3">{category.name}</h3>
                                                 <div className="flex flex-wrap gap-3">
-                                                    {styles.map(style => (
+                                                    {category.styles.map(style => (
                                                         <button
                                                             key={style.id}
                                                             onClick={() => toggleStyleSelection(style.id)}
                                                             className={cn(chipButtonClasses, selectedStyles.includes(style.id) && selectedChipButtonClasses)}
                                                         >
-                                                            {t(`photoshoot.poses.${style.id}`)}
+                                                            {style.label}
                                                         </button>
                                                     ))}
                                                 </div>
@@ -952,7 +1003,7 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                 >
                                     {isLoading 
                                         ? t('photoshoot.generatingButton') 
-                                        : `${t('photoshoot.generateButton')} (${selectedStyles.length})`
+                                        : `${t('photoshoot.generateButton')} (${selectedStyles.length * Number(variationCount)})`
                                     }
                                 </button>
                             </div>
@@ -964,31 +1015,47 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                     <>
                         <div ref={dragAreaRef} className="w-full max-w-7xl flex-1 overflow-y-auto mt-4 p-4 relative">
                             <div className="flex flex-wrap justify-center items-start gap-8">
-                                {ALL_PHOTO_STYLES
+                                {allPhotoStyles
                                     .filter(style => generatedImages[style.id])
-                                    .map((style, index) => (
-                                        <motion.div
-                                            key={style.id}
-                                            initial={{ opacity: 0, scale: 0.8 }}
-                                            animate={{ opacity: 1, scale: 1 }}
-                                            transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.1 }}
-                                        >
-                                            <PolaroidCard
-                                                id={style.id}
-                                                dragConstraintsRef={dragAreaRef}
-                                                caption={t(`photoshoot.poses.${style.id}`)}
-                                                status={generatedImages[style.id]?.status || 'pending'}
-                                                imageUrl={generatedImages[style.id]?.url}
-                                                error={generatedImages[style.id]?.error}
-                                                onRegenerate={handleRegeneratePhoto}
-                                                onDownload={handleDownloadIndividualImage}
-                                                isMobile={isMobile}
-                                            />
-                                        </motion.div>
-                                    ))}
+                                    .map((style, index) => {
+                                        const result = generatedImages[style.id];
+                                        const candidate = result.candidates[result.shown];
+                                        return (
+                                            <motion.div
+                                                key={style.id}
+                                                initial={{ opacity: 0, scale: 0.8 }}
+                                                animate={{ opacity: 1, scale: 1 }}
+                                                transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.1 }}
+                                            >
+                                                <PolaroidCard
+                                                    id={style.id}
+                                                    dragConstraintsRef={dragAreaRef}
+                                                    caption={style.label}
+                                                    status={candidate?.status || 'pending'}
+                                                    imageUrl={candidate?.url}
+                                                    error={candidate?.error}
+                                                    onRegenerate={handleRegeneratePhoto}
+                                                    onDownload={handleDownloadIndividualImage}
+                                                    isMobile={isMobile}
+                                                    fromToolId="photoshoot"
+                                                    candidateIndex={result.shown}
+                                                    candidateCount={result.candidates.length}
+                                                    onShowCandidate={handleShowCandidate}
+                                                    onDiscard={handleDiscardCandidate}
+                                                    onToggleStar={handleToggleStar}
+                                                    isStarred={result.starred === result.shown}
+                                                />
+                                            </motion.div>
+                                        );
+                                    })}
                             </div>
                         </div>
                         <div className="h-28 mt-4 flex flex-col items-center justify-center z-20 w-full max-w-2xl">
+                            {appState === 'generating' && (
+                                <button onClick={handleStop} className={secondaryButtonClasses}>
+                                    {t('common.stop')}
+                                </button>
+                            )}
                             {appState === 'results-shown' && (
                                 <div className="w-full flex flex-col items-center gap-4">
                                     <div className="w-full bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-4 shadow-lg">
@@ -1011,16 +1078,37 @@ Your single most important, critical, and unbreakable task is to perfectly prese
                                         >
                                             {isDownloading ? t('photoshoot.creatingZipButton') : t('photoshoot.downloadAllButton')}
                                         </button>
+                                        <button onClick={handleOpenAlbumDesigner} className={secondaryButtonClasses}>
+                                            {t('photoshoot.createAlbumButton')}
+                                        </button>
+                                        <button onClick={handleOpenSocialExport} className={secondaryButtonClasses}>
+                                            {t('photoshoot.socialExportButton')}
+                                        </button>
                                         <button onClick={handleReset} className={secondaryButtonClasses}>
                                             {t('common.startOver')}
                                         </button>
                                     </div>
+                                    {(Object.values(generatedImages) as StyleResult[]).some(result => result.candidates.length > 1) && (
+                                        <div className="flex flex-col items-center gap-1 text-center">
+                                            <p className="text-sm text-neutral-400">{t('photoshoot.starHint')}</p>
+                                            <button onClick={handleDiscardUnstarred} className="text-sm font-semibold text-neutral-300 hover:text-white transition-colors">
+                                                {t('photoshoot.discardUnstarred')}
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
                     </>
                 )}
             </div>
+            <AnimatePresence>
+                {isPresetManagerOpen && <PhotoshootPresetManager onClose={() => setIsPresetManagerOpen(false)} />}
+                {albumImages && (
+                    <AlbumDesigner images={albumImages} options={albumOptions} onOptionsChange={setAlbumOptions} onClose={() => setAlbumImages(null)} />
+                )}
+                {socialExportImages && <SocialExportPanel images={socialExportImages} onClose={() => setSocialExportImages(null)} />}
+            </AnimatePresence>
         </main>
     );
 }
\ No newline at end of file
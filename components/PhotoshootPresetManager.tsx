@@ -0,0 +1,308 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, ChangeEvent } from 'react';
+import { motion } from 'framer-motion';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+    createPresetId, CustomPresets, getCustomPresets, getUsedPresetIds, mergePresets, parsePresets,
+    Preset, PresetCategory, resolvePresets, saveCustomPresets, serializePresets, useCustomPresets,
+} from '../lib/photoshootPresets';
+import { cn, downloadBlob } from '../lib/utils';
+
+type Tab = 'styles' | 'cameraAngles' | 'colorGrades';
+const TABS: Tab[] = ['styles', 'cameraAngles', 'colorGrades'];
+
+const chipButtonClasses = "text-sm text-center text-neutral-300 bg-neutral-800 border-2 border-transparent py-2 px-4 rounded-lg transition-all duration-200 hover:bg-neutral-700";
+const selectedChipButtonClasses = "bg-neutral-200 hover:bg-white border-neutral-200 text-black font-bold";
+const inputClasses = "w-full bg-neutral-900 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-neutral-200 placeholder-neutral-500 focus:outline-none focus:border-neutral-400";
+const actionClasses = "text-xs font-semibold text-neutral-400 hover:text-white transition-colors disabled:opacity-50";
+const deleteClasses = "text-xs font-semibold text-neutral-400 hover:text-red-400 transition-colors";
+
+const countPresets = (presets: CustomPresets) =>
+    presets.categories.reduce((total, category) => total + category.styles.length, 0) + presets.cameraAngles.length + presets.colorGrades.length;
+
+/** The fields of one custom preset. Changes are saved as they are typed. */
+const PresetFields: React.FC<{
+    preset: Preset;
+    multiline: boolean;
+    onChange: (update: Partial<Preset>) => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+}> = ({ preset, multiline, onChange, onDuplicate, onDelete }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="flex flex-col gap-2 bg-neutral-800/50 rounded-lg p-3">
+            <div className="flex items-center gap-3">
+                <input value={preset.label} onChange={(e) => onChange({ label: e.target.value })} placeholder={t('photoshootPresets.labelPlaceholder')} className={cn(inputClasses, "font-semibold")} />
+                <button onClick={onDuplicate} className={actionClasses}>{t('photoshootPresets.duplicate')}</button>
+                <button onClick={onDelete} className={deleteClasses}>{t('photoshootPresets.delete')}</button>
+            </div>
+            {multiline ? (
+                <textarea value={preset.prompt} onChange={(e) => onChange({ prompt: e.target.value })} placeholder={t('photoshootPresets.stylePromptPlaceholder')} rows={3} className={inputClasses} />
+            ) : (
+                <input value={preset.prompt} onChange={(e) => onChange({ prompt: e.target.value })} placeholder={t('photoshootPresets.optionPromptPlaceholder')} className={inputClasses} />
+            )}
+            <p className="text-xs text-neutral-500 font-mono">{t('photoshootPresets.idLabel', preset.id)}</p>
+        </div>
+    );
+};
+
+/** A new preset's fields. Its id is derived from the label when it is added. */
+const AddPresetForm: React.FC<{
+    multiline: boolean;
+    onAdd: (label: string, prompt: string) => void;
+}> = ({ multiline, onAdd }) => {
+    const { t } = useLanguage();
+    const [label, setLabel] = useState('');
+    const [prompt, setPrompt] = useState('');
+    // A style needs its own prompt; an angle or grade without one is described by its label.
+    const canAdd = label.trim() !== '' && (!multiline || prompt.trim() !== '');
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        onAdd(label.trim(), prompt.trim() || label.trim());
+        setLabel('');
+        setPrompt('');
+    };
+
+    return (
+        <div className="flex flex-col gap-2 border-2 border-dashed border-neutral-700 rounded-lg p-3">
+            <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder={t('photoshootPresets.labelPlaceholder')} className={inputClasses} />
+            {multiline ? (
+                <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={t('photoshootPresets.stylePromptPlaceholder')} rows={3} className={inputClasses} />
+            ) : (
+                <input value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={t('photoshootPresets.optionPromptPlaceholder')} className={inputClasses} />
+            )}
+            <button onClick={handleAdd} disabled={!canAdd} className={cn(chipButtonClasses, "self-end disabled:opacity-50 disabled:cursor-not-allowed")}>
+                {t('photoshootPresets.add')}
+            </button>
+        </div>
+    );
+};
+
+/**
+ * Lets users write their own Photoshoot presets: style categories with their prompts, camera angles
+ * and color grades. Built-in presets are read-only; duplicating one gives an editable copy.
+ */
+const PhotoshootPresetManager = ({ onClose }: { onClose: () => void }) => {
+    const { t } = useLanguage();
+    const custom = useCustomPresets();
+    const presets = resolvePresets(custom, t);
+    const [tab, setTab] = useState<Tab>('styles');
+    const [newCategoryName, setNewCategoryName] = useState('');
+    const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+
+    const copyLabel = (label: string) => t('photoshootPresets.copyOf', label);
+
+    // Helpers for one list of presets: a category's styles, the camera angles or the color grades.
+    const addPreset = (list: Preset[], label: string, prompt: string): Preset[] =>
+        [...list, { id: createPresetId(label, getUsedPresetIds(custom)), label, prompt }];
+    const duplicatePreset = (list: Preset[], preset: Preset): Preset[] =>
+        addPreset(list, copyLabel(preset.label), preset.prompt);
+    const updatePreset = (list: Preset[], id: string, update: Partial<Preset>): Preset[] =>
+        list.map(preset => preset.id === id ? { ...preset, ...update } : preset);
+    const removePreset = (list: Preset[], id: string): Preset[] =>
+        list.filter(preset => preset.id !== id);
+
+    // --- Style categories ---
+
+    const setStyles = (categoryId: string, styles: Preset[]) => {
+        saveCustomPresets({
+            ...custom,
+            categories: custom.categories.map(category => category.id === categoryId ? { ...category, styles } : category),
+        });
+    };
+
+    const handleAddCategory = () => {
+        const name = newCategoryName.trim();
+        if (!name) return;
+        const id = createPresetId(name, getUsedPresetIds(custom));
+        saveCustomPresets({ ...custom, categories: [...custom.categories, { id, name, styles: [] }] });
+        setNewCategoryName('');
+    };
+
+    const handleDuplicateCategory = (category: PresetCategory) => {
+        const taken = getUsedPresetIds(custom);
+        const name = copyLabel(category.name);
+        const copy: PresetCategory = {
+            id: createPresetId(name, taken),
+            name,
+            styles: category.styles.map(style => ({ id: createPresetId(style.label, taken), label: style.label, prompt: style.prompt })),
+        };
+        saveCustomPresets({ ...custom, categories: [...custom.categories, copy] });
+    };
+
+    const handleRenameCategory = (categoryId: string, name: string) => {
+        saveCustomPresets({
+            ...custom,
+            categories: custom.categories.map(category => category.id === categoryId ? { ...category, name } : category),
+        });
+    };
+
+    const handleDeleteCategory = (category: PresetCategory) => {
+        if (category.styles.length > 0 && !window.confirm(t('photoshootPresets.confirmDeleteCategory', category.name))) return;
+        saveCustomPresets({ ...custom, categories: custom.categories.filter(candidate => candidate.id !== category.id) });
+    };
+
+    // --- Camera angles and color grades ---
+
+    const setOptions = (kind: 'cameraAngles' | 'colorGrades', list: Preset[]) => {
+        saveCustomPresets({ ...custom, [kind]: list });
+    };
+
+    // --- Sharing ---
+
+    const handleExport = () => {
+        const blob = new Blob([serializePresets(custom)], { type: 'application/json' });
+        downloadBlob(blob, 'photoshoot-presets.json');
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parsePresets(await file.text());
+            saveCustomPresets(mergePresets(getCustomPresets(), imported));
+            setMessage({ text: t('photoshootPresets.imported', countPresets(imported)), isError: false });
+        } catch (err) {
+            console.error(err);
+            setMessage({ text: t('photoshootPresets.importFailed'), isError: true });
+        }
+    };
+
+    const renderStyles = () => (
+        <div className="flex flex-col gap-4">
+            {presets.categories.map(category => category.custom ? (
+                <div key={category.id} className="flex flex-col gap-3 border border-neutral-700 rounded-xl p-4">
+                    <div className="flex items-center gap-3">
+                        <input value={category.name} onChange={(e) => handleRenameCategory(category.id, e.target.value)} placeholder={t('photoshootPresets.categoryPlaceholder')} className={cn(inputClasses, "text-base font-bold")} />
+                        <button onClick={() => handleDuplicateCategory(category)} className={actionClasses}>{t('photoshootPresets.duplicate')}</button>
+                        <button onClick={() => handleDeleteCategory(category)} className={deleteClasses}>{t('photoshootPresets.delete')}</button>
+                    </div>
+                    {category.styles.map(style => (
+                        <PresetFields
+                            key={style.id}
+                            preset={style}
+                            multiline
+                            onChange={(update) => setStyles(category.id, updatePreset(category.styles, style.id, update))}
+                            onDuplicate={() => setStyles(category.id, duplicatePreset(category.styles, style))}
+                            onDelete={() => setStyles(category.id, removePreset(category.styles, style.id))}
+                        />
+                    ))}
+                    <AddPresetForm multiline onAdd={(label, prompt) => setStyles(category.id, addPreset(category.styles, label, prompt))} />
+                </div>
+            ) : (
+                <div key={category.id} className="flex flex-col gap-3 border border-neutral-800 rounded-xl p-4">
+                    <div className="flex items-center gap-3">
+                        <h4 className="flex-1 text-base font-bold text-neutral-300">{category.name}</h4>
+                        <span className="text-xs uppercase tracking-wider text-neutral-500">{t('photoshootPresets.builtIn')}</span>
+                        <button onClick={() => handleDuplicateCategory(category)} className={actionClasses}>{t('photoshootPresets.duplicate')}</button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {category.styles.map(style => (
+                            <span key={style.id} title={style.prompt} className="text-xs text-neutral-400 bg-neutral-800 rounded-md px-2 py-1">{style.label}</span>
+                        ))}
+                    </div>
+                </div>
+            ))}
+            <div className="flex items-center gap-3 border-2 border-dashed border-neutral-700 rounded-xl p-4">
+                <input
+                    value={newCategoryName}
+                    onChange={(e) => setNewCategoryName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddCategory()}
+                    placeholder={t('photoshootPresets.categoryPlaceholder')}
+                    className={inputClasses}
+                />
+                <button onClick={handleAddCategory} disabled={!newCategoryName.trim()} className={cn(chipButtonClasses, "whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed")}>
+                    {t('photoshootPresets.addCategory')}
+                </button>
+            </div>
+        </div>
+    );
+
+    const renderOptions = (kind: 'cameraAngles' | 'colorGrades') => {
+        const list = custom[kind];
+        return (
+            <div className="flex flex-col gap-4">
+                <div className="flex flex-wrap gap-2">
+                    {presets[kind].filter(option => !option.custom).map(option => (
+                        <span key={option.id} className="flex items-center gap-2 text-sm text-neutral-300 bg-neutral-800 rounded-lg pl-3 pr-2 py-1">
+                            {option.label}
+                            <button onClick={() => setOptions(kind, duplicatePreset(list, option))} title={t('photoshootPresets.duplicate')} className="text-neutral-500 hover:text-white">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                            </button>
+                        </span>
+                    ))}
+                </div>
+                {list.map(option => (
+                    <PresetFields
+                        key={option.id}
+                        preset={option}
+                        multiline={false}
+                        onChange={(update) => setOptions(kind, updatePreset(list, option.id, update))}
+                        onDuplicate={() => setOptions(kind, duplicatePreset(list, option))}
+                        onDelete={() => setOptions(kind, removePreset(list, option.id))}
+                    />
+                ))}
+                <AddPresetForm multiline={false} onAdd={(label, prompt) => setOptions(kind, addPreset(list, label, prompt))} />
+            </div>
+        );
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, y: 20 }}
+                animate={{ scale: 1, y: 0 }}
+                exit={{ scale: 0.95, y: 20 }}
+                transition={{ duration: 0.2 }}
+                className="bg-neutral-900 border border-neutral-700 rounded-2xl w-[90vw] h-[90vh] max-w-4xl flex flex-col overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-neutral-800 flex justify-between items-center gap-4 flex-shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-neutral-100">{t('photoshootPresets.title')}</h2>
+                        <p className="text-sm text-neutral-400 mt-1">{t('photoshootPresets.subtitle')}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <button onClick={handleExport} disabled={countPresets(custom) === 0 && custom.categories.length === 0} className="text-sm font-semibold text-neutral-300 hover:text-white disabled:opacity-50">
+                            {t('photoshootPresets.export')}
+                        </button>
+                        <label htmlFor="photoshoot-presets-import" className="text-sm font-semibold text-neutral-300 hover:text-white cursor-pointer">
+                            {t('photoshootPresets.import')}
+                        </label>
+                        <input id="photoshoot-presets-import" type="file" className="hidden" accept="application/json,.json" onChange={handleImport} />
+                        <button onClick={onClose} className="text-neutral-500 hover:text-white">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                    </div>
+                </header>
+
+                <div className="px-4 pt-4 flex flex-wrap gap-2 flex-shrink-0">
+                    {TABS.map(candidate => (
+                        <button key={candidate} onClick={() => setTab(candidate)} className={cn(chipButtonClasses, tab === candidate && selectedChipButtonClasses)}>
+                            {t(`photoshootPresets.tabs.${candidate}`)}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4">
+                    <p className="text-sm text-neutral-500">{t(`photoshootPresets.hints.${tab}`)}</p>
+                    {message && <p className={cn("text-sm", message.isError ? "text-red-400" : "text-green-400")}>{message.text}</p>}
+                    {tab === 'styles' ? renderStyles() : renderOptions(tab)}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default PhotoshootPresetManager;
@@ -0,0 +1,735 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState, ChangeEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { motion } from 'framer-motion';
+import JSZip from 'jszip';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import LanguageSwitcher from './LanguageSwitcher';
+import SendToMenu from './SendToMenu';
+import { cn, downloadBlob, imageFileExtension } from '../lib/utils';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { blobToDataUrl, createImageId } from '../lib/mediaStore';
+import { JobPriority } from '../services/generationQueue';
+import {
+    collectResults,
+    connect,
+    createNode,
+    createStarterWorkflow,
+    needsInputImage,
+    NodeRunState,
+    NodeRunStatus,
+    parseWorkflow,
+    PortRef,
+    removeNode,
+    resetFromNode,
+    runWorkflow,
+    RunState,
+    serializeWorkflow,
+    validateWorkflow,
+    Workflow,
+    WorkflowNode,
+} from '../lib/pipeline';
+import { getNodeDefinition, NODE_DEFINITIONS, NodeCategory, ParamDefinition, ParamValue, PortType } from '../lib/pipelineNodes';
+
+const WORKFLOW_STORAGE_KEY = 'ai-creative-suite-pipeline';
+
+const NODE_WIDTH = 240;
+const HEADER_HEIGHT = 40;
+const PORT_ROW_HEIGHT = 28;
+const CANVAS_WIDTH = 2400;
+const CANVAS_HEIGHT = 1600;
+
+const CATEGORIES: NodeCategory[] = ['source', 'generation', 'utility', 'output'];
+
+const PORT_COLORS: Record<PortType, string> = {
+    image: 'bg-sky-400',
+    text: 'bg-amber-400',
+    json: 'bg-emerald-400',
+};
+
+const STATUS_STYLES: Record<NodeRunStatus, string> = {
+    pending: 'border-neutral-700 text-neutral-400',
+    running: 'border-sky-500 text-sky-300 animate-pulse',
+    done: 'border-emerald-500 text-emerald-300',
+    error: 'border-red-500 text-red-300',
+    cancelled: 'border-neutral-500 text-neutral-400',
+    blocked: 'border-amber-500 text-amber-300',
+};
+
+/** One execution of the workflow, over the single input image or one file of a folder. */
+interface PipelineRun {
+    id: string;
+    name: string;
+    /** Folder runs keep the file and read it only when their turn comes. */
+    file?: File;
+    input?: string;
+    /** The workflow as it was when the run started; retries resume against it, not later edits. */
+    workflow: Workflow;
+    state: RunState;
+    isRunning: boolean;
+}
+
+const loadWorkflow = (fallbackName: string): Workflow => {
+    try {
+        const saved = localStorage.getItem(WORKFLOW_STORAGE_KEY);
+        if (saved) return parseWorkflow(saved);
+    } catch (error) {
+        console.error("Failed to load the workflow from localStorage", error);
+    }
+    return createStarterWorkflow(fallbackName);
+};
+
+// Screen position of a port's connector dot, in canvas coordinates.
+const portPosition = (node: WorkflowNode, index: number, direction: 'input' | 'output') => ({
+    x: direction === 'input' ? node.x : node.x + NODE_WIDTH,
+    y: node.y + HEADER_HEIGHT + index * PORT_ROW_HEIGHT + PORT_ROW_HEIGHT / 2,
+});
+
+const edgePath = (x1: number, y1: number, x2: number, y2: number) => {
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+};
+
+const runStatus = (run: PipelineRun): 'pending' | 'running' | 'done' | 'error' => {
+    if (run.isRunning) return 'running';
+    const states = Object.values(run.state);
+    if (states.length === 0) return 'pending';
+    return states.every(nodeState => nodeState.status === 'done') ? 'done' : 'error';
+};
+
+const safeFileName = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'image';
+
+export default function PipelineBuilder({ onBack }: { onBack: () => void }) {
+    const { t } = useLanguage();
+    const { addImageToLibrary } = useMediaLibrary();
+    const { getSignal, cancel } = useGenerationController();
+    const [workflow, setWorkflow] = useProjectState<Workflow>('workflow', () => loadWorkflow(t('pipeline.starterName')));
+    const [inputImage, setInputImage] = useProjectState<string | null>('inputImage', null);
+    const [runs, setRuns] = useState<PipelineRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isZipping, setIsZipping] = useState(false);
+    // The connection being dragged out of an output port, with the pointer position.
+    const [pendingEdge, setPendingEdge] = useState<{ from: PortRef; x: number; y: number } | null>(null);
+
+    const canvasRef = useRef<HTMLDivElement>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const nodeDragRef = useRef<{ nodeId: string; offsetX: number; offsetY: number } | null>(null);
+
+    useToolHandoff('pipelineBuilder', {
+        source: setInputImage,
+    });
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(WORKFLOW_STORAGE_KEY, serializeWorkflow(workflow));
+        } catch (error) {
+            console.error("Failed to save the workflow to localStorage", error);
+        }
+    }, [workflow]);
+
+    // Directory picking isn't part of React's input props, so the attribute is set by hand.
+    useEffect(() => {
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    const issues = useMemo(() => validateWorkflow(workflow), [workflow]);
+    const nodesWithIssues = useMemo(() => new Set(issues.map(issue => issue.nodeId)), [issues]);
+    const requiresInput = needsInputImage(workflow);
+    const isRunning = runs.some(run => run.isRunning);
+    const selectedRun = runs.find(run => run.id === selectedRunId) ?? runs[runs.length - 1];
+    const selectedResults = selectedRun ? collectResults(selectedRun.workflow, selectedRun.state) : [];
+
+    const nodeLabel = (nodeId?: string) => {
+        const node = workflow.nodes.find(candidate => candidate.id === nodeId);
+        return node ? t(`pipeline.nodes.${node.type}`) : '';
+    };
+
+    const updateRun = (id: string, update: Partial<PipelineRun>) => {
+        setRuns(prev => prev.map(run => run.id === id ? { ...run, ...update } : run));
+    };
+
+    // Canvas coordinates of a pointer event; the content rect already accounts for scrolling.
+    const toCanvasPoint = (e: { clientX: number; clientY: number }) => {
+        const rect = contentRef.current!.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    // --- Editing ---
+
+    const handleAddNode = (type: string) => {
+        const canvas = canvasRef.current;
+        const x = (canvas?.scrollLeft ?? 0) + 40 + Math.random() * 80;
+        const y = (canvas?.scrollTop ?? 0) + 40 + Math.random() * 80;
+        setWorkflow(prev => ({ ...prev, nodes: [...prev.nodes, createNode(type, Math.round(x), Math.round(y))] }));
+    };
+
+    const handleParamChange = (nodeId: string, name: string, value: ParamValue) => {
+        setWorkflow(prev => ({
+            ...prev,
+            nodes: prev.nodes.map(node => node.id === nodeId ? { ...node, params: { ...node.params, [name]: value } } : node),
+        }));
+    };
+
+    const handleParamImage = async (nodeId: string, name: string, e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) {
+            handleParamChange(nodeId, name, await blobToDataUrl(file));
+        }
+    };
+
+    const handleNodePointerDown = (node: WorkflowNode, e: ReactPointerEvent<HTMLDivElement>) => {
+        if ((e.target as HTMLElement).closest('button')) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toCanvasPoint(e);
+        nodeDragRef.current = { nodeId: node.id, offsetX: point.x - node.x, offsetY: point.y - node.y };
+    };
+
+    const handleNodePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+        const drag = nodeDragRef.current;
+        if (!drag) return;
+        const point = toCanvasPoint(e);
+        const x = Math.min(Math.max(0, point.x - drag.offsetX), CANVAS_WIDTH - NODE_WIDTH);
+        const y = Math.min(Math.max(0, point.y - drag.offsetY), CANVAS_HEIGHT - HEADER_HEIGHT);
+        setWorkflow(prev => ({
+            ...prev,
+            nodes: prev.nodes.map(node => node.id === drag.nodeId ? { ...node, x, y } : node),
+        }));
+    };
+
+    const handleNodePointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+        nodeDragRef.current = null;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    const handleOutputPointerDown = (from: PortRef, e: ReactPointerEvent<HTMLElement>) => {
+        e.stopPropagation();
+        setPendingEdge({ from, ...toCanvasPoint(e) });
+    };
+
+    const handleCanvasPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+        if (pendingEdge) {
+            setPendingEdge({ ...pendingEdge, ...toCanvasPoint(e) });
+        }
+    };
+
+    const handleCanvasPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+        if (!pendingEdge) return;
+        const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-input-port]');
+        if (target?.dataset.nodeId && target.dataset.inputPort) {
+            const to = { nodeId: target.dataset.nodeId, port: target.dataset.inputPort };
+            setWorkflow(prev => connect(prev, pendingEdge.from, to));
+        }
+        setPendingEdge(null);
+    };
+
+    const handleRemoveEdge = (edgeId: string) => {
+        setWorkflow(prev => ({ ...prev, edges: prev.edges.filter(edge => edge.id !== edgeId) }));
+    };
+
+    // --- Saving and loading ---
+
+    const handleNewWorkflow = () => {
+        if (!window.confirm(t('pipeline.confirmNew'))) return;
+        setWorkflow(createStarterWorkflow(t('pipeline.starterName')));
+        setRuns([]);
+    };
+
+    const handleExportWorkflow = () => {
+        const blob = new Blob([serializeWorkflow(workflow)], { type: 'application/json' });
+        downloadBlob(blob, `${safeFileName(workflow.name || 'workflow')}.json`);
+    };
+
+    const handleImportWorkflow = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setWorkflow(parseWorkflow(await file.text()));
+            setRuns([]);
+            setError(null);
+        } catch (err) {
+            console.error(err);
+            setError(t('pipeline.loadFailed'));
+        }
+    };
+
+    // --- Running ---
+
+    /**
+     * Runs (or resumes) one run against the workflow it was started with. Nodes already done in
+     * `previous` are kept, so retrying after a failure only redoes what failed and what depends on it.
+     */
+    const executeRun = async (run: PipelineRun, previous: RunState, signal: AbortSignal, priority: JobPriority) => {
+        const snapshot = run.workflow;
+        updateRun(run.id, { isRunning: true, state: previous });
+        let input = run.input;
+        try {
+            if (!input && run.file) {
+                input = await blobToDataUrl(run.file);
+                updateRun(run.id, { input });
+            }
+            const state = await runWorkflow(snapshot, {
+                previous,
+                input,
+                signal,
+                priority,
+                onUpdate: nodeStates => updateRun(run.id, { state: nodeStates }),
+            });
+            // Output nodes carried over from `previous` were saved by the earlier attempt.
+            for (const result of collectResults(snapshot, state)) {
+                if (previous[result.nodeId]?.status === 'done') continue;
+                addImageToLibrary(result.image, {
+                    toolId: 'pipelineBuilder',
+                    prompt: snapshot.name || undefined,
+                    instructions: result.label,
+                    inputs: { source: input },
+                });
+            }
+        } catch (err) {
+            console.error(err);
+            setError(getErrorMessage(err, t));
+        } finally {
+            updateRun(run.id, { isRunning: false });
+        }
+    };
+
+    const handleRun = () => {
+        if (requiresInput && !inputImage) return;
+        const run: PipelineRun = {
+            id: createImageId(),
+            name: t('pipeline.runName', runs.length + 1),
+            input: inputImage ?? undefined,
+            workflow,
+            state: {},
+            isRunning: false,
+        };
+        setRuns(prev => [...prev, run]);
+        setSelectedRunId(run.id);
+        setError(null);
+        executeRun(run, {}, getSignal(), 'interactive');
+    };
+
+    const handleFolderChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = (Array.from(e.target.files ?? []) as File[]).filter(file => file.type.startsWith('image/'));
+        e.target.value = '';
+        if (files.length === 0) {
+            setError(t('pipeline.noImagesInFolder'));
+            return;
+        }
+        setError(null);
+        const folderRuns: PipelineRun[] = files.map(file => ({ id: createImageId(), name: file.name, file, workflow, state: {}, isRunning: false }));
+        setRuns(prev => [...prev, ...folderRuns]);
+        setSelectedRunId(folderRuns[0].id);
+        // One file at a time, at batch priority, so single runs started meanwhile go first.
+        const signal = getSignal();
+        for (const run of folderRuns) {
+            if (signal.aborted) break;
+            await executeRun(run, {}, signal, 'batch');
+        }
+    };
+
+    const handleRetryRun = (run: PipelineRun) => {
+        setError(null);
+        executeRun(run, run.state, getSignal(), 'interactive');
+    };
+
+    const handleRetryNode = (nodeId: string) => {
+        if (!selectedRun) return;
+        setError(null);
+        executeRun(selectedRun, resetFromNode(selectedRun.workflow, selectedRun.state, nodeId), getSignal(), 'interactive');
+    };
+
+    const handleDownloadAll = async () => {
+        setIsZipping(true);
+        try {
+            const zip = new JSZip();
+            const used = new Set<string>();
+            for (const run of runs) {
+                for (const result of collectResults(run.workflow, run.state)) {
+                    const match = result.image.match(/^data:(image\/(?:png|jpeg|webp));base64,(.*)$/);
+                    if (match) {
+                        const extension = match[1].split('/')[1] || 'jpg';
+                        const baseName = `${safeFileName(run.name)}/${safeFileName(result.label)}`;
+                        let fileName = `${baseName}.${extension}`;
+                        // Runs with the same name, or outputs with the same label, would otherwise overwrite each other.
+                        for (let copy = 2; used.has(fileName); copy++) {
+                            fileName = `${baseName}-${copy}.${extension}`;
+                        }
+                        used.add(fileName);
+                        zip.file(fileName, match[2], { base64: true });
+                    }
+                }
+            }
+            const content = await zip.generateAsync({ type: 'blob' });
+            downloadBlob(content, `${safeFileName(workflow.name || 'workflow')}.zip`);
+        } catch (err) {
+            console.error("Failed to create or download ZIP:", err);
+            setError(t('pipeline.zipFailed'));
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    // --- Rendering ---
+
+    const renderParam = (node: WorkflowNode, param: ParamDefinition) => {
+        const value = node.params[param.name];
+        const inputClasses = "w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-400";
+        let control: React.ReactNode;
+        switch (param.kind) {
+            case 'text':
+                control = param.multiline
+                    ? <textarea value={String(value ?? '')} onChange={(e) => handleParamChange(node.id, param.name, e.target.value)} rows={3} className={cn(inputClasses, "resize-none")} />
+                    : <input type="text" value={String(value ?? '')} onChange={(e) => handleParamChange(node.id, param.name, e.target.value)} className={inputClasses} />;
+                break;
+            case 'number':
+                control = <input type="number" value={Number(value)} min={param.min} max={param.max} step={param.step ?? 1} onChange={(e) => handleParamChange(node.id, param.name, Number(e.target.value))} className={inputClasses} />;
+                break;
+            case 'select':
+                control = (
+                    <select value={String(value)} onChange={(e) => handleParamChange(node.id, param.name, e.target.value)} className={inputClasses}>
+                        {param.options.map(option => (
+                            <option key={option.value} value={option.value}>{option.labelKey ? t(option.labelKey) : option.value}</option>
+                        ))}
+                    </select>
+                );
+                break;
+            case 'image':
+                control = (
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <div className="w-12 h-12 rounded bg-neutral-800 border border-neutral-700 overflow-hidden flex-shrink-0">
+                            {value && <img src={String(value)} alt="" className="w-full h-full object-cover" />}
+                        </div>
+                        <span className="text-xs text-neutral-400 hover:text-white">{t('pipeline.chooseImage')}</span>
+                        <input type="file" accept="image/*" className="hidden" onChange={(e) => handleParamImage(node.id, param.name, e)} />
+                    </label>
+                );
+                break;
+        }
+        return (
+            <div key={param.name} className="flex flex-col gap-1">
+                <span className="text-[11px] uppercase tracking-wider text-neutral-500">{t(`pipeline.params.${param.name}`)}</span>
+                {control}
+            </div>
+        );
+    };
+
+    const renderNode = (node: WorkflowNode) => {
+        const definition = getNodeDefinition(node.type);
+        const nodeState = selectedRun?.state[node.id];
+        const status = nodeState?.status;
+        const rows = Math.max(definition?.inputs.length ?? 0, definition?.outputs.length ?? 0);
+        const preview = nodeState?.outputs && Object.values(nodeState.outputs)[0];
+
+        return (
+            <div
+                key={node.id}
+                className={cn(
+                    "absolute bg-neutral-900/95 border-2 rounded-lg shadow-xl",
+                    status ? STATUS_STYLES[status].split(' ')[0] : 'border-neutral-700',
+                    nodesWithIssues.has(node.id) && !status && 'border-amber-600/70',
+                )}
+                style={{ left: node.x, top: node.y, width: NODE_WIDTH }}
+            >
+                <div
+                    onPointerDown={(e) => handleNodePointerDown(node, e)}
+                    onPointerMove={handleNodePointerMove}
+                    onPointerUp={handleNodePointerUp}
+                    className="flex items-center justify-between gap-2 px-3 cursor-move touch-none select-none border-b border-neutral-800"
+                    style={{ height: HEADER_HEIGHT }}
+                >
+                    <span className="text-sm font-semibold text-white truncate">{t(`pipeline.nodes.${node.type}`)}</span>
+                    <div className="flex items-center gap-1">
+                        {status && (
+                            <span className={cn("text-[10px] uppercase tracking-wider border rounded px-1.5 py-0.5", STATUS_STYLES[status])}>
+                                {t(`pipeline.status.${status}`)}
+                            </span>
+                        )}
+                        <button
+                            onClick={() => setWorkflow(prev => removeNode(prev, node.id))}
+                            className="p-1 text-neutral-500 hover:text-red-400"
+                            aria-label={t('pipeline.removeNode')}
+                            title={t('pipeline.removeNode')}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                        </button>
+                    </div>
+                </div>
+
+                {Array.from({ length: rows }, (_, index) => {
+                    const input = definition?.inputs[index];
+                    const output = definition?.outputs[index];
+                    return (
+                        <div key={index} className="relative flex items-center justify-between px-3 text-xs text-neutral-300" style={{ height: PORT_ROW_HEIGHT }}>
+                            {input ? (
+                                <div data-node-id={node.id} data-input-port={input.name} className="flex items-center gap-1.5 -ml-[19px] py-1 pr-2">
+                                    <span className={cn("w-3 h-3 rounded-full border-2 border-neutral-900", PORT_COLORS[input.type])} />
+                                    {t(`pipeline.ports.${input.name}`)}
+                                    {!input.required && <span className="text-neutral-600">{t('pipeline.optional')}</span>}
+                                </div>
+                            ) : <span />}
+                            {output && (
+                                <div className="flex items-center gap-1.5 -mr-[19px] py-1 pl-2">
+                                    {t(`pipeline.ports.${output.name}`)}
+                                    <span
+                                        onPointerDown={(e) => handleOutputPointerDown({ nodeId: node.id, port: output.name }, e)}
+                                        className={cn("w-3 h-3 rounded-full border-2 border-neutral-900 cursor-crosshair touch-none", PORT_COLORS[output.type])}
+                                        title={t('pipeline.edgeHint')}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {definition && definition.params.length > 0 && (
+                    <div className="flex flex-col gap-2 px-3 py-2 border-t border-neutral-800">
+                        {definition.params.map(param => renderParam(node, param))}
+                    </div>
+                )}
+
+                {typeof preview === 'string' && (
+                    <div className="px-3 pb-3 pt-1">
+                        {preview.startsWith('data:image/')
+                            ? <img src={preview} alt="" className="w-full h-28 object-contain bg-black/40 rounded" />
+                            : <p className="text-xs text-neutral-400 line-clamp-3 break-words">{preview}</p>}
+                    </div>
+                )}
+
+                {status === 'error' && nodeState?.error && (
+                    <div className="flex items-center justify-between gap-2 px-3 pb-3">
+                        <p className="text-xs text-red-300 line-clamp-2" title={nodeState.error.message}>{getErrorMessage(nodeState.error, t)}</p>
+                        <button onClick={() => handleRetryNode(node.id)} disabled={isRunning} className="text-xs font-semibold text-white bg-red-500/20 border border-red-500/50 rounded px-2 py-1 hover:bg-red-500/40 disabled:opacity-50">
+                            {t('pipeline.retry')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderEdges = () => (
+        <svg className="absolute inset-0 pointer-events-none" width={CANVAS_WIDTH} height={CANVAS_HEIGHT}>
+            {workflow.edges.map(edge => {
+                const fromNode = workflow.nodes.find(node => node.id === edge.from.nodeId);
+                const toNode = workflow.nodes.find(node => node.id === edge.to.nodeId);
+                const fromDefinition = fromNode && getNodeDefinition(fromNode.type);
+                const toDefinition = toNode && getNodeDefinition(toNode.type);
+                if (!fromNode || !toNode || !fromDefinition || !toDefinition) return null;
+                const fromIndex = fromDefinition.outputs.findIndex(port => port.name === edge.from.port);
+                const toIndex = toDefinition.inputs.findIndex(port => port.name === edge.to.port);
+                const start = portPosition(fromNode, fromIndex, 'output');
+                const end = portPosition(toNode, toIndex, 'input');
+                const path = edgePath(start.x, start.y, end.x, end.y);
+                return (
+                    <g key={edge.id}>
+                        <path d={path} fill="none" stroke="rgb(115 115 115)" strokeWidth={2} />
+                        {/* A wide invisible stroke makes the edge easy to click. */}
+                        <path d={path} fill="none" stroke="transparent" strokeWidth={12} className="pointer-events-auto cursor-pointer" onClick={() => handleRemoveEdge(edge.id)}>
+                            <title>{t('pipeline.removeEdge')}</title>
+                        </path>
+                    </g>
+                );
+            })}
+            {pendingEdge && (() => {
+                const fromNode = workflow.nodes.find(node => node.id === pendingEdge.from.nodeId);
+                const fromIndex = fromNode ? getNodeDefinition(fromNode.type)?.outputs.findIndex(port => port.name === pendingEdge.from.port) ?? -1 : -1;
+                if (!fromNode || fromIndex < 0) return null;
+                const start = portPosition(fromNode, fromIndex, 'output');
+                return <path d={edgePath(start.x, start.y, pendingEdge.x, pendingEdge.y)} fill="none" stroke="white" strokeWidth={2} strokeDasharray="6 4" />;
+            })()}
+        </svg>
+    );
+
+    const panelClasses = "bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-4 shadow-lg";
+    const secondaryButtonClasses = "w-full text-sm font-semibold text-neutral-300 bg-neutral-800/60 border border-neutral-700 rounded-lg px-3 py-2 hover:bg-neutral-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+    const completedRuns = runs.filter(run => collectResults(run.workflow, run.state).length > 0);
+
+    return (
+        <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center p-4 relative bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-neutral-900 to-black">
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div className="absolute top-1/2 left-1/2 w-[80vw] h-[80vw] max-w-4xl max-h-4xl -translate-x-1/2 -translate-y-1/2 bg-gradient-to-tr from-neutral-600 to-black opacity-20 rounded-full blur-3xl" />
+            </div>
+
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }} className="w-full max-w-[110rem] mx-auto flex flex-col items-center z-10">
+                <header className="w-full flex justify-between items-center py-4 mb-6">
+                    <button onClick={onBack} className="flex items-center gap-2 text-neutral-300 hover:text-white transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+                        {t('common.backToTools')}
+                    </button>
+                    <div className="flex items-center gap-4">
+                        <p className="text-sm text-neutral-400 hidden sm:block">{t('common.poweredByGemini')}</p>
+                        <LanguageSwitcher />
+                    </div>
+                </header>
+
+                <div className="text-center mb-8">
+                    <h2 className="text-5xl md:text-6xl font-extrabold text-white mb-2 tracking-tight">{t('app.pipelineBuilderTitle')}</h2>
+                    <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('pipeline.subtitle')}</p>
+                </div>
+
+                {error && <p className="w-full text-center text-red-400 bg-red-900/20 border border-red-800/50 rounded-lg p-3 mb-4">{error}</p>}
+
+                <div className="w-full grid grid-cols-1 lg:grid-cols-[15rem_minmax(0,1fr)_20rem] gap-4">
+                    <aside className={cn(panelClasses, "flex flex-col gap-4 lg:max-h-[75vh] overflow-y-auto")}>
+                        <div className="flex flex-col gap-2">
+                            <label className="text-xs uppercase tracking-wider text-neutral-500">{t('pipeline.workflowName')}</label>
+                            <input
+                                type="text"
+                                value={workflow.name}
+                                onChange={(e) => setWorkflow(prev => ({ ...prev, name: e.target.value }))}
+                                className="w-full bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-neutral-400"
+                            />
+                            <button onClick={handleNewWorkflow} className={secondaryButtonClasses}>{t('pipeline.newWorkflow')}</button>
+                            <button onClick={handleExportWorkflow} className={secondaryButtonClasses}>{t('pipeline.exportWorkflow')}</button>
+                            <label className={cn(secondaryButtonClasses, "text-center cursor-pointer")}>
+                                {t('pipeline.importWorkflow')}
+                                <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportWorkflow} />
+                            </label>
+                        </div>
+                        {CATEGORIES.map(category => (
+                            <div key={category} className="flex flex-col gap-1">
+                                <p className="text-xs uppercase tracking-wider text-neutral-500 mb-1">{t(`pipeline.categories.${category}`)}</p>
+                                {NODE_DEFINITIONS.filter(definition => definition.category === category).map(definition => (
+                                    <button
+                                        key={definition.type}
+                                        onClick={() => handleAddNode(definition.type)}
+                                        className="text-left text-sm text-neutral-300 rounded px-2 py-1 hover:bg-neutral-800 hover:text-white transition-colors"
+                                    >
+                                        + {t(`pipeline.nodes.${definition.type}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                    </aside>
+
+                    <div className="flex flex-col gap-2 min-w-0">
+                        <div ref={canvasRef} className="relative h-[75vh] overflow-auto rounded-2xl border border-neutral-800 bg-neutral-950/80">
+                            <div
+                                ref={contentRef}
+                                onPointerMove={handleCanvasPointerMove}
+                                onPointerUp={handleCanvasPointerUp}
+                                onPointerLeave={() => setPendingEdge(null)}
+                                className={cn("relative bg-[radial-gradient(rgb(38_38_38)_1px,transparent_1px)] [background-size:24px_24px]", pendingEdge && "touch-none")}
+                                style={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
+                            >
+                                {renderEdges()}
+                                {workflow.nodes.map(renderNode)}
+                            </div>
+                        </div>
+                        <p className="text-xs text-neutral-500">{t('pipeline.canvasHint')}</p>
+                    </div>
+
+                    <aside className={cn(panelClasses, "flex flex-col gap-4 lg:max-h-[75vh] overflow-y-auto")}>
+                        <div className="flex flex-col gap-2">
+                            <p className="text-xs uppercase tracking-wider text-neutral-500">{t('pipeline.inputImage')}</p>
+                            <label className="relative aspect-square w-full rounded-lg border-2 border-dashed border-neutral-700 bg-black/20 flex items-center justify-center text-center text-sm text-neutral-500 cursor-pointer overflow-hidden hover:border-neutral-500">
+                                {inputImage
+                                    ? <img src={inputImage} alt={t('pipeline.inputImage')} className="w-full h-full object-contain" />
+                                    : <span className="px-4">{requiresInput ? t('pipeline.chooseImage') : t('pipeline.inputNotNeeded')}</span>}
+                                <input type="file" accept="image/*" className="hidden" onChange={async (e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) setInputImage(await blobToDataUrl(file));
+                                }} />
+                            </label>
+                        </div>
+
+                        {issues.length > 0 && (
+                            <ul className="text-xs text-amber-300 bg-amber-900/20 border border-amber-800/50 rounded-lg p-3 flex flex-col gap-1">
+                                {issues.map((issue, index) => (
+                                    <li key={index}>{t(issue.key, nodeLabel(issue.nodeId), issue.port ? t(`pipeline.ports.${issue.port}`) : '')}</li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <div className="flex flex-col gap-2">
+                            <button
+                                onClick={handleRun}
+                                disabled={issues.length > 0 || (requiresInput && !inputImage)}
+                                className="w-full font-bold text-black bg-neutral-200 rounded-lg py-3 hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {t('pipeline.run')}
+                            </button>
+                            <button onClick={() => folderInputRef.current?.click()} disabled={issues.length > 0 || !requiresInput} className={secondaryButtonClasses}>
+                                {t('pipeline.runFolder')}
+                            </button>
+                            <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleFolderChange} />
+                            {isRunning && <button onClick={cancel} className={secondaryButtonClasses}>{t('pipeline.stop')}</button>}
+                        </div>
+
+                        {runs.length > 0 && (
+                            <div className="flex flex-col gap-2">
+                                <p className="text-xs uppercase tracking-wider text-neutral-500">{t('pipeline.runs')}</p>
+                                {runs.map(run => {
+                                    const status = runStatus(run);
+                                    const doneCount = (Object.values(run.state) as NodeRunState[]).filter(nodeState => nodeState.status === 'done').length;
+                                    return (
+                                        <div
+                                            key={run.id}
+                                            onClick={() => setSelectedRunId(run.id)}
+                                            className={cn("rounded-lg border px-3 py-2 cursor-pointer text-sm", run.id === selectedRun?.id ? 'border-neutral-400 bg-neutral-800/60' : 'border-neutral-800 hover:border-neutral-600')}
+                                        >
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="truncate text-neutral-200">{run.name}</span>
+                                                <span className={cn("text-[10px] uppercase tracking-wider border rounded px-1.5 py-0.5 flex-shrink-0", STATUS_STYLES[status])}>
+                                                    {t(`pipeline.status.${status}`)}
+                                                </span>
+                                            </div>
+                                            <div className="flex items-center justify-between gap-2 mt-1 text-xs text-neutral-500">
+                                                <span>{t('pipeline.progress', doneCount, run.workflow.nodes.length)}</span>
+                                                {/* Runs a stopped folder batch never reached can be started from here too. */}
+                                                {(status === 'error' || (status === 'pending' && !isRunning)) && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleRetryRun(run);
+                                                        }}
+                                                        className="font-semibold text-neutral-300 hover:text-white"
+                                                    >
+                                                        {t('pipeline.retryFailed')}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {selectedResults.length > 0 && (
+                            <div className="flex flex-col gap-2">
+                                <p className="text-xs uppercase tracking-wider text-neutral-500">{t('pipeline.results')}</p>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {selectedResults.map(result => (
+                                        <div key={result.nodeId} className="relative group rounded-lg overflow-hidden bg-black/40 border border-neutral-800">
+                                            <img src={result.image} alt={result.label} className="w-full aspect-square object-contain" />
+                                            <SendToMenu imageUrl={result.image} fromToolId="pipelineBuilder" className="absolute top-1 right-1 z-10 opacity-0 group-hover:opacity-100 focus-within:opacity-100" />
+                                            <a href={result.image} download={`${safeFileName(result.label)}.${imageFileExtension(result.image)}`} className="block text-xs text-center text-neutral-400 hover:text-white truncate px-1 py-1">
+                                                {result.label}
+                                            </a>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {completedRuns.length > 0 && (
+                            <button onClick={handleDownloadAll} disabled={isZipping || isRunning} className={secondaryButtonClasses}>
+                                {isZipping ? t('pipeline.creatingZip') : t('pipeline.downloadAll')}
+                            </button>
+                        )}
+                    </aside>
+                </div>
+            </motion.div>
+        </main>
+    );
+}
@@ -7,8 +7,10 @@ import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
 import { cn } from '../lib/utils';
 import type { PanInfo } from 'framer-motion';
 import { useLanguage } from '../contexts/LanguageContext';
+import type { ToolId } from '../lib/tools';
+import SendToMenu from './SendToMenu';
 
-type ImageStatus = 'pending' | 'done' | 'error';
+type ImageStatus = 'pending' | 'done' | 'error' | 'cancelled';
 
 interface PolaroidCardProps {
     id: string;
@@ -21,6 +23,16 @@ interface PolaroidCardProps {
     onDownload?: (id: string) => void;
     isMobile?: boolean;
     isHighlighted?: boolean;
+    /** When set, a finished card offers a "Send to…" menu; this tool is left out of it. */
+    fromToolId?: ToolId;
+    /** With more than one candidate the card is drawn as a stack that can be flipped through. */
+    candidateIndex?: number;
+    candidateCount?: number;
+    onShowCandidate?: (id: string, index: number) => void;
+    onDiscard?: (id: string) => void;
+    /** When set, a finished card offers a star that marks the shown candidate as the keeper. */
+    onToggleStar?: (id: string) => void;
+    isStarred?: boolean;
 }
 
 const LoadingSpinner = () => (
@@ -40,7 +52,7 @@ const ErrorDisplay = ({ onRetry, id, caption, error }: { onRetry: (id: string) =
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <p className="text-sm font-bold text-neutral-300 mb-2">{t('polaroid.generationFailed')}</p>
-            {error && <p className="text-xs max-w-full text-neutral-500 truncate mb-3" title={error}>{error}</p>}
+            {error && <p className="text-xs max-w-full text-neutral-500 line-clamp-3 mb-3" title={error}>{error}</p>}
             <button
                 onClick={(e) => {
                     e.stopPropagation();
@@ -55,6 +67,29 @@ const ErrorDisplay = ({ onRetry, id, caption, error }: { onRetry: (id: string) =
     );
 };
 
+const CancelledDisplay = ({ onRetry, id, caption }: { onRetry?: (id: string) => void, id: string, caption: string }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-center p-4 text-neutral-400">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-neutral-500 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+            </svg>
+            <p className="text-sm font-bold text-neutral-300 mb-3">{t('common.cancelled')}</p>
+            {onRetry && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onRetry(id);
+                    }}
+                    className="font-bold text-sm text-center text-white bg-neutral-600 py-1 px-4 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:bg-neutral-500 focus:outline-none focus:ring-2 focus:ring-neutral-400"
+                    aria-label={`Retry generating ${caption}`}
+                >
+                    {t('common.retry')}
+                </button>
+            )}
+        </div>
+    );
+};
 
 const Placeholder = ({isHighlighted}: {isHighlighted?: boolean}) => {
     const { t } = useLanguage();
@@ -73,7 +108,44 @@ const Placeholder = ({isHighlighted}: {isHighlighted?: boolean}) => {
 };
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, status, error, dragConstraintsRef, onRegenerate, onDownload, isMobile, isHighlighted }) => {
+const CandidatePager = ({ id, index, count, canDiscard, onShow, onDiscard }: { id: string, index: number, count: number, canDiscard: boolean, onShow?: (id: string, index: number) => void, onDiscard?: (id: string) => void }) => {
+    const { t } = useLanguage();
+    const buttonClasses = "p-1 rounded-full hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-transparent";
+    return (
+        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-black/60 rounded-full px-2 py-1 text-white text-xs font-bold">
+            <button
+                onClick={(e) => { e.stopPropagation(); onShow?.(id, index - 1); }}
+                disabled={index === 0}
+                className={buttonClasses}
+                aria-label={t('polaroid.previousCandidate')}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+            </button>
+            <span className="tabular-nums">{t('polaroid.candidateCounter', index + 1, count)}</span>
+            <button
+                onClick={(e) => { e.stopPropagation(); onShow?.(id, index + 1); }}
+                disabled={index === count - 1}
+                className={buttonClasses}
+                aria-label={t('polaroid.nextCandidate')}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
+            </button>
+            {onDiscard && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onDiscard(id); }}
+                    disabled={!canDiscard}
+                    className={cn(buttonClasses, "ml-1 hover:text-red-300")}
+                    title={t('polaroid.discardHint')}
+                    aria-label={t('polaroid.discard')}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </button>
+            )}
+        </div>
+    );
+};
+
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, status, error, dragConstraintsRef, onRegenerate, onDownload, isMobile, isHighlighted, fromToolId, candidateIndex = 0, candidateCount = 1, onShowCandidate, onDiscard, onToggleStar, isStarred }) => {
     const { t } = useLanguage();
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
@@ -136,12 +208,31 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, stat
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
                 {status === 'pending' && <LoadingSpinner />}
                 {status === 'error' && onRegenerate && <ErrorDisplay onRetry={onRegenerate} id={id} caption={caption} error={error} />}
+                {status === 'cancelled' && <CancelledDisplay onRetry={onRegenerate} id={id} caption={caption} />}
                 {status === 'done' && imageUrl && (
                     <>
                         <div className={cn(
                             "absolute top-2 right-2 z-20 flex flex-col gap-2 transition-opacity duration-300",
-                            (onDownload || onRegenerate) ? "opacity-100" : "opacity-0"
+                            (onDownload || onRegenerate || fromToolId) ? "opacity-100" : "opacity-0"
                         )}>
+                            {onToggleStar && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onToggleStar(id);
+                                    }}
+                                    className={cn(
+                                        "p-2 bg-black/50 rounded-full hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white",
+                                        isStarred ? "text-yellow-300" : "text-white"
+                                    )}
+                                    aria-label={isStarred ? t('polaroid.unstar') : t('polaroid.star')}
+                                    aria-pressed={!!isStarred}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill={isStarred ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.5a.56.56 0 011.04 0l2.12 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35l2.12-5.11z" />
+                                    </svg>
+                                </button>
+                            )}
                             {onDownload && (
                                 <button
                                     onClick={(e) => {
@@ -170,6 +261,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, stat
                                     </svg>
                                 </button>
                             )}
+                            {fromToolId && <SendToMenu imageUrl={imageUrl} fromToolId={fromToolId} />}
                         </div>
 
 
@@ -197,6 +289,16 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, stat
                     </>
                 )}
                 {status === 'done' && !imageUrl && <Placeholder isHighlighted={isHighlighted} />}
+                {candidateCount > 1 && (
+                    <CandidatePager
+                        id={id}
+                        index={candidateIndex}
+                        count={candidateCount}
+                        canDiscard={status !== 'pending'}
+                        onShow={onShowCandidate}
+                        onDiscard={onDiscard}
+                    />
+                )}
             </div>
             <div className="absolute bottom-4 left-4 right-4 text-center px-2">
                 <p className={cn(
@@ -212,10 +314,12 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, stat
 
     const commonClasses = "bg-neutral-100 dark:bg-neutral-100 !p-4 !pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full rounded-md shadow-lg relative transition-all duration-300";
     const highlightedClasses = "ring-4 ring-neutral-300 ring-offset-4 ring-offset-black";
+    // The other candidates peek out from behind the card.
+    const stackClasses = "shadow-[8px_8px_0_-2px_#d4d4d4,16px_16px_0_-4px_#a3a3a3]";
 
     if (isMobile) {
         return (
-            <div className={cn(commonClasses, isHighlighted && highlightedClasses)}>
+            <div className={cn(commonClasses, isHighlighted && highlightedClasses, candidateCount > 1 && stackClasses)}>
                 {cardInnerContent}
             </div>
         );
@@ -224,7 +328,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ id, imageUrl, caption, stat
     return (
         <DraggableCardContainer>
             <DraggableCardBody 
-                className={cn(commonClasses, "!p-4 !pb-16", isHighlighted && highlightedClasses)}
+                className={cn(commonClasses, "!p-4 !pb-16", isHighlighted && highlightedClasses, candidateCount > 1 && stackClasses)}
                 dragConstraintsRef={dragConstraintsRef}
                 onDragStart={handleDragStart}
                 onDrag={handleDrag}
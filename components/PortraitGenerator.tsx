@@ -4,11 +4,21 @@
 */
 import React, { useState, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { generateStyledImage } from '../services/geminiService';
-import { cn, cropImageToAspectRatio } from '../lib/utils';
+import { generateStyledImage, GenerationOptions, getModelForOperation } from '../services/geminiService';
+import { cn, cropImageToAspectRatio, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
-import { createPrintSheet } from '../lib/printUtils';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { createPrintSheet, PRINT_SHEET_SIZE_MM } from '../lib/printUtils';
+import PdfExportControls from './PdfExportControls';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import { PROCESSING_MODES, ProcessingMode, useBatchProcessor } from '../lib/useBatchProcessor';
+import BatchPanel, { BatchModeToggle } from './BatchPanel';
 
 type Gender = 'male' | 'female';
 type Attire = 'shirt' | 'vest' | 'pioneer_scarf' | 'ao_dai' | 'office_wear' | 'polo' | 'blouse' | 't_shirt';
@@ -62,6 +72,14 @@ const PRINT_SIZE_OPTIONS: { value: PrintSize, label: string }[] = [
     { value: '5x5', label: '5x5' },
 ];
 
+// Allowed values for the options that are kept in the URL.
+const optionIds = <T extends string>(options: { id: T }[]) => options.map(option => option.id);
+const GENDER_IDS = optionIds(GENDER_OPTIONS);
+const EXPRESSION_IDS = optionIds(EXPRESSION_OPTIONS);
+const ATTIRE_IDS = optionIds(ATTIRE_OPTIONS);
+const HAIR_IDS = optionIds(HAIR_OPTIONS);
+const BACKGROUND_IDS = optionIds(BACKGROUND_OPTIONS);
+const PRINT_SIZES = PRINT_SIZE_OPTIONS.map(option => option.value);
 
 // Uploader Component
 const Uploader = ({ onImageUpload }: { onImageUpload: (file: File) => void }) => {
@@ -149,35 +167,47 @@ const OptionsGroup = ({ label, children }: { label: string, children: React.Reac
 
 export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<View>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-    const [printSheet, setPrintSheet] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<View>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
+    const [printSheet, setPrintSheet] = useProjectState<string | null>('printSheet', null);
     const [isLoading, setIsLoading] = useState(false);
     const [isCreatingSheet, setIsCreatingSheet] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    // Options
-    const [gender, setGender] = useState<Gender>('female');
-    const [attire, setAttire] = useState<Attire>('shirt');
-    const [hair, setHair] = useState<Hair>('neat');
-    const [background, setBackground] = useState<Background>('blue');
-    const [printSize, setPrintSize] = useState<PrintSize>('3x4');
-    const [expression, setExpression] = useState<Expression>('serious');
-
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const imageDataUrl = reader.result as string;
-            setUploadedImage(imageDataUrl);
+    // Options, kept in the URL so a setup can be bookmarked, e.g. #/portrait-generator?size=4x6&background=blue
+    const [gender, setGender] = useRouteParam<Gender>('gender', 'female', GENDER_IDS);
+    const [attire, setAttire] = useRouteParam<Attire>('attire', 'shirt', ATTIRE_IDS);
+    const [hair, setHair] = useRouteParam<Hair>('hair', 'neat', HAIR_IDS);
+    const [background, setBackground] = useRouteParam<Background>('background', 'blue', BACKGROUND_IDS);
+    const [printSize, setPrintSize] = useRouteParam<PrintSize>('size', '3x4', PRINT_SIZES);
+    const [expression, setExpression] = useRouteParam<Expression>('expression', 'serious', EXPRESSION_IDS);
+    const [mode, setMode] = useRouteParam<ProcessingMode>('mode', 'single', PROCESSING_MODES);
+
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImage(null);
             setPrintSheet(null);
             setError(null);
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
+
+    useToolHandoff('portraitGenerator', {
+        source: handleImageUpload,
+    });
     
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setGeneratedImage(null);
         setPrintSheet(null);
@@ -192,14 +222,8 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
         setView('config');
     };
 
-    const handleGenerate = async () => {
-        if (!uploadedImage) return;
-        setIsLoading(true);
-        setError(null);
-        setGeneratedImage(null);
-        setPrintSheet(null);
-        setView('result');
-
+    // Builds the ID photo from the current options; shared by single and batch mode.
+    const generatePortrait = async (source: string, options: GenerationOptions) => {
         let attireDesc = '';
         switch (attire) {
             case 'shirt': attireDesc = `a simple, neat collared shirt`; break;
@@ -261,12 +285,36 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
             **FINAL CHECK:** The output must be a high-resolution, head-and-shoulders portrait with dimensions of exactly ${targetWidthPx}x${targetHeightPx} pixels. Confirm again: Is the face identical to the original? If not, the task is a failure.
         `;
 
+        const croppedImageDataUrl = await cropImageToAspectRatio(source, targetAspectRatio);
+        return generateStyledImage(prompt, [croppedImageDataUrl], undefined, options);
+    };
+
+    const batch = useBatchProcessor(async (source, options) => {
+        const resultUrl = await generatePortrait(source, options);
+        addImageToLibrary(resultUrl, {
+            toolId: 'portraitGenerator',
+            operation: 'generateStyledImage',
+            prompt: [gender, attire, hair, background, expression, printSize].join(', '),
+            inputs: { source },
+            model: getModelForOperation('generateStyledImage'),
+        });
+        return resultUrl;
+    });
+
+    const handleGenerate = async () => {
+        if (!uploadedImage) return;
+        setIsLoading(true);
+        setError(null);
+        setGeneratedImage(null);
+        setPrintSheet(null);
+        setView('result');
+
         try {
-            const croppedImageDataUrl = await cropImageToAspectRatio(uploadedImage, targetAspectRatio);
-            const resultUrl = await generateStyledImage(prompt, [croppedImageDataUrl]);
+            const resultUrl = await generatePortrait(uploadedImage, { signal: getSignal() });
             setGeneratedImage(resultUrl);
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -288,11 +336,11 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
         }
     }
 
-    const handleDownload = (url: string | null, filename: string) => {
+    const handleDownload = (url: string | null, baseName: string) => {
         if (!url) return;
         const link = document.createElement('a');
         link.href = url;
-        link.download = filename;
+        link.download = `${baseName}.${imageFileExtension(url)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -304,7 +352,9 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
         <div className="w-full grid md:grid-cols-2 gap-8 items-start">
             <div className="flex flex-col items-center gap-4">
                 <h3 className="font-bold text-2xl text-neutral-200 mb-1">{t('portraitGenerator.uploadTitle')}</h3>
-                {uploadedImage ? (
+                {mode === 'batch' ? (
+                    <BatchPanel batch={batch} archiveName={`tracquoc-ai-portraits-${printSize}`} />
+                ) : uploadedImage ? (
                     <div className="relative group aspect-[4/5] w-full max-w-sm rounded-md overflow-hidden">
                         <img src={uploadedImage} alt="Uploaded" className="w-full h-full object-cover" />
                         <button
@@ -341,13 +391,15 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
                 <OptionsGroup label={t('portraitGenerator.printSize')}>
                     {PRINT_SIZE_OPTIONS.map(opt => <OptionButton key={opt.value} label={opt.label} isSelected={printSize === opt.value} onClick={() => setPrintSize(opt.value)} />)}
                 </OptionsGroup>
-                <button
-                    onClick={handleGenerate}
-                    disabled={isGenerateDisabled}
-                    className="w-full mt-4 flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105"
-                >
-                    {isLoading ? t('portraitGenerator.generatingButton') : t('portraitGenerator.generateButton')}
-                </button>
+                {mode === 'single' && (
+                    <button
+                        onClick={handleGenerate}
+                        disabled={isGenerateDisabled}
+                        className="w-full mt-4 flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105"
+                    >
+                        {isLoading ? t('portraitGenerator.generatingButton') : t('portraitGenerator.generateButton')}
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -372,6 +424,7 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
                             <button onClick={handleGenerate} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button>
                         </div>
                     )}
+                    {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="portraitGenerator" className="absolute top-2 right-2 z-10" />}
                 </ImageViewer>
             </div>
 
@@ -379,7 +432,7 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
                 <div className="w-full max-w-2xl flex flex-col items-center gap-4 bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-6">
                      <div className="flex flex-col sm:flex-row items-center gap-4 w-full">
                         <button
-                            onClick={() => handleDownload(generatedImage, `portrait-${printSize}.jpg`)}
+                            onClick={() => handleDownload(generatedImage, `portrait-${printSize}`)}
                             disabled={!generatedImage || isLoading}
                             className="w-full flex items-center justify-center gap-2 text-black font-bold py-3 px-5 rounded-lg bg-neutral-200/80 hover:bg-neutral-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105"
                         >
@@ -402,12 +455,18 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
                                 <img src={printSheet} alt="Print Sheet" className="w-full h-full object-contain" />
                             </div>
                             <button
-                                onClick={() => handleDownload(printSheet, 'print-sheet-4x6.jpg')}
+                                onClick={() => handleDownload(printSheet, 'print-sheet-4x6')}
                                 className="w-full mt-4 flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white transition-all duration-300 transform hover:scale-105"
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
                                 {t('portraitGenerator.downloadSheet')}
                             </button>
+                            <PdfExportControls
+                                getPages={async () => [{ imageUrl: printSheet, widthMm: PRINT_SHEET_SIZE_MM.width, heightMm: PRINT_SHEET_SIZE_MM.height }]}
+                                fileName="print-sheet-4x6.pdf"
+                                className="mt-4"
+                                buttonClassName="w-full font-bold text-center text-neutral-300 bg-black/20 border-2 border-neutral-700 py-3 px-5 rounded-lg transition-all duration-300 hover:bg-neutral-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                            />
                         </div>
                     )}
                      <button 
@@ -458,6 +517,7 @@ export default function PortraitGenerator({ onBack }: { onBack: () => void }) {
                     <p className="text-xl md:text-2xl text-neutral-400 mt-2">{t('portraitGenerator.subtitle')}</p>
                 </div>
 
+                {view === 'config' && <BatchModeToggle mode={mode} onChange={setMode} disabled={batch.isRunning} />}
                 {view === 'config' ? renderConfigView() : renderResultView()}
 
             </motion.div>
@@ -6,12 +6,18 @@
 */
 import React, { useState, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { generateStyledImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generateStyledImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
 import DrawingCanvas from './DrawingCanvas';
 import ThreeDeeCanvas from './ThreeDeeCanvas';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
 
 // ImageViewer for the result page
 const ImageViewer = ({ title, imageUrl }: { title: string, imageUrl: string | null }) => {
@@ -28,17 +34,19 @@ const ImageViewer = ({ title, imageUrl }: { title: string, imageUrl: string | nu
 // Main component
 export default function PoseAnimator({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'character' | 'pose' | 'result'>('character');
-    const [characterImage, setCharacterImage] = useState<string | null>(null);
-    const [poseImage, setPoseImage] = useState<string | null>(null);
-    const [drawnPose, setDrawnPose] = useState<string | null>(null);
-    const [threeDeePose, setThreeDeePose] = useState<string | null>(null);
-    const [activePoseImage, setActivePoseImage] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<'character' | 'pose' | 'result'>('view', 'character');
+    const [characterImage, setCharacterImage] = useProjectState<string | null>('characterImage', null);
+    const [poseImage, setPoseImage] = useProjectState<string | null>('poseImage', null);
+    const [drawnPose, setDrawnPose] = useProjectState<string | null>('drawnPose', null);
+    const [threeDeePose, setThreeDeePose] = useProjectState<string | null>('threeDeePose', null);
+    const [activePoseImage, setActivePoseImage] = useProjectState<string | null>('activePoseImage', null);
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [poseSourceTab, setPoseSourceTab] = useState<'upload' | 'draw' | 'threeD'>('upload');
-    const [refinePrompt, setRefinePrompt] = useState('');
+    const [poseSourceTab, setPoseSourceTab] = useProjectState<'upload' | 'draw' | 'threeD'>('poseSourceTab', 'upload');
+    const [refinePrompt, setRefinePrompt] = useProjectState('refinePrompt', '');
     const [isDragOver, setIsDragOver] = useState(false);
 
 
@@ -50,6 +58,14 @@ export default function PoseAnimator({ onBack }: { onBack: () => void }) {
         reader.readAsDataURL(file);
     };
 
+    useToolHandoff('poseAnimator', {
+        character: setCharacterImage,
+        pose: (imageUrl) => {
+            setPoseImage(imageUrl);
+            setPoseSourceTab('upload');
+        },
+    });
+
     const handleCharacterFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             handleImageUpload(e.target.files[0], setCharacterImage);
@@ -82,10 +98,18 @@ Your secondary task is to transfer the pose from the second image (the 'referenc
 3.  **Maintain Style:** The clothing, background, lighting, and artistic style of the first image must be precisely maintained. The only intended change is the person's pose.
 `;
             
-            const resultUrl = await generateStyledImage(prompt, [charImg, poseImg], instructions);
+            const resultUrl = await generateStyledImage(prompt, [charImg, poseImg], instructions, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'poseAnimator',
+                operation: 'generateStyledImage',
+                instructions,
+                inputs: { character: charImg, pose: poseImg },
+                model: getModelForOperation('generateStyledImage'),
+            });
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -112,13 +136,14 @@ Your secondary task is to transfer the pose from the second image (the 'referenc
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-posed.png';
+        link.download = `tracquoc-ai-posed.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
     };
 
     const handleStartOver = () => {
+        cancel();
         setCharacterImage(null);
         setPoseImage(null);
         setDrawnPose(null);
@@ -302,6 +327,7 @@ Your secondary task is to transfer the pose from the second image (the 'referenc
                              </div>
                         )}
                         {generatedImage && <img src={generatedImage} alt="Posed result" className="w-full h-full object-contain" />}
+                        {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="poseAnimator" className="absolute top-2 right-2 z-10" />}
                     </div>
                 </div>
             </div>
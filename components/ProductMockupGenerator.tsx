@@ -4,18 +4,27 @@
 */
 import React, { useState, ChangeEvent, DragEvent } from 'react';
 import { motion } from 'framer-motion';
-import { generateGraphicFromPrompt, generateApparelMockup, generateProductMockup } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generateGraphicFromPrompt, generateApparelMockup, generateProductMockup, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { settlePending, useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteParam } from '../lib/router';
+import type { JobPriority } from '../services/generationQueue';
 
 type View = 'config' | 'result';
 type DesignSource = 'upload' | 'ai';
 type MockupStyle = 'hanging' | 'flatLay' | 'folded';
+const MOCKUP_STYLES: MockupStyle[] = ['hanging', 'flatLay', 'folded'];
 type ApparelSource = 'ai' | 'upload';
 
 interface GeneratedImageState {
-    status: 'pending' | 'done' | 'error';
+    status: 'pending' | 'done' | 'error' | 'cancelled';
     url?: string;
     error?: string;
 }
@@ -67,12 +76,13 @@ const ResultCard = ({ title, color, result, onRetry, onDownload }: { title: stri
             </div>
             <div className="aspect-[4/5] w-full bg-black/20 rounded-lg border-2 border-dashed border-neutral-700 flex items-center justify-center text-neutral-500 text-center relative overflow-hidden group">
                 {result.status === 'pending' && <svg className="animate-spin h-10 w-10 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>}
-                {result.status === 'error' && <div className="p-4 text-red-400"><p className="font-semibold mb-2">{t('productMockupGenerator.generationFailed')}</p><p className="text-xs text-slate-400 mb-4">{result.error}</p><button onClick={onRetry} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button></div>}
+                {(result.status === 'error' || result.status === 'cancelled') && <div className="p-4 text-red-400"><p className="font-semibold mb-2">{result.status === 'cancelled' ? t('common.cancelled') : t('productMockupGenerator.generationFailed')}</p><p className="text-xs text-slate-400 mb-4">{result.error}</p><button onClick={onRetry} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button></div>}
                 {result.status === 'done' && result.url && <img src={result.url} alt={`Mockup in ${color}`} className="w-full h-full object-contain" />}
                 {result.status === 'done' && result.url && (
-                    <div className="absolute top-2 right-2 z-10 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <div className="absolute top-2 right-2 z-10 flex flex-col gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
                         <button onClick={onDownload} className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75" aria-label={t('common.download')}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg></button>
                         <button onClick={onRetry} className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75" aria-label={t('common.regenerate')}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.899 2.186l-1.42.71a5.002 5.002 0 00-8.479-1.554H10a1 1 0 110 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm12 14a1 1 0 01-1-1v-2.101a7.002 7.002 0 01-11.899-2.186l1.42-.71a5.002 5.002 0 008.479 1.554H10a1 1 0 110-2h6a1 1 0 011 1v6a1 1 0 01-1 1z" clipRule="evenodd" /></svg></button>
+                        <SendToMenu imageUrl={result.url} fromToolId="productMockupGenerator" />
                     </div>
                 )}
             </div>
@@ -82,21 +92,23 @@ const ResultCard = ({ title, color, result, onRetry, onDownload }: { title: stri
 
 export default function ProductMockupGenerator({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<View>('config');
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<View>('view', 'config');
     // Inputs
-    const [designSource, setDesignSource] = useState<DesignSource>('upload');
-    const [uploadedDesign, setUploadedDesign] = useState<string | null>(null);
-    const [aiDesignPrompt, setAiDesignPrompt] = useState('');
+    const [designSource, setDesignSource] = useProjectState<DesignSource>('designSource', 'upload');
+    const [uploadedDesign, setUploadedDesign] = useProjectState<string | null>('uploadedDesign', null);
+    const [aiDesignPrompt, setAiDesignPrompt] = useProjectState('aiDesignPrompt', '');
     const [isGeneratingDesign, setIsGeneratingDesign] = useState(false);
     // Settings
-    const [apparelSource, setApparelSource] = useState<ApparelSource>('ai');
-    const [uploadedMockup, setUploadedMockup] = useState<string | null>(null);
-    const [colorways, setColorways] = useState<string[]>(['#FFFFFF', '#18181b']);
+    const [apparelSource, setApparelSource] = useProjectState<ApparelSource>('apparelSource', 'ai');
+    const [uploadedMockup, setUploadedMockup] = useProjectState<string | null>('uploadedMockup', null);
+    const [colorways, setColorways] = useProjectState<string[]>('colorways', ['#FFFFFF', '#18181b']);
     const [newColor, setNewColor] = useState('');
-    const [apparelDescription, setApparelDescription] = useState('');
-    const [mockupStyle, setMockupStyle] = useState<MockupStyle>('flatLay');
+    const [apparelDescription, setApparelDescription] = useProjectState('apparelDescription', '');
+    const [mockupStyle, setMockupStyle] = useRouteParam<MockupStyle>('style', 'flatLay', MOCKUP_STYLES);
     // Results
-    const [results, setResults] = useState<Record<string, GeneratedImageState>>({});
+    const [results, setResults] = useProjectState<Record<string, GeneratedImageState>>('results', {}, settlePending);
     const [isGeneratingMockups, setIsGeneratingMockups] = useState(false);
     const [designError, setDesignError] = useState<string | null>(null);
 
@@ -118,17 +130,37 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
         reader.readAsDataURL(file);
     };
 
+    useToolHandoff('productMockupGenerator', {
+        design: (imageUrl) => {
+            setUploadedDesign(imageUrl);
+            setDesignSource('upload');
+            setDesignError(null);
+        },
+        mockup: (imageUrl) => {
+            setUploadedMockup(imageUrl);
+            setApparelSource('upload');
+        },
+    });
+
     const handleGenerateDesign = async () => {
         if (!aiDesignPrompt) return;
         setIsGeneratingDesign(true);
         setUploadedDesign(null);
         setDesignError(null);
         try {
-            const resultUrl = await generateGraphicFromPrompt(aiDesignPrompt);
+            const resultUrl = await generateGraphicFromPrompt(aiDesignPrompt, { signal: getSignal() });
             setUploadedDesign(resultUrl);
             setDesignSource('ai');
+            addImageToLibrary(resultUrl, {
+                toolId: 'productMockupGenerator',
+                operation: 'generateGraphicFromPrompt',
+                prompt: aiDesignPrompt,
+                inputs: {},
+                model: getModelForOperation('generateGraphicFromPrompt'),
+            });
         } catch (err) {
-            setDesignError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setDesignError(getErrorMessage(err, t));
         } finally {
             setIsGeneratingDesign(false);
         }
@@ -158,7 +190,7 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
         setColorways(colorways.filter(color => color !== colorToRemove));
     };
 
-    const handleGenerateSingleAI = async (color: string) => {
+    const handleGenerateSingleAI = async (color: string, priority: JobPriority = 'interactive') => {
         if (!uploadedDesign) return;
         setResults(prev => ({ ...prev, [color]: { status: 'pending' } }));
         
@@ -167,10 +199,21 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
             finalApparelPrompt += ` The main color of the apparel should be ${color}.`;
             finalApparelPrompt += ` The mockup style should be a ${mockupStyle} view.`;
 
-            const resultUrl = await generateApparelMockup(uploadedDesign, finalApparelPrompt);
+            const resultUrl = await generateApparelMockup(uploadedDesign, finalApparelPrompt, { signal: getSignal(), priority });
             setResults(prev => ({ ...prev, [color]: { status: 'done', url: resultUrl } }));
+            addImageToLibrary(resultUrl, {
+                toolId: 'productMockupGenerator',
+                operation: 'generateApparelMockup',
+                prompt: finalApparelPrompt,
+                inputs: { design: uploadedDesign },
+                model: getModelForOperation('generateApparelMockup'),
+            });
         } catch (err) {
-            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            if (isCancelledError(err)) {
+                setResults(prev => ({ ...prev, [color]: { status: 'cancelled' } }));
+                return;
+            }
+            const message = getErrorMessage(err, t);
             setResults(prev => ({ ...prev, [color]: { status: 'error', error: message } }));
         }
     };
@@ -185,7 +228,7 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
             const initialResults: Record<string, GeneratedImageState> = {};
             colorways.forEach(color => { initialResults[color] = { status: 'pending' }; });
             setResults(initialResults);
-            await Promise.all(colorways.map(color => handleGenerateSingleAI(color)));
+            await Promise.all(colorways.map(color => handleGenerateSingleAI(color, 'batch')));
             setIsGeneratingMockups(false);
         } else { // 'upload'
             if (!uploadedMockup) return;
@@ -194,11 +237,21 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
             const key = 'custom_mockup';
             setResults({ [key]: { status: 'pending' }});
             try {
-                const resultUrl = await generateProductMockup(uploadedDesign, uploadedMockup);
+                const resultUrl = await generateProductMockup(uploadedDesign, uploadedMockup, { signal: getSignal() });
                 setResults({ [key]: { status: 'done', url: resultUrl } });
+                addImageToLibrary(resultUrl, {
+                    toolId: 'productMockupGenerator',
+                    operation: 'generateProductMockup',
+                    inputs: { design: uploadedDesign, mockup: uploadedMockup },
+                    model: getModelForOperation('generateProductMockup'),
+                });
             } catch (err) {
-                const message = err instanceof Error ? err.message : "An unknown error occurred.";
-                setResults({ [key]: { status: 'error', error: message } });
+                if (isCancelledError(err)) {
+                    setResults({ [key]: { status: 'cancelled' } });
+                } else {
+                    const message = getErrorMessage(err, t);
+                    setResults({ [key]: { status: 'error', error: message } });
+                }
             }
             setIsGeneratingMockups(false);
         }
@@ -206,6 +259,7 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
 
 
     const handleStartOver = () => {
+        cancel();
         setView('config');
         setUploadedDesign(null);
         setAiDesignPrompt('');
@@ -222,7 +276,7 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
         if (!url) return;
         const link = document.createElement('a');
         link.href = url;
-        link.download = `tracquoc-ai-mockup-${key.replace('#', '')}.png`;
+        link.download = `tracquoc-ai-mockup-${key.replace('#', '')}.${imageFileExtension(url)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -279,7 +333,7 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
                                 <div>
                                     <label className="font-bold text-neutral-300">{t('productMockupGenerator.mockupStyle')}</label>
                                     <div className="flex gap-2 mt-2">
-                                        {(['hanging', 'flatLay', 'folded'] as MockupStyle[]).map(style => <button key={style} onClick={() => setMockupStyle(style)} className={cn('px-4 py-2 text-sm rounded-md transition-colors w-full', mockupStyle === style ? 'bg-neutral-200 text-black font-bold' : 'bg-neutral-800/50 text-neutral-300 hover:bg-neutral-700/50')}>{t(`productMockupGenerator.${style}`)}</button>)}
+                                        {MOCKUP_STYLES.map(style => <button key={style} onClick={() => setMockupStyle(style)} className={cn('px-4 py-2 text-sm rounded-md transition-colors w-full', mockupStyle === style ? 'bg-neutral-200 text-black font-bold' : 'bg-neutral-800/50 text-neutral-300 hover:bg-neutral-700/50')}>{t(`productMockupGenerator.${style}`)}</button>)}
                                     </div>
                                 </div>
                             </div>
@@ -337,6 +391,7 @@ export default function ProductMockupGenerator({ onBack }: { onBack: () => void
                         )
                      })}
                 </div>
+                {isGeneratingMockups && <button onClick={cancel} className="font-bold text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-8 rounded-lg transition-all duration-300 hover:scale-105 hover:bg-neutral-800 hover:text-white mt-8">{t('common.stop')}</button>}
                 <button onClick={handleStartOver} className="font-bold text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-8 rounded-lg transition-all duration-300 hover:scale-105 hover:bg-neutral-800 hover:text-white mt-8">{t('common.startOver')}</button>
             </div>
         );
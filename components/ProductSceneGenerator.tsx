@@ -4,14 +4,22 @@
 */
 import React, { useState, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { generateStyledImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generateStyledImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { settlePending, useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { useRouteListParam } from '../lib/router';
+import type { JobPriority } from '../services/generationQueue';
 
 type View = 'config' | 'result';
 interface GeneratedImageState {
-    status: 'pending' | 'done' | 'error';
+    status: 'pending' | 'done' | 'error' | 'cancelled';
     url?: string;
     error?: string;
 }
@@ -28,6 +36,8 @@ const ANGLE_OPTIONS = [
     { id: 'in_context', labelKey: 'productSceneGenerator.angles.in_context', prompt: "Generate a photorealistic lifestyle image showing the product in a relevant, natural context (e.g., a shoe on a street, a mug on a table)." },
 ];
 
+const ANGLE_IDS = ANGLE_OPTIONS.map(angle => angle.id);
+
 const Uploader = ({ onImageUpload }: { onImageUpload: (file: File) => void }) => {
     const { t } = useLanguage();
     const [isDragOver, setIsDragOver] = useState(false);
@@ -60,12 +70,13 @@ const ResultCard = ({ title, imageUrl, status, error, onRetry, onDownload }: { t
             <h3 className="font-bold text-lg text-neutral-200 mb-2 text-center">{title}</h3>
             <div className="aspect-[4/5] w-full bg-black/20 rounded-lg border-2 border-dashed border-neutral-700 flex items-center justify-center text-neutral-500 text-center relative overflow-hidden group">
                 {status === 'pending' && <svg className="animate-spin h-10 w-10 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>}
-                {status === 'error' && <div className="p-4 text-red-400"><p className="font-semibold mb-2">{t('productSceneGenerator.generationFailed')}</p><p className="text-xs text-slate-400 mb-4">{error}</p><button onClick={onRetry} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button></div>}
+                {(status === 'error' || status === 'cancelled') && <div className="p-4 text-red-400"><p className="font-semibold mb-2">{status === 'cancelled' ? t('common.cancelled') : t('productSceneGenerator.generationFailed')}</p><p className="text-xs text-slate-400 mb-4">{error}</p><button onClick={onRetry} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button></div>}
                 {status === 'done' && imageUrl && <img src={imageUrl} alt={title} className="w-full h-full object-contain" />}
                 {status === 'done' && imageUrl && (
-                    <div className="absolute top-2 right-2 z-10 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <div className="absolute top-2 right-2 z-10 flex flex-col gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
                         <button onClick={onDownload} className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75" aria-label={t('common.download')}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg></button>
                         <button onClick={onRetry} className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75" aria-label={t('common.regenerate')}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.899 2.186l-1.42.71a5.002 5.002 0 00-8.479-1.554H10a1 1 0 110 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm12 14a1 1 0 01-1-1v-2.101a7.002 7.002 0 01-11.899-2.186l1.42-.71a5.002 5.002 0 008.479 1.554H10a1 1 0 110-2h6a1 1 0 011 1v6a1 1 0 01-1 1z" clipRule="evenodd" /></svg></button>
+                        <SendToMenu imageUrl={imageUrl} fromToolId="productSceneGenerator" />
                     </div>
                 )}
             </div>
@@ -75,28 +86,40 @@ const ResultCard = ({ title, imageUrl, status, error, onRetry, onDownload }: { t
 
 export default function ProductSceneGenerator({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<View>('config');
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [selectedAngles, setSelectedAngles] = useState<string[]>([]);
-    const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImageState>>({});
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<View>('view', 'config');
+    const [uploadedImage, setUploadedImage] = useProjectState<string | null>('uploadedImage', null);
+    // Kept in the URL, e.g. #/product-scene-generator?angles=front,back
+    const [selectedAngles, setSelectedAngles] = useRouteListParam('angles', ANGLE_IDS);
+    const [generatedImages, setGeneratedImages] = useProjectState<Record<string, GeneratedImageState>>('generatedImages', {}, settlePending);
     const [isGenerating, setIsGenerating] = useState(false);
 
-    const handleImageUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            setUploadedImage(reader.result as string);
+    const handleImageUpload = (fileOrDataUrl: File | string) => {
+        const loadImage = (dataUrl: string) => {
+            setUploadedImage(dataUrl);
             setGeneratedImages({});
         };
-        reader.readAsDataURL(file);
+        if (typeof fileOrDataUrl === 'string') {
+            loadImage(fileOrDataUrl);
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => loadImage(reader.result as string);
+        reader.readAsDataURL(fileOrDataUrl);
     };
 
+    useToolHandoff('productSceneGenerator', {
+        product: handleImageUpload,
+    });
+
     const toggleAngle = (angleId: string) => {
         setSelectedAngles(prev =>
             prev.includes(angleId) ? prev.filter(id => id !== angleId) : [...prev, angleId]
         );
     };
 
-    const handleGenerateSingle = async (angleId: string) => {
+    const handleGenerateSingle = async (angleId: string, priority: JobPriority = 'interactive') => {
         if (!uploadedImage) return;
         const angle = ANGLE_OPTIONS.find(a => a.id === angleId);
         if (!angle) return;
@@ -106,10 +129,21 @@ export default function ProductSceneGenerator({ onBack }: { onBack: () => void }
         try {
             const basePrompt = `Using the provided image of a product, generate a new, photorealistic image of the **exact same product**. The product's unique details, materials, colors, and branding MUST be perfectly preserved. Place it on a clean, solid, light grey studio background.`;
             const finalPrompt = `${basePrompt}\n\n**Angle Instruction:** ${angle.prompt}`;
-            const resultUrl = await generateStyledImage(finalPrompt, [uploadedImage]);
+            const resultUrl = await generateStyledImage(finalPrompt, [uploadedImage], undefined, { signal: getSignal(), priority });
             setGeneratedImages(prev => ({ ...prev, [angleId]: { status: 'done', url: resultUrl } }));
+            addImageToLibrary(resultUrl, {
+                toolId: 'productSceneGenerator',
+                operation: 'generateStyledImage',
+                prompt: angle.prompt,
+                inputs: { product: uploadedImage },
+                model: getModelForOperation('generateStyledImage'),
+            });
         } catch (err) {
-            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            if (isCancelledError(err)) {
+                setGeneratedImages(prev => ({ ...prev, [angleId]: { status: 'cancelled' } }));
+                return;
+            }
+            const message = getErrorMessage(err, t);
             setGeneratedImages(prev => ({ ...prev, [angleId]: { status: 'error', error: message } }));
         }
     };
@@ -125,23 +159,12 @@ export default function ProductSceneGenerator({ onBack }: { onBack: () => void }
         });
         setGeneratedImages(initialStates);
 
-        const concurrencyLimit = 3;
-        const queue = [...selectedAngles];
-
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (queue.length > 0) {
-                const angleId = queue.shift();
-                if (angleId) {
-                    await handleGenerateSingle(angleId);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        await Promise.all(selectedAngles.map(angleId => handleGenerateSingle(angleId, 'batch')));
         setIsGenerating(false);
     };
 
     const handleStartOver = () => {
+        cancel();
         setUploadedImage(null);
         setSelectedAngles([]);
         setGeneratedImages({});
@@ -152,7 +175,7 @@ export default function ProductSceneGenerator({ onBack }: { onBack: () => void }
         if (!url) return;
         const link = document.createElement('a');
         link.href = url;
-        link.download = `tracquoc-ai-${filename}.png`;
+        link.download = `tracquoc-ai-${filename}.${imageFileExtension(url)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -191,6 +214,7 @@ export default function ProductSceneGenerator({ onBack }: { onBack: () => void }
                      return <ResultCard key={angleId} title={t(angle.labelKey)} imageUrl={state.url} status={state.status} error={state.error} onRetry={() => handleGenerateSingle(angleId)} onDownload={() => handleDownload(state.url, angleId)} />
                  })}
             </div>
+            {isGenerating && <button onClick={cancel} className="font-bold text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-8 rounded-lg transition-all duration-300 hover:scale-105 hover:bg-neutral-800 hover:text-white mt-8">{t('common.stop')}</button>}
             <button onClick={handleStartOver} className="font-bold text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-8 rounded-lg transition-all duration-300 hover:scale-105 hover:bg-neutral-800 hover:text-white mt-8">{t('common.startOver')}</button>
         </div>
     );
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useLanguage } from '../contexts/LanguageContext';
+import { createProjectThumbnail, openProject } from '../contexts/ProjectContext';
+import LanguageSwitcher from './LanguageSwitcher';
+import { deleteProject, getAllProjects, ProjectRecord, putProject } from '../lib/mediaStore';
+import { exportProjectBundle, readProjectBundle } from '../lib/projectBundle';
+import { getTool } from '../lib/tools';
+import { cn } from '../lib/utils';
+
+/** Lists the saved projects, newest first, and opens, exports, imports or deletes them. */
+const ProjectsScreen = ({ onBack }: { onBack: () => void }) => {
+    const { t } = useLanguage();
+    const [projects, setProjects] = useState<ProjectRecord[] | null>(null);
+    const [isTransferring, setIsTransferring] = useState(false);
+
+    const loadProjects = async () => {
+        try {
+            setProjects(await getAllProjects());
+        } catch (error) {
+            console.error("Failed to load projects", error);
+            setProjects([]);
+        }
+    };
+
+    useEffect(() => {
+        loadProjects();
+    }, []);
+
+    const thumbnailUrls = useMemo(() => new Map((projects ?? [])
+        .filter(project => project.thumbnail)
+        .map(project => [project.id, URL.createObjectURL(project.thumbnail!)])), [projects]);
+    useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+    const handleOpen = (project: ProjectRecord) => {
+        openProject(project);
+    };
+
+    const handleDelete = async (project: ProjectRecord) => {
+        if (!window.confirm(t('projects.confirmDelete', project.name))) return;
+        try {
+            await deleteProject(project.id);
+        } catch (error) {
+            console.error("Failed to delete the project", error);
+        }
+        loadProjects();
+    };
+
+    const handleExport = async (project: ProjectRecord) => {
+        setIsTransferring(true);
+        try {
+            const bundle = await exportProjectBundle(project);
+            const url = URL.createObjectURL(bundle);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${project.name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'project'}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error("Failed to export the project", error);
+            window.alert(t('projects.exportFailed'));
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsTransferring(true);
+        try {
+            const project = await readProjectBundle(file);
+            if (!getTool(project.toolId)) {
+                throw new Error(`Unknown tool: ${project.toolId}`);
+            }
+            await putProject({ ...project, thumbnail: await createProjectThumbnail(project.state) });
+            await loadProjects();
+        } catch (error) {
+            console.error("Failed to import the project", error);
+            window.alert(t('projects.importFailed'));
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="w-full max-w-5xl mx-auto flex flex-col items-center z-10 self-start"
+        >
+            <header className="w-full flex justify-between items-center py-4 mb-6">
+                <button onClick={onBack} className="flex items-center gap-2 text-neutral-300 hover:text-white transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                    {t('common.backToTools')}
+                </button>
+                <LanguageSwitcher />
+            </header>
+
+            <div className="w-full flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-10">
+                <div>
+                    <h2 className="text-5xl md:text-6xl font-extrabold text-white mb-2 tracking-tight">{t('projects.title')}</h2>
+                    <p className="text-lg text-neutral-400">{t('projects.subtitle')}</p>
+                </div>
+                <label htmlFor="project-import" className={cn("font-bold text-center text-neutral-300 bg-black/20 backdrop-blur-sm border-2 border-neutral-700 py-3 px-6 rounded-lg transition-all duration-300 hover:bg-neutral-800 hover:text-white cursor-pointer", isTransferring && "opacity-50 pointer-events-none")}>
+                    {t('projects.import')}
+                </label>
+                <input id="project-import" type="file" className="hidden" accept=".zip,application/zip" onChange={handleImport} disabled={isTransferring} />
+            </div>
+
+            {projects === null ? (
+                <div className="h-10 w-10 rounded-full border-4 border-neutral-700 border-t-neutral-300 animate-spin" />
+            ) : projects.length === 0 ? (
+                <p className="text-neutral-500 text-center py-16">{t('projects.empty')}</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 w-full">
+                    {projects.map(project => {
+                        const tool = getTool(project.toolId);
+                        const thumbnailUrl = thumbnailUrls.get(project.id);
+                        return (
+                            <div key={project.id} className="bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl overflow-hidden flex flex-col hover:border-neutral-700 transition-colors">
+                                <button onClick={() => handleOpen(project)} disabled={!tool} className="aspect-video bg-neutral-900 flex items-center justify-center disabled:cursor-not-allowed">
+                                    {thumbnailUrl
+                                        ? <img src={thumbnailUrl} alt={project.name} className="w-full h-full object-cover" loading="lazy" />
+                                        : <span className="text-neutral-600">{tool?.icon}</span>}
+                                </button>
+                                <div className="p-4 flex flex-col gap-1 flex-grow">
+                                    <h3 className="text-lg font-bold text-neutral-100 truncate" title={project.name}>{project.name}</h3>
+                                    <p className="text-sm text-neutral-400">{tool ? t(tool.titleKey) : project.toolId}</p>
+                                    <p className="text-xs text-neutral-500">{t('projects.updatedAt', new Date(project.updatedAt).toLocaleString())}</p>
+                                </div>
+                                <div className="flex items-center gap-4 px-4 pb-4 text-sm font-semibold">
+                                    <button onClick={() => handleOpen(project)} disabled={!tool} className="text-neutral-200 hover:text-white disabled:opacity-50">{t('projects.open')}</button>
+                                    <button onClick={() => handleExport(project)} disabled={isTransferring} className="text-neutral-400 hover:text-white disabled:opacity-50">{t('projects.export')}</button>
+                                    <button onClick={() => handleDelete(project)} className="text-red-400/80 hover:text-red-300 ml-auto">{t('projects.delete')}</button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </motion.div>
+    );
+};
+
+export default ProjectsScreen;
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useGenerationQueue } from '../lib/useGenerationQueue';
+import { cn } from '../lib/utils';
+import { clearFailedJobs, dismissFailedJob, getQueueConfig, setQueueConfig, QueuedJob } from '../services/generationQueue';
+
+const STATUS_STYLES: Record<QueuedJob['status'], string> = {
+    running: 'bg-neutral-200 text-black',
+    pending: 'bg-neutral-700 text-neutral-200',
+    failed: 'bg-red-500/20 text-red-300',
+};
+
+const JobRow: React.FC<{ job: QueuedJob }> = ({ job }) => {
+    const { t } = useLanguage();
+    return (
+        <li className="flex items-start justify-between gap-3 py-2 border-b border-neutral-800 last:border-b-0">
+            <div className="min-w-0">
+                <p className="text-sm text-neutral-200 truncate">{job.source ? t(job.source) : job.label}</p>
+                <p className="text-xs text-neutral-500 font-mono truncate">{job.label}</p>
+                {job.error && <p className="text-xs text-red-400 mt-1 line-clamp-2">{job.error}</p>}
+            </div>
+            <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                <span className={cn('text-xs font-semibold px-2 py-0.5 rounded-full', STATUS_STYLES[job.status])}>{t(`queue.${job.status}`)}</span>
+                <span className="text-[10px] uppercase tracking-wide text-neutral-500">{t(`queue.${job.priority}`)}</span>
+                {job.status === 'failed' && (
+                    <button onClick={() => dismissFailedJob(job.id)} className="text-xs text-neutral-400 hover:text-white">{t('queue.dismiss')}</button>
+                )}
+            </div>
+        </li>
+    );
+};
+
+export default function QueuePanel() {
+    const { t } = useLanguage();
+    const jobs = useGenerationQueue();
+    const [isOpen, setIsOpen] = useState(false);
+    const [config, setConfig] = useState(getQueueConfig);
+
+    // The limits can also be changed on the settings screen.
+    useEffect(() => {
+        if (isOpen) setConfig(getQueueConfig());
+    }, [isOpen]);
+
+    const activeCount = jobs.filter(job => job.status !== 'failed').length;
+    const hasFailed = jobs.some(job => job.status === 'failed');
+
+    const handleConfigChange = (key: 'concurrency' | 'requestsPerMinute', value: string) => {
+        const parsed = parseInt(value, 10);
+        if (Number.isNaN(parsed)) return;
+        setQueueConfig({ [key]: parsed });
+        setConfig(getQueueConfig());
+    };
+
+    return (
+        <>
+            <motion.button
+                onClick={() => setIsOpen(!isOpen)}
+                className="fixed bottom-6 right-28 z-50 h-12 px-4 bg-neutral-800 border border-neutral-700 rounded-full shadow-lg flex items-center gap-2 text-neutral-200 hover:bg-neutral-700 transition-colors"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                aria-label={t('queue.title')}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className={cn('h-5 w-5', activeCount > 0 && 'animate-pulse')} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M4 6h16M4 12h16M4 18h10" />
+                </svg>
+                <span className="text-sm font-semibold">{t('queue.activeCount', activeCount)}</span>
+                {hasFailed && <span className="w-2 h-2 rounded-full bg-red-500" />}
+            </motion.button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 20 }}
+                        transition={{ duration: 0.2 }}
+                        className="fixed bottom-24 right-6 z-50 w-[22rem] max-h-[70vh] bg-neutral-900 border border-neutral-700 rounded-2xl shadow-xl flex flex-col overflow-hidden"
+                    >
+                        <header className="p-4 border-b border-neutral-800 flex justify-between items-center flex-shrink-0">
+                            <h2 className="text-lg font-bold text-neutral-100">{t('queue.title')}</h2>
+                            <div className="flex items-center gap-3">
+                                {hasFailed && (
+                                    <button onClick={clearFailedJobs} className="text-xs font-semibold text-neutral-300 hover:text-red-400">{t('queue.clearFailed')}</button>
+                                )}
+                                <button onClick={() => setIsOpen(false)} className="text-neutral-500 hover:text-white">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                                </button>
+                            </div>
+                        </header>
+
+                        <div className="p-4 grid grid-cols-2 gap-3 border-b border-neutral-800 flex-shrink-0">
+                            <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                                {t('queue.concurrency')}
+                                <input type="number" min={1} max={8} value={config.concurrency} onChange={(e) => handleConfigChange('concurrency', e.target.value)} className="bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-sm text-neutral-200" />
+                            </label>
+                            <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                                {t('queue.requestsPerMinute')}
+                                <input type="number" min={1} max={120} value={config.requestsPerMinute} onChange={(e) => handleConfigChange('requestsPerMinute', e.target.value)} className="bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-sm text-neutral-200" />
+                            </label>
+                        </div>
+
+                        <div className="flex-grow overflow-y-auto px-4">
+                            {jobs.length === 0 ? (
+                                <p className="py-8 text-center text-sm text-neutral-500">{t('queue.emptyMessage')}</p>
+                            ) : (
+                                <ul>
+                                    {jobs.map(job => <JobRow key={`${job.status}-${job.id}`} job={job} />)}
+                                </ul>
+                            )}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </>
+    );
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useMediaLibrary } from '../contexts/MediaLibraryContext';
+import { TOOLS, ToolId } from '../lib/tools';
+import { cn } from '../lib/utils';
+
+interface SendToMenuProps {
+    imageUrl: string;
+    /** The tool the image was made in; it is left out of the list. */
+    fromToolId?: ToolId;
+    className?: string;
+}
+
+/**
+ * A "Send to…" button for a finished result. The menu lists every tool that takes an image,
+ * with one entry per input slot, so a result can go straight into e.g. the outfit slot of a photoshoot.
+ */
+const SendToMenu: React.FC<SendToMenuProps> = ({ imageUrl, fromToolId, className }) => {
+    const { t } = useLanguage();
+    const { sendImageToTool } = useMediaLibrary();
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close on any click outside the menu.
+    useEffect(() => {
+        if (!isOpen) return;
+        const handlePointerDown = (e: PointerEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('pointerdown', handlePointerDown);
+        return () => document.removeEventListener('pointerdown', handlePointerDown);
+    }, [isOpen]);
+
+    const targets = TOOLS.filter(tool => tool.id !== fromToolId && tool.inputs.length > 0);
+
+    return (
+        // Pointer events stop here so that using the menu doesn't start dragging a polaroid.
+        <div ref={menuRef} className={cn("relative", className)} onPointerDown={(e) => e.stopPropagation()}>
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setIsOpen(!isOpen);
+                }}
+                className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                aria-label={t('sendTo.button')}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                title={t('sendTo.button')}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute right-full top-0 mr-2 w-56 max-h-72 overflow-y-auto bg-neutral-900 border border-neutral-700 rounded-lg shadow-xl py-2 text-left z-30">
+                    <p className="px-3 pb-1 text-xs font-semibold uppercase tracking-wider text-neutral-500">{t('sendTo.title')}</p>
+                    {targets.map(tool => (
+                        <div key={tool.id} className="px-3 py-1.5">
+                            <p className="text-sm font-semibold text-neutral-200">{t(tool.titleKey)}</p>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {tool.inputs.map(slot => (
+                                    <button
+                                        key={slot.role}
+                                        role="menuitem"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setIsOpen(false);
+                                            sendImageToTool(imageUrl, tool.id, slot.role);
+                                        }}
+                                        className="text-xs px-2 py-0.5 rounded bg-neutral-800 text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors"
+                                    >
+                                        {t(`toolSlots.${slot.role}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SendToMenu;
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import { useLanguage } from '../contexts/LanguageContext';
+import LanguageSwitcher from './LanguageSwitcher';
+import { getQueueConfig, setQueueConfig } from '../services/generationQueue';
+import { getDefaultModel } from '../services/providers/registry';
+import { ASPECT_RATIOS, CAPABILITIES, DEFAULT_SETTINGS, getActiveBackendUrl, hasBuildApiKey, MODEL_SUGGESTIONS, OUTPUT_FORMATS, updateSettings, useSettings } from '../lib/settings';
+import { cn } from '../lib/utils';
+
+const chipButtonClasses = "text-sm text-center text-neutral-300 bg-neutral-800 border-2 border-transparent py-2 px-4 rounded-lg transition-all duration-200 hover:bg-neutral-700";
+const selectedChipButtonClasses = "bg-neutral-200 hover:bg-white border-neutral-200 text-black font-bold";
+const inputClasses = "w-full bg-neutral-900 border border-neutral-700 rounded-lg px-3 py-2 text-neutral-200 placeholder-neutral-500 focus:outline-none focus:border-neutral-400";
+
+const Section = ({ title, description, children }: { title: string; description?: string; children: ReactNode }) => (
+    <section className="w-full bg-black/20 backdrop-blur-md border border-neutral-800 rounded-2xl p-6 shadow-lg flex flex-col gap-4">
+        <div>
+            <h3 className="text-xl font-bold text-neutral-100">{title}</h3>
+            {description && <p className="text-sm text-neutral-400 mt-1">{description}</p>}
+        </div>
+        {children}
+    </section>
+);
+
+/** Per-browser settings: API key, models and generation defaults. Every change applies immediately. */
+const SettingsScreen = ({ onBack }: { onBack: () => void }) => {
+    const { t } = useLanguage();
+    const settings = useSettings();
+    const [apiKeyDraft, setApiKeyDraft] = useState(settings.apiKey);
+    const [backendUrlDraft, setBackendUrlDraft] = useState(settings.backendUrl);
+    const [showApiKey, setShowApiKey] = useState(false);
+    const [queueConfig, setQueueConfigState] = useState(getQueueConfig);
+
+    const handleQueueChange = (key: 'concurrency' | 'requestsPerMinute', value: string) => {
+        const parsed = parseInt(value, 10);
+        if (Number.isNaN(parsed)) return;
+        setQueueConfig({ [key]: parsed });
+        setQueueConfigState(getQueueConfig());
+    };
+
+    const handleModelChange = (capability: typeof CAPABILITIES[number], value: string) => {
+        updateSettings({ models: { ...settings.models, [capability]: value.trim() || undefined } });
+    };
+
+    const backendUrl = getActiveBackendUrl(settings);
+    const apiKeyStatus = backendUrl
+        ? t('settings.apiKeyUnused')
+        : settings.apiKey
+        ? t('settings.apiKeyStored')
+        : hasBuildApiKey() ? t('settings.apiKeyFromBuild') : t('settings.apiKeyMissing');
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="w-full max-w-3xl mx-auto flex flex-col items-center z-10 self-start"
+        >
+            <header className="w-full flex justify-between items-center py-4 mb-6">
+                <button onClick={onBack} className="flex items-center gap-2 text-neutral-300 hover:text-white transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                    {t('common.backToTools')}
+                </button>
+                <LanguageSwitcher />
+            </header>
+
+            <div className="w-full mb-10">
+                <h2 className="text-5xl md:text-6xl font-extrabold text-white mb-2 tracking-tight">{t('settings.title')}</h2>
+                <p className="text-lg text-neutral-400">{t('settings.subtitle')}</p>
+            </div>
+
+            <div className="w-full flex flex-col gap-6 pb-24">
+                <Section title={t('settings.apiKeyTitle')} description={t('settings.apiKeyDesc')}>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input
+                            type={showApiKey ? 'text' : 'password'}
+                            value={apiKeyDraft}
+                            onChange={(e) => setApiKeyDraft(e.target.value)}
+                            placeholder={t('settings.apiKeyPlaceholder')}
+                            autoComplete="off"
+                            spellCheck={false}
+                            className={cn(inputClasses, "font-mono")}
+                        />
+                        <div className="flex gap-3">
+                            <button onClick={() => setShowApiKey(!showApiKey)} className={chipButtonClasses}>
+                                {showApiKey ? t('settings.hideKey') : t('settings.showKey')}
+                            </button>
+                            <button
+                                onClick={() => updateSettings({ apiKey: apiKeyDraft.trim() })}
+                                disabled={apiKeyDraft.trim() === settings.apiKey}
+                                className={cn(chipButtonClasses, selectedChipButtonClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}
+                            >
+                                {t('settings.saveKey')}
+                            </button>
+                            {settings.apiKey && (
+                                <button onClick={() => { setApiKeyDraft(''); updateSettings({ apiKey: '' }); }} className={chipButtonClasses}>
+                                    {t('settings.removeKey')}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <p className="text-sm text-neutral-500">{apiKeyStatus}</p>
+                </Section>
+
+                <Section title={t('settings.backendTitle')} description={t('settings.backendDesc')}>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input
+                            value={backendUrlDraft}
+                            onChange={(e) => setBackendUrlDraft(e.target.value)}
+                            placeholder={process.env.BACKEND_URL || t('settings.backendPlaceholder')}
+                            spellCheck={false}
+                            className={cn(inputClasses, "font-mono")}
+                        />
+                        <button
+                            onClick={() => updateSettings({ backendUrl: backendUrlDraft.trim() })}
+                            disabled={backendUrlDraft.trim() === settings.backendUrl}
+                            className={cn(chipButtonClasses, selectedChipButtonClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}
+                        >
+                            {t('settings.saveBackend')}
+                        </button>
+                    </div>
+                    <p className="text-sm text-neutral-500">{backendUrl ? t('settings.backendActive', backendUrl) : t('settings.backendInactive')}</p>
+                </Section>
+
+                <Section title={t('settings.modelsTitle')} description={t('settings.modelsDesc')}>
+                    {CAPABILITIES.map(capability => (
+                        <label key={capability} className="flex flex-col gap-1">
+                            <span className="text-sm font-semibold text-neutral-300">{t(`settings.capabilities.${capability}`)}</span>
+                            <input
+                                list={`models-${capability}`}
+                                value={settings.models[capability] ?? ''}
+                                onChange={(e) => handleModelChange(capability, e.target.value)}
+                                placeholder={getDefaultModel(capability)}
+                                spellCheck={false}
+                                className={cn(inputClasses, "font-mono")}
+                            />
+                            <datalist id={`models-${capability}`}>
+                                {MODEL_SUGGESTIONS[capability].map(model => <option key={model} value={model} />)}
+                            </datalist>
+                        </label>
+                    ))}
+                </Section>
+
+                <Section title={t('settings.generationTitle')} description={t('settings.generationDesc')}>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-sm font-semibold text-neutral-300">{t('queue.concurrency')}</span>
+                            <input type="number" min={1} max={8} value={queueConfig.concurrency} onChange={(e) => handleQueueChange('concurrency', e.target.value)} className={inputClasses} />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-sm font-semibold text-neutral-300">{t('queue.requestsPerMinute')}</span>
+                            <input type="number" min={1} max={120} value={queueConfig.requestsPerMinute} onChange={(e) => handleQueueChange('requestsPerMinute', e.target.value)} className={inputClasses} />
+                        </label>
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-neutral-300 mb-2">{t('settings.outputFormat')}</h4>
+                        <div className="flex flex-wrap gap-2">
+                            {OUTPUT_FORMATS.map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => updateSettings({ outputFormat: format })}
+                                    className={cn(chipButtonClasses, settings.outputFormat === format && selectedChipButtonClasses)}
+                                >
+                                    {format.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-sm text-neutral-500 mt-2">{t(`settings.formatHints.${settings.outputFormat}`)}</p>
+                    </div>
+
+                    <label className={cn("flex flex-col gap-1", settings.outputFormat === 'png' && "opacity-50")}>
+                        <span className="text-sm font-semibold text-neutral-300">{t('settings.outputQuality', Math.round(settings.outputQuality * 100))}</span>
+                        <input
+                            type="range"
+                            min={0.5}
+                            max={1}
+                            step={0.01}
+                            value={settings.outputQuality}
+                            onChange={(e) => updateSettings({ outputQuality: Number(e.target.value) })}
+                            disabled={settings.outputFormat === 'png'}
+                            className="w-full accent-neutral-200"
+                        />
+                    </label>
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-neutral-300 mb-2">{t('settings.defaultAspectRatio')}</h4>
+                        <div className="flex flex-wrap gap-2">
+                            {ASPECT_RATIOS.map(ratio => (
+                                <button
+                                    key={ratio}
+                                    onClick={() => updateSettings({ defaultAspectRatio: ratio })}
+                                    className={cn(chipButtonClasses, settings.defaultAspectRatio === ratio && selectedChipButtonClasses)}
+                                >
+                                    {ratio}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </Section>
+
+                <button
+                    onClick={() => {
+                        if (!window.confirm(t('settings.confirmReset'))) return;
+                        setApiKeyDraft('');
+                        setBackendUrlDraft('');
+                        updateSettings(DEFAULT_SETTINGS);
+                    }}
+                    className="self-start text-sm font-semibold text-red-400/80 hover:text-red-300"
+                >
+                    {t('settings.reset')}
+                </button>
+            </div>
+        </motion.div>
+    );
+};
+
+export default SettingsScreen;
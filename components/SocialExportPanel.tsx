@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import JSZip from 'jszip';
+import { getModelForOperation, outpaintImage } from '../services/geminiService';
+import { isCancelledError } from '../services/errors';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useMediaLibrary } from '../contexts/MediaLibraryContext';
+import { getErrorMessage } from '../lib/errorMessages';
+import { fitImageToSize, SOCIAL_PLATFORMS, SocialFormat, socialFormatKey, SocialPlatform } from '../lib/socialFormats';
+import { useGenerationController } from '../lib/useGenerationController';
+import { useSettings } from '../lib/settings';
+import { cn, downloadBlob, imageFileExtension, resizeImageToAspectRatio } from '../lib/utils';
+
+interface ExportImage {
+    id: string;
+    label: string;
+    url: string;
+}
+
+interface FormatResult {
+    status: 'pending' | 'done' | 'error' | 'cancelled';
+    url?: string;
+    /** Above 1 when the outpainted image was smaller than the format and had to be enlarged. */
+    scale?: number;
+    error?: string;
+}
+
+type FormatEntry = { platform: SocialPlatform, format: SocialFormat };
+
+const ALL_FORMATS: FormatEntry[] = SOCIAL_PLATFORMS.flatMap(platform => platform.formats.map(format => ({ platform, format })));
+
+const primaryButtonClasses = "font-bold text-center text-black bg-neutral-200 py-2 px-6 rounded-lg transition-all duration-300 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed";
+const secondaryButtonClasses = "font-bold text-center text-neutral-300 border-2 border-neutral-700 py-2 px-6 rounded-lg transition-all duration-300 hover:bg-neutral-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed";
+const chipButtonClasses = "text-sm text-center text-neutral-300 bg-neutral-800 border-2 border-transparent py-2 px-4 rounded-lg transition-all duration-200 hover:bg-neutral-700";
+const selectedChipButtonClasses = "bg-neutral-200 hover:bg-white border-neutral-200 text-black font-bold";
+
+/**
+ * Turns one finished Photoshoot image into versions for social media platforms. The image is
+ * outpainted once per aspect ratio, resized to each platform's exact size and bundled into a ZIP
+ * with a folder per platform.
+ */
+const SocialExportPanel = ({ images, onClose }: { images: ExportImage[], onClose: () => void }) => {
+    const { t } = useLanguage();
+    const { addImageToLibrary } = useMediaLibrary();
+    const { getSignal, cancel } = useGenerationController();
+    const { outputFormat, outputQuality } = useSettings();
+    const [imageId, setImageId] = useState(images[0]?.id ?? '');
+    const [selectedFormats, setSelectedFormats] = useState<string[]>(() => ALL_FORMATS.map(({ platform, format }) => socialFormatKey(platform, format)));
+    const [results, setResults] = useState<Record<string, FormatResult>>({});
+    const [isRunning, setIsRunning] = useState(false);
+    const [isZipping, setIsZipping] = useState(false);
+    // Bumped whenever another image is picked, so formats still finishing for the old one are dropped.
+    const runRef = useRef(0);
+
+    const image = images.find(candidate => candidate.id === imageId);
+
+    const setResult = (key: string, result: FormatResult) => {
+        setResults(prev => ({ ...prev, [key]: result }));
+    };
+
+    const toggleFormat = (key: string) => {
+        setSelectedFormats(prev => prev.includes(key) ? prev.filter(candidate => candidate !== key) : [...prev, key]);
+    };
+
+    const runFormats = async (entries: FormatEntry[]) => {
+        if (!image || entries.length === 0) return;
+        const run = runRef.current;
+        const setRunResult = (key: string, result: FormatResult) => {
+            if (runRef.current === run) setResult(key, result);
+        };
+        setIsRunning(true);
+        setResults(prev => ({ ...prev, ...Object.fromEntries(entries.map(({ platform, format }) => [socialFormatKey(platform, format), { status: 'pending' }])) }));
+        const signal = getSignal();
+
+        // Formats that share a ratio, such as an Instagram story and a TikTok cover, are outpainted once.
+        const ratios = [...new Set(entries.map(({ format }) => format.aspectRatio))];
+        await Promise.all(ratios.map(async ratio => {
+            const group = entries.filter(({ format }) => format.aspectRatio === ratio);
+            try {
+                const padded = await resizeImageToAspectRatio(image.url, ratio);
+                let extended = image.url;
+                // An image that already has the ratio comes back unchanged and needs no outpainting.
+                if (padded !== image.url) {
+                    extended = await outpaintImage(padded, ratio, { signal, priority: 'batch' });
+                    addImageToLibrary(extended, {
+                        toolId: 'photoshoot',
+                        operation: 'outpaintImage',
+                        prompt: ratio,
+                        inputs: { source: image.url },
+                        model: getModelForOperation('outpaintImage'),
+                    });
+                }
+                for (const { platform, format } of group) {
+                    const fitted = await fitImageToSize(extended, format.width, format.height, { mimeType: `image/${outputFormat}`, quality: outputQuality });
+                    setRunResult(socialFormatKey(platform, format), { status: 'done', url: fitted.url, scale: fitted.scale });
+                }
+            } catch (err) {
+                const failed: FormatResult = isCancelledError(err) ? { status: 'cancelled' } : { status: 'error', error: getErrorMessage(err, t) };
+                if (failed.status === 'error') {
+                    console.error(`Failed to export the ${ratio} formats:`, err);
+                }
+                group.forEach(({ platform, format }) => setRunResult(socialFormatKey(platform, format), failed));
+            }
+        }));
+        if (runRef.current === run) setIsRunning(false);
+    };
+
+    const handleCreate = () => {
+        setResults({});
+        runFormats(ALL_FORMATS.filter(({ platform, format }) => selectedFormats.includes(socialFormatKey(platform, format))));
+    };
+
+    const failedFormats = ALL_FORMATS.filter(({ platform, format }) => {
+        const status = results[socialFormatKey(platform, format)]?.status;
+        return status === 'error' || status === 'cancelled';
+    });
+    const finishedFormats = ALL_FORMATS.filter(({ platform, format }) => results[socialFormatKey(platform, format)]?.status === 'done');
+
+    const handleDownloadZip = async () => {
+        if (!image) return;
+        setIsZipping(true);
+        try {
+            const zip = new JSZip();
+            const safeFileName = image.id.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+            for (const { platform, format } of finishedFormats) {
+                const dataUrl = results[socialFormatKey(platform, format)].url!;
+                const base64Data = dataUrl.slice(dataUrl.indexOf(',') + 1);
+                zip.folder(platform.id)!.file(`${safeFileName}-${format.id}-${format.width}x${format.height}.${imageFileExtension(dataUrl)}`, base64Data, { base64: true });
+            }
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), `ai-photoshoot-${safeFileName}-social.zip`);
+        } catch (error) {
+            console.error("Failed to create or download ZIP:", error);
+            alert(t('photoshoot.zipCreationError'));
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const handleSelectImage = (id: string) => {
+        runRef.current++;
+        cancel();
+        setIsRunning(false);
+        setResults({});
+        setImageId(id);
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, y: 20 }}
+                animate={{ scale: 1, y: 0 }}
+                exit={{ scale: 0.95, y: 20 }}
+                transition={{ duration: 0.2 }}
+                className="bg-neutral-900 border border-neutral-700 rounded-2xl w-[90vw] h-[90vh] max-w-6xl flex flex-col overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-neutral-800 flex justify-between items-center gap-4 flex-shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-neutral-100">{t('socialExport.title')}</h2>
+                        <p className="text-sm text-neutral-400 mt-1">{t('socialExport.subtitle')}</p>
+                    </div>
+                    <button onClick={onClose} className="text-neutral-500 hover:text-white">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </header>
+
+                <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-6">
+                    <section>
+                        <h3 className="text-md font-bold text-neutral-400 mb-2">{t('socialExport.chooseImage')}</h3>
+                        <div className="flex gap-3 overflow-x-auto pb-2">
+                            {images.map(candidate => (
+                                <button
+                                    key={candidate.id}
+                                    onClick={() => handleSelectImage(candidate.id)}
+                                    className={cn(
+                                        "flex-shrink-0 w-28 rounded-lg overflow-hidden border-2 transition-colors",
+                                        candidate.id === imageId ? "border-neutral-200" : "border-transparent opacity-60 hover:opacity-100"
+                                    )}
+                                    title={candidate.label}
+                                >
+                                    <img src={candidate.url} alt={candidate.label} className="w-full aspect-square object-cover" />
+                                    <p className="text-xs text-neutral-300 truncate px-1 py-1 bg-neutral-800">{candidate.label}</p>
+                                </button>
+                            ))}
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className="text-md font-bold text-neutral-400 mb-2">{t('socialExport.chooseFormats')}</h3>
+                        <div className="flex flex-wrap gap-3">
+                            {ALL_FORMATS.map(({ platform, format }) => {
+                                const key = socialFormatKey(platform, format);
+                                return (
+                                    <button
+                                        key={key}
+                                        onClick={() => toggleFormat(key)}
+                                        disabled={isRunning}
+                                        className={cn(chipButtonClasses, selectedFormats.includes(key) && selectedChipButtonClasses, "disabled:opacity-50")}
+                                    >
+                                        {t(platform.labelKey)} · {t(format.labelKey)}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </section>
+
+                    <div className="flex flex-wrap gap-3">
+                        <button onClick={handleCreate} disabled={!image || isRunning || selectedFormats.length === 0} className={primaryButtonClasses}>
+                            {isRunning ? t('socialExport.creating') : t('socialExport.create', selectedFormats.length)}
+                        </button>
+                        {isRunning && (
+                            <button onClick={() => cancel()} className={secondaryButtonClasses}>{t('common.stop')}</button>
+                        )}
+                        {!isRunning && failedFormats.length > 0 && (
+                            <button onClick={() => runFormats(failedFormats)} className={secondaryButtonClasses}>{t('socialExport.retryFailed', failedFormats.length)}</button>
+                        )}
+                        <button onClick={handleDownloadZip} disabled={isRunning || isZipping || finishedFormats.length === 0} className={secondaryButtonClasses}>
+                            {isZipping ? t('photoshoot.creatingZipButton') : t('socialExport.downloadZip')}
+                        </button>
+                    </div>
+
+                    {SOCIAL_PLATFORMS.map(platform => {
+                        const formats = platform.formats.filter(format => results[socialFormatKey(platform, format)]);
+                        if (formats.length === 0) return null;
+                        return (
+                            <section key={platform.id}>
+                                <h3 className="text-lg font-bold text-neutral-200 mb-3">{t(platform.labelKey)}</h3>
+                                <div className="flex flex-wrap items-start gap-4">
+                                    {formats.map(format => {
+                                        const result = results[socialFormatKey(platform, format)];
+                                        return (
+                                            <div key={format.id} className="w-56 flex flex-col gap-1">
+                                                <div
+                                                    className="w-full bg-black/40 rounded-lg border border-neutral-800 overflow-hidden flex items-center justify-center text-center"
+                                                    style={{ aspectRatio: `${format.width} / ${format.height}` }}
+                                                >
+                                                    {result.status === 'pending' && (
+                                                        <svg className="animate-spin h-6 w-6 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                                        </svg>
+                                                    )}
+                                                    {result.status === 'done' && result.url && <img src={result.url} alt={t(format.labelKey)} className="w-full h-full object-cover" />}
+                                                    {result.status === 'error' && <p className="text-xs text-red-400 p-2 line-clamp-3" title={result.error}>{result.error}</p>}
+                                                    {result.status === 'cancelled' && <p className="text-xs text-neutral-500 p-2">{t('common.cancelled')}</p>}
+                                                </div>
+                                                <p className="text-sm text-neutral-300 font-semibold">{t(format.labelKey)}</p>
+                                                <p className="text-xs text-neutral-500">{format.width} × {format.height}</p>
+                                                {result.status === 'done' && result.scale && result.scale > 1.05 && (
+                                                    <p className="text-xs text-amber-300">{t('socialExport.upscaled', result.scale.toFixed(1))}</p>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </section>
+                        );
+                    })}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default SocialExportPanel;
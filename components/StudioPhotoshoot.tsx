@@ -4,15 +4,23 @@
 */
 import React, { useState, DragEvent, ChangeEvent, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { generateStyledImage, generateBackgroundFromConcept, extractOutfitFromImage } from '../services/geminiService';
-import { cn } from '../lib/utils';
+import { generateStyledImage, generateBackgroundFromConcept, extractOutfitFromImage, getModelForOperation } from '../services/geminiService';
+import { cn, imageFileExtension } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
+import { settlePending, useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import { useMediaLibrary, useToolHandoff } from '../contexts/MediaLibraryContext';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
+import { ADULT_POSES, buildStudioCompositionPrompt } from '../lib/studioPoses';
+import type { JobPriority } from '../services/generationQueue';
 
 type Step = 'UPLOAD' | 'STUDIO';
 
 interface GeneratedImageState {
-    status: 'pending' | 'done' | 'error';
+    status: 'pending' | 'done' | 'error' | 'cancelled';
     url?: string;
     error?: string;
     poseId: string;
@@ -64,7 +72,7 @@ const Uploader = ({ title, description, imageUrl, onImageUpload, onImageRemove,
     );
 };
 
-const AssetViewer = ({ title, imageUrl, isLoading, error, onRetry }: { title: string, imageUrl: string | null, isLoading: boolean, error: string | null, onRetry?: () => void }) => {
+const AssetViewer = ({ title, imageUrl, isLoading, error, isCancelled, onRetry }: { title: string, imageUrl: string | null, isLoading: boolean, error: string | null, isCancelled?: boolean, onRetry?: () => void }) => {
     const { t } = useLanguage();
     return (
         <div className="flex flex-col items-center gap-2 w-full">
@@ -76,65 +84,34 @@ const AssetViewer = ({ title, imageUrl, isLoading, error, onRetry }: { title: st
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
                 )}
-                {error && !isLoading && (
+                {(error || isCancelled) && !isLoading && (
                     <div className="p-4 text-red-400">
-                        <p className="font-semibold mb-2">{t('studioPhotoshoot.generationFailed')}</p>
-                        <p className="text-xs text-slate-400 mb-4">{error}</p>
+                        <p className="font-semibold mb-2">{isCancelled ? t('common.cancelled') : t('studioPhotoshoot.generationFailed')}</p>
+                        {error && <p className="text-xs text-slate-400 mb-4">{error}</p>}
                         {onRetry && <button onClick={onRetry} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button>}
                     </div>
                 )}
-                {imageUrl && !isLoading && !error && <img src={imageUrl} alt={t(title)} className="w-full h-full object-cover"/>}
+                {imageUrl && !isLoading && !error && !isCancelled && <img src={imageUrl} alt={t(title)} className="w-full h-full object-cover"/>}
             </div>
         </div>
     );
 };
 
-const ADULT_POSES = [
-    { id: 'prof_arms_crossed', labelKey: 'studioPhotoshoot.poses.prof_arms_crossed', prompt: 'a confident, professional stance with arms crossed.' },
-    { id: 'prof_presenting', labelKey: 'studioPhotoshoot.poses.prof_presenting', prompt: 'a professional presenting gesture with one open hand towards an imaginary chart.' },
-    { id: 'prof_leaning_desk', labelKey: 'studioPhotoshoot.poses.prof_leaning_desk', prompt: 'casually leaning against the edge of a modern office desk.' },
-    { id: 'prof_holding_tablet', labelKey: 'studioPhotoshoot.poses.prof_holding_tablet', prompt: 'holding and looking at a tablet computer with a thoughtful expression.' },
-    { id: 'prof_walking', labelKey: 'studioPhotoshoot.poses.prof_walking', prompt: 'walking forward with a determined and confident expression.' },
-    { id: 'prof_headshot', labelKey: 'studioPhotoshoot.poses.prof_headshot', prompt: 'a professional headshot from the chest up, with a friendly and approachable smile.' },
-    { id: 'prof_sitting_chair', labelKey: 'studioPhotoshoot.poses.prof_sitting_chair', prompt: 'sitting in a modern office chair, leaning forward slightly as if in a meeting.' },
-    { id: 'cas_laughing', labelKey: 'studioPhotoshoot.poses.cas_laughing', prompt: 'a candid moment, laughing genuinely and looking slightly away from the camera.' },
-    { id: 'cas_walking_street', labelKey: 'studioPhotoshoot.poses.cas_walking_street', prompt: 'walking down a city street, looking thoughtfully to the side.' },
-    { id: 'cas_sipping_coffee', labelKey: 'studioPhotoshoot.poses.cas_sipping_coffee', prompt: 'sitting at an outdoor cafe table, sipping a cup of coffee.' },
-    { id: 'cas_leaning_wall', labelKey: 'studioPhotoshoot.poses.cas_leaning_wall', prompt: 'casually leaning against a rustic brick wall.' },
-    { id: 'cas_hands_pockets', labelKey: 'studioPhotoshoot.poses.cas_hands_pockets', prompt: 'a relaxed stance with hands in their pockets.' },
-    { id: 'cas_sitting_steps', labelKey: 'studioPhotoshoot.poses.cas_sitting_steps', prompt: 'sitting casually on outdoor concrete steps.' },
-    { id: 'cas_over_shoulder', labelKey: 'studioPhotoshoot.poses.cas_over_shoulder', prompt: 'glancing back over their shoulder towards the camera with a smile.' },
-    { id: 'cas_joyful_jump', labelKey: 'studioPhotoshoot.poses.cas_joyful_jump', prompt: 'captured mid-air in a joyful, energetic jump.' },
-    { id: 'fas_low_angle', labelKey: 'studioPhotoshoot.poses.fas_low_angle', prompt: 'a dramatic, full-body shot taken from a very low angle.' },
-    { id: 'fas_static_pose', labelKey: 'studioPhotoshoot.poses.fas_static_pose', prompt: 'a high-fashion, static, and slightly unconventional pose.' },
-    { id: 'fas_twirling', labelKey: 'studioPhotoshoot.poses.fas_twirling', prompt: 'a dynamic shot captured mid-twirl, with clothing showing motion.' },
-    { id: 'fas_lying_down', labelKey: 'studioPhotoshoot.poses.fas_lying_down', prompt: 'lying on their back or side on the ground, looking up at the camera.' },
-    { id: 'fas_crouching', labelKey: 'studioPhotoshoot.poses.fas_crouching', prompt: 'a stylish crouching or squatting pose.' },
-    { id: 'fas_back_to_camera', labelKey: 'studioPhotoshoot.poses.fas_back_to_camera', prompt: 'standing with their back to the camera, looking over one shoulder.' },
-    { id: 'fas_shadow_play', labelKey: 'studioPhotoshoot.poses.fas_shadow_play', prompt: 'interacting with strong light and shadows, creating artistic patterns on them.' },
-    { id: 'fas_silhouette', labelKey: 'studioPhotoshoot.poses.fas_silhouette', prompt: 'a powerful silhouette pose against a bright background.' },
-    { id: 'act_yoga', labelKey: 'studioPhotoshoot.poses.act_yoga', prompt: 'holding a strong and balanced yoga pose, like the Warrior II pose.' },
-    { id: 'act_stretching', labelKey: 'studioPhotoshoot.poses.act_stretching', prompt: 'in a dynamic pre-workout stretching pose.' },
-    { id: 'act_jogging', labelKey: 'studioPhotoshoot.poses.act_jogging', prompt: 'in a natural jogging or running motion.' },
-    { id: 'act_holding_ball', labelKey: 'studioPhotoshoot.poses.act_holding_ball', prompt: 'holding a basketball or soccer ball in a sporty, ready-to-play stance.' },
-    { id: 'hob_reading', labelKey: 'studioPhotoshoot.poses.hob_reading', prompt: 'sitting comfortably in a chair, engrossed in reading a book.' },
-    { id: 'hob_guitar', labelKey: 'studioPhotoshoot.poses.hob_guitar', prompt: 'sitting on a stool and playing an acoustic guitar.' },
-    { id: 'hob_painting', labelKey: 'studioPhotoshoot.poses.hob_painting', prompt: 'standing in front of an easel with a paintbrush, focused on their artwork.' },
-];
-
 export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [step, setStep] = useState<Step>('UPLOAD');
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [step, setStep] = useProjectState<Step>('step', 'UPLOAD');
     // Uploaded images
-    const [characterImage, setCharacterImage] = useState<string | null>(null);
-    const [conceptImage, setConceptImage] = useState<string | null>(null);
+    const [characterImage, setCharacterImage] = useProjectState<string | null>('characterImage', null);
+    const [conceptImage, setConceptImage] = useProjectState<string | null>('conceptImage', null);
     
     // Generated assets
-    const [extractedBackground, setExtractedBackground] = useState<string | null>(null);
-    const [extractedOutfit, setExtractedOutfit] = useState<string | null>(null);
+    const [extractedBackground, setExtractedBackground] = useProjectState<string | null>('extractedBackground', null);
+    const [extractedOutfit, setExtractedOutfit] = useProjectState<string | null>('extractedOutfit', null);
     
     // Generated final images
-    const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImageState>>({});
+    const [generatedImages, setGeneratedImages] = useProjectState<Record<string, GeneratedImageState>>('generatedImages', {}, settlePending);
 
     // Loading & Error states
     const [isBackgroundLoading, setIsBackgroundLoading] = useState(false);
@@ -145,7 +122,7 @@ export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
     const [outfitError, setOutfitError] = useState<string | null>(null);
     
     // Compose options
-    const [selectedPoses, setSelectedPoses] = useState<string[]>([]);
+    const [selectedPoses, setSelectedPoses] = useProjectState<string[]>('selectedPoses', []);
 
     useEffect(() => {
         // Clear results when pose selection changes after a generation
@@ -161,7 +138,13 @@ export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
         reader.readAsDataURL(file);
     };
 
+    useToolHandoff('studioPhotoshoot', {
+        character: setCharacterImage,
+        concept: setConceptImage,
+    });
+
     const handleStartOver = () => {
+        cancel();
         setStep('UPLOAD');
         setCharacterImage(null);
         setConceptImage(null);
@@ -181,10 +164,11 @@ export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
         setIsBackgroundLoading(true);
         setBackgroundError(null);
         try {
-            const result = await generateBackgroundFromConcept(conceptImage);
+            const result = await generateBackgroundFromConcept(conceptImage, { signal: getSignal() });
             setExtractedBackground(result);
         } catch (err) {
-            setBackgroundError(err instanceof Error ? err.message : "Background creation failed.");
+            if (isCancelledError(err)) return;
+            setBackgroundError(getErrorMessage(err, t, "Background creation failed."));
         } finally {
             setIsBackgroundLoading(false);
         }
@@ -195,10 +179,11 @@ export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
         setIsOutfitLoading(true);
         setOutfitError(null);
         try {
-            const result = await extractOutfitFromImage(conceptImage);
+            const result = await extractOutfitFromImage(conceptImage, undefined, { signal: getSignal() });
             setExtractedOutfit(result);
         } catch (err) {
-            setOutfitError(err instanceof Error ? err.message : "Outfit extraction failed.");
+            if (isCancelledError(err)) return;
+            setOutfitError(getErrorMessage(err, t, "Outfit extraction failed."));
         } finally {
             setIsOutfitLoading(false);
         }
@@ -218,7 +203,7 @@ export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
         );
     };
 
-    const generateSingleImage = async (poseId: string) => {
+    const generateSingleImage = async (poseId: string, priority: JobPriority = 'interactive') => {
         if (!characterImage || !extractedBackground || !extractedOutfit) return;
 
         const pose = ADULT_POSES.find(p => p.id === poseId);
@@ -230,29 +215,29 @@ export default function StudioPhotoshoot({ onBack }: { onBack: () => void }) {
         }));
         
         try {
-            const prompt = `
-**PRIMARY DIRECTIVE: ABSOLUTE IDENTITY PRESERVATION (NON-NEGOTIABLE)**
-Your single most important, critical, and unbreakable task is to perfectly preserve the identity of the person from the first image (the 'Character' image). The final generated face MUST be a photorealistic, 100% identical replica.
-
--   **FACIAL FEATURES ARE SACRED:** You must replicate the **exact** shape of the eyes, nose, mouth, jawline, chin, and overall facial structure.
--   **UNIQUE DETAILS ARE CRITICAL:** Preserve any unique identifiers like moles, freckles, scars, or specific skin textures. Do not remove or alter them.
--   **HAIR INTEGRITY:** Maintain the original hair color, style, and texture as closely as possible.
-
-**SECONDARY TASK: COMPOSITION**
-After satisfying the identity preservation rule, perform the following composition:
-1.  **Place the Character:** Take the person (from the first image) and place them realistically into the background (the second image).
-2.  **Apply the Outfit:** Dress the person in the outfit provided in the third image. The fit should be natural.
-3.  **Apply the Pose:** The person's final pose should be: ${pose.prompt}.
-4.  **Seamless Integration:** The lighting, shadows, and color grading on the person must be adjusted to perfectly match the new background and environment for a cohesive final photograph.
-`;
+            const prompt = buildStudioCompositionPrompt(pose.prompt);
             
-            const resultUrl = await generateStyledImage(prompt, [characterImage, extractedBackground, extractedOutfit]);
+            const resultUrl = await generateStyledImage(prompt, [characterImage, extractedBackground, extractedOutfit], undefined, { signal: getSignal(), priority });
             setGeneratedImages(prev => ({
                 ...prev,
                 [poseId]: { ...prev[poseId], status: 'done', url: resultUrl }
             }));
+            addImageToLibrary(resultUrl, {
+                toolId: 'studioPhotoshoot',
+                operation: 'generateStyledImage',
+                prompt: pose.prompt,
+                inputs: { character: characterImage, concept: conceptImage },
+                model: getModelForOperation('generateStyledImage'),
+            });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Final image generation failed.";
+            if (isCancelledError(err)) {
+                setGeneratedImages(prev => ({
+                    ...prev,
+                    [poseId]: { ...prev[poseId], status: 'cancelled' }
+                }));
+                return;
+            }
+            const errorMessage = getErrorMessage(err, t, "Final image generation failed.");
             setGeneratedImages(prev => ({
                 ...prev,
                 [poseId]: { ...prev[poseId], status: 'error', error: errorMessage }
@@ -264,7 +249,7 @@ After satisfying the identity preservation rule, perform the following compositi
         if (selectedPoses.length === 0) return;
         setIsComposing(true);
 
-        const generationPromises = selectedPoses.map(poseId => generateSingleImage(poseId));
+        const generationPromises = selectedPoses.map(poseId => generateSingleImage(poseId, 'batch'));
         await Promise.all(generationPromises);
 
         setIsComposing(false);
@@ -274,7 +259,7 @@ After satisfying the identity preservation rule, perform the following compositi
         if (!url) return;
         const link = document.createElement('a');
         link.href = url;
-        link.download = `tracquoc-ai-studio-${poseId}.png`;
+        link.download = `tracquoc-ai-studio-${poseId}.${imageFileExtension(url)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -333,6 +318,11 @@ After satisfying the identity preservation rule, perform the following compositi
                      <button onClick={handleFinalGeneration} disabled={isComposing || !extractedBackground || !extractedOutfit || selectedPoses.length === 0} className="w-full mt-4 flex items-center justify-center gap-2 text-black font-bold py-3 px-6 rounded-lg bg-neutral-200 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105">
                         {generateButtonText()}
                     </button>
+                    {isComposing && (
+                        <button onClick={cancel} className="w-full flex items-center justify-center gap-2 text-neutral-200 font-bold py-2 px-6 rounded-lg bg-neutral-800/50 hover:bg-neutral-700/50 transition-colors">
+                            {t('common.stop')}
+                        </button>
+                    )}
                 </div>
             </div>
     
@@ -351,6 +341,7 @@ After satisfying the identity preservation rule, perform the following compositi
                                         imageUrl={imgState?.url ?? null}
                                         isLoading={!imgState || imgState.status === 'pending'}
                                         error={imgState?.error ?? null}
+                                        isCancelled={imgState?.status === 'cancelled'}
                                         onRetry={() => generateSingleImage(poseId)}
                                     />
                                     {imgState?.status === 'done' && imgState.url && (
@@ -364,6 +355,9 @@ After satisfying the identity preservation rule, perform the following compositi
                                             </svg>
                                         </button>
                                     )}
+                                    {imgState?.status === 'done' && imgState.url && (
+                                        <SendToMenu imageUrl={imgState.url} fromToolId="studioPhotoshoot" className="absolute top-24 right-2 z-10 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity" />
+                                    )}
                                 </div>
                             );
                         })}
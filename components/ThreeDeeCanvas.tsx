@@ -10,6 +10,9 @@ import { cn } from '../lib/utils';
 import { useLanguage } from '../contexts/LanguageContext';
 import { generatePoseFromImage } from '../services/geminiService';
 import { motion, AnimatePresence } from 'framer-motion';
+import { getErrorMessage } from '../lib/errorMessages';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
 
 interface ThreeDeeCanvasProps {
     onPoseChange: (dataUrl: string | null) => void;
@@ -76,6 +79,7 @@ const BoneSlider = ({ boneName, axis, value, onChange }: { boneName: string, axi
 
 const ThreeDeeCanvas: React.FC<ThreeDeeCanvasProps> = ({ onPoseChange }) => {
     const { t } = useLanguage();
+    const { getSignal } = useGenerationController();
     const mountRef = useRef<HTMLDivElement>(null);
     const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
     const bonesRef = useRef<Record<string, THREE.Bone>>({});
@@ -203,10 +207,11 @@ const ThreeDeeCanvas: React.FC<ThreeDeeCanvasProps> = ({ onPoseChange }) => {
         setIsPosing(true);
         setPoseError(null);
         try {
-            const result = await generatePoseFromImage(poseReferenceImage, BONE_NAMES, refinementPrompt);
+            const result = await generatePoseFromImage(poseReferenceImage, BONE_NAMES, refinementPrompt, { signal: getSignal() });
             setRotations(prev => ({...prev, ...result}));
         } catch (err) {
-            setPoseError(err instanceof Error ? err.message : "An unknown error occurred");
+            if (isCancelledError(err)) return;
+            setPoseError(getErrorMessage(err, t));
         } finally {
             setIsPosing(false);
         }
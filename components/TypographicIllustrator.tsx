@@ -4,9 +4,16 @@
 */
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { generateTypographicIllustration } from '../services/geminiService';
+import { generateTypographicIllustration, getModelForOperation } from '../services/geminiService';
+import { useMediaLibrary } from '../contexts/MediaLibraryContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useProjectState } from '../contexts/ProjectContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import SendToMenu from './SendToMenu';
+import { getErrorMessage } from '../lib/errorMessages';
+import { imageFileExtension } from '../lib/utils';
+import { useGenerationController } from '../lib/useGenerationController';
+import { isCancelledError } from '../services/errors';
 
 const ImageViewer = ({ title, imageUrl, children }: { title: string, imageUrl: string | null, children?: React.ReactNode }) => {
     return (
@@ -22,9 +29,11 @@ const ImageViewer = ({ title, imageUrl, children }: { title: string, imageUrl: s
 
 export default function TypographicIllustrator({ onBack }: { onBack: () => void }) {
     const { t } = useLanguage();
-    const [view, setView] = useState<'config' | 'result'>('config');
-    const [phrase, setPhrase] = useState('');
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const { getSignal, cancel } = useGenerationController();
+    const { addImageToLibrary } = useMediaLibrary();
+    const [view, setView] = useProjectState<'config' | 'result'>('view', 'config');
+    const [phrase, setPhrase] = useProjectState('phrase', '');
+    const [generatedImage, setGeneratedImage] = useProjectState<string | null>('generatedImage', null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -32,7 +41,7 @@ export default function TypographicIllustrator({ onBack }: { onBack: () => void
         if (!generatedImage) return;
         const link = document.createElement('a');
         link.href = generatedImage;
-        link.download = 'tracquoc-ai-typography.png';
+        link.download = `tracquoc-ai-typography.${imageFileExtension(generatedImage)}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -44,10 +53,18 @@ export default function TypographicIllustrator({ onBack }: { onBack: () => void
         setError(null);
         setView('result');
         try {
-            const resultUrl = await generateTypographicIllustration(phrase);
+            const resultUrl = await generateTypographicIllustration(phrase, { signal: getSignal() });
             setGeneratedImage(resultUrl);
+            addImageToLibrary(resultUrl, {
+                toolId: 'typographicIllustrator',
+                operation: 'generateTypographicIllustration',
+                prompt: phrase,
+                inputs: {},
+                model: getModelForOperation('generateTypographicIllustration'),
+            });
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (isCancelledError(err)) return;
+            setError(getErrorMessage(err, t));
             console.error(err);
         } finally {
             setIsLoading(false);
@@ -55,6 +72,7 @@ export default function TypographicIllustrator({ onBack }: { onBack: () => void
     };
     
     const handleStartOver = () => {
+        cancel();
         setPhrase('');
         setGeneratedImage(null);
         setError(null);
@@ -107,6 +125,7 @@ export default function TypographicIllustrator({ onBack }: { onBack: () => void
                              <button onClick={handleGenerate} className="text-sm bg-red-500/20 text-red-300 px-3 py-1 rounded-md hover:bg-red-500/40">{t('common.retry')}</button>
                          </div>
                     )}
+                    {generatedImage && !isLoading && <SendToMenu imageUrl={generatedImage} fromToolId="typographicIllustrator" className="absolute top-2 right-2 z-10" />}
                 </ImageViewer>
             </div>
 
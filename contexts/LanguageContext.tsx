@@ -14,6 +14,9 @@ interface LanguageContextType {
     ...args: any[]) => string;
 }
 
+/** The translate function; `{0}`, `{1}`... in a translation are replaced by the extra arguments. */
+export type Translate = LanguageContextType['t'];
+
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
 export const LanguageProvider = ({ children }: { children: ReactNode }) => {
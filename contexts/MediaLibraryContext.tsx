@@ -3,77 +3,257 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import { Album, blobToDataUrl, createImageId, dataUrlToBlob, deleteAlbum as deleteStoredAlbum, getAllAlbums, getStorageEstimate, hashBlob, ImageInputReference, ImageProvenance, LIBRARY_STORE, putAlbum, StoredImage } from '../lib/mediaStore';
+import { useStoredImages, StoredImageItem, toRecord } from '../lib/useStoredImages';
+import { exportLibraryBundle, readLibraryBundle } from '../lib/libraryBundle';
+import { navigate } from '../lib/router';
+import { TOOL_IDS, ToolId, ToolInputRole } from '../lib/tools';
+
+export type LibraryItem = StoredImageItem;
+
+interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+interface ImportResult {
+    added: number;
+    skipped: number;
+}
+
+/**
+ * Provenance as a tool reports it: the inputs are the images themselves, by role. Empty slots are
+ * skipped, and an input links to its library entry when the library holds the same image.
+ */
+export type ProvenanceDraft = Omit<ImageProvenance, 'inputs'> & { inputs: Record<string, string | null | undefined> };
+
+/** Images on their way to named input slots of another tool, optionally with the prompt to start from. */
+interface ToolHandoff {
+    toolId: ToolId;
+    images: Record<string, string>;
+    prompt?: string;
+    /** The operation the prompt was written for, when a tool has prompts for more than one. */
+    operation?: string;
+}
 
 interface MediaLibraryContextType {
-    libraryImages: string[];
-    addImageToLibrary: (imageUrl: string) => void;
-    removeImagesFromLibrary: (imageUrls: string[]) => void;
+    libraryItems: LibraryItem[];
+    addImageToLibrary: (imageUrl: string, provenance: ProvenanceDraft) => Promise<LibraryItem | null>;
+    /** Updates the metadata (tags, rating, favourite, albums) of one or more library items. */
+    updateLibraryItems: (ids: string[], update: (item: LibraryItem) => Partial<StoredImage>) => void;
+    removeImagesFromLibrary: (ids: string[]) => void;
     clearLibrary: () => void;
-    selectImageForTool: (imageUrl: string) => void;
+    selectImageForTool: (item: LibraryItem) => void;
     selectedImageForTool: string | null;
     clearSelectedImageForTool: () => void;
+    /** Opens a tool with an image already placed in one of its input slots. */
+    sendImageToTool: (imageUrl: string, toolId: ToolId, role: string) => void;
+    /** Opens the tool that made a library image with its recorded inputs and prompt, to run the step again. */
+    rerunInTool: (item: LibraryItem) => Promise<void>;
+    pendingHandoff: ToolHandoff | null;
+    clearPendingHandoff: () => void;
+    albums: Album[];
+    createAlbum: (name: string) => Promise<Album>;
+    renameAlbum: (id: string, name: string) => void;
+    deleteAlbum: (id: string) => void;
+    /** Packs the whole library, with metadata and albums, into a ZIP bundle. */
+    exportLibrary: () => Promise<Blob>;
+    /** Merges a ZIP bundle into the library, skipping images that are already in it. */
+    importLibrary: (file: File) => Promise<ImportResult>;
+    storageEstimate: StorageEstimate | null;
+    /** Set when the last write to IndexedDB failed, e.g. because the storage quota is full. */
+    storageError: boolean;
 }
 
 const MediaLibraryContext = createContext<MediaLibraryContextType | undefined>(undefined);
 
 export const MediaLibraryProvider = ({ children }: { children: ReactNode }) => {
-    const [libraryImages, setLibraryImages] = useState<string[]>([]);
+    const { items: libraryItems, addImage, findImageByHash, importImages, updateImages, removeImages, clear } = useStoredImages(LIBRARY_STORE);
+    const [albums, setAlbums] = useState<Album[]>([]);
     const [selectedImageForTool, setSelectedImageForTool] = useState<string | null>(null);
+    const [pendingHandoff, setPendingHandoff] = useState<ToolHandoff | null>(null);
+    const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+    const [storageError, setStorageError] = useState(false);
 
     useEffect(() => {
-        try {
-            const savedLibrary = localStorage.getItem('ai-creative-suite-library');
-            if (savedLibrary) {
-                setLibraryImages(JSON.parse(savedLibrary));
-            }
-        } catch (error) {
-            console.error("Failed to load media library from localStorage", error);
-        }
+        getAllAlbums()
+            .then(setAlbums)
+            .catch(error => console.error("Failed to load albums from IndexedDB", error));
     }, []);
 
     useEffect(() => {
+        getStorageEstimate()
+            .then(setStorageEstimate)
+            .catch(error => console.error("Failed to estimate storage usage", error));
+    }, [libraryItems]);
+
+    // Inputs are matched to library entries by content hash, so links survive reloads and restored projects.
+    const resolveInputs = useCallback(async (inputs: ProvenanceDraft['inputs']): Promise<ImageInputReference[]> => {
+        const references: ImageInputReference[] = [];
+        for (const [role, imageUrl] of Object.entries(inputs)) {
+            if (!imageUrl) continue;
+            const hash = await dataUrlToBlob(imageUrl).then(hashBlob).catch(() => undefined);
+            const libraryId = hash ? findImageByHash(hash)?.id : undefined;
+            references.push(libraryId ? { role, libraryId } : { role });
+        }
+        return references;
+    }, [findImageByHash]);
+
+    const addImageToLibrary = useCallback(async (imageUrl: string, { inputs, ...provenance }: ProvenanceDraft) => {
         try {
-            localStorage.setItem('ai-creative-suite-library', JSON.stringify(libraryImages));
+            const resolved: ImageProvenance = { ...provenance, inputs: await resolveInputs(inputs) };
+            // Re-adding an image that is already in the library returns the existing entry.
+            const item = await addImage(imageUrl, { provenance: resolved });
+            setStorageError(false);
+            return item;
         } catch (error) {
-            console.error("Failed to save media library to localStorage", error);
+            console.error("Failed to save image to the media library", error);
+            setStorageError(true);
+            return null;
         }
-    }, [libraryImages]);
+    }, [addImage, resolveInputs]);
 
-    const addImageToLibrary = useCallback((imageUrl: string) => {
-        setLibraryImages(prev => {
-            if (prev.includes(imageUrl)) {
-                return prev;
-            }
-            return [imageUrl, ...prev];
-        });
-    }, []);
+    const updateLibraryItems = useCallback((ids: string[], update: (item: LibraryItem) => Partial<StoredImage>) => {
+        updateImages(ids, update).catch(error => console.error("Failed to update media library items", error));
+    }, [updateImages]);
 
-    const removeImagesFromLibrary = useCallback((imageUrls: string[]) => {
-        setLibraryImages(prev => prev.filter(img => !imageUrls.includes(img)));
+    const createAlbum = useCallback(async (name: string) => {
+        const album: Album = { id: createImageId(), name, createdAt: Date.now() };
+        await putAlbum(album);
+        setAlbums(prev => [...prev, album]);
+        return album;
     }, []);
 
+    const renameAlbum = useCallback((id: string, name: string) => {
+        const album = albums.find(candidate => candidate.id === id);
+        if (!album) return;
+        const renamed = { ...album, name };
+        putAlbum(renamed)
+            .then(() => setAlbums(prev => prev.map(candidate => candidate.id === id ? renamed : candidate)))
+            .catch(error => console.error("Failed to rename album", error));
+    }, [albums]);
+
+    // Deleting an album keeps its images; they are only taken out of the album.
+    const deleteAlbum = useCallback((id: string) => {
+        const members = libraryItems.filter(item => item.albumIds?.includes(id)).map(item => item.id);
+        deleteStoredAlbum(id)
+            .then(() => updateImages(members, item => ({ albumIds: item.albumIds?.filter(albumId => albumId !== id) })))
+            .then(() => setAlbums(prev => prev.filter(album => album.id !== id)))
+            .catch(error => console.error("Failed to delete album", error));
+    }, [libraryItems, updateImages]);
+
+    const exportLibrary = useCallback(() => exportLibraryBundle(libraryItems.map(toRecord), albums), [libraryItems, albums]);
+
+    const importLibrary = useCallback(async (file: File): Promise<ImportResult> => {
+        const bundle = await readLibraryBundle(file);
+
+        // Albums are matched by id, then by name, so importing the same backup twice doesn't duplicate them.
+        const albumIdMap = new Map<string, string>();
+        const newAlbums: Album[] = [];
+        for (const album of bundle.albums) {
+            const existing = albums.find(candidate => candidate.id === album.id || candidate.name === album.name);
+            if (existing) {
+                albumIdMap.set(album.id, existing.id);
+            } else {
+                albumIdMap.set(album.id, album.id);
+                newAlbums.push(album);
+            }
+        }
+
+        // Images already in the library are skipped; links to them are redirected to the existing entry.
+        const imageIdMap = new Map<string, string>();
+        const knownHashes = new Map(libraryItems.filter(item => item.hash).map(item => [item.hash, item.id]));
+        const candidates: StoredImage[] = [];
+        for (const record of bundle.items) {
+            const hash = record.hash ?? await hashBlob(record.blob);
+            const duplicateId = libraryItems.find(item => item.id === record.id)?.id ?? (hash && knownHashes.get(hash));
+            imageIdMap.set(record.id, duplicateId || record.id);
+            if (duplicateId) continue;
+            if (hash) knownHashes.set(hash, record.id);
+            candidates.push({ ...record, hash });
+        }
+
+        const toAdd = candidates.map((record): StoredImage => ({
+            ...record,
+            albumIds: record.albumIds?.map(id => albumIdMap.get(id) ?? id),
+            provenance: record.provenance && {
+                ...record.provenance,
+                inputs: record.provenance.inputs.map(input => input.libraryId ? { ...input, libraryId: imageIdMap.get(input.libraryId) ?? input.libraryId } : input),
+            },
+        }));
+
+        // Nothing is written until every record has been read, so a bad bundle leaves no stray albums.
+        await importImages(toAdd);
+        await Promise.all(newAlbums.map(putAlbum));
+        setAlbums(prev => [...prev, ...newAlbums]);
+        return { added: toAdd.length, skipped: bundle.items.length - toAdd.length };
+    }, [albums, libraryItems, importImages]);
+
+    const removeImagesFromLibrary = useCallback((ids: string[]) => {
+        removeImages(ids).catch(error => console.error("Failed to remove images from the media library", error));
+    }, [removeImages]);
+
     const clearLibrary = useCallback(() => {
-        setLibraryImages([]);
-    }, []);
+        clear().catch(error => console.error("Failed to clear the media library", error));
+    }, [clear]);
 
-    const selectImageForTool = useCallback((imageUrl: string) => {
-        setSelectedImageForTool(imageUrl);
+    // Tools work with data URLs, so the stored blob is converted before it is handed over.
+    const selectImageForTool = useCallback((item: LibraryItem) => {
+        blobToDataUrl(item.blob)
+            .then(setSelectedImageForTool)
+            .catch(error => console.error("Failed to read image from the media library", error));
     }, []);
 
     const clearSelectedImageForTool = useCallback(() => {
         setSelectedImageForTool(null);
     }, []);
 
+    // The handoff is held here until the target tool has loaded and takes it (see useToolHandoff).
+    const sendImageToTool = useCallback((imageUrl: string, toolId: ToolId, role: string) => {
+        setPendingHandoff({ toolId, images: { [role]: imageUrl } });
+        navigate(toolId);
+    }, []);
+
+    // Inputs that are no longer in the library are left empty for the user to fill in.
+    const rerunInTool = useCallback(async (item: LibraryItem) => {
+        const provenance = item.provenance;
+        const toolId = TOOL_IDS.find(id => id === provenance?.toolId);
+        if (!provenance || !toolId) return;
+        const images: Record<string, string> = {};
+        for (const input of provenance.inputs) {
+            const source = input.libraryId ? libraryItems.find(candidate => candidate.id === input.libraryId) : undefined;
+            if (source) images[input.role] = await blobToDataUrl(source.blob);
+        }
+        setPendingHandoff({ toolId, images, prompt: provenance.prompt, operation: provenance.operation });
+        navigate(toolId);
+    }, [libraryItems]);
+
+    const clearPendingHandoff = useCallback(() => {
+        setPendingHandoff(null);
+    }, []);
 
     return (
         <MediaLibraryContext.Provider value={{
-            libraryImages,
+            libraryItems,
             addImageToLibrary,
+            updateLibraryItems,
             removeImagesFromLibrary,
             clearLibrary,
             selectImageForTool,
             selectedImageForTool,
-            clearSelectedImageForTool
+            clearSelectedImageForTool,
+            sendImageToTool,
+            rerunInTool,
+            pendingHandoff,
+            clearPendingHandoff,
+            albums,
+            createAlbum,
+            renameAlbum,
+            deleteAlbum,
+            exportLibrary,
+            importLibrary,
+            storageEstimate,
+            storageError
         }}>
             {children}
         </MediaLibraryContext.Provider>
@@ -86,4 +266,26 @@ export const useMediaLibrary = (): MediaLibraryContextType => {
         throw new Error('useMediaLibrary must be used within a MediaLibraryProvider');
     }
     return context;
-};
\ No newline at end of file
+};
+
+/**
+ * Places images sent from another tool into the matching input slots. `slots` maps every
+ * role the tool declares in the registry to the function that sets that input; tools with a
+ * free-form prompt pass `onPrompt` to take the prompt of a step that is being re-run.
+ */
+export const useToolHandoff = <T extends ToolId>(
+    toolId: T,
+    slots: Record<ToolInputRole<T>, (imageUrl: string) => void>,
+    onPrompt?: (prompt: string, operation?: string) => void,
+) => {
+    const { pendingHandoff, clearPendingHandoff } = useMediaLibrary();
+
+    useEffect(() => {
+        if (!pendingHandoff || pendingHandoff.toolId !== toolId) return;
+        for (const [role, imageUrl] of Object.entries(pendingHandoff.images)) {
+            (slots as Record<string, (imageUrl: string) => void>)[role]?.(imageUrl);
+        }
+        if (pendingHandoff.prompt) onPrompt?.(pendingHandoff.prompt, pendingHandoff.operation);
+        clearPendingHandoff();
+    }, [pendingHandoff, clearPendingHandoff, toolId]);
+};
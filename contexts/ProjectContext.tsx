@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, Dispatch, ReactNode, SetStateAction } from 'react';
+import { useLanguage } from './LanguageContext';
+import { createImageId, createThumbnail, dataUrlToBlob, getProject, ProjectRecord, putProject } from '../lib/mediaStore';
+import { navigate, useHistoryState, useRoute } from '../lib/router';
+import { getTool, ToolId } from '../lib/tools';
+
+/**
+ * Projects: every tool session is a project that autosaves to IndexedDB. Tools opt their inputs
+ * and results in with `useProjectState`, a drop-in for `useState`; their URL settings are saved
+ * along with them. The open project's id is kept with the history entry rather than in the URL,
+ * so a refresh reopens it while copied and bookmarked links only carry the tool's settings.
+ */
+
+// Saves are batched: a burst of changes (e.g. a photoshoot filling in) becomes one write.
+const AUTOSAVE_DELAY_MS = 1000;
+const PROJECT_STATE_KEY = 'projectId';
+
+interface ProjectSessionContextType {
+    /** The state saved in the project; empty for a new one. */
+    savedState: Record<string, unknown>;
+    /** Tells the session the current value of one piece of tool state. */
+    report: (key: string, value: unknown) => void;
+}
+
+const ProjectSessionContext = createContext<ProjectSessionContextType | null>(null);
+
+type SaveStatus = 'new' | 'saving' | 'saved' | 'failed';
+
+// The last image found in the state; results are registered after inputs, so this is usually the latest result.
+const findPreviewImage = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return value.startsWith('data:image/') ? value : undefined;
+    if (value && typeof value === 'object') {
+        const values = Object.values(value);
+        for (let index = values.length - 1; index >= 0; index--) {
+            const found = findPreviewImage(values[index]);
+            if (found) return found;
+        }
+    }
+    return undefined;
+};
+
+/** A small preview of a project's state for the Projects screen. */
+export async function createProjectThumbnail(state: Record<string, unknown>): Promise<Blob | undefined> {
+    const image = findPreviewImage(state);
+    return image ? createThumbnail(await dataUrlToBlob(image)) : undefined;
+}
+
+/** Opens a saved project in its tool, with the settings it was saved with. */
+export function openProject(project: ProjectRecord): void {
+    navigate(project.toolId as ToolId, new URLSearchParams(project.params), { [PROJECT_STATE_KEY]: project.id });
+}
+
+const ProjectSessionBody: React.FC<{ project: ProjectRecord; children: ReactNode }> = ({ project, children }) => {
+    const { t } = useLanguage();
+    const { params } = useRoute();
+    const [name, setName] = useState(project.name);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>(project.updatedAt > project.createdAt ? 'saved' : 'new');
+
+    const stateRef = useRef<Record<string, unknown>>({ ...project.state });
+    const nameRef = useRef(name);
+    const settingsRef = useRef(params.toString());
+    const isDirtyRef = useRef(false);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const thumbnailRef = useRef<{ source?: string; thumbnail?: Blob }>({});
+
+    const save = useCallback(async () => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = null;
+        if (!isDirtyRef.current) return;
+        isDirtyRef.current = false;
+        setSaveStatus('saving');
+        const state = stateRef.current;
+        try {
+            // Only redraw the thumbnail when the image it shows has changed.
+            const source = findPreviewImage(state);
+            if (source !== thumbnailRef.current.source) {
+                thumbnailRef.current = { source, thumbnail: await createProjectThumbnail(state) };
+            }
+            await putProject({
+                ...project,
+                name: nameRef.current,
+                params: settingsRef.current,
+                state,
+                thumbnail: thumbnailRef.current.thumbnail,
+                updatedAt: Date.now(),
+            });
+            setSaveStatus(isDirtyRef.current ? 'saving' : 'saved');
+        } catch (error) {
+            console.error("Failed to save the project", error);
+            setSaveStatus('failed');
+        }
+    }, [project]);
+
+    const markDirty = useCallback(() => {
+        isDirtyRef.current = true;
+        setSaveStatus('saving');
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(save, AUTOSAVE_DELAY_MS);
+    }, [save]);
+
+    const report = useCallback((key: string, value: unknown) => {
+        const state = stateRef.current;
+        // The first report of a key is the value the tool started with, which isn't an edit.
+        const isChange = key in state;
+        if (isChange && state[key] === value) return;
+        stateRef.current = { ...state, [key]: value };
+        if (isChange) markDirty();
+    }, [markDirty]);
+
+    const settings = params.toString();
+    useEffect(() => {
+        if (settings === settingsRef.current) return;
+        settingsRef.current = settings;
+        markDirty();
+    }, [settings, markDirty]);
+
+    // Write pending changes before the tab goes away or the tool is closed.
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') save();
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            save();
+        };
+    }, [save]);
+
+    const handleRename = (value: string) => {
+        setName(value);
+        nameRef.current = value;
+        markDirty();
+    };
+
+    const contextValue = useMemo(() => ({ savedState: project.state, report }), [project, report]);
+
+    return (
+        <ProjectSessionContext.Provider value={contextValue}>
+            <div className="fixed top-4 left-1/2 -translate-x-1/2 z-30 hidden md:flex items-center gap-3 bg-neutral-900/80 backdrop-blur-md border border-neutral-800 rounded-full pl-4 pr-3 py-1.5 shadow-lg">
+                <input
+                    value={name}
+                    onChange={(e) => handleRename(e.target.value)}
+                    className="bg-transparent text-sm text-neutral-200 w-56 focus:outline-none"
+                    aria-label={t('projects.name')}
+                    title={t('projects.name')}
+                />
+                <span className="text-xs text-neutral-500 whitespace-nowrap">{t(`projects.status.${saveStatus}`)}</span>
+            </div>
+            {children}
+        </ProjectSessionContext.Provider>
+    );
+};
+
+/**
+ * Wraps an open tool in its project: reopens the project of the current history entry, or starts a new
+ * one. A new project is only written once the user changes something, so merely looking at
+ * a tool doesn't fill the Projects screen with empty sessions.
+ */
+export const ProjectSession: React.FC<{ toolId: string; children: ReactNode }> = ({ toolId, children }) => {
+    const { t } = useLanguage();
+    const [projectId, setProjectId] = useHistoryState(PROJECT_STATE_KEY);
+    const [project, setProject] = useState<ProjectRecord | null>(null);
+
+    useEffect(() => {
+        if (!projectId) {
+            setProjectId(createImageId());
+            return;
+        }
+        let cancelled = false;
+        const startNew = () => {
+            const now = Date.now();
+            const tool = getTool(toolId);
+            setProject({
+                id: projectId,
+                name: `${tool ? t(tool.titleKey) : toolId} · ${new Date(now).toLocaleString()}`,
+                toolId,
+                params: '',
+                state: {},
+                createdAt: now,
+                updatedAt: now,
+            });
+        };
+        setProject(null);
+        getProject(projectId).then(saved => {
+            if (cancelled) return;
+            if (!saved) {
+                startNew();
+            } else if (saved.toolId !== toolId) {
+                // The id belongs to another tool's project; don't overwrite it.
+                setProjectId(createImageId());
+            } else {
+                setProject(saved);
+            }
+        }).catch(error => {
+            console.error("Failed to load the project", error);
+            if (!cancelled) startNew();
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId, toolId]);
+
+    if (!project || project.id !== projectId) {
+        return <div className="z-10 h-10 w-10 rounded-full border-4 border-neutral-700 border-t-neutral-300 animate-spin" />;
+    }
+    return <ProjectSessionBody key={project.id} project={project}>{children}</ProjectSessionBody>;
+};
+
+/**
+ * `useState` for tool state that belongs in the project: its value is restored when the
+ * project is reopened and every change is autosaved. `revive` adjusts a restored value, e.g.
+ * to mark generations that were still running when the project was saved as interrupted.
+ * Outside a project session it behaves exactly like `useState`.
+ */
+export function useProjectState<T>(key: string, initialValue: T | (() => T), revive?: (saved: T) => T): [T, Dispatch<SetStateAction<T>>] {
+    const session = useContext(ProjectSessionContext);
+    const [value, setValue] = useState<T>(() => {
+        if (session && key in session.savedState) {
+            const saved = session.savedState[key] as T;
+            return revive ? revive(saved) : saved;
+        }
+        return typeof initialValue === 'function' ? (initialValue as () => T)() : initialValue;
+    });
+
+    useEffect(() => {
+        session?.report(key, value);
+    }, [session, key, value]);
+
+    return [value, setValue];
+}
+
+/**
+ * A `revive` for maps of generation results: entries still pending when the project was
+ * saved can't finish any more, so they come back as cancelled and can be retried.
+ */
+export function settlePending<T extends { status: string }>(results: Record<string, T>): Record<string, T> {
+    return Object.fromEntries(Object.entries(results).map(([key, result]) =>
+        [key, result.status === 'pending' ? { ...result, status: 'cancelled' } : result]));
+}
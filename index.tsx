@@ -7,6 +7,8 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { MediaLibraryProvider } from './contexts/MediaLibraryContext';
+// Applies the saved API key and models before any tool can send a request.
+import './lib/settings';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -2,6 +2,106 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+/**
+ * Album page templates: a layout places photos into slots on a page of a physical size, and a
+ * collection with more photos than slots continues on further pages.
+ */
+
+export type AlbumLayoutId = 'grid' | 'collage' | 'magazine' | 'filmstrip';
+export type PageSizeId = 'a4' | 'letter' | 'a5' | 'square';
+export type PageOrientation = 'portrait' | 'landscape';
+export type AlbumTexture = 'none' | 'paper' | 'linen' | 'dots';
+
+export const ALBUM_LAYOUTS: AlbumLayoutId[] = ['grid', 'collage', 'magazine', 'filmstrip'];
+/** Columns x rows of the grid layout. */
+export const GRID_SIZES = ['2x2', '2x3', '3x3', '3x4'];
+export const PAGE_SIZES: Record<PageSizeId, { widthMm: number, heightMm: number }> = {
+    a4: { widthMm: 210, heightMm: 297 },
+    letter: { widthMm: 215.9, heightMm: 279.4 },
+    a5: { widthMm: 148, heightMm: 210 },
+    square: { widthMm: 210, heightMm: 210 },
+};
+export const PAGE_ORIENTATIONS: PageOrientation[] = ['portrait', 'landscape'];
+export const ALBUM_TEXTURES: AlbumTexture[] = ['none', 'paper', 'linen', 'dots'];
+/** Font families offered for titles and captions; all are loaded in index.html. */
+export const ALBUM_FONTS = ['Roboto', 'Playfair Display', 'Caveat', 'Permanent Marker', 'Courier Prime'];
+/** Print resolution of the downloaded pages. */
+export const ALBUM_DPI = 300;
+
+export interface AlbumOptions {
+    layout: AlbumLayoutId;
+    gridSize: string;
+    pageSize: PageSizeId;
+    orientation: PageOrientation;
+    backgroundColor: string;
+    texture: AlbumTexture;
+    title: string;
+    subtitle: string;
+    showCaptions: boolean;
+    /** Captions the user edited, by image id; other images are captioned with their style name. */
+    captions: Record<string, string>;
+    titleFont: string;
+    captionFont: string;
+    /** Seeds the hand-placed rotations and the texture, so the same options give the same pages. */
+    seed: number;
+}
+
+export const DEFAULT_ALBUM_OPTIONS: AlbumOptions = {
+    layout: 'grid',
+    gridSize: '2x3',
+    pageSize: 'a4',
+    orientation: 'portrait',
+    backgroundColor: '#fdf5e6', // A warm, parchment-like color
+    texture: 'none',
+    title: 'Generated with AI Photoshoot',
+    subtitle: 'on Google AI Studio',
+    showCaptions: true,
+    captions: {},
+    titleFont: 'Roboto',
+    captionFont: 'Roboto',
+    seed: 1,
+};
+
+export interface AlbumImage {
+    url: string;
+    caption: string;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+type FrameStyle = 'polaroid' | 'print' | 'film';
+
+// How each layout frames its photos; slotFill is the share of a slot a polaroid may take up.
+const LAYOUT_STYLES: Record<AlbumLayoutId, { frame: FrameStyle, maxRotation: number, slotFill: number }> = {
+    grid: { frame: 'polaroid', maxRotation: 0.05, slotFill: 0.9 },
+    collage: { frame: 'polaroid', maxRotation: 0.2, slotFill: 1 },
+    magazine: { frame: 'print', maxRotation: 0, slotFill: 1 },
+    filmstrip: { frame: 'film', maxRotation: 0, slotFill: 1 },
+};
+
+// Overlapping slots of the collage, as fractions of the content area.
+const COLLAGE_SLOTS: Rect[] = [
+    { x: 0.02, y: 0.02, width: 0.55, height: 0.4 },
+    { x: 0.45, y: 0.06, width: 0.53, height: 0.36 },
+    { x: 0.04, y: 0.36, width: 0.46, height: 0.32 },
+    { x: 0.48, y: 0.38, width: 0.5, height: 0.32 },
+    { x: 0.02, y: 0.66, width: 0.5, height: 0.32 },
+    { x: 0.5, y: 0.68, width: 0.48, height: 0.3 },
+];
+
+/** The page's trim size in millimetres, with the orientation applied. */
+export function getPageSizeMm(options: Pick<AlbumOptions, 'pageSize' | 'orientation'>): { width: number, height: number } {
+    const { widthMm, heightMm } = PAGE_SIZES[options.pageSize];
+    const [short, long] = [Math.min(widthMm, heightMm), Math.max(widthMm, heightMm)];
+    return options.orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+}
+
 // Helper function to load an image and return it as an HTMLImageElement
 function loadImage(src: string): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
@@ -14,142 +114,329 @@ function loadImage(src: string): Promise<HTMLImageElement> {
     });
 }
 
-/**
- * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping decade strings to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
- */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error('Could not get 2D canvas context');
-    }
-
-    // 1. Draw the album page background
-    ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-
-    // 2. Draw the title
-    ctx.fillStyle = '#333';
-    ctx.textAlign = 'center';
+// Small seeded PRNG (mulberry32), so rotations and textures can be reproduced from the seed.
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
 
-    ctx.font = `bold 100px 'Roboto', sans-serif`;
-    ctx.fillText('Generated with AI Photoshoot', canvasWidth / 2, 150);
+function isDarkColor(color: string): boolean {
+    const match = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (!match) return false;
+    const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16));
+    return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+}
 
-    ctx.font = `50px 'Roboto', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('on Google AI Studio', canvasWidth / 2, 220);
+// Shortens text with an ellipsis until it fits maxWidth in the current font.
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+}
 
-    // 3. Load all the polaroid images concurrently
-    const decades = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
+// Draws the image scaled to cover the rectangle, cropping whatever overflows from the center.
+function drawCover(ctx: CanvasRenderingContext2D, img: HTMLImageElement, rect: Rect) {
+    const scale = Math.max(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+    const sourceWidth = rect.width / scale;
+    const sourceHeight = rect.height / scale;
+    ctx.drawImage(
+        img,
+        (img.naturalWidth - sourceWidth) / 2, (img.naturalHeight - sourceHeight) / 2, sourceWidth, sourceHeight,
+        rect.x, rect.y, rect.width, rect.height
     );
+}
 
-    const imagesWithDecades = decades.map((decade, index) => ({
-        decade,
-        img: loadedImages[index],
-    }));
+function getSlots(options: AlbumOptions, content: Rect, unit: number): Rect[] {
+    const landscape = content.width > content.height;
+    const grid = (cols: number, rows: number, gapX: number, gapY: number): Rect[] => {
+        const cellWidth = (content.width - gapX * (cols - 1)) / cols;
+        const cellHeight = (content.height - gapY * (rows - 1)) / rows;
+        return Array.from({ length: cols * rows }, (_, index) => ({
+            x: content.x + (index % cols) * (cellWidth + gapX),
+            y: content.y + Math.floor(index / cols) * (cellHeight + gapY),
+            width: cellWidth,
+            height: cellHeight,
+        }));
+    };
+
+    switch (options.layout) {
+        case 'grid': {
+            const [cols, rows] = options.gridSize.split('x').map(Number);
+            return grid(cols, rows, 100 * unit, 100 * unit);
+        }
+        case 'collage':
+            return COLLAGE_SLOTS.map(slot => ({
+                x: content.x + slot.x * content.width,
+                y: content.y + slot.y * content.height,
+                width: slot.width * content.width,
+                height: slot.height * content.height,
+            }));
+        case 'magazine': {
+            // One hero photo and a column of three smaller ones, like a spread.
+            const gap = 60 * unit;
+            const heroWidth = content.width * 0.6;
+            const sideHeight = (content.height - gap * 2) / 3;
+            return [
+                { x: content.x, y: content.y, width: heroWidth, height: content.height },
+                ...[0, 1, 2].map(index => ({
+                    x: content.x + heroWidth + gap,
+                    y: content.y + index * (sideHeight + gap),
+                    width: content.width - heroWidth - gap,
+                    height: sideHeight,
+                })),
+            ];
+        }
+        case 'filmstrip':
+            // Frames touch vertically so each column reads as one continuous strip.
+            return landscape ? grid(3, 3, 120 * unit, 0) : grid(2, 4, 160 * unit, 0);
+    }
+}
 
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 300; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
+function drawTexture(ctx: CanvasRenderingContext2D, options: AlbumOptions, width: number, height: number, unit: number, random: () => number) {
+    ctx.save();
+    switch (options.texture) {
+        case 'paper': {
+            // Fine fibres and speckles
+            const count = Math.round((width * height) / (400 * unit * unit));
+            for (let i = 0; i < count; i++) {
+                ctx.fillStyle = `rgba(0, 0, 0, ${0.02 + random() * 0.05})`;
+                ctx.fillRect(random() * width, random() * height, (1 + random() * 3) * unit, (1 + random() * 3) * unit);
+            }
+            break;
+        }
+        case 'linen': {
+            const step = 8 * unit;
+            ctx.lineWidth = 2 * unit;
+            for (let y = 0; y < height; y += step) {
+                ctx.strokeStyle = `rgba(0, 0, 0, ${0.02 + random() * 0.04})`;
+                ctx.beginPath();
+                ctx.moveTo(0, y);
+                ctx.lineTo(width, y);
+                ctx.stroke();
+            }
+            for (let x = 0; x < width; x += step) {
+                ctx.strokeStyle = `rgba(0, 0, 0, ${0.02 + random() * 0.04})`;
+                ctx.beginPath();
+                ctx.moveTo(x, 0);
+                ctx.lineTo(x, height);
+                ctx.stroke();
+            }
+            break;
+        }
+        case 'dots': {
+            const step = 80 * unit;
+            ctx.fillStyle = isDarkColor(options.backgroundColor) ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.08)';
+            for (let y = step / 2, row = 0; y < height; y += step, row++) {
+                for (let x = row % 2 ? step : step / 2; x < width; x += step) {
+                    ctx.beginPath();
+                    ctx.arc(x, y, 8 * unit, 0, Math.PI * 2);
+                    ctx.fill();
+                }
+            }
+            break;
+        }
+    }
+    ctx.restore();
+}
 
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
+function drawPolaroid(ctx: CanvasRenderingContext2D, img: HTMLImageElement, caption: string, slot: Rect, rotation: number, slotFill: number, options: AlbumOptions, unit: number) {
+    // Calculate polaroid dimensions to fit inside the slot
     const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth * 0.9;
-    const maxPolaroidHeight = cellHeight * 0.9;
-
-    let polaroidWidth = maxPolaroidWidth;
+    let polaroidWidth = slot.width * slotFill;
     let polaroidHeight = polaroidWidth * polaroidAspectRatio;
-
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
+    if (polaroidHeight > slot.height * slotFill) {
+        polaroidHeight = slot.height * slotFill;
         polaroidWidth = polaroidHeight / polaroidAspectRatio;
     }
 
     const imageContainerWidth = polaroidWidth * 0.9;
     const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
 
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithDecades].reverse();
-    reversedImages.forEach(({ decade, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithDecades.length - 1 - reversedIndex;
-
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
-        ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
-        }
+    ctx.save();
+
+    // Translate context to the center of the polaroid for rotation
+    ctx.translate(slot.x + slot.width / 2, slot.y + slot.height / 2);
+    ctx.rotate(rotation);
+
+    // Draw a soft shadow
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = 35 * unit;
+    ctx.shadowOffsetX = 5 * unit;
+    ctx.shadowOffsetY = 10 * unit;
+
+    // Draw the white polaroid frame (centered at the new origin)
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
+
+    // Remove shadow for subsequent drawing
+    ctx.shadowColor = 'transparent';
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
+    // Calculate image dimensions to fit while maintaining aspect ratio
+    const aspectRatio = img.naturalWidth / img.naturalHeight;
+    let drawWidth = imageContainerWidth;
+    let drawHeight = drawWidth / aspectRatio;
+    if (drawHeight > imageContainerHeight) {
+        drawHeight = imageContainerHeight;
+        drawWidth = drawHeight * aspectRatio;
+    }
+
+    // Calculate position to center the image within its container area
+    const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
+    const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
+    ctx.drawImage(img, -drawWidth / 2, imageContainerY + (imageContainerHeight - drawHeight) / 2, drawWidth, drawHeight);
+
+    if (options.showCaptions) {
         // Draw the handwritten caption
+        const captionAreaTop = imageContainerY + imageContainerHeight;
+        const captionAreaHeight = polaroidHeight / 2 - captionAreaTop;
         ctx.fillStyle = '#222';
-        ctx.font = `bold 60px 'Roboto', sans-serif`;
+        ctx.font = `bold ${Math.min(60 * unit, captionAreaHeight * 0.5)}px '${options.captionFont}', sans-serif`;
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
+        ctx.fillText(fitText(ctx, caption, imageContainerWidth), 0, captionAreaTop + captionAreaHeight / 2);
+    }
+
+    ctx.restore(); // Restore context to pre-transformation state
+}
+
+function drawPrint(ctx: CanvasRenderingContext2D, img: HTMLImageElement, caption: string, slot: Rect, options: AlbumOptions, unit: number) {
+    const captionHeight = options.showCaptions ? 90 * unit : 0;
+    drawCover(ctx, img, { ...slot, height: slot.height - captionHeight });
+    if (options.showCaptions) {
+        ctx.fillStyle = isDarkColor(options.backgroundColor) ? '#eee' : '#333';
+        ctx.font = `${45 * unit}px '${options.captionFont}', sans-serif`;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(fitText(ctx, caption, slot.width), slot.x, slot.y + slot.height - captionHeight / 2);
+    }
+}
 
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
+function drawFilmFrame(ctx: CanvasRenderingContext2D, img: HTMLImageElement, caption: string, slot: Rect, options: AlbumOptions, unit: number) {
+    ctx.fillStyle = '#111';
+    ctx.fillRect(slot.x, slot.y, slot.width, slot.height);
 
-        ctx.fillText(decade, 0, captionY);
-        
-        ctx.restore(); // Restore context to pre-transformation state
+    // Sprocket holes down both edges, showing the page through
+    const edge = slot.width * 0.09;
+    const holeWidth = edge * 0.5;
+    const holeHeight = edge * 0.35;
+    ctx.fillStyle = options.backgroundColor;
+    for (let y = slot.y + holeHeight; y + holeHeight <= slot.y + slot.height; y += holeHeight * 2.2) {
+        ctx.fillRect(slot.x + (edge - holeWidth) / 2, y, holeWidth, holeHeight);
+        ctx.fillRect(slot.x + slot.width - edge + (edge - holeWidth) / 2, y, holeWidth, holeHeight);
+    }
+
+    const captionHeight = options.showCaptions ? 60 * unit : 0;
+    const inset = 20 * unit;
+    drawCover(ctx, img, {
+        x: slot.x + edge,
+        y: slot.y + inset,
+        width: slot.width - edge * 2,
+        height: slot.height - inset * 2 - captionHeight,
     });
+    if (options.showCaptions) {
+        ctx.fillStyle = '#ddd';
+        ctx.font = `${36 * unit}px '${options.captionFont}', sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(fitText(ctx, caption, slot.width - edge * 2), slot.x + slot.width / 2, slot.y + slot.height - inset - captionHeight / 2);
+    }
+}
+
+/**
+ * Renders a collection of photos as album pages using the given template. Photos that don't fit
+ * the layout's slots continue on further pages.
+ * @param images The photos in order, each with its caption.
+ * @param dpi Resolution of the pages; previews can render at a fraction of ALBUM_DPI.
+ * @returns A promise that resolves to a data URL per page (JPEG format).
+ */
+export async function createAlbumPages(images: AlbumImage[], options: AlbumOptions = DEFAULT_ALBUM_OPTIONS, dpi: number = ALBUM_DPI): Promise<string[]> {
+    const pageSize = getPageSizeMm(options);
+    const canvasWidth = Math.round(pageSize.width / 25.4 * dpi);
+    const canvasHeight = Math.round(pageSize.height / 25.4 * dpi);
+    // Sizes below are in pixels of the original A4 page at 300 DPI, 2480 px across.
+    const unit = Math.min(canvasWidth, canvasHeight) / 2480;
+
+    // Canvas text silently falls back to another font if the chosen one hasn't been loaded yet.
+    await Promise.all([options.titleFont, options.captionFont].map(font =>
+        document.fonts.load(`bold ${Math.round(60 * unit)}px '${font}'`).catch(() => [])
+    ));
+    const loadedImages = await Promise.all(images.map(image => loadImage(image.url)));
+
+    const hasHeader = Boolean(options.title.trim() || options.subtitle.trim());
+    const margin = 100 * unit;
+    const contentTop = hasHeader ? 300 * unit : margin;
+    const content = { x: margin, y: contentTop, width: canvasWidth - margin * 2, height: canvasHeight - contentTop - margin };
+    const slots = getSlots(options, content, unit);
+    const style = LAYOUT_STYLES[options.layout];
+    const pageCount = Math.max(1, Math.ceil(images.length / slots.length));
+
+    const rotationRandom = createRandom(options.seed);
+    const textureRandom = createRandom(options.seed + 1);
+    const textColor = isDarkColor(options.backgroundColor) ? ['#f5f5f5', '#ccc'] : ['#333', '#555'];
+
+    const pages: string[] = [];
+    for (let page = 0; page < pageCount; page++) {
+        const canvas = document.createElement('canvas');
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        // 1. Draw the album page background
+        ctx.fillStyle = options.backgroundColor;
+        ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+        drawTexture(ctx, options, canvasWidth, canvasHeight, unit, textureRandom);
+
+        // 2. Draw the title
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        if (options.title.trim()) {
+            ctx.fillStyle = textColor[0];
+            ctx.font = `bold ${100 * unit}px '${options.titleFont}', sans-serif`;
+            ctx.fillText(fitText(ctx, options.title, content.width), canvasWidth / 2, 150 * unit);
+        }
+        if (options.subtitle.trim()) {
+            ctx.fillStyle = textColor[1];
+            ctx.font = `${50 * unit}px '${options.titleFont}', sans-serif`;
+            ctx.fillText(fitText(ctx, options.subtitle, content.width), canvasWidth / 2, 220 * unit);
+        }
+        if (pageCount > 1) {
+            ctx.fillStyle = textColor[1];
+            ctx.font = `${36 * unit}px '${options.captionFont}', sans-serif`;
+            ctx.fillText(`${page + 1} / ${pageCount}`, canvasWidth / 2, canvasHeight - margin / 3);
+        }
+
+        // 3. Draw the page's photos; rotations are drawn in order so every page of a seed is stable
+        const pagePhotos = images.slice(page * slots.length, (page + 1) * slots.length).map((image, index) => ({
+            ...image,
+            img: loadedImages[page * slots.length + index],
+            slot: slots[index],
+            rotation: (rotationRandom() - 0.5) * 2 * style.maxRotation,
+        }));
+        // Reverse the drawing order: draw bottom slots first so top slots are rendered on top
+        [...pagePhotos].reverse().forEach(({ img, caption, slot, rotation }) => {
+            if (style.frame === 'polaroid') {
+                drawPolaroid(ctx, img, caption, slot, rotation, style.slotFill, options, unit);
+            } else if (style.frame === 'print') {
+                drawPrint(ctx, img, caption, slot, options, unit);
+            } else {
+                drawFilmFrame(ctx, img, caption, slot, options, unit);
+            }
+        });
 
-    // Convert canvas to a high-quality JPEG and return the data URL
-    return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+        // Convert canvas to a high-quality JPEG
+        pages.push(canvas.toDataURL('image/jpeg', 0.9));
+    }
+    return pages;
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationError } from '../services/errors';
+import type { Translate } from '../contexts/LanguageContext';
+
+/**
+ * Turns an error thrown by the generation service into a translated, actionable message.
+ * Errors outside the GenerationError hierarchy fall back to their own message.
+ */
+export function getErrorMessage(err: unknown, t: Translate, fallback?: string): string {
+    if (err instanceof GenerationError && err.code !== 'unknown') {
+        return t(`errors.${err.code}`);
+    }
+    if (err instanceof Error) {
+        return err.message;
+    }
+    return fallback ?? t('errors.unknown');
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from 'jszip';
+import type { Album, ImageProvenance, StoredImage } from './mediaStore';
+
+/**
+ * Portable backups of the media library: a ZIP holding every original image plus a
+ * manifest.json with each image's metadata, and the albums they are filed in.
+ */
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+// Thumbnails are left out of the bundle; they are regenerated on import.
+type ManifestItem = Omit<StoredImage, 'blob' | 'thumbnail'> & { file: string, mimeType: string };
+
+// The metadata fields read back from a manifest; anything else in it is ignored.
+const METADATA_KEYS = ['id', 'createdAt', 'size', 'hash', 'width', 'height', 'provenance', 'tags', 'favorite', 'rating', 'albumIds', 'libraryId'] as const;
+
+interface LibraryManifest {
+    version: number;
+    exportedAt: string;
+    albums: Album[];
+    items: ManifestItem[];
+}
+
+// A manifest may have been edited by hand, so malformed provenance is dropped rather than failing the import.
+const readProvenance = (value: unknown): ImageProvenance | undefined => {
+    const provenance = value as Partial<ImageProvenance> | null | undefined;
+    if (!provenance || typeof provenance !== 'object' || typeof provenance.toolId !== 'string' || !Array.isArray(provenance.inputs)) {
+        return undefined;
+    }
+    const inputs = provenance.inputs.filter(input =>
+        input && typeof input.role === 'string' && (input.libraryId === undefined || typeof input.libraryId === 'string'));
+    return { ...provenance, toolId: provenance.toolId, inputs };
+};
+
+const isAlbum = (value: Partial<Album> | null): value is Album =>
+    !!value && typeof value.id === 'string' && typeof value.name === 'string';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+export async function exportLibraryBundle(items: StoredImage[], albums: Album[]): Promise<Blob> {
+    const zip = new JSZip();
+    const manifest: LibraryManifest = {
+        version: MANIFEST_VERSION,
+        exportedAt: new Date().toISOString(),
+        albums,
+        items: items.map(({ blob, thumbnail, ...metadata }) => {
+            const file = `images/${metadata.id}.${EXTENSIONS[blob.type] ?? 'png'}`;
+            zip.file(file, blob);
+            return { ...metadata, file, mimeType: blob.type || 'image/png' };
+        }),
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Reads a bundle produced by `exportLibraryBundle`. Items whose image file is missing are left out,
+ * and every record is validated here so an import never fails halfway through writing.
+ */
+export async function readLibraryBundle(file: Blob): Promise<{ albums: Album[], items: StoredImage[] }> {
+    const zip = await JSZip.loadAsync(file);
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) {
+        throw new Error('The file is not a media library export: manifest.json is missing.');
+    }
+    const manifest: LibraryManifest = JSON.parse(await manifestFile.async('string'));
+    if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.items)) {
+        throw new Error(`Unsupported media library export version: ${manifest.version}`);
+    }
+
+    const items: StoredImage[] = [];
+    for (const { file: path, mimeType, ...entryMetadata } of manifest.items) {
+        if (typeof entryMetadata.id !== 'string') {
+            console.warn(`Skipping "${path}": its manifest entry has no id.`);
+            continue;
+        }
+        const entry = typeof path === 'string' ? zip.file(path) : null;
+        if (!entry) {
+            console.warn(`Skipping "${path}": it is listed in the manifest but missing from the bundle.`);
+            continue;
+        }
+        const data = await entry.async('arraybuffer');
+        const metadata = Object.fromEntries(METADATA_KEYS.filter(key => key in entryMetadata).map(key => [key, entryMetadata[key]]));
+        items.push({
+            ...metadata,
+            provenance: readProvenance(entryMetadata.provenance),
+            albumIds: Array.isArray(entryMetadata.albumIds) ? entryMetadata.albumIds.filter(id => typeof id === 'string') : undefined,
+            blob: new Blob([data], { type: mimeType }),
+        } as StoredImage);
+    }
+    const albums = Array.isArray(manifest.albums) ? manifest.albums.filter(isAlbum) : [];
+    return { albums, items };
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { StoredImage } from './mediaStore';
+
+export type LibrarySort = 'newest' | 'oldest' | 'rating' | 'largest';
+
+export interface LibraryFilters {
+    search: string;
+    albumId: string | null;
+    toolId: string | null;
+    tag: string | null;
+    favoritesOnly: boolean;
+    /** Inclusive day bounds as `YYYY-MM-DD` strings, straight from a date input. */
+    dateFrom: string;
+    dateTo: string;
+    sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+    search: '',
+    albumId: null,
+    toolId: null,
+    tag: null,
+    favoritesOnly: false,
+    dateFrom: '',
+    dateTo: '',
+    sort: 'newest',
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+// The text a search query is matched against: the prompt, refinement instructions and tags.
+const searchableText = (item: StoredImage) =>
+    [item.provenance?.prompt, item.provenance?.instructions, ...(item.tags ?? [])]
+        .filter(Boolean)
+        .join('\n')
+        .toLowerCase();
+
+const SORTERS: Record<LibrarySort, (a: StoredImage, b: StoredImage) => number> = {
+    newest: (a, b) => b.createdAt - a.createdAt,
+    oldest: (a, b) => a.createdAt - b.createdAt,
+    rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0) || b.createdAt - a.createdAt,
+    largest: (a, b) => b.size - a.size,
+};
+
+/**
+ * Applies the MediaLibrary filter bar to a list of library items.
+ */
+export function filterLibraryItems<T extends StoredImage>(items: T[], filters: LibraryFilters): T[] {
+    const query = filters.search.trim().toLowerCase();
+    const from = filters.dateFrom ? startOfDay(filters.dateFrom) : -Infinity;
+    const to = filters.dateTo ? endOfDay(filters.dateTo) : Infinity;
+
+    return items
+        .filter(item =>
+            (!filters.albumId || item.albumIds?.includes(filters.albumId)) &&
+            (!filters.toolId || item.provenance?.toolId === filters.toolId) &&
+            (!filters.tag || item.tags?.includes(filters.tag)) &&
+            (!filters.favoritesOnly || item.favorite) &&
+            item.createdAt >= from && item.createdAt <= to &&
+            (!query || searchableText(item).includes(query))
+        )
+        .sort(SORTERS[filters.sort]);
+}
+
+/** Every tag used in the library, alphabetically. */
+export function collectTags(items: StoredImage[]): string[] {
+    return [...new Set(items.flatMap(item => item.tags ?? []))].sort((a, b) => a.localeCompare(b));
+}
+
+/** Every tool that has produced an image in the library. */
+export function collectToolIds(items: StoredImage[]): string[] {
+    return [...new Set(items.map(item => item.provenance?.toolId).filter((toolId): toolId is string => !!toolId))];
+}
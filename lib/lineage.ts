@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { StoredImage } from './mediaStore';
+
+/**
+ * Lineage links library images into a graph: every input of an image that is itself a library
+ * entry is a parent, recorded in `provenance.inputs`. Following those links backwards shows how
+ * a final asset was made; following them forwards shows what was made from an image.
+ */
+
+export interface LineageNode<T extends StoredImage> {
+    item: T;
+    /** The role this image played in the child it feeds into, e.g. 'outfit'. Unset for the root. */
+    role?: string;
+    parents: LineageNode<T>[];
+    /** Inputs that were not library images, or whose library entry has since been deleted. */
+    untrackedInputs: string[];
+}
+
+/**
+ * Builds the tree of everything that went into an image. An image reached twice (e.g. used
+ * as two inputs) appears twice; cycles, which can only come from corrupted data, are cut.
+ */
+export function buildLineage<T extends StoredImage>(item: T, items: T[]): LineageNode<T> {
+    const byId = new Map(items.map(candidate => [candidate.id, candidate]));
+
+    const visit = (current: T, role: string | undefined, path: Set<string>): LineageNode<T> => {
+        const parents: LineageNode<T>[] = [];
+        const untrackedInputs: string[] = [];
+        for (const input of current.provenance?.inputs ?? []) {
+            const parent = input.libraryId ? byId.get(input.libraryId) : undefined;
+            if (!parent) {
+                untrackedInputs.push(input.role);
+            } else if (!path.has(parent.id)) {
+                parents.push(visit(parent, input.role, new Set(path).add(parent.id)));
+            }
+        }
+        return { item: current, role, parents, untrackedInputs };
+    };
+
+    return visit(item, undefined, new Set([item.id]));
+}
+
+/** The images that used this one as an input, newest first. */
+export function findChildren<T extends StoredImage>(id: string, items: T[]): T[] {
+    return items
+        .filter(item => item.provenance?.inputs.some(input => input.libraryId === id))
+        .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Whether an image has any recorded parents or children, i.e. whether a lineage view has anything to show. */
+export function hasLineage(item: StoredImage, items: StoredImage[]): boolean {
+    return !!item.provenance?.inputs.some(input => input.libraryId) || findChildren(item.id, items).length > 0;
+}
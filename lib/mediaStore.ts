@@ -0,0 +1,348 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * IndexedDB persistence for generated and uploaded images, and for saved projects. Images are kept
+ * as Blobs rather than base64 strings, so the library is no longer limited by the ~5MB localStorage quota.
+ */
+
+const DB_NAME = 'ai-creative-suite';
+const DB_VERSION = 3;
+
+/** The global media library shared by every tool. */
+export const LIBRARY_STORE = 'library';
+/** Photoshoot's quick-access list of model photos. */
+export const MODELS_STORE = 'models';
+
+/** User-defined albums that library images can be filed into. */
+const ALBUMS_STORE = 'albums';
+/** Saved tool sessions (see contexts/ProjectContext.tsx). */
+const PROJECTS_STORE = 'projects';
+
+export type ImageStoreName = typeof LIBRARY_STORE | typeof MODELS_STORE;
+
+/** One image that went into a generation, e.g. the person or the outfit in a photoshoot. */
+export interface ImageInputReference {
+    role: string;
+    /** Set when the input is itself a library entry. */
+    libraryId?: string;
+}
+
+/**
+ * Where a library image came from. Inputs that are themselves library entries are the image's
+ * parents, which links the library into a lineage graph (see lib/lineage.ts).
+ */
+export interface ImageProvenance {
+    toolId: string;
+    /** The generation operation that produced the image, e.g. 'removeObjectFromImage'. */
+    operation?: string;
+    /** The prompt, style or description the user chose. */
+    prompt?: string;
+    /** Free-form refinement instructions, if any were given. */
+    instructions?: string;
+    inputs: ImageInputReference[];
+    model?: string;
+}
+
+export interface StoredImage {
+    id: string;
+    blob: Blob;
+    createdAt: number;
+    /** Size of the image file in bytes. */
+    size: number;
+    /** Hex SHA-256 of the image bytes; two records with the same hash hold the same image. */
+    hash?: string;
+    /** A small JPEG preview for grids, so they don't have to decode the full-size image. */
+    thumbnail?: Blob;
+    width?: number;
+    height?: number;
+    provenance?: ImageProvenance;
+    tags?: string[];
+    favorite?: boolean;
+    /** Star rating from 1 to 5; unset when the image has not been rated. */
+    rating?: number;
+    albumIds?: string[];
+    /** For Photoshoot models that were also added to the global library: the id of that library entry. */
+    libraryId?: string;
+}
+
+export interface Album {
+    id: string;
+    name: string;
+    createdAt: number;
+}
+
+/** A named tool session: everything needed to reopen a tool where the user left it. */
+export interface ProjectRecord {
+    id: string;
+    name: string;
+    toolId: string;
+    /** The tool's URL query string, where its shareable settings live. */
+    params: string;
+    /** The tool's inputs and results, by the keys the tool registered them under. */
+    state: Record<string, unknown>;
+    thumbnail?: Blob;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// localStorage keys used before the library moved to IndexedDB, and where their contents belong now.
+const LEGACY_KEYS: Record<ImageStoreName, string> = {
+    [LIBRARY_STORE]: 'ai-creative-suite-library',
+    [MODELS_STORE]: 'aiPhotoshootModelLibrary',
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+export const createImageId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+    const response = await fetch(dataUrl);
+    return response.blob();
+}
+
+export async function readImageDimensions(blob: Blob): Promise<{ width: number; height: number } | null> {
+    try {
+        const bitmap = await createImageBitmap(blob);
+        const dimensions = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        return dimensions;
+    } catch (error) {
+        console.error("Failed to read image dimensions", error);
+        return null;
+    }
+}
+
+/**
+ * Hashes the bytes of an image. Resolves to undefined where SubtleCrypto is unavailable
+ * (insecure origins), in which case images simply aren't deduplicated.
+ */
+export async function hashBlob(blob: Blob): Promise<string | undefined> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        return undefined;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const THUMBNAIL_SIZE = 256;
+
+/**
+ * Scales an image down so its longest side is at most 256px and encodes it as JPEG.
+ */
+export async function createThumbnail(blob: Blob): Promise<Blob | undefined> {
+    try {
+        const bitmap = await createImageBitmap(blob);
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            bitmap.close();
+            return undefined;
+        }
+        // JPEG has no alpha channel; paint transparent areas (e.g. cut-outs) on a neutral background.
+        ctx.fillStyle = '#262626';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        return await new Promise<Blob | undefined>(resolve => canvas.toBlob(result => resolve(result ?? undefined), 'image/jpeg', 0.8));
+    } catch (error) {
+        console.error("Failed to create thumbnail", error);
+        return undefined;
+    }
+}
+
+/**
+ * Fills in the hash and thumbnail of a record that was stored before they existed, or imported without them.
+ * Returns the record unchanged when there is nothing to add.
+ */
+export async function withDerivedData(record: StoredImage): Promise<StoredImage> {
+    if (record.hash && record.thumbnail) {
+        return record;
+    }
+    const [hash, thumbnail] = await Promise.all([
+        record.hash ?? hashBlob(record.blob),
+        record.thumbnail ?? createThumbnail(record.blob),
+    ]);
+    return { ...record, hash, thumbnail };
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Copies any images still sitting in the old localStorage keys into IndexedDB, then drops the keys.
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+    for (const storeName of [LIBRARY_STORE, MODELS_STORE] as ImageStoreName[]) {
+        const key = LEGACY_KEYS[storeName];
+        let dataUrls: string[];
+        try {
+            const saved = localStorage.getItem(key);
+            if (!saved) continue;
+            dataUrls = JSON.parse(saved);
+        } catch (error) {
+            console.error(`Failed to read legacy library "${key}" from localStorage`, error);
+            continue;
+        }
+
+        const now = Date.now();
+        // Legacy lists are newest-first; keep that order by giving earlier entries later timestamps.
+        const records = await Promise.all(dataUrls.map(async (dataUrl, index): Promise<StoredImage> => {
+            const blob = await dataUrlToBlob(dataUrl);
+            return {
+                id: createImageId(),
+                blob,
+                createdAt: now - index,
+                size: blob.size,
+                ...await readImageDimensions(blob),
+            };
+        }));
+
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        records.forEach(record => store.put(record));
+        await transactionDone(transaction);
+        localStorage.removeItem(key);
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const storeName of [LIBRARY_STORE, MODELS_STORE, ALBUMS_STORE, PROJECTS_STORE]) {
+                    if (!db.objectStoreNames.contains(storeName)) {
+                        db.createObjectStore(storeName, { keyPath: 'id' });
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(async db => {
+            try {
+                await migrateLegacyStorage(db);
+            } catch (error) {
+                console.error("Failed to migrate the media library from localStorage", error);
+            }
+            return db;
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Returns every image in a store, newest first.
+ */
+export async function getAllImages(storeName: ImageStoreName): Promise<StoredImage[]> {
+    const db = await openDatabase();
+    const records = await requestToPromise<StoredImage[]>(db.transaction(storeName).objectStore(storeName).getAll());
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function putImage(storeName: ImageStoreName, record: StoredImage): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    await transactionDone(transaction);
+}
+
+export async function deleteImages(storeName: ImageStoreName, ids: string[]): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+}
+
+export async function clearImages(storeName: ImageStoreName): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).clear();
+    await transactionDone(transaction);
+}
+
+export async function getAllAlbums(): Promise<Album[]> {
+    const db = await openDatabase();
+    const albums = await requestToPromise<Album[]>(db.transaction(ALBUMS_STORE).objectStore(ALBUMS_STORE).getAll());
+    return albums.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function putAlbum(album: Album): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ALBUMS_STORE, 'readwrite');
+    transaction.objectStore(ALBUMS_STORE).put(album);
+    await transactionDone(transaction);
+}
+
+export async function deleteAlbum(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ALBUMS_STORE, 'readwrite');
+    transaction.objectStore(ALBUMS_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Returns every saved project, most recently changed first.
+ */
+export async function getAllProjects(): Promise<ProjectRecord[]> {
+    const db = await openDatabase();
+    const projects = await requestToPromise<ProjectRecord[]>(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll());
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<ProjectRecord | undefined> {
+    const db = await openDatabase();
+    return requestToPromise<ProjectRecord | undefined>(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id));
+}
+
+export async function putProject(project: ProjectRecord): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).put(project);
+    await transactionDone(transaction);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * How much of the browser's storage quota this origin is using, when the browser can tell us.
+ */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return null;
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Writes print-ready PDFs in the browser. Each page holds one image placed at an exact trim size;
+ * JPEG images are embedded byte for byte, so they print at their own resolution without being
+ * resampled. Pages can have bleed and crop marks, and carry TrimBox/BleedBox for print shops.
+ */
+
+export interface PdfPage {
+    /** Data URL of the page image. JPEGs are embedded as they are; other formats are converted to JPEG. */
+    imageUrl: string;
+    /** Finished (trimmed) size of the page in millimetres. */
+    widthMm: number;
+    heightMm: number;
+}
+
+export interface PdfOptions {
+    /** Extra image around the trim that is cut off after printing, in millimetres. */
+    bleedMm: number;
+    cropMarks: boolean;
+    title?: string;
+}
+
+export const BLEED_OPTIONS_MM = [0, 3, 5];
+
+const PT_PER_MM = 72 / 25.4;
+const CROP_MARK_LENGTH_MM = 5;
+// Crop marks stay clear of the bleed so they never print on the trimmed page.
+const MIN_CROP_MARK_OFFSET_MM = 3;
+
+interface EmbeddedImage {
+    bytes: Uint8Array;
+    width: number;
+    height: number;
+    colorSpace: 'DeviceGray' | 'DeviceRGB';
+    /** How far the image reaches past each side of its box, for images extended into the bleed. */
+    extendMm: number;
+}
+
+// Helper function to load an image and return it as an HTMLImageElement
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image for PDF: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+// Reads the size and channel count from a JPEG's start-of-frame segment.
+function readJpegInfo(bytes: Uint8Array): { width: number, height: number, components: number } | null {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        const segmentLength = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return {
+                height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+                width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+                components: bytes[offset + 9],
+            };
+        }
+        offset += 2 + segmentLength;
+    }
+    return null;
+}
+
+function toEmbeddedImage(canvas: HTMLCanvasElement, extendMm: number): EmbeddedImage {
+    const bytes = dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.95));
+    return { bytes, width: canvas.width, height: canvas.height, colorSpace: 'DeviceRGB', extendMm };
+}
+
+/**
+ * Prepares a page's image for embedding. An image with the page's proportions that needs bleed
+ * gets its edge pixels stretched outwards by the bleed, at the image's own resolution.
+ */
+async function prepareImage(page: PdfPage, bleedMm: number): Promise<EmbeddedImage> {
+    const bytes = dataUrlToBytes(page.imageUrl);
+    const jpeg = page.imageUrl.startsWith('data:image/jpeg') ? readJpegInfo(bytes) : null;
+    const fillsPage = (width: number, height: number) => Math.abs(width / height - page.widthMm / page.heightMm) < 0.01;
+
+    if (jpeg && (jpeg.components === 1 || jpeg.components === 3) && (bleedMm === 0 || !fillsPage(jpeg.width, jpeg.height))) {
+        return { bytes, width: jpeg.width, height: jpeg.height, colorSpace: jpeg.components === 1 ? 'DeviceGray' : 'DeviceRGB', extendMm: 0 };
+    }
+
+    const img = await loadImage(page.imageUrl);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context for PDF');
+    }
+
+    if (bleedMm === 0 || !fillsPage(width, height)) {
+        canvas.width = width;
+        canvas.height = height;
+        ctx.fillStyle = '#FFFFFF'; // Transparent areas print as white
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(img, 0, 0);
+        return toEmbeddedImage(canvas, 0);
+    }
+
+    const bleed = Math.round(bleedMm * width / page.widthMm);
+    canvas.width = width + bleed * 2;
+    canvas.height = height + bleed * 2;
+    ctx.drawImage(img, bleed, bleed);
+    // Edges, then corners
+    ctx.drawImage(img, 0, 0, width, 1, bleed, 0, width, bleed);
+    ctx.drawImage(img, 0, height - 1, width, 1, bleed, bleed + height, width, bleed);
+    ctx.drawImage(img, 0, 0, 1, height, 0, bleed, bleed, height);
+    ctx.drawImage(img, width - 1, 0, 1, height, bleed + width, bleed, bleed, height);
+    ctx.drawImage(img, 0, 0, 1, 1, 0, 0, bleed, bleed);
+    ctx.drawImage(img, width - 1, 0, 1, 1, bleed + width, 0, bleed, bleed);
+    ctx.drawImage(img, 0, height - 1, 1, 1, 0, bleed + height, bleed, bleed);
+    ctx.drawImage(img, width - 1, height - 1, 1, 1, bleed + width, bleed + height, bleed, bleed);
+    return toEmbeddedImage(canvas, bleed * page.widthMm / width);
+}
+
+// PDF text strings in UTF-16BE, so titles can hold any character.
+function pdfTextString(text: string): string {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) {
+        hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+function pdfDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+const num = (value: number) => Number(value.toFixed(3)).toString();
+
+function cropMarkPaths(trim: { x: number, y: number, width: number, height: number }, offset: number, length: number): string {
+    const lines: string[] = [];
+    for (const x of [trim.x, trim.x + trim.width]) {
+        for (const y of [trim.y, trim.y + trim.height]) {
+            const outX = x === trim.x ? -1 : 1;
+            const outY = y === trim.y ? -1 : 1;
+            // A horizontal and a vertical mark in line with the trim edges, pointing away from the page
+            lines.push(`${num(x + outX * offset)} ${num(y)} m ${num(x + outX * (offset + length))} ${num(y)} l S`);
+            lines.push(`${num(x)} ${num(y + outY * offset)} m ${num(x)} ${num(y + outY * (offset + length))} l S`);
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Builds a PDF with one image per page.
+ * @returns A promise that resolves to the PDF file.
+ */
+export async function createPdf(pages: PdfPage[], options: PdfOptions): Promise<Blob> {
+    if (pages.length === 0) {
+        throw new Error('A PDF needs at least one page.');
+    }
+    const images = await Promise.all(pages.map(page => prepareImage(page, options.bleedMm)));
+
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const writeObject = (id: number, body: string) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\nendobj\n`);
+    };
+    const writeStream = (id: number, dictionary: string, data: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n<< ${dictionary ? `${dictionary} ` : ''}/Length ${data.length} >>\nstream\n`);
+        write(data);
+        write('\nendstream\nendobj\n');
+    };
+
+    // Objects 1-3 are the catalog, page tree and document info; each page then takes three.
+    const pageId = (index: number) => 4 + index * 3;
+    write('%PDF-1.4\n');
+    // A comment with high-bit bytes marks the file as binary for transfer tools
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    const title = options.title ? ` /Title ${pdfTextString(options.title)}` : '';
+    writeObject(3, `<< /Producer ${pdfTextString('AI Creative Suite')}${title} /CreationDate (${pdfDate(new Date())}) >>`);
+
+    const bleed = options.bleedMm * PT_PER_MM;
+    const markOffset = Math.max(options.bleedMm, MIN_CROP_MARK_OFFSET_MM) * PT_PER_MM;
+    const markLength = CROP_MARK_LENGTH_MM * PT_PER_MM;
+    const margin = options.cropMarks ? markOffset + markLength + 2 * PT_PER_MM : bleed;
+
+    pages.forEach((page, index) => {
+        const image = images[index];
+        const trim = { x: margin, y: margin, width: page.widthMm * PT_PER_MM, height: page.heightMm * PT_PER_MM };
+        const mediaWidth = trim.width + margin * 2;
+        const mediaHeight = trim.height + margin * 2;
+
+        // Extended images cover the bleed box; others are centred in the trim box at the largest
+        // size that fits, keeping their proportions.
+        const extend = image.extendMm * PT_PER_MM;
+        const scale = Math.min(trim.width / image.width, trim.height / image.height);
+        const drawWidth = extend > 0 ? trim.width + extend * 2 : image.width * scale;
+        const drawHeight = extend > 0 ? trim.height + extend * 2 : image.height * scale;
+        const drawX = trim.x + (trim.width - drawWidth) / 2;
+        const drawY = trim.y + (trim.height - drawHeight) / 2;
+
+        let content = `q\n${num(drawWidth)} 0 0 ${num(drawHeight)} ${num(drawX)} ${num(drawY)} cm\n/Im0 Do\nQ\n`;
+        if (options.cropMarks) {
+            content += `q\n0 G 0.25 w\n${cropMarkPaths(trim, markOffset, markLength)}\nQ\n`;
+        }
+
+        const boxes = [
+            `/MediaBox [0 0 ${num(mediaWidth)} ${num(mediaHeight)}]`,
+            `/BleedBox [${num(trim.x - bleed)} ${num(trim.y - bleed)} ${num(trim.x + trim.width + bleed)} ${num(trim.y + trim.height + bleed)}]`,
+            `/TrimBox [${num(trim.x)} ${num(trim.y)} ${num(trim.x + trim.width)} ${num(trim.y + trim.height)}]`,
+        ].join(' ');
+        writeObject(pageId(index), `<< /Type /Page /Parent 2 0 R ${boxes} /Resources << /XObject << /Im0 ${pageId(index) + 2} 0 R >> >> /Contents ${pageId(index) + 1} 0 R >>`);
+        writeStream(pageId(index) + 1, '', encoder.encode(content));
+        writeStream(
+            pageId(index) + 2,
+            `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+            image.bytes
+        );
+    });
+
+    const objectCount = pageId(pages.length);
+    const xrefOffset = length;
+    let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objectCount; id++) {
+        xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    write(xref);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+}
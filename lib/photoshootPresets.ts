@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useSyncExternalStore } from 'react';
+
+/**
+ * Presets for the Photoshoot tool: the built-in pose styles, camera angles and color grades, and
+ * the ones users write themselves. Custom presets are kept in localStorage and can be shared as JSON files.
+ */
+
+export const PHOTO_STYLE_CATEGORIES = {
+    'Portraits & Close-ups': [
+        { id: 'smiling_portrait', prompt: 'A portrait of the person from the original photo, but they are smiling warmly at the camera. Maintain the exact same background, lighting, and overall style as the original image.' },
+        { id: 'laughing_portrait', prompt: 'A portrait of the person from the original photo, captured mid-laugh, looking genuinely happy. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'serious_close_up', prompt: 'A dramatic close-up shot focusing on the person\'s face, with a serious and confident expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'thoughtful_look', prompt: 'A three-quarter portrait of the person from the original photo, but they are looking thoughtfully away from the camera, into the distance. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'side_profile', prompt: 'A portrait of the person from the original photo taken from a side profile angle. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'head_tilt', prompt: 'A portrait of the person from the original photo, with their head tilted slightly, showing a curious and engaging expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'playful_wink', prompt: 'A close-up portrait of the person from the original photo giving a playful wink to the camera. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'soft_smile', prompt: 'A portrait of the person from the original photo with a soft, gentle, closed-mouth smile. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+    ],
+    'Full & Medium Shots': [
+        { id: 'confident_full_body', prompt: 'A full-body shot of the person from the original photo, showing their complete outfit. They should be standing in a relaxed but confident pose. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'walking_pose', prompt: 'A full-body shot of the person from the original photo, captured as if they are walking confidently. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'hands_in_pockets', prompt: 'A medium shot of the person from the original photo, standing casually with their hands in their pockets. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'arms_crossed', prompt: 'A medium shot of the person from the original photo, with their arms crossed confidently, looking directly at the camera. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'hand_on_hip', prompt: 'A three-quarter shot of the person from the original photo with one hand placed confidently on their hip. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'leaning_pose', prompt: 'A full-body shot of the person from the original photo, leaning casually against an unseen object, looking relaxed. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'jumping_in_the_air', prompt: 'An energetic full-body shot of the person from the original photo captured mid-jump, expressing joy or excitement. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'twirling_shot', prompt: 'A dynamic full-body shot of the person from the original photo captured mid-twirl, with their clothing and hair showing motion. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+    ],
+    'Creative Angles & Perspectives': [
+        { id: 'low_angle_shot', prompt: 'A full-body shot of the person from the original photo taken from a low angle, looking up at them. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'high_angle_shot', prompt: 'A photo of the person from the original photo taken from a high angle, looking down at them. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'from_below_face', prompt: 'A creative close-up shot of the person\'s face from the original photo, taken from directly below, looking up. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'over_the_shoulder_glance', prompt: 'A close-up portrait of the person from the original photo, glancing over their shoulder towards the camera with a subtle expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'looking_over_shoulder', prompt: 'A photo of the person from the original photo, looking back over their shoulder at the camera with a slight smile. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+    ],
+    'Fashion & Editorial': [
+        { id: 'editorial_lean', prompt: 'A high-fashion, full-body editorial shot where the person is leaning against a wall with a sophisticated and detached expression. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'power_stance', prompt: 'An assertive, full-body power stance, with legs apart and a direct, strong gaze towards the camera, common in fashion advertisements. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'hand_on_collar', prompt: 'A close-up, editorial-style shot where the person\'s hand is thoughtfully touching their collar or lapel. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'silhouette_pose', prompt: 'A dramatic silhouette of the person against a bright background, emphasizing the shape of their body and clothing. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'motion_blur', prompt: 'A creative shot with intentional motion blur, capturing the person moving fluidly, suggesting energy and dynamism, often seen in sportswear ads. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'architectural_pose', prompt: 'A full-body shot where the person\'s pose interacts with strong architectural lines in the background, creating a visually striking composition. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'lounging_elegantly', prompt: 'An elegant full-body shot of the person lounging on a stylish piece of furniture. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'dramatic_gaze', prompt: 'A close-up portrait with a dramatic, intense gaze, with high-contrast lighting. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+    ],
+    'Themed, Sitting & Lying Poses': [
+        { id: 'sitting_pose', prompt: 'A full-body shot of the person from the original photo sitting casually, in a relaxed pose. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'crouching_pose', prompt: 'A trendy full-body shot of the person from the original photo in a crouching or squatting pose. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'lying_on_grass', prompt: 'A relaxed shot of the person from the original photo lying down on their back or side, as if on a grass or a blanket. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'hand_on_chin', prompt: 'A portrait of the person from the original photo with their hand resting thoughtfully on their chin, looking pensive or creative. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'holding_balloons', prompt: 'A playful photo of the person from the original photo, reimagined to be holding a large bunch of balloons, looking joyful. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'holding_flowers', prompt: 'A beautiful portrait of the person from the original photo, reimagined to be holding a bouquet of flowers. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+    ],
+    'Dynamic & Candid': [
+        { id: 'candid_moment', prompt: 'A candid-style photo of the person from the original photo, as if they were captured in a natural, unposed moment, perhaps adjusting their clothing or hair. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'hair_in_motion', prompt: 'A dynamic photo of the person from the original photo where their hair is in motion, as if caught in a gentle breeze or during a turn. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'adjusting_jacket', prompt: 'A candid-style photo of the person from the original photo in the middle of adjusting their jacket, collar, or sleeve. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'hand_towards_camera', prompt: 'A dynamic photo where the person from the original photo is reaching one hand out towards the camera in a friendly, inviting gesture. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'dancing_pose', prompt: 'A dynamic full-body shot of the person from the original photo in a fluid dancing pose, expressing movement and joy. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+        { id: 'shielding_eyes_from_sun', prompt: 'A photo of the person from the original photo using their hand to shield their eyes from a bright light source (like the sun), creating a natural, candid look. Maintain the exact same background, clothing, lighting, and overall style as the original image.' },
+    ]
+};
+
+export const CAMERA_ANGLES = [
+    { id: 'Eye-Level', labelKey: 'photoshoot.angles.eyeLevel' },
+    { id: 'Low Angle', labelKey: 'photoshoot.angles.lowAngle' },
+    { id: 'High Angle', labelKey: 'photoshoot.angles.highAngle' },
+    { id: 'Dutch Angle', labelKey: 'photoshoot.angles.dutchAngle' },
+    { id: 'Worm\'s Eye View', labelKey: 'photoshoot.angles.wormsEyeView' },
+    { id: 'Bird\'s Eye View', labelKey: 'photoshoot.angles.birdsEyeView' }
+];
+
+export const COLOR_GRADES = [
+    { id: 'None', labelKey: 'photoshoot.grades.none' },
+    { id: 'Cinematic Teal & Orange', labelKey: 'photoshoot.grades.cinematic' },
+    { id: 'Vintage Film', labelKey: 'photoshoot.grades.vintage' },
+    { id: 'High-Contrast B&W', labelKey: 'photoshoot.grades.highContrast' },
+    { id: 'Vibrant & Punchy', labelKey: 'photoshoot.grades.vibrant' },
+    { id: 'Muted & Moody', labelKey: 'photoshoot.grades.muted' },
+    { id: 'Warm & Golden', labelKey: 'photoshoot.grades.warm' },
+    { id: 'Cool & Crisp', labelKey: 'photoshoot.grades.cool' }
+];
+
+/** A selectable preset. `prompt` is the text that goes into the generation prompt. */
+export interface Preset {
+    id: string;
+    label: string;
+    prompt: string;
+}
+
+export interface PresetCategory {
+    id: string;
+    name: string;
+    styles: Preset[];
+}
+
+/** The presets a user has written. Built-in ones are never stored; they are duplicated to be edited. */
+export interface CustomPresets {
+    categories: PresetCategory[];
+    cameraAngles: Preset[];
+    colorGrades: Preset[];
+}
+
+/** Built-in and custom presets together, labelled in the current language. */
+export interface ResolvedPresets {
+    categories: (PresetCategory & { custom: boolean })[];
+    cameraAngles: (Preset & { custom: boolean })[];
+    colorGrades: (Preset & { custom: boolean })[];
+}
+
+const STORAGE_KEY = 'ai-creative-suite-photoshoot-presets';
+const FILE_VERSION = 1;
+const EMPTY_PRESETS: CustomPresets = { categories: [], cameraAngles: [], colorGrades: [] };
+
+// Ids travel in comma-separated URL parameters and are offered to the concept assistant, so they stay plain.
+const PRESET_ID_PATTERN = /^[a-z0-9_]+$/;
+
+const BUILT_IN_IDS = [
+    ...Object.keys(PHOTO_STYLE_CATEGORIES),
+    ...Object.values(PHOTO_STYLE_CATEGORIES).flat().map(style => style.id),
+    ...CAMERA_ANGLES.map(angle => angle.id),
+    ...COLOR_GRADES.map(grade => grade.id),
+];
+
+/** Every id in use, built-in or custom. Ids are unique across all kinds of presets. */
+export function getUsedPresetIds(custom: CustomPresets): Set<string> {
+    return new Set([
+        ...BUILT_IN_IDS,
+        ...custom.categories.flatMap(category => [category.id, ...category.styles.map(style => style.id)]),
+        ...custom.cameraAngles.map(angle => angle.id),
+        ...custom.colorGrades.map(grade => grade.id),
+    ]);
+}
+
+/**
+ * Derives a new id from a label, e.g. "Golden hour" → golden_hour, and reserves it in `taken`.
+ * The id is kept when the label is edited later, so links and saved selections keep working.
+ */
+export function createPresetId(label: string, taken: Set<string>): string {
+    const base = label
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '') || 'preset';
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) {
+        id = `${base}_${suffix}`;
+    }
+    taken.add(id);
+    return id;
+}
+
+/** Keeps `id` if it is valid and free, otherwise derives a new one from the label. */
+const claimId = (id: string, label: string, taken: Set<string>): string => {
+    if (!PRESET_ID_PATTERN.test(id) || taken.has(id)) {
+        return createPresetId(label, taken);
+    }
+    taken.add(id);
+    return id;
+};
+
+/** The built-in presets, labelled with `t`, followed by the custom ones. */
+export function resolvePresets(custom: CustomPresets, t: (key: string) => string): ResolvedPresets {
+    return {
+        categories: [
+            ...Object.entries(PHOTO_STYLE_CATEGORIES).map(([category, styles]) => ({
+                id: category,
+                name: t(`photoshoot.categories.${category}`),
+                styles: styles.map(style => ({ ...style, label: t(`photoshoot.poses.${style.id}`) })),
+                custom: false,
+            })),
+            ...custom.categories.map(category => ({ ...category, custom: true })),
+        ],
+        // The ids of the built-in angles and grades are the words used in the prompt.
+        cameraAngles: [
+            ...CAMERA_ANGLES.map(angle => ({ id: angle.id, label: t(angle.labelKey), prompt: angle.id, custom: false })),
+            ...custom.cameraAngles.map(angle => ({ ...angle, custom: true })),
+        ],
+        colorGrades: [
+            ...COLOR_GRADES.map(grade => ({ id: grade.id, label: t(grade.labelKey), prompt: grade.id, custom: false })),
+            ...custom.colorGrades.map(grade => ({ ...grade, custom: true })),
+        ],
+    };
+}
+
+const readPreset = (value: unknown): Preset | null => {
+    const preset = value as Partial<Preset> | null;
+    if (typeof preset?.id !== 'string' || typeof preset.label !== 'string' || typeof preset.prompt !== 'string') {
+        return null;
+    }
+    return { id: preset.id, label: preset.label, prompt: preset.prompt };
+};
+
+const readPresets = (values: unknown): Preset[] =>
+    Array.isArray(values) ? values.map(readPreset).filter((preset): preset is Preset => preset !== null) : [];
+
+const readCategories = (values: unknown): PresetCategory[] =>
+    Array.isArray(values)
+        ? values
+            .filter(category => typeof category?.id === 'string' && typeof category.name === 'string')
+            .map(category => ({ id: category.id, name: category.name, styles: readPresets(category.styles) }))
+        : [];
+
+export const serializePresets = (custom: CustomPresets): string =>
+    JSON.stringify({ version: FILE_VERSION, ...custom }, null, 2);
+
+/** Reads an exported presets file, rejecting files that aren't one. Malformed entries are left out. */
+export function parsePresets(text: string): CustomPresets {
+    const data = JSON.parse(text);
+    if (data?.version !== FILE_VERSION) {
+        throw new Error('Not a Photoshoot presets file');
+    }
+    return {
+        categories: readCategories(data.categories),
+        cameraAngles: readPresets(data.cameraAngles),
+        colorGrades: readPresets(data.colorGrades),
+    };
+}
+
+/**
+ * Adds imported presets to the current ones. An imported entry replaces the current entry of the
+ * same kind with the same id, so re-importing an updated file updates it; any other clash gets a new id.
+ */
+export function mergePresets(current: CustomPresets, imported: CustomPresets): CustomPresets {
+    const replaces = <T extends { id: string }>(entries: T[], incoming: T[]) => {
+        const ids = new Set(incoming.map(entry => entry.id));
+        return entries.filter(entry => !ids.has(entry.id));
+    };
+    const kept: CustomPresets = {
+        categories: replaces(current.categories, imported.categories),
+        cameraAngles: replaces(current.cameraAngles, imported.cameraAngles),
+        colorGrades: replaces(current.colorGrades, imported.colorGrades),
+    };
+    const taken = getUsedPresetIds(kept);
+    const claim = (preset: Preset): Preset => ({ ...preset, id: claimId(preset.id, preset.label, taken) });
+    return {
+        categories: [
+            ...kept.categories,
+            ...imported.categories.map(category => ({
+                id: claimId(category.id, category.name, taken),
+                name: category.name,
+                styles: category.styles.map(claim),
+            })),
+        ],
+        cameraAngles: [...kept.cameraAngles, ...imported.cameraAngles.map(claim)],
+        colorGrades: [...kept.colorGrades, ...imported.colorGrades.map(claim)],
+    };
+}
+
+const loadPresets = (): CustomPresets => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+            return parsePresets(saved);
+        }
+    } catch (error) {
+        console.error("Failed to load Photoshoot presets from localStorage", error);
+    }
+    return EMPTY_PRESETS;
+};
+
+const listeners = new Set<() => void>();
+let presets = loadPresets();
+
+export function getCustomPresets(): CustomPresets {
+    return presets;
+}
+
+export function saveCustomPresets(next: CustomPresets): void {
+    presets = next;
+    try {
+        localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+    } catch (error) {
+        console.error("Failed to save Photoshoot presets to localStorage", error);
+    }
+    listeners.forEach(listener => listener());
+}
+
+function subscribeToPresets(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function useCustomPresets(): CustomPresets {
+    return useSyncExternalStore(subscribeToPresets, getCustomPresets);
+}
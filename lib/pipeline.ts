@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CancelledError, classifyError, GenerationError } from '../services/errors';
+import { createImageId } from './mediaStore';
+import { defaultParams, getNodeDefinition, NodeRunContext, ParamValue, PortType } from './pipelineNodes';
+
+/**
+ * Workflows: graphs of pipeline nodes (see pipelineNodes.ts) joined by edges from an output
+ * port to an input port of the same type. A workflow is plain JSON, so it can be saved,
+ * shared and loaded again; running it produces a `RunState` with one entry per node.
+ */
+
+export const WORKFLOW_VERSION = 1;
+
+export interface WorkflowNode {
+    id: string;
+    type: string;
+    /** Position on the editor canvas, in pixels. */
+    x: number;
+    y: number;
+    params: Record<string, ParamValue>;
+}
+
+export interface PortRef {
+    nodeId: string;
+    port: string;
+}
+
+export interface WorkflowEdge {
+    id: string;
+    from: PortRef;
+    to: PortRef;
+}
+
+export interface Workflow {
+    version: typeof WORKFLOW_VERSION;
+    name: string;
+    nodes: WorkflowNode[];
+    edges: WorkflowEdge[];
+}
+
+export type NodeRunStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled' | 'blocked';
+
+export interface NodeRunState {
+    status: NodeRunStatus;
+    outputs?: Record<string, unknown>;
+    error?: GenerationError;
+}
+
+/** Per-node progress of one run. Nodes that haven't been reached yet have no entry. */
+export type RunState = Record<string, NodeRunState>;
+
+/** A reason the workflow can't run as it is. `key` is a translation key, `nodeId` the node to highlight. */
+export interface WorkflowIssue {
+    key: string;
+    nodeId?: string;
+    /** The unconnected input, for 'pipeline.issues.missingInput'. */
+    port?: string;
+}
+
+export function createNode(type: string, x: number, y: number): WorkflowNode {
+    const definition = getNodeDefinition(type);
+    if (!definition) {
+        throw new Error(`Unknown node type "${type}"`);
+    }
+    return { id: createImageId(), type, x, y, params: defaultParams(definition) };
+}
+
+export const getPortType = (workflow: Workflow, ref: PortRef, direction: 'input' | 'output'): PortType | undefined => {
+    const node = workflow.nodes.find(candidate => candidate.id === ref.nodeId);
+    const definition = node && getNodeDefinition(node.type);
+    const ports = direction === 'input' ? definition?.inputs : definition?.outputs;
+    return ports?.find(port => port.name === ref.port)?.type;
+};
+
+// The ids of every node downstream of `nodeId`, including itself.
+const downstreamOf = (workflow: Workflow, nodeId: string): Set<string> => {
+    const reached = new Set([nodeId]);
+    const queue = [nodeId];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const edge of workflow.edges) {
+            if (edge.from.nodeId === current && !reached.has(edge.to.nodeId)) {
+                reached.add(edge.to.nodeId);
+                queue.push(edge.to.nodeId);
+            }
+        }
+    }
+    return reached;
+};
+
+/** Whether an edge may join these ports: the types must match and the edge must not close a loop. */
+export function canConnect(workflow: Workflow, from: PortRef, to: PortRef): boolean {
+    const fromType = getPortType(workflow, from, 'output');
+    return !!fromType
+        && fromType === getPortType(workflow, to, 'input')
+        && !downstreamOf(workflow, to.nodeId).has(from.nodeId);
+}
+
+/** Adds an edge, replacing whatever was connected to the input port before (an input takes one value). */
+export function connect(workflow: Workflow, from: PortRef, to: PortRef): Workflow {
+    if (!canConnect(workflow, from, to)) return workflow;
+    const edges = workflow.edges.filter(edge => !(edge.to.nodeId === to.nodeId && edge.to.port === to.port));
+    return { ...workflow, edges: [...edges, { id: createImageId(), from, to }] };
+}
+
+export function removeNode(workflow: Workflow, nodeId: string): Workflow {
+    return {
+        ...workflow,
+        nodes: workflow.nodes.filter(node => node.id !== nodeId),
+        edges: workflow.edges.filter(edge => edge.from.nodeId !== nodeId && edge.to.nodeId !== nodeId),
+    };
+}
+
+export function validateWorkflow(workflow: Workflow): WorkflowIssue[] {
+    const issues: WorkflowIssue[] = [];
+    if (!workflow.nodes.some(node => node.type === 'output')) {
+        issues.push({ key: 'pipeline.issues.noOutput' });
+    }
+    for (const node of workflow.nodes) {
+        const definition = getNodeDefinition(node.type);
+        if (!definition) {
+            issues.push({ key: 'pipeline.issues.unknownNode', nodeId: node.id });
+            continue;
+        }
+        for (const port of definition.inputs) {
+            const connected = workflow.edges.some(edge => edge.to.nodeId === node.id && edge.to.port === port.name);
+            if (port.required && !connected) {
+                issues.push({ key: 'pipeline.issues.missingInput', nodeId: node.id, port: port.name });
+            }
+        }
+    }
+    return issues;
+}
+
+/** Whether runs of this workflow need an image to start from. */
+export const needsInputImage = (workflow: Workflow): boolean => workflow.nodes.some(node => node.type === 'input');
+
+interface RunOptions extends NodeRunContext {
+    /** Results of an earlier run; nodes already 'done' there are not run again. */
+    previous?: RunState;
+    /** Called with the whole state whenever a node changes status. */
+    onUpdate?: (state: RunState) => void;
+}
+
+/**
+ * Runs a workflow. Every node starts as soon as all of its inputs are ready, so independent
+ * branches run side by side (the generation queue still limits how many requests are in flight).
+ * A failed node blocks only what depends on it; the rest of the graph still runs.
+ */
+export async function runWorkflow(workflow: Workflow, { previous = {}, onUpdate, ...context }: RunOptions): Promise<RunState> {
+    let state: RunState = {};
+    for (const node of workflow.nodes) {
+        state[node.id] = previous[node.id]?.status === 'done' ? previous[node.id] : { status: 'pending' };
+    }
+    const update = (nodeId: string, nodeState: NodeRunState) => {
+        state = { ...state, [nodeId]: nodeState };
+        onUpdate?.(state);
+    };
+    onUpdate?.(state);
+
+    const runs = new Map<string, Promise<boolean>>();
+    const runNode = (nodeId: string): Promise<boolean> => {
+        let run = runs.get(nodeId);
+        if (!run) {
+            run = executeNode(nodeId);
+            runs.set(nodeId, run);
+        }
+        return run;
+    };
+
+    // Resolves to whether the node produced its outputs.
+    const executeNode = async (nodeId: string): Promise<boolean> => {
+        if (state[nodeId].status === 'done') return true;
+        const node = workflow.nodes.find(candidate => candidate.id === nodeId)!;
+        const definition = getNodeDefinition(node.type);
+        const incoming = workflow.edges.filter(edge => edge.to.nodeId === nodeId);
+
+        const ready = await Promise.all(incoming.map(edge => runNode(edge.from.nodeId)));
+        if (ready.includes(false)) {
+            update(nodeId, { status: 'blocked' });
+            return false;
+        }
+        if (!definition) {
+            update(nodeId, { status: 'error', error: classifyError(new Error(`Unknown node type "${node.type}"`)) });
+            return false;
+        }
+        if (context.signal?.aborted) {
+            update(nodeId, { status: 'cancelled' });
+            return false;
+        }
+
+        const inputs: Record<string, unknown> = {};
+        for (const edge of incoming) {
+            inputs[edge.to.port] = state[edge.from.nodeId].outputs?.[edge.from.port];
+        }
+
+        update(nodeId, { status: 'running' });
+        try {
+            const outputs = await definition.run(inputs, node.params, context);
+            if (context.signal?.aborted) throw new CancelledError();
+            update(nodeId, { status: 'done', outputs });
+            return true;
+        } catch (err) {
+            const error = classifyError(err);
+            update(nodeId, { status: error.code === 'cancelled' ? 'cancelled' : 'error', error });
+            return false;
+        }
+    };
+
+    await Promise.all(workflow.nodes.map(node => runNode(node.id)));
+    return state;
+}
+
+/**
+ * Prepares a retry: forgets the results of `nodeId` and everything downstream of it, so that
+ * running again with this as `previous` redoes only that part of the graph.
+ */
+export function resetFromNode(workflow: Workflow, state: RunState, nodeId: string): RunState {
+    const stale = downstreamOf(workflow, nodeId);
+    return Object.fromEntries(Object.entries(state).filter(([id]) => !stale.has(id)));
+}
+
+export interface WorkflowResult {
+    nodeId: string;
+    label: string;
+    image: string;
+}
+
+/** The images that reached the workflow's output nodes. */
+export function collectResults(workflow: Workflow, state: RunState): WorkflowResult[] {
+    const results: WorkflowResult[] = [];
+    for (const node of workflow.nodes) {
+        if (node.type !== 'output') continue;
+        const edge = workflow.edges.find(candidate => candidate.to.nodeId === node.id);
+        const image = edge && state[edge.from.nodeId]?.outputs?.[edge.from.port];
+        if (typeof image === 'string') {
+            results.push({ nodeId: node.id, label: String(node.params.label || 'result'), image });
+        }
+    }
+    return results;
+}
+
+export const serializeWorkflow = (workflow: Workflow): string => JSON.stringify(workflow, null, 2);
+
+/** Reads a saved workflow, rejecting files that aren't one. */
+export function parseWorkflow(text: string): Workflow {
+    const data = JSON.parse(text);
+    if (data?.version !== WORKFLOW_VERSION || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+        throw new Error('Not a workflow file');
+    }
+    const unknown = data.nodes.find((node: WorkflowNode) => !getNodeDefinition(node.type));
+    if (unknown) {
+        throw new Error(`Unknown node type "${unknown.type}"`);
+    }
+    const nodeIds = new Set(data.nodes.map((node: WorkflowNode) => node.id));
+    return {
+        version: WORKFLOW_VERSION,
+        name: typeof data.name === 'string' ? data.name : '',
+        // Parameters added to a node type since the file was saved get their defaults.
+        nodes: data.nodes.map((node: WorkflowNode) => ({ ...node, params: { ...defaultParams(getNodeDefinition(node.type)!), ...node.params } })),
+        edges: data.edges.filter((edge: WorkflowEdge) => nodeIds.has(edge.from?.nodeId) && nodeIds.has(edge.to?.nodeId)),
+    };
+}
+
+/**
+ * The starter workflow: cut the subject out of the input image, extract the outfit it wears,
+ * build a background from a concept board and compose five studio photoshoot poses.
+ */
+export function createStarterWorkflow(name: string): Workflow {
+    const input = createNode('input', 40, 200);
+    const removeBackground = createNode('removeBackground', 320, 60);
+    const extractOutfit = createNode('extractOutfit', 320, 340);
+    const concept = createNode('image', 40, 520);
+    const background = createNode('backgroundFromConcept', 320, 560);
+    const poses = ['prof_arms_crossed', 'prof_walking', 'cas_laughing', 'cas_leaning_wall', 'fas_static_pose'];
+
+    let workflow: Workflow = { version: WORKFLOW_VERSION, name, nodes: [input, removeBackground, extractOutfit, concept, background], edges: [] };
+    workflow = connect(workflow, { nodeId: input.id, port: 'image' }, { nodeId: removeBackground.id, port: 'image' });
+    workflow = connect(workflow, { nodeId: input.id, port: 'image' }, { nodeId: extractOutfit.id, port: 'image' });
+    workflow = connect(workflow, { nodeId: concept.id, port: 'image' }, { nodeId: background.id, port: 'concept' });
+
+    poses.forEach((pose, index) => {
+        const studio = { ...createNode('studioPose', 620, 40 + index * 200), params: { pose } };
+        const output = { ...createNode('output', 900, 40 + index * 200), params: { label: pose } };
+        workflow = { ...workflow, nodes: [...workflow.nodes, studio, output] };
+        workflow = connect(workflow, { nodeId: removeBackground.id, port: 'image' }, { nodeId: studio.id, port: 'character' });
+        workflow = connect(workflow, { nodeId: background.id, port: 'image' }, { nodeId: studio.id, port: 'background' });
+        workflow = connect(workflow, { nodeId: extractOutfit.id, port: 'image' }, { nodeId: studio.id, port: 'outfit' });
+        workflow = connect(workflow, { nodeId: studio.id, port: 'image' }, { nodeId: output.id, port: 'image' });
+    });
+    return workflow;
+}
@@ -0,0 +1,390 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+    extractOutfitFromImage,
+    generateApparelMockup,
+    generateBackgroundFromConcept,
+    generateCloneEffectImage,
+    generateConceptSuggestions,
+    generateDepthMap,
+    generateGraphicFromPrompt,
+    generateImageFromPrompt,
+    generatePhotoBoothImage,
+    generateProductMockup,
+    generateStyledImage,
+    generateTypographicIllustration,
+    GenerationOptions,
+    recolorImageWithPaletteImage,
+    removeBackgroundFromImageAtPoint,
+    swapFacesInImage,
+} from '../services/geminiService';
+import { GenerationError, InvalidInputError } from '../services/errors';
+import { cropImageToAspectRatio, resizeImageToAspectRatio } from './utils';
+import { createPrintSheet } from './printUtils';
+import { dataUrlToBlob, readImageDimensions } from './mediaStore';
+import { ADULT_POSES, buildStudioCompositionPrompt } from './studioPoses';
+import { CAMERA_ANGLES, COLOR_GRADES, PHOTO_STYLE_CATEGORIES } from './photoshootPresets';
+
+/**
+ * The node catalogue of the pipeline builder. Each node wraps one generation operation or
+ * local image utility behind typed ports: images travel as data URLs, text as strings and
+ * JSON as parsed values. Labels are translation keys: `pipeline.nodes.<type>`,
+ * `pipeline.ports.<name>` and `pipeline.params.<name>`.
+ */
+
+export type PortType = 'image' | 'text' | 'json';
+
+export interface PortDefinition {
+    name: string;
+    type: PortType;
+    required: boolean;
+}
+
+export interface ParamOption {
+    value: string;
+    /** Shown instead of the raw value when set. */
+    labelKey?: string;
+}
+
+export type ParamDefinition =
+    | { name: string; kind: 'text'; default: string; multiline?: boolean }
+    | { name: string; kind: 'number'; default: number; min: number; max: number; step?: number }
+    | { name: string; kind: 'select'; default: string; options: readonly ParamOption[] }
+    /** An image picked in the editor and stored in the workflow itself, e.g. a fixed concept board. */
+    | { name: string; kind: 'image' };
+
+export type ParamValue = string | number;
+
+export type NodeCategory = 'source' | 'generation' | 'utility' | 'output';
+
+/** What a node gets to work with besides its inputs and parameters. */
+export interface NodeRunContext extends GenerationOptions {
+    /** The image the run was started with, read by input nodes. */
+    input?: string;
+}
+
+export interface NodeDefinition {
+    type: string;
+    category: NodeCategory;
+    inputs: readonly PortDefinition[];
+    outputs: readonly PortDefinition[];
+    params: readonly ParamDefinition[];
+    /** Receives values for connected inputs only; unconnected optional inputs are left out. */
+    run: (inputs: Record<string, unknown>, params: Record<string, ParamValue>, context: NodeRunContext) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * A workflow that can't run as built, e.g. an empty input or a JSON path that finds nothing.
+ * Its message is shown to the user as is.
+ */
+export class WorkflowError extends GenerationError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowError';
+    }
+}
+
+const ASPECT_RATIO_OPTIONS: ParamOption[] = ['1:1', '9:16', '16:9', '4:3', '3:4'].map(value => ({ value }));
+
+const image = (name: string, required = true): PortDefinition => ({ name, type: 'image', required });
+const text = (name: string, required = true): PortDefinition => ({ name, type: 'text', required });
+const json = (name: string, required = true): PortDefinition => ({ name, type: 'json', required });
+
+// The built-in Photoshoot presets offered to the concept assistant; their ids read well enough as labels.
+const CONCEPT_POSES = Object.values(PHOTO_STYLE_CATEGORIES).flat().map(style => ({ id: style.id, label: style.id.replace(/_/g, ' '), prompt: style.prompt }));
+const CONCEPT_ANGLES = CAMERA_ANGLES.map(angle => ({ id: angle.id, label: angle.id }));
+const CONCEPT_GRADES = COLOR_GRADES.map(grade => ({ id: grade.id, label: grade.id }));
+
+const requireImageDimensions = async (dataUrl: string) => {
+    const dimensions = await readImageDimensions(await dataUrlToBlob(dataUrl));
+    if (!dimensions) {
+        throw new InvalidInputError('Could not read the image dimensions');
+    }
+    return dimensions;
+};
+
+// Inputs are untyped at runtime; text and image ports both carry strings.
+const readString = (inputs: Record<string, unknown>, name: string): string => {
+    const value = inputs[name];
+    if (typeof value !== 'string') throw new WorkflowError(`The "${name}" input is missing`);
+    return value;
+};
+
+const readOptionalString = (inputs: Record<string, unknown>, name: string): string | undefined =>
+    inputs[name] === undefined ? undefined : readString(inputs, name);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Reads a dotted path such as 'poses.0' out of a JSON value.
+const readJsonPath = (value: unknown, path: string): unknown =>
+    path.split('.').filter(Boolean).reduce<unknown>((current, key) => isRecord(current) ? current[key] : undefined, value);
+
+export const NODE_DEFINITIONS: readonly NodeDefinition[] = [
+    // Sources
+    {
+        type: 'input',
+        category: 'source',
+        inputs: [],
+        outputs: [image('image')],
+        params: [],
+        run: async (_inputs, _params, { input }) => {
+            if (!input) throw new WorkflowError('This workflow needs an input image');
+            return { image: input };
+        },
+    },
+    {
+        type: 'image',
+        category: 'source',
+        inputs: [],
+        outputs: [image('image')],
+        params: [{ name: 'image', kind: 'image' }],
+        run: async (_inputs, params) => {
+            if (!params.image) throw new WorkflowError('No image was chosen for this node');
+            return { image: params.image };
+        },
+    },
+    {
+        type: 'text',
+        category: 'source',
+        inputs: [],
+        outputs: [text('text')],
+        params: [{ name: 'text', kind: 'text', default: '', multiline: true }],
+        run: async (_inputs, params) => ({ text: String(params.text) }),
+    },
+    {
+        type: 'json',
+        category: 'source',
+        inputs: [],
+        outputs: [json('json')],
+        params: [{ name: 'json', kind: 'text', default: '{}', multiline: true }],
+        run: async (_inputs, params) => {
+            try {
+                return { json: JSON.parse(String(params.json)) };
+            } catch {
+                throw new WorkflowError('The JSON value is not valid JSON');
+            }
+        },
+    },
+    // Generation
+    {
+        type: 'removeBackground',
+        category: 'generation',
+        inputs: [image('image')],
+        outputs: [image('image')],
+        // The point on the subject to keep, in percent of the image size.
+        params: [
+            { name: 'x', kind: 'number', default: 50, min: 0, max: 100 },
+            { name: 'y', kind: 'number', default: 50, min: 0, max: 100 },
+        ],
+        run: async (inputs, params, context) => {
+            const source = readString(inputs, 'image');
+            const { width, height } = await requireImageDimensions(source);
+            const x = width * Number(params.x) / 100;
+            const y = height * Number(params.y) / 100;
+            return { image: await removeBackgroundFromImageAtPoint(source, x, y, context) };
+        },
+    },
+    {
+        type: 'extractOutfit',
+        category: 'generation',
+        inputs: [image('image'), text('instructions', false)],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await extractOutfitFromImage(readString(inputs, 'image'), readOptionalString(inputs, 'instructions'), context) }),
+    },
+    {
+        type: 'backgroundFromConcept',
+        category: 'generation',
+        inputs: [image('concept')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateBackgroundFromConcept(readString(inputs, 'concept'), context) }),
+    },
+    {
+        // A concept (background description, poses, camera angle, color grade) for the outfit or
+        // objects shown; pick fields out of it with a JSON Field node, e.g. `background`.
+        type: 'conceptSuggestions',
+        category: 'generation',
+        inputs: [image('image'), image('reference', false)],
+        outputs: [json('concept')],
+        params: [],
+        run: async (inputs, _params, context) => {
+            const reference = readOptionalString(inputs, 'reference');
+            const images = [readString(inputs, 'image'), ...(reference ? [reference] : [])];
+            return { concept: await generateConceptSuggestions(images, CONCEPT_POSES, CONCEPT_ANGLES, CONCEPT_GRADES, context) };
+        },
+    },
+    {
+        type: 'studioPose',
+        category: 'generation',
+        inputs: [image('character'), image('background'), image('outfit')],
+        outputs: [image('image')],
+        params: [{ name: 'pose', kind: 'select', default: ADULT_POSES[0].id, options: ADULT_POSES.map(pose => ({ value: pose.id, labelKey: pose.labelKey })) }],
+        run: async (inputs, params, context) => {
+            const pose = ADULT_POSES.find(candidate => candidate.id === params.pose);
+            if (!pose) throw new WorkflowError(`Unknown pose "${params.pose}"`);
+            const prompt = buildStudioCompositionPrompt(pose.prompt);
+            return { image: await generateStyledImage(prompt, [readString(inputs, 'character'), readString(inputs, 'background'), readString(inputs, 'outfit')], undefined, context) };
+        },
+    },
+    {
+        type: 'styledImage',
+        category: 'generation',
+        inputs: [image('image'), image('reference', false), text('instructions', false)],
+        outputs: [image('image')],
+        params: [{ name: 'prompt', kind: 'text', default: '', multiline: true }],
+        run: async (inputs, params, context) => {
+            const reference = readOptionalString(inputs, 'reference');
+            const images = [readString(inputs, 'image'), ...(reference ? [reference] : [])];
+            return { image: await generateStyledImage(String(params.prompt), images, readOptionalString(inputs, 'instructions'), context) };
+        },
+    },
+    {
+        type: 'cloneEffect',
+        category: 'generation',
+        inputs: [image('image'), text('instructions', false)],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateCloneEffectImage(readString(inputs, 'image'), readOptionalString(inputs, 'instructions'), context) }),
+    },
+    {
+        type: 'photoBooth',
+        category: 'generation',
+        inputs: [image('image')],
+        outputs: [image('image')],
+        params: [{ name: 'count', kind: 'number', default: 4, min: 2, max: 12 }],
+        run: async (inputs, params, context) => ({ image: await generatePhotoBoothImage(readString(inputs, 'image'), Number(params.count), context) }),
+    },
+    {
+        type: 'swapFaces',
+        category: 'generation',
+        inputs: [image('target'), image('face')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await swapFacesInImage(readString(inputs, 'target'), readString(inputs, 'face'), undefined, undefined, context) }),
+    },
+    {
+        type: 'recolor',
+        category: 'generation',
+        inputs: [image('image'), image('palette')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => {
+            const source = readString(inputs, 'image');
+            const dimensions = await requireImageDimensions(source);
+            return { image: await recolorImageWithPaletteImage(source, readString(inputs, 'palette'), dimensions, context) };
+        },
+    },
+    {
+        type: 'depthMap',
+        category: 'generation',
+        inputs: [image('image')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateDepthMap(readString(inputs, 'image'), context) }),
+    },
+    {
+        type: 'productMockup',
+        category: 'generation',
+        inputs: [image('design'), image('product')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateProductMockup(readString(inputs, 'design'), readString(inputs, 'product'), context) }),
+    },
+    {
+        type: 'apparelMockup',
+        category: 'generation',
+        inputs: [image('design')],
+        outputs: [image('image')],
+        params: [{ name: 'prompt', kind: 'text', default: 'A plain white t-shirt, flat lay on a light grey background.', multiline: true }],
+        run: async (inputs, params, context) => ({ image: await generateApparelMockup(readString(inputs, 'design'), String(params.prompt), context) }),
+    },
+    {
+        type: 'graphicFromPrompt',
+        category: 'generation',
+        inputs: [text('prompt')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateGraphicFromPrompt(readString(inputs, 'prompt'), context) }),
+    },
+    {
+        type: 'imageFromPrompt',
+        category: 'generation',
+        inputs: [text('prompt')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateImageFromPrompt(readString(inputs, 'prompt'), context) }),
+    },
+    {
+        type: 'typography',
+        category: 'generation',
+        inputs: [text('phrase')],
+        outputs: [image('image')],
+        params: [],
+        run: async (inputs, _params, context) => ({ image: await generateTypographicIllustration(readString(inputs, 'phrase'), context) }),
+    },
+    // Local utilities
+    {
+        type: 'resize',
+        category: 'utility',
+        inputs: [image('image')],
+        outputs: [image('image')],
+        params: [{ name: 'ratio', kind: 'select', default: '1:1', options: ASPECT_RATIO_OPTIONS }],
+        run: async (inputs, params) => ({ image: await resizeImageToAspectRatio(readString(inputs, 'image'), String(params.ratio)) }),
+    },
+    {
+        type: 'crop',
+        category: 'utility',
+        inputs: [image('image')],
+        outputs: [image('image')],
+        params: [{ name: 'ratio', kind: 'select', default: '1:1', options: ASPECT_RATIO_OPTIONS }],
+        run: async (inputs, params) => {
+            const [width, height] = String(params.ratio).split(':').map(Number);
+            return { image: await cropImageToAspectRatio(readString(inputs, 'image'), width / height) };
+        },
+    },
+    {
+        type: 'printSheet',
+        category: 'utility',
+        inputs: [image('image')],
+        outputs: [image('image')],
+        params: [
+            { name: 'widthCm', kind: 'number', default: 3, min: 1, max: 10, step: 0.5 },
+            { name: 'heightCm', kind: 'number', default: 4, min: 1, max: 15, step: 0.5 },
+        ],
+        run: async (inputs, params) => ({ image: await createPrintSheet(readString(inputs, 'image'), Number(params.widthCm), Number(params.heightCm)) }),
+    },
+    {
+        type: 'jsonField',
+        category: 'utility',
+        inputs: [json('json')],
+        outputs: [text('text')],
+        params: [{ name: 'path', kind: 'text', default: '' }],
+        run: async (inputs, params) => {
+            const value = readJsonPath(inputs.json, String(params.path));
+            if (value === undefined) throw new WorkflowError(`Nothing found at "${params.path}"`);
+            return { text: typeof value === 'string' ? value : JSON.stringify(value) };
+        },
+    },
+    // Output
+    {
+        type: 'output',
+        category: 'output',
+        inputs: [image('image')],
+        outputs: [],
+        // Used in file names when results are downloaded.
+        params: [{ name: 'label', kind: 'text', default: 'result' }],
+        run: async () => ({}),
+    },
+];
+
+export function getNodeDefinition(type: string): NodeDefinition | undefined {
+    return NODE_DEFINITIONS.find(definition => definition.type === type);
+}
+
+/** The starting parameter values for a new node of this type. */
+export function defaultParams(definition: NodeDefinition): Record<string, ParamValue> {
+    return Object.fromEntries(definition.params.map(param => [param.name, param.kind === 'image' ? '' : param.default]));
+}
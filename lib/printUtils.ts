@@ -14,6 +14,9 @@ function loadImage(src: string): Promise<HTMLImageElement> {
     });
 }
 
+/** Trim size of the print sheet, for exporting it at its physical size. */
+export const PRINT_SHEET_SIZE_MM = { width: 101.6, height: 152.4 };
+
 /**
  * Creates a printable sheet of ID photos on a standard 4x6 inch paper layout.
  * @param portraitDataUrl The data URL of the single portrait image to be tiled.
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from 'jszip';
+import { createImageId, dataUrlToBlob, ProjectRecord } from './mediaStore';
+
+/**
+ * Project files: a ZIP holding project.json plus every image of the session as its own file,
+ * so a project can be handed to a colleague and reopened in their browser.
+ */
+
+const MANIFEST_FILE = 'project.json';
+const MANIFEST_VERSION = 1;
+// Images inside the saved state are replaced by a reference to their file in the ZIP.
+const FILE_REFERENCE_PREFIX = 'project-file:';
+
+type ProjectManifest = Omit<ProjectRecord, 'thumbnail'> & { version: number };
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+// Rebuilds a JSON-like value with every string passed through `replace`.
+const mapStrings = async (value: unknown, replace: (text: string) => Promise<string>): Promise<unknown> => {
+    if (typeof value === 'string') return replace(value);
+    if (Array.isArray(value)) return Promise.all(value.map(entry => mapStrings(entry, replace)));
+    if (value && typeof value === 'object') {
+        const entries = await Promise.all(Object.entries(value).map(async ([key, entry]) => [key, await mapStrings(entry, replace)]));
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+export async function exportProjectBundle({ thumbnail, ...project }: ProjectRecord): Promise<Blob> {
+    const zip = new JSZip();
+    // The same image often appears more than once (an input that is also in a result list).
+    const files = new Map<string, string>();
+    const state = await mapStrings(project.state, async text => {
+        if (!text.startsWith('data:image/')) return text;
+        let path = files.get(text);
+        if (!path) {
+            const blob = await dataUrlToBlob(text);
+            path = `images/${files.size + 1}.${EXTENSIONS[blob.type] ?? 'png'}`;
+            zip.file(path, blob);
+            files.set(text, path);
+        }
+        return FILE_REFERENCE_PREFIX + path;
+    });
+    const manifest: ProjectManifest = { ...project, state: state as Record<string, unknown>, version: MANIFEST_VERSION };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Reads a file produced by `exportProjectBundle`. The project gets a new id, so importing
+ * a colleague's copy never overwrites your own.
+ */
+export async function readProjectBundle(file: Blob): Promise<ProjectRecord> {
+    const zip = await JSZip.loadAsync(file);
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) {
+        throw new Error('The file is not a project export: project.json is missing.');
+    }
+    const { version, ...project }: ProjectManifest = JSON.parse(await manifestFile.async('string'));
+    if (version !== MANIFEST_VERSION || typeof project.toolId !== 'string') {
+        throw new Error(`Unsupported project export version: ${version}`);
+    }
+
+    const state = await mapStrings(project.state ?? {}, async text => {
+        if (!text.startsWith(FILE_REFERENCE_PREFIX)) return text;
+        const entry = zip.file(text.slice(FILE_REFERENCE_PREFIX.length));
+        if (!entry) {
+            throw new Error(`"${text}" is listed in the project but missing from the file.`);
+        }
+        const extension = text.split('.').pop() ?? 'png';
+        const mimeType = Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension) ?? 'image/png';
+        return `data:${mimeType};base64,${await entry.async('base64')}`;
+    });
+    return { ...project, id: createImageId(), state: state as Record<string, unknown>, updatedAt: Date.now() };
+}
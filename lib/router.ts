@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { TOOL_IDS, ToolId } from './tools';
+
+/**
+ * Client-side routing on the URL hash, e.g. `#/portrait-generator?background=blue&size=4x6`.
+ * The hash keeps deep links working on any static host, without server-side rewrites.
+ * Opening a tool adds a history entry; changing a tool's settings replaces the current one,
+ * so the back button steps between tools rather than through every click.
+ */
+
+/** Screens other than the tools, e.g. `#/projects`. */
+export const PAGES = ['projects', 'settings'] as const;
+export type Page = typeof PAGES[number];
+
+export interface Route {
+    /** The open tool, or null on the tool selection screen and other pages. */
+    toolId: ToolId | null;
+    page: Page | null;
+    params: URLSearchParams;
+}
+
+// 'portraitGenerator' <-> 'portrait-generator'
+const toolPath = (target: ToolId | Page) => target.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+const parseRoute = (hash: string): Route => {
+    const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+    const toolId = TOOL_IDS.find(candidate => toolPath(candidate) === path) ?? null;
+    const page = PAGES.find(candidate => toolPath(candidate) === path) ?? null;
+    return { toolId, page, params: new URLSearchParams(toolId ? query : '') };
+};
+
+const formatHash = (target: ToolId | Page | null, params?: URLSearchParams) => {
+    const query = params?.toString();
+    return target ? `#/${toolPath(target)}${query ? `?${query}` : ''}` : '#/';
+};
+
+const listeners = new Set<() => void>();
+let snapshot: { hash: string, route: Route } | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+function subscribeToRoute(listener: () => void): () => void {
+    if (listeners.size === 0) {
+        window.addEventListener('popstate', notify);
+        window.addEventListener('hashchange', notify);
+    }
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            window.removeEventListener('popstate', notify);
+            window.removeEventListener('hashchange', notify);
+        }
+    };
+}
+
+function getRouteSnapshot(): Route {
+    const hash = window.location.hash;
+    if (snapshot?.hash !== hash) {
+        snapshot = { hash, route: parseRoute(hash) };
+    }
+    return snapshot.route;
+}
+
+/** Values kept with a history entry rather than in its URL. */
+type HistoryState = Record<string, string>;
+
+const currentHistoryState = (): HistoryState => window.history.state ?? {};
+
+/**
+ * Opens a tool or page (or the tool selection screen, for null) as a new history entry.
+ * `state` is stored with the entry but left out of the URL (see `useHistoryState`).
+ */
+export function navigate(target: ToolId | Page | null, params?: URLSearchParams, state?: HistoryState): void {
+    window.history.pushState(state ?? null, '', formatHash(target, params));
+    notify();
+}
+
+// Rewrites the current entry's query string; used for settings changes.
+const replaceParams = (update: (params: URLSearchParams) => void) => {
+    const { toolId, params } = getRouteSnapshot();
+    const next = new URLSearchParams(params);
+    update(next);
+    window.history.replaceState(window.history.state, '', formatHash(toolId, next));
+    notify();
+};
+
+export function useRoute(): Route {
+    return useSyncExternalStore(subscribeToRoute, getRouteSnapshot);
+}
+
+type SetParam<T> = (value: T | ((prev: T) => T)) => void;
+
+/**
+ * Keeps a value with the current history entry instead of in the URL: it survives a refresh
+ * and the back button, but isn't part of links that are copied, shared or bookmarked.
+ * Empty when the entry has none, e.g. for a link opened in a new tab.
+ */
+export function useHistoryState(key: string): [string, (value: string) => void] {
+    const value = useSyncExternalStore(subscribeToRoute, () => currentHistoryState()[key] ?? '');
+
+    const setValue = useCallback((next: string) => {
+        window.history.replaceState({ ...currentHistoryState(), [key]: next }, '', window.location.hash);
+        notify();
+    }, [key]);
+
+    return [value, setValue];
+}
+
+/**
+ * Keeps one tool setting in the URL, so it survives a refresh and can be shared as a link.
+ * Values outside `allowed` (e.g. from a hand-edited link) fall back to the default, and the
+ * default itself is left out of the URL to keep links short.
+ */
+export function useRouteParam<T extends string>(key: string, defaultValue: T, allowed?: readonly T[]): [T, SetParam<T>] {
+    const { params } = useRoute();
+    const parse = (raw: string | null): T =>
+        raw !== null && (!allowed || allowed.includes(raw as T)) ? raw as T : defaultValue;
+    const value = parse(params.get(key));
+
+    const setValue = useCallback<SetParam<T>>((next) => {
+        replaceParams(current => {
+            const resolved = typeof next === 'function' ? next(parse(current.get(key))) : next;
+            if (resolved === defaultValue) {
+                current.delete(key);
+            } else {
+                current.set(key, resolved);
+            }
+        });
+    }, [key, defaultValue, allowed]);
+
+    return [value, setValue];
+}
+
+/**
+ * Like `useRouteParam`, for multi-select settings such as a photoshoot's chosen styles.
+ * Stored as one comma-separated parameter.
+ */
+export function useRouteListParam(key: string, allowed?: readonly string[]): [string[], SetParam<string[]>] {
+    const { params } = useRoute();
+    const parse = (raw: string | null): string[] =>
+        (raw ?? '').split(',').filter(entry => entry && (!allowed || allowed.includes(entry)));
+    const raw = params.get(key);
+    // Parsed once per distinct query string, so the array is stable across renders.
+    const value = useMemo(() => parse(raw), [raw, allowed]);
+
+    const setValue = useCallback<SetParam<string[]>>((next) => {
+        replaceParams(current => {
+            const resolved = typeof next === 'function' ? next(parse(current.get(key))) : next;
+            if (resolved.length === 0) {
+                current.delete(key);
+            } else {
+                current.set(key, resolved.join(','));
+            }
+        });
+    }, [key, allowed]);
+
+    return [value, setValue];
+}
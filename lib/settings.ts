@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useSyncExternalStore } from 'react';
+import { setBackendUrl } from '../services/backend';
+import { setOutputEncoding } from '../services/geminiService';
+import { createGoogleGenAIProvider } from '../services/providers/googleGenAI';
+import { DEFAULT_PROVIDER_ID, getDefaultModel, GOOGLE_PROVIDER_ID, registerProvider, setCapabilityRoute } from '../services/providers/registry';
+import type { Capability } from '../services/providers/types';
+
+/**
+ * Per-browser settings: an API key that overrides the one baked into the build (or a backend
+ * server that holds the key instead), the model behind each capability, and defaults for
+ * generated images. Stored in localStorage and pushed into the service layer whenever they change.
+ */
+
+export const CAPABILITIES: readonly Capability[] = ['imageEdit', 'textToImage', 'text'];
+export const OUTPUT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+export const ASPECT_RATIOS = ['1:1', '9:16', '16:9', '4:3', '3:4'] as const;
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+/** Models offered in the settings for each capability; any other model name can be typed in. */
+export const MODEL_SUGGESTIONS: Record<Capability, string[]> = {
+    imageEdit: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'],
+    textToImage: ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-3.0-generate-002'],
+    text: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+};
+
+export interface AppSettings {
+    /** Empty to use the key the app was built with. */
+    apiKey: string;
+    /** Backend server to send requests through instead (see server/); empty for the build's BACKEND_URL, if any. */
+    backendUrl: string;
+    /** Model per capability; a missing entry means the provider's default. */
+    models: Partial<Record<Capability, string>>;
+    outputFormat: OutputFormat;
+    /** 0-1, for JPEG and WebP. */
+    outputQuality: number;
+    defaultAspectRatio: AspectRatio;
+}
+
+const STORAGE_KEY = 'ai-creative-suite-settings';
+export const DEFAULT_SETTINGS: AppSettings = {
+    apiKey: '',
+    backendUrl: '',
+    models: {},
+    outputFormat: 'png',
+    outputQuality: 0.92,
+    defaultAspectRatio: '1:1',
+};
+
+const loadSettings = (): AppSettings => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+            const parsed = { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+            // Values from an older or hand-edited entry fall back to the defaults.
+            return {
+                ...parsed,
+                outputFormat: OUTPUT_FORMATS.includes(parsed.outputFormat) ? parsed.outputFormat : DEFAULT_SETTINGS.outputFormat,
+                defaultAspectRatio: ASPECT_RATIOS.includes(parsed.defaultAspectRatio) ? parsed.defaultAspectRatio : DEFAULT_SETTINGS.defaultAspectRatio,
+            };
+        }
+    } catch (error) {
+        console.error("Failed to load settings from localStorage", error);
+    }
+    return DEFAULT_SETTINGS;
+};
+
+/** Whether the build came with an API key of its own. */
+export const hasBuildApiKey = (): boolean => !!process.env.API_KEY;
+
+/** The backend requests go through, if any. */
+export const getActiveBackendUrl = (current: AppSettings): string | null =>
+    current.backendUrl || process.env.BACKEND_URL || null;
+
+const applySettings = (next: AppSettings, previous: AppSettings | null) => {
+    if (!previous || next.apiKey !== previous.apiKey) {
+        registerProvider(createGoogleGenAIProvider(next.apiKey || process.env.API_KEY, GOOGLE_PROVIDER_ID));
+    }
+    for (const capability of CAPABILITIES) {
+        setCapabilityRoute(capability, { provider: DEFAULT_PROVIDER_ID, model: next.models[capability] || getDefaultModel(capability) });
+    }
+    setBackendUrl(getActiveBackendUrl(next));
+    setOutputEncoding({ mimeType: `image/${next.outputFormat}`, quality: next.outputQuality });
+};
+
+const listeners = new Set<() => void>();
+let settings = loadSettings();
+applySettings(settings, null);
+
+export function getSettings(): AppSettings {
+    return settings;
+}
+
+export function updateSettings(update: Partial<AppSettings>): void {
+    const previous = settings;
+    settings = { ...settings, ...update };
+    applySettings(settings, previous);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Failed to save settings to localStorage", error);
+    }
+    listeners.forEach(listener => listener());
+}
+
+function subscribeToSettings(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function useSettings(): AppSettings {
+    return useSyncExternalStore(subscribeToSettings, getSettings);
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { OutputEncoding } from '../services/geminiService';
+
+/**
+ * Platform presets for exporting one image to social media, and the final resize of an
+ * outpainted image to a preset's exact pixel size.
+ */
+
+export interface SocialFormat {
+    id: string;
+    labelKey: string;
+    /** The ratio the image is outpainted to, in resizeImageToAspectRatio's "w:h" form. */
+    aspectRatio: string;
+    width: number;
+    height: number;
+}
+
+export interface SocialPlatform {
+    id: string;
+    labelKey: string;
+    formats: SocialFormat[];
+}
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = [
+    {
+        id: 'instagram',
+        labelKey: 'socialExport.platforms.instagram',
+        formats: [
+            { id: 'feed-square', labelKey: 'socialExport.formats.feedSquare', aspectRatio: '1:1', width: 1080, height: 1080 },
+            { id: 'feed-portrait', labelKey: 'socialExport.formats.feedPortrait', aspectRatio: '4:5', width: 1080, height: 1350 },
+            { id: 'story', labelKey: 'socialExport.formats.story', aspectRatio: '9:16', width: 1080, height: 1920 },
+        ],
+    },
+    {
+        id: 'tiktok',
+        labelKey: 'socialExport.platforms.tiktok',
+        formats: [
+            { id: 'video-cover', labelKey: 'socialExport.formats.videoCover', aspectRatio: '9:16', width: 1080, height: 1920 },
+        ],
+    },
+    {
+        id: 'youtube',
+        labelKey: 'socialExport.platforms.youtube',
+        formats: [
+            { id: 'thumbnail', labelKey: 'socialExport.formats.thumbnail', aspectRatio: '16:9', width: 1280, height: 720 },
+        ],
+    },
+    {
+        id: 'facebook',
+        labelKey: 'socialExport.platforms.facebook',
+        formats: [
+            // 820 x 312 as displayed on desktop, at twice the resolution.
+            { id: 'cover', labelKey: 'socialExport.formats.cover', aspectRatio: '205:78', width: 1640, height: 624 },
+        ],
+    },
+];
+
+/** Identifies a format across platforms, e.g. "instagram/story"; also its folder and file name in the ZIP. */
+export const socialFormatKey = (platform: SocialPlatform, format: SocialFormat) => `${platform.id}/${format.id}`;
+
+// Helper function to load an image and return it as an HTMLImageElement
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image for social export: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+export interface FittedImage {
+    url: string;
+    /** How much the image was enlarged; above 1 it was upscaled and looks softer than its size suggests. */
+    scale: number;
+}
+
+/**
+ * Scales an image to cover exactly `width` x `height` pixels, cropping whatever overflows from the
+ * center. Outpainting gets the ratio nearly right, so only a few pixels are usually lost. Outpainted
+ * images are around 1024 px, so the larger formats (e.g. a 1920 px story) are upscaled; `scale`
+ * reports by how much, so the export can say so.
+ * @returns A promise that resolves to the resized image in the given encoding.
+ */
+export async function fitImageToSize(dataUrl: string, width: number, height: number, { mimeType, quality }: OutputEncoding): Promise<FittedImage> {
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+    const drawWidth = img.naturalWidth * scale;
+    const drawHeight = img.naturalHeight * scale;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+    return { url: canvas.toDataURL(mimeType, quality), scale };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Poses for the studio photoshoot, shared by the Studio Photoshoot tool and the pipeline builder's studio pose node.
+ */
+export const ADULT_POSES = [
+    { id: 'prof_arms_crossed', labelKey: 'studioPhotoshoot.poses.prof_arms_crossed', prompt: 'a confident, professional stance with arms crossed.' },
+    { id: 'prof_presenting', labelKey: 'studioPhotoshoot.poses.prof_presenting', prompt: 'a professional presenting gesture with one open hand towards an imaginary chart.' },
+    { id: 'prof_leaning_desk', labelKey: 'studioPhotoshoot.poses.prof_leaning_desk', prompt: 'casually leaning against the edge of a modern office desk.' },
+    { id: 'prof_holding_tablet', labelKey: 'studioPhotoshoot.poses.prof_holding_tablet', prompt: 'holding and looking at a tablet computer with a thoughtful expression.' },
+    { id: 'prof_walking', labelKey: 'studioPhotoshoot.poses.prof_walking', prompt: 'walking forward with a determined and confident expression.' },
+    { id: 'prof_headshot', labelKey: 'studioPhotoshoot.poses.prof_headshot', prompt: 'a professional headshot from the chest up, with a friendly and approachable smile.' },
+    { id: 'prof_sitting_chair', labelKey: 'studioPhotoshoot.poses.prof_sitting_chair', prompt: 'sitting in a modern office chair, leaning forward slightly as if in a meeting.' },
+    { id: 'cas_laughing', labelKey: 'studioPhotoshoot.poses.cas_laughing', prompt: 'a candid moment, laughing genuinely and looking slightly away from the camera.' },
+    { id: 'cas_walking_street', labelKey: 'studioPhotoshoot.poses.cas_walking_street', prompt: 'walking down a city street, looking thoughtfully to the side.' },
+    { id: 'cas_sipping_coffee', labelKey: 'studioPhotoshoot.poses.cas_sipping_coffee', prompt: 'sitting at an outdoor cafe table, sipping a cup of coffee.' },
+    { id: 'cas_leaning_wall', labelKey: 'studioPhotoshoot.poses.cas_leaning_wall', prompt: 'casually leaning against a rustic brick wall.' },
+    { id: 'cas_hands_pockets', labelKey: 'studioPhotoshoot.poses.cas_hands_pockets', prompt: 'a relaxed stance with hands in their pockets.' },
+    { id: 'cas_sitting_steps', labelKey: 'studioPhotoshoot.poses.cas_sitting_steps', prompt: 'sitting casually on outdoor concrete steps.' },
+    { id: 'cas_over_shoulder', labelKey: 'studioPhotoshoot.poses.cas_over_shoulder', prompt: 'glancing back over their shoulder towards the camera with a smile.' },
+    { id: 'cas_joyful_jump', labelKey: 'studioPhotoshoot.poses.cas_joyful_jump', prompt: 'captured mid-air in a joyful, energetic jump.' },
+    { id: 'fas_low_angle', labelKey: 'studioPhotoshoot.poses.fas_low_angle', prompt: 'a dramatic, full-body shot taken from a very low angle.' },
+    { id: 'fas_static_pose', labelKey: 'studioPhotoshoot.poses.fas_static_pose', prompt: 'a high-fashion, static, and slightly unconventional pose.' },
+    { id: 'fas_twirling', labelKey: 'studioPhotoshoot.poses.fas_twirling', prompt: 'a dynamic shot captured mid-twirl, with clothing showing motion.' },
+    { id: 'fas_lying_down', labelKey: 'studioPhotoshoot.poses.fas_lying_down', prompt: 'lying on their back or side on the ground, looking up at the camera.' },
+    { id: 'fas_crouching', labelKey: 'studioPhotoshoot.poses.fas_crouching', prompt: 'a stylish crouching or squatting pose.' },
+    { id: 'fas_back_to_camera', labelKey: 'studioPhotoshoot.poses.fas_back_to_camera', prompt: 'standing with their back to the camera, looking over one shoulder.' },
+    { id: 'fas_shadow_play', labelKey: 'studioPhotoshoot.poses.fas_shadow_play', prompt: 'interacting with strong light and shadows, creating artistic patterns on them.' },
+    { id: 'fas_silhouette', labelKey: 'studioPhotoshoot.poses.fas_silhouette', prompt: 'a powerful silhouette pose against a bright background.' },
+    { id: 'act_yoga', labelKey: 'studioPhotoshoot.poses.act_yoga', prompt: 'holding a strong and balanced yoga pose, like the Warrior II pose.' },
+    { id: 'act_stretching', labelKey: 'studioPhotoshoot.poses.act_stretching', prompt: 'in a dynamic pre-workout stretching pose.' },
+    { id: 'act_jogging', labelKey: 'studioPhotoshoot.poses.act_jogging', prompt: 'in a natural jogging or running motion.' },
+    { id: 'act_holding_ball', labelKey: 'studioPhotoshoot.poses.act_holding_ball', prompt: 'holding a basketball or soccer ball in a sporty, ready-to-play stance.' },
+    { id: 'hob_reading', labelKey: 'studioPhotoshoot.poses.hob_reading', prompt: 'sitting comfortably in a chair, engrossed in reading a book.' },
+    { id: 'hob_guitar', labelKey: 'studioPhotoshoot.poses.hob_guitar', prompt: 'sitting on a stool and playing an acoustic guitar.' },
+    { id: 'hob_painting', labelKey: 'studioPhotoshoot.poses.hob_painting', prompt: 'standing in front of an easel with a paintbrush, focused on their artwork.' },
+];
+
+/**
+ * The prompt that composes a character (first image) into a background (second image) wearing an outfit (third image), in the given pose.
+ */
+export const buildStudioCompositionPrompt = (posePrompt: string): string => `
+**PRIMARY DIRECTIVE: ABSOLUTE IDENTITY PRESERVATION (NON-NEGOTIABLE)**
+Your single most important, critical, and unbreakable task is to perfectly preserve the identity of the person from the first image (the 'Character' image). The final generated face MUST be a photorealistic, 100% identical replica.
+
+-   **FACIAL FEATURES ARE SACRED:** You must replicate the **exact** shape of the eyes, nose, mouth, jawline, chin, and overall facial structure.
+-   **UNIQUE DETAILS ARE CRITICAL:** Preserve any unique identifiers like moles, freckles, scars, or specific skin textures. Do not remove or alter them.
+-   **HAIR INTEGRITY:** Maintain the original hair color, style, and texture as closely as possible.
+
+**SECONDARY TASK: COMPOSITION**
+After satisfying the identity preservation rule, perform the following composition:
+1.  **Place the Character:** Take the person (from the first image) and place them realistically into the background (the second image).
+2.  **Apply the Outfit:** Dress the person in the outfit provided in the third image. The fit should be natural.
+3.  **Apply the Pose:** The person's final pose should be: ${posePrompt}.
+4.  **Seamless Integration:** The lighting, shadows, and color grading on the person must be adjusted to perfectly match the new background and environment for a cohesive final photograph.
+`;
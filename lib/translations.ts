@@ -37,6 +37,12 @@ export const translations = {
       backgroundRemoverDesc: 'Remove the background from an image with one click.',
       depthEffectTitle: '3D Depth Effect',
       depthEffectDesc: 'Add a parallax 3D effect to your photos.',
+      faceSwapTitle: 'Face Swap',
+      faceSwapDesc: 'Put a face from one photo onto a person in another.',
+      colorPaletteSwapTitle: 'Color Palette Swap',
+      colorPaletteSwapDesc: 'Recolor an image using the palette of another.',
+      pipelineBuilderTitle: 'Pipeline Builder',
+      pipelineBuilderDesc: 'Chain tools into workflows and run them on whole folders.',
       start: 'Start',
     },
     common: {
@@ -51,7 +57,9 @@ export const translations = {
       result: 'Result',
       original: 'Original',
       refineLabel: 'Refine or Regenerate',
-      refinePlaceholder: 'Optional: Add instructions to refine the result (e.g., "make the smile bigger", "change the shirt color to red").'
+      refinePlaceholder: 'Optional: Add instructions to refine the result (e.g., "make the smile bigger", "change the shirt color to red").',
+      stop: 'Stop',
+      cancelled: 'Cancelled',
     },
     mediaLibrary: {
       title: 'Media Library',
@@ -62,10 +70,191 @@ export const translations = {
       deleteAll: 'Delete All',
       confirmDeleteAll: 'Are you sure you want to delete all images from the library? This action cannot be undone.',
       confirmDeleteSelected: 'Are you sure you want to delete the selected images?',
+      storageUsage: '{0} of {1} used',
+      storageError: 'The last image could not be saved. Browser storage may be full; delete some images and try again.',
+      details: 'Details',
+      closeDetails: 'Close details',
+      useInTool: 'Use in current tool',
+      tool: 'Tool',
+      unknownSource: 'Unknown',
+      createdAt: 'Created',
+      dimensions: 'Dimensions',
+      fileSize: 'File size',
+      model: 'Model',
+      prompt: 'Prompt',
+      instructions: 'Instructions',
+      inputs: 'Input images',
+      allImages: 'All images',
+      newAlbum: 'New album',
+      renameAlbum: 'Rename',
+      deleteAlbum: 'Delete album',
+      albumNamePrompt: 'Album name',
+      confirmDeleteAlbum: 'Delete this album? The images in it stay in the library.',
+      addToAlbum: 'Add to album…',
+      albums: 'Albums',
+      searchPlaceholder: 'Search prompts and tags…',
+      allTools: 'All tools',
+      allTags: 'All tags',
+      dateFrom: 'From date',
+      dateTo: 'To date',
+      favoritesOnly: 'Favourites only',
+      sortBy: 'Sort by',
+      sort: {
+        newest: 'Newest first',
+        oldest: 'Oldest first',
+        rating: 'Highest rated',
+        largest: 'Largest files',
+      },
+      noMatches: 'No images match the current filters.',
+      favorite: 'Favourite',
+      tags: 'Tags',
+      addTagPlaceholder: 'Add a tag and press Enter',
+      exportLibrary: 'Export',
+      importLibrary: 'Import',
+      importResult: 'Imported {0} images ({1} already in the library were skipped).',
+      importFailed: 'This file could not be imported. Choose a ZIP exported from the media library.',
+      operation: 'Operation',
+      lineage: 'Lineage',
+      showLineage: 'Show lineage',
+      backToLibrary: 'Back to library',
+      lineageChildren: 'Made from this image',
+      usedAs: 'as {0}',
+      untrackedInput: '{0} (not in library)',
+      rerunStep: 'Re-run this step',
+    },
+    queue: {
+      title: 'Generation Queue',
+      emptyMessage: 'No generation jobs are queued.',
+      running: 'Running',
+      pending: 'Waiting',
+      failed: 'Failed',
+      batch: 'Batch',
+      interactive: 'Interactive',
+      concurrency: 'Parallel requests',
+      requestsPerMinute: 'Requests per minute',
+      dismiss: 'Dismiss',
+      clearFailed: 'Clear failed',
+      activeCount: '{0} active',
+    },
+    sendTo: {
+      button: 'Send to…',
+      title: 'Send to tool',
+    },
+    toolSlots: {
+      person: 'Person',
+      outfit: 'Outfit',
+      object: 'Object',
+      background: 'Background',
+      product: 'Product',
+      design: 'Design',
+      mockup: 'Mockup',
+      source: 'Image',
+      character: 'Character',
+      concept: 'Concept',
+      pose: 'Pose',
+      face: 'Face',
+      target: 'Target',
+      palette: 'Palette',
+    },
+    batch: {
+      singleMode: 'Single image',
+      batchMode: 'Batch',
+      dropHint: 'Drop images or a whole folder here',
+      chooseFiles: 'Choose files',
+      chooseFolder: 'Choose folder',
+      noImages: 'No images found. Supported formats are PNG, JPEG and WebP.',
+      summary: '{0} of {1} done',
+      failedCount: '{0} failed',
+      start: 'Process all',
+      resume: 'Process remaining',
+      stop: 'Stop',
+      downloadZip: 'Download ZIP',
+      creatingZip: 'Creating ZIP...',
+      zipFailed: 'Could not create the ZIP file.',
+      clear: 'Clear',
+      remove: 'Remove from batch',
+    },
+    projects: {
+      title: 'Projects',
+      subtitle: 'Every tool session is saved as a project. Pick up where you left off, or share it as a file.',
+      empty: 'No projects yet. Open a tool and start working; your session is saved automatically.',
+      open: 'Open',
+      export: 'Export',
+      import: 'Import Project',
+      delete: 'Delete',
+      confirmDelete: 'Delete the project "{0}"? This cannot be undone.',
+      updatedAt: 'Updated {0}',
+      exportFailed: 'The project could not be exported.',
+      importFailed: 'The file could not be imported. Make sure it is a project exported from this app.',
+      name: 'Project name',
+      status: {
+        new: 'Not saved yet',
+        saving: 'Saving…',
+        saved: 'Saved',
+        failed: 'Could not save',
+      },
+    },
+    settings: {
+      title: 'Settings',
+      subtitle: 'Saved in this browser only. Changes apply right away.',
+      apiKeyTitle: 'API Key',
+      apiKeyDesc: 'Use your own Gemini API key instead of the one this app was built with. The key is stored in this browser and sent only to the model provider.',
+      apiKeyPlaceholder: 'Paste your API key',
+      showKey: 'Show',
+      hideKey: 'Hide',
+      saveKey: 'Save Key',
+      removeKey: 'Remove',
+      apiKeyStored: 'Using the key saved in this browser.',
+      apiKeyFromBuild: 'Using the key this app was built with.',
+      apiKeyMissing: 'No API key is set. Requests will fail until you add one.',
+      modelsTitle: 'Models',
+      modelsDesc: 'Choose the model behind each kind of task. Leave a field empty to use the default shown.',
+      capabilities: {
+        imageEdit: 'Image editing (photos in, image out)',
+        textToImage: 'Image generation from text',
+        text: 'Text and suggestions',
+      },
+      generationTitle: 'Generation Defaults',
+      generationDesc: 'How requests are scheduled and how results are saved.',
+      outputFormat: 'Output format',
+      formatHints: {
+        png: 'Lossless, keeps transparency. Largest files.',
+        jpeg: 'Smallest files. Transparent areas become white.',
+        webp: 'Small files that keep transparency.',
+      },
+      outputQuality: 'Quality: {0}%',
+      defaultAspectRatio: 'Default aspect ratio',
+      reset: 'Reset all settings',
+      confirmReset: 'Reset every setting, including your saved API key, to the defaults?',
+      apiKeyUnused: 'Not used while requests go through a backend server.',
+      backendTitle: 'Backend Server',
+      backendDesc: 'Send every request through a backend server that keeps the API key (see the server folder in the repository). Leave empty to call the model provider directly.',
+      backendPlaceholder: 'e.g. /api or https://example.com/api',
+      saveBackend: 'Save',
+      backendActive: 'Requests go through {0}.',
+      backendInactive: 'Requests go directly to the model provider.',
     },
     polaroid: {
       generationFailed: 'Generation Failed',
       uploadPhoto: 'Upload Photo',
+      previousCandidate: 'Previous candidate',
+      nextCandidate: 'Next candidate',
+      candidateCounter: '{0} / {1}',
+      discard: 'Discard this candidate',
+      discardHint: 'Discard this candidate (it stays in the Media Library)',
+      star: 'Star as the keeper',
+      unstar: 'Remove star',
+    },
+    errors: {
+      safety: 'The request was blocked by a safety filter. Try a different image or rephrase your instructions.',
+      noImage: 'The model did not return an image. Try again or adjust your instructions.',
+      quota: 'The API rate limit or quota was reached. Wait a minute and try again.',
+      network: 'Could not reach the AI service. Check your connection and try again.',
+      invalidInput: 'One of the images could not be read. Use a PNG, JPEG or WebP image.',
+      apiKey: 'The AI service did not accept the API key. Check the key in Settings.',
+      rejected: 'The AI service rejected the request. Try different instructions or settings.',
+      unknown: 'An unknown error occurred.',
+      cancelled: 'Cancelled.',
     },
     photoshoot: {
       subtitle: 'Generate dozens of different poses and angles from one photo.',
@@ -106,6 +295,7 @@ export const translations = {
       colorGrade: 'Color Grade',
       selectAll: 'Select All',
       clearSelection: 'Clear Selection',
+      editPresets: 'Edit Presets',
       generateButton: 'Generate Photos',
       generatingButton: 'Generating...',
       refineDesc: 'Your instructions will apply to any photos you regenerate.',
@@ -114,6 +304,13 @@ export const translations = {
       noImagesGeneratedError: 'No images have been successfully generated to create an album.',
       waitForAllImagesError: 'Please wait for all images to finish generating before creating an album.',
       zipCreationError: 'Failed to create ZIP file.',
+      noStarredImagesError: 'Star the photo you want to keep on each card first; only starred photos are exported.',
+      variationsPerStyle: 'Variations per style:',
+      createAlbumButton: 'Design Album Page',
+      creatingAlbumButton: 'Creating Album...',
+      albumCreationError: 'Failed to create the album page.',
+      starHint: 'Flip through each stack and star the keeper. Every candidate stays in the Media Library.',
+      discardUnstarred: 'Discard all unstarred candidates',
       angles: {
         eyeLevel: 'Eye-Level',
         lowAngle: 'Low Angle',
@@ -182,7 +379,118 @@ export const translations = {
         architectural_pose: 'Architectural Pose',
         lounging_elegantly: 'Lounging Elegantly',
         dramatic_gaze: 'Dramatic Gaze',
-      }
+      },
+      socialExportButton: 'Export for Social',
+    },
+    photoshootPresets: {
+      title: 'Photoshoot Presets',
+      subtitle: 'Write your own poses, camera angles and color grades. They are saved in this browser.',
+      tabs: {
+        styles: 'Poses & Styles',
+        cameraAngles: 'Camera Angles',
+        colorGrades: 'Color Grades',
+      },
+      hints: {
+        styles: 'Built-in categories can\'t be changed; duplicate one to get an editable copy, or start a new category.',
+        cameraAngles: 'The description is what the prompt asks for, e.g. "shot from a drone high above". Click the copy icon on a built-in angle to start from it.',
+        colorGrades: 'The description is what the prompt asks for, e.g. "faded Polaroid". Click the copy icon on a built-in grade to start from it.',
+      },
+      builtIn: 'Built-in',
+      duplicate: 'Duplicate',
+      delete: 'Delete',
+      add: 'Add',
+      addCategory: 'Add Category',
+      copyOf: '{0} (copy)',
+      idLabel: 'ID: {0}',
+      labelPlaceholder: 'Name shown on the chip',
+      categoryPlaceholder: 'New category name',
+      stylePromptPlaceholder: 'Prompt, e.g. "A full-body shot of the person from the original photo, ..."',
+      optionPromptPlaceholder: 'Description used in the prompt (defaults to the name)',
+      confirmDeleteCategory: 'Delete "{0}" and all of its styles?',
+      export: 'Export JSON',
+      import: 'Import JSON',
+      imported: 'Imported {0} presets.',
+      importFailed: 'That file is not a Photoshoot presets export.',
+    },
+    socialExport: {
+      title: 'Export for Social',
+      subtitle: 'Extend a starred photo to each platform\'s format with AI and download them as a ZIP with a folder per platform.',
+      chooseImage: 'Photo',
+      chooseFormats: 'Formats',
+      create: 'Create {0} Formats',
+      creating: 'Creating formats...',
+      retryFailed: 'Retry {0} Failed',
+      upscaled: 'Enlarged {0}× from the AI image; may look soft',
+      downloadZip: 'Download ZIP',
+      platforms: {
+        instagram: 'Instagram',
+        tiktok: 'TikTok',
+        youtube: 'YouTube',
+        facebook: 'Facebook',
+      },
+      formats: {
+        feedSquare: 'Feed (square)',
+        feedPortrait: 'Feed (portrait)',
+        story: 'Story',
+        videoCover: 'Video cover',
+        thumbnail: 'Thumbnail',
+        cover: 'Cover photo',
+      },
+    },
+    albumDesigner: {
+      title: 'Album Page',
+      subtitle: 'Choose a template for your starred photos. Pages are printed at 300 DPI; extra photos continue on new pages.',
+      layout: 'Layout',
+      layouts: {
+        grid: 'Grid',
+        collage: 'Collage',
+        magazine: 'Magazine spread',
+        filmstrip: 'Filmstrip',
+      },
+      pageSize: 'Page size',
+      pageSizes: {
+        a4: 'A4',
+        letter: 'Letter',
+        a5: 'A5',
+        square: 'Square 21 cm',
+      },
+      orientations: {
+        portrait: 'Portrait',
+        landscape: 'Landscape',
+      },
+      background: 'Background',
+      textures: {
+        none: 'Plain',
+        paper: 'Paper',
+        linen: 'Linen',
+        dots: 'Dots',
+      },
+      pageTitle: 'Title',
+      pageTitlePlaceholder: 'Title (optional)',
+      pageSubtitlePlaceholder: 'Subtitle (optional)',
+      fonts: 'Fonts',
+      titleFont: 'Title',
+      captionFont: 'Captions',
+      captions: 'Captions',
+      showCaptions: 'Show captions',
+      arrangement: 'Arrangement',
+      shuffle: 'Shuffle',
+      seedHint: 'The same number always tilts the photos the same way.',
+      pageCount: '{0} page(s)',
+      pageAlt: 'Album page {0}',
+      download: 'Download Page',
+      downloadPages: 'Download Pages (ZIP)',
+    },
+    pdfExport: {
+      bleed: 'Bleed',
+      noBleed: 'None',
+      bleedMm: '{0} mm',
+      cropMarks: 'Crop marks',
+      printSize: 'Print size',
+      inches: '{0} in',
+      download: 'Download PDF',
+      creating: 'Creating PDF...',
+      creationError: 'Failed to create the PDF.',
     },
     outfitExtractor: {
       subtitle: 'Extract the outfit from an image onto a clean background.',
@@ -264,6 +572,7 @@ export const translations = {
         removing: 'Removing...',
         removedResult: 'Result',
         removalFailed: 'Removal Failed',
+        batchHint: 'Upload a sample above and paint what to remove. The same area, scaled to each image, is removed from every file.',
     },
     backgroundRemover: {
         subtitle: 'Click on the subject you want to keep to remove the background.',
@@ -275,6 +584,39 @@ export const translations = {
         removalFailed: 'Removal Failed',
         instructions: 'Once your image is loaded, click on the main subject to remove the background.',
         result: 'Result',
+        batchHint: 'In batch mode the subject in the centre of each image is kept.',
+    },
+    faceSwap: {
+      subtitle: 'Swap a face from one photo onto a person in another.',
+      sourceFaceTitle: 'Face',
+      sourceFaceDesc: 'A clear photo of the face you want to use.',
+      targetImageTitle: 'Target Photo',
+      targetImageDesc: 'The photo whose face will be replaced.',
+      dropImage: 'Drop an image here',
+      clickToUpload: 'or click to select a file',
+      maskTitle: 'Which face? (optional)',
+      maskDesc: 'If the target photo shows several people, paint over the face to replace. Otherwise the main face is used.',
+      brushSize: 'Brush Size',
+      clearMask: 'Clear',
+      generateButton: 'Swap Faces',
+      generatingButton: 'Swapping...',
+      generationFailed: 'Face Swap Failed',
+      originalFace: 'Face',
+      targetImage: 'Target Photo',
+    },
+    colorPaletteSwap: {
+      subtitle: 'Recolor an image using the colors of another.',
+      originalImageTitle: 'Original Image',
+      originalImageDesc: 'The image you want to recolor.',
+      paletteImageTitle: 'Palette Image',
+      paletteImageDesc: 'An image whose colors will be applied.',
+      dropImage: 'Drop an image here',
+      clickToUpload: 'or click to select a file',
+      generateButton: 'Swap Palette',
+      generatingButton: 'Recoloring...',
+      generationFailed: 'Recoloring Failed',
+      paletteImage: 'Palette',
+      recoloredImage: 'Recolored Image',
     },
     portraitGenerator: {
       subtitle: 'Create professional ID photos from any picture.',
@@ -435,6 +777,7 @@ export const translations = {
       processingLayers: 'Processing Layers...',
       resultTitle: 'Move your mouse over the image',
       generationFailed: 'Generation Failed',
+      batchHint: 'Batch mode exports the depth map of each image.',
     },
     productSceneGenerator: {
       subtitle: 'Generate multiple angles and scenes from a single product photo.',
@@ -500,6 +843,116 @@ export const translations = {
       generationFailed: 'Illustration Failed',
       originalPhrase: 'Original Phrase',
     },
+    pipeline: {
+      subtitle: 'Chain tools into a reusable workflow and run it on one photo or a whole folder.',
+      starterName: 'Studio photoshoot from one photo',
+      workflowName: 'Workflow name',
+      newWorkflow: 'New from starter',
+      confirmNew: 'Replace the current workflow with the starter workflow?',
+      exportWorkflow: 'Export JSON',
+      importWorkflow: 'Import JSON',
+      loadFailed: 'That file is not a workflow this version can open.',
+      canvasHint: 'Drag from an output dot to an input to connect nodes. Click a connection to remove it.',
+      edgeHint: 'Drag to an input to connect',
+      removeEdge: 'Remove connection',
+      removeNode: 'Remove node',
+      optional: '(optional)',
+      chooseImage: 'Choose an image',
+      inputImage: 'Input image',
+      inputNotNeeded: 'This workflow does not use an input image.',
+      run: 'Run',
+      runFolder: 'Run on folder',
+      stop: 'Stop',
+      runName: 'Run {0}',
+      noImagesInFolder: 'No images were found in that folder.',
+      runs: 'Runs',
+      progress: '{0}/{1} nodes',
+      retry: 'Retry',
+      retryFailed: 'Retry failed',
+      results: 'Results',
+      downloadAll: 'Download all (ZIP)',
+      creatingZip: 'Creating ZIP...',
+      zipFailed: 'Could not create the ZIP file.',
+      categories: {
+        source: 'Sources',
+        generation: 'Generation',
+        utility: 'Utilities',
+        output: 'Output',
+      },
+      nodes: {
+        input: 'Input Image',
+        image: 'Fixed Image',
+        text: 'Text',
+        json: 'JSON',
+        removeBackground: 'Remove Background',
+        extractOutfit: 'Extract Outfit',
+        backgroundFromConcept: 'Background from Concept',
+        studioPose: 'Studio Pose',
+        styledImage: 'Styled Image',
+        cloneEffect: 'Clone Effect',
+        photoBooth: 'Photo Booth',
+        swapFaces: 'Swap Faces',
+        recolor: 'Recolor with Palette',
+        depthMap: 'Depth Map',
+        productMockup: 'Product Mockup',
+        apparelMockup: 'Apparel Mockup',
+        graphicFromPrompt: 'Graphic from Prompt',
+        imageFromPrompt: 'Image from Prompt',
+        typography: 'Typographic Illustration',
+        conceptSuggestions: 'Concept Suggestions',
+        resize: 'Resize to Ratio',
+        crop: 'Crop to Ratio',
+        printSheet: 'Print Sheet',
+        jsonField: 'JSON Field',
+        output: 'Output',
+      },
+      ports: {
+        image: 'Image',
+        instructions: 'Instructions',
+        concept: 'Concept',
+        character: 'Character',
+        background: 'Background',
+        outfit: 'Outfit',
+        reference: 'Reference',
+        target: 'Target',
+        face: 'Face',
+        palette: 'Palette',
+        design: 'Design',
+        product: 'Product',
+        prompt: 'Prompt',
+        phrase: 'Phrase',
+        text: 'Text',
+        json: 'JSON',
+      },
+      params: {
+        image: 'Image',
+        text: 'Text',
+        json: 'JSON',
+        x: 'Subject X (%)',
+        y: 'Subject Y (%)',
+        pose: 'Pose',
+        prompt: 'Prompt',
+        count: 'Photos',
+        ratio: 'Aspect ratio',
+        widthCm: 'Width (cm)',
+        heightCm: 'Height (cm)',
+        path: 'Field path',
+        label: 'File name',
+      },
+      issues: {
+        noOutput: 'Add an Output node to collect results.',
+        unknownNode: '{0}: unknown node type.',
+        missingInput: '{0}: connect the "{1}" input.',
+      },
+      status: {
+        pending: 'Waiting',
+        running: 'Running',
+        done: 'Done',
+        error: 'Failed',
+        cancelled: 'Cancelled',
+        blocked: 'Blocked',
+      },
+    },
   },
   vi: {
     app: {
@@ -535,6 +988,12 @@ export const translations = {
       backgroundRemoverDesc: 'Xóa nền khỏi hình ảnh chỉ bằng một cú nhấp chuột.',
       depthEffectTitle: 'Hiệu ứng Chiều sâu 3D',
       depthEffectDesc: 'Thêm hiệu ứng thị sai 3D vào ảnh của bạn.',
+      faceSwapTitle: 'Hoán đổi khuôn mặt',
+      faceSwapDesc: 'Ghép khuôn mặt từ một ảnh lên người trong ảnh khác.',
+      colorPaletteSwapTitle: 'Đổi bảng màu',
+      colorPaletteSwapDesc: 'Tô màu lại ảnh theo bảng màu của một ảnh khác.',
+      pipelineBuilderTitle: 'Trình tạo quy trình',
+      pipelineBuilderDesc: 'Nối các công cụ thành quy trình và chạy trên cả thư mục.',
       start: 'Bắt đầu',
     },
     common: {
@@ -549,7 +1008,9 @@ export const translations = {
       result: 'Kết quả',
       original: 'Gốc',
       refineLabel: 'Tinh chỉnh hoặc Tạo lại',
-      refinePlaceholder: 'Tùy chọn: Thêm hướng dẫn để tinh chỉnh kết quả (ví dụ: "làm cho nụ cười lớn hơn", "đổi màu áo thành màu đỏ").'
+      refinePlaceholder: 'Tùy chọn: Thêm hướng dẫn để tinh chỉnh kết quả (ví dụ: "làm cho nụ cười lớn hơn", "đổi màu áo thành màu đỏ").',
+      stop: 'Dừng',
+      cancelled: 'Đã hủy',
     },
     mediaLibrary: {
       title: 'Thư viện Media',
@@ -560,10 +1021,191 @@ export const translations = {
       deleteAll: 'Xóa tất cả',
       confirmDeleteAll: 'Bạn có chắc muốn xóa tất cả ảnh khỏi thư viện không? Hành động này không thể hoàn tác.',
       confirmDeleteSelected: 'Bạn có chắc muốn xóa các ảnh đã chọn không?',
+      storageUsage: 'Đã dùng {0} / {1}',
+      storageError: 'Không thể lưu ảnh gần nhất. Bộ nhớ trình duyệt có thể đã đầy; hãy xóa bớt ảnh và thử lại.',
+      details: 'Chi tiết',
+      closeDetails: 'Đóng chi tiết',
+      useInTool: 'Dùng trong công cụ hiện tại',
+      tool: 'Công cụ',
+      unknownSource: 'Không rõ',
+      createdAt: 'Ngày tạo',
+      dimensions: 'Kích thước',
+      fileSize: 'Dung lượng',
+      model: 'Mô hình',
+      prompt: 'Câu lệnh',
+      instructions: 'Hướng dẫn',
+      inputs: 'Ảnh đầu vào',
+      allImages: 'Tất cả ảnh',
+      newAlbum: 'Album mới',
+      renameAlbum: 'Đổi tên',
+      deleteAlbum: 'Xóa album',
+      albumNamePrompt: 'Tên album',
+      confirmDeleteAlbum: 'Xóa album này? Các ảnh trong album vẫn được giữ trong thư viện.',
+      addToAlbum: 'Thêm vào album…',
+      albums: 'Album',
+      searchPlaceholder: 'Tìm theo câu lệnh và thẻ…',
+      allTools: 'Tất cả công cụ',
+      allTags: 'Tất cả thẻ',
+      dateFrom: 'Từ ngày',
+      dateTo: 'Đến ngày',
+      favoritesOnly: 'Chỉ ảnh yêu thích',
+      sortBy: 'Sắp xếp theo',
+      sort: {
+        newest: 'Mới nhất',
+        oldest: 'Cũ nhất',
+        rating: 'Đánh giá cao nhất',
+        largest: 'Dung lượng lớn nhất',
+      },
+      noMatches: 'Không có ảnh nào khớp với bộ lọc hiện tại.',
+      favorite: 'Yêu thích',
+      tags: 'Thẻ',
+      addTagPlaceholder: 'Nhập thẻ rồi nhấn Enter',
+      exportLibrary: 'Xuất',
+      importLibrary: 'Nhập',
+      importResult: 'Đã nhập {0} ảnh (bỏ qua {1} ảnh đã có trong thư viện).',
+      importFailed: 'Không thể nhập tệp này. Hãy chọn tệp ZIP được xuất từ thư viện.',
+      operation: 'Thao tác',
+      lineage: 'Nguồn gốc',
+      showLineage: 'Xem nguồn gốc',
+      backToLibrary: 'Quay lại thư viện',
+      lineageChildren: 'Được tạo từ ảnh này',
+      usedAs: 'làm {0}',
+      untrackedInput: '{0} (không có trong thư viện)',
+      rerunStep: 'Chạy lại bước này',
+    },
+    queue: {
+      title: 'Hàng đợi tạo ảnh',
+      emptyMessage: 'Không có tác vụ nào trong hàng đợi.',
+      running: 'Đang chạy',
+      pending: 'Đang chờ',
+      failed: 'Thất bại',
+      batch: 'Hàng loạt',
+      interactive: 'Tương tác',
+      concurrency: 'Số yêu cầu song song',
+      requestsPerMinute: 'Số yêu cầu mỗi phút',
+      dismiss: 'Bỏ qua',
+      clearFailed: 'Xóa tác vụ lỗi',
+      activeCount: '{0} đang xử lý',
+    },
+    sendTo: {
+      button: 'Gửi tới…',
+      title: 'Gửi tới công cụ',
+    },
+    toolSlots: {
+      person: 'Người mẫu',
+      outfit: 'Trang phục',
+      object: 'Đồ vật',
+      background: 'Bối cảnh',
+      product: 'Sản phẩm',
+      design: 'Thiết kế',
+      mockup: 'Mockup',
+      source: 'Ảnh',
+      character: 'Nhân vật',
+      concept: 'Concept',
+      pose: 'Tư thế',
+      face: 'Khuôn mặt',
+      target: 'Ảnh đích',
+      palette: 'Bảng màu',
+    },
+    batch: {
+      singleMode: 'Một ảnh',
+      batchMode: 'Hàng loạt',
+      dropHint: 'Thả ảnh hoặc cả thư mục vào đây',
+      chooseFiles: 'Chọn tệp',
+      chooseFolder: 'Chọn thư mục',
+      noImages: 'Không tìm thấy ảnh. Hỗ trợ định dạng PNG, JPEG và WebP.',
+      summary: 'Đã xong {0}/{1}',
+      failedCount: '{0} lỗi',
+      start: 'Xử lý tất cả',
+      resume: 'Xử lý phần còn lại',
+      stop: 'Dừng',
+      downloadZip: 'Tải ZIP',
+      creatingZip: 'Đang tạo ZIP...',
+      zipFailed: 'Không thể tạo tệp ZIP.',
+      clear: 'Xóa hết',
+      remove: 'Bỏ khỏi lô',
+    },
+    projects: {
+      title: 'Dự án',
+      subtitle: 'Mỗi phiên làm việc với công cụ được lưu thành một dự án. Tiếp tục từ chỗ bạn dừng lại, hoặc chia sẻ dưới dạng tệp.',
+      empty: 'Chưa có dự án nào. Hãy mở một công cụ và bắt đầu; phiên làm việc của bạn sẽ được lưu tự động.',
+      open: 'Mở',
+      export: 'Xuất',
+      import: 'Nhập dự án',
+      delete: 'Xóa',
+      confirmDelete: 'Xóa dự án "{0}"? Thao tác này không thể hoàn tác.',
+      updatedAt: 'Cập nhật {0}',
+      exportFailed: 'Không thể xuất dự án.',
+      importFailed: 'Không thể nhập tệp. Hãy chắc chắn đây là dự án được xuất từ ứng dụng này.',
+      name: 'Tên dự án',
+      status: {
+        new: 'Chưa lưu',
+        saving: 'Đang lưu…',
+        saved: 'Đã lưu',
+        failed: 'Không thể lưu',
+      },
+    },
+    settings: {
+      title: 'Cài đặt',
+      subtitle: 'Chỉ lưu trong trình duyệt này. Thay đổi được áp dụng ngay.',
+      apiKeyTitle: 'Khóa API',
+      apiKeyDesc: 'Dùng khóa Gemini API của riêng bạn thay cho khóa được tích hợp khi build ứng dụng. Khóa được lưu trong trình duyệt này và chỉ gửi tới nhà cung cấp mô hình.',
+      apiKeyPlaceholder: 'Dán khóa API của bạn',
+      showKey: 'Hiện',
+      hideKey: 'Ẩn',
+      saveKey: 'Lưu khóa',
+      removeKey: 'Xóa',
+      apiKeyStored: 'Đang dùng khóa đã lưu trong trình duyệt này.',
+      apiKeyFromBuild: 'Đang dùng khóa được tích hợp khi build ứng dụng.',
+      apiKeyMissing: 'Chưa có khóa API. Các yêu cầu sẽ thất bại cho đến khi bạn thêm khóa.',
+      modelsTitle: 'Mô hình',
+      modelsDesc: 'Chọn mô hình cho từng loại tác vụ. Để trống để dùng mô hình mặc định được hiển thị.',
+      capabilities: {
+        imageEdit: 'Chỉnh sửa ảnh (ảnh vào, ảnh ra)',
+        textToImage: 'Tạo ảnh từ văn bản',
+        text: 'Văn bản và gợi ý',
+      },
+      generationTitle: 'Mặc định khi tạo ảnh',
+      generationDesc: 'Cách sắp xếp các yêu cầu và cách lưu kết quả.',
+      outputFormat: 'Định dạng đầu ra',
+      formatHints: {
+        png: 'Không mất dữ liệu, giữ nền trong suốt. Tệp lớn nhất.',
+        jpeg: 'Tệp nhỏ nhất. Vùng trong suốt sẽ thành màu trắng.',
+        webp: 'Tệp nhỏ và vẫn giữ nền trong suốt.',
+      },
+      outputQuality: 'Chất lượng: {0}%',
+      defaultAspectRatio: 'Tỷ lệ khung hình mặc định',
+      reset: 'Đặt lại toàn bộ cài đặt',
+      confirmReset: 'Đặt lại mọi cài đặt, kể cả khóa API đã lưu, về mặc định?',
+      apiKeyUnused: 'Không được dùng khi yêu cầu đi qua máy chủ backend.',
+      backendTitle: 'Máy chủ backend',
+      backendDesc: 'Gửi mọi yêu cầu qua một máy chủ backend giữ khóa API (xem thư mục server trong kho mã). Để trống để gọi trực tiếp nhà cung cấp mô hình.',
+      backendPlaceholder: 'ví dụ /api hoặc https://example.com/api',
+      saveBackend: 'Lưu',
+      backendActive: 'Yêu cầu được gửi qua {0}.',
+      backendInactive: 'Yêu cầu được gửi trực tiếp tới nhà cung cấp mô hình.',
     },
     polaroid: {
       generationFailed: 'Tạo ảnh thất bại',
       uploadPhoto: 'Tải ảnh lên',
+      previousCandidate: 'Phương án trước',
+      nextCandidate: 'Phương án tiếp theo',
+      candidateCounter: '{0} / {1}',
+      discard: 'Bỏ phương án này',
+      discardHint: 'Bỏ phương án này (ảnh vẫn còn trong Thư viện Media)',
+      star: 'Gắn sao để giữ lại',
+      unstar: 'Bỏ gắn sao',
+    },
+    errors: {
+      safety: 'Yêu cầu đã bị bộ lọc an toàn chặn. Hãy thử ảnh khác hoặc diễn đạt lại hướng dẫn.',
+      noImage: 'Mô hình không trả về ảnh nào. Hãy thử lại hoặc điều chỉnh hướng dẫn.',
+      quota: 'Đã đạt giới hạn tốc độ hoặc hạn mức API. Vui lòng đợi một phút rồi thử lại.',
+      network: 'Không thể kết nối tới dịch vụ AI. Kiểm tra kết nối mạng rồi thử lại.',
+      invalidInput: 'Không đọc được một trong các ảnh. Hãy dùng ảnh PNG, JPEG hoặc WebP.',
+      apiKey: 'Dịch vụ AI không chấp nhận khóa API. Hãy kiểm tra khóa trong phần Cài đặt.',
+      rejected: 'Dịch vụ AI đã từ chối yêu cầu. Hãy thử hướng dẫn hoặc cài đặt khác.',
+      unknown: 'Đã xảy ra lỗi không xác định.',
+      cancelled: 'Đã hủy.',
     },
     photoshoot: {
       subtitle: 'Tạo hàng chục tư thế và góc độ khác nhau từ một bức ảnh.',
@@ -604,6 +1246,7 @@ export const translations = {
       colorGrade: 'Chỉnh màu',
       selectAll: 'Chọn tất cả',
       clearSelection: 'Xóa lựa chọn',
+      editPresets: 'Sửa preset',
       generateButton: 'Tạo ảnh',
       generatingButton: 'Đang tạo...',
       refineDesc: 'Hướng dẫn của bạn sẽ áp dụng cho bất kỳ ảnh nào bạn tạo lại.',
@@ -612,6 +1255,13 @@ export const translations = {
       noImagesGeneratedError: 'Chưa có hình ảnh nào được tạo thành công để tạo album.',
       waitForAllImagesError: 'Vui lòng đợi tất cả hình ảnh tạo xong trước khi tạo album.',
       zipCreationError: 'Không thể tạo tệp ZIP.',
+      noStarredImagesError: 'Hãy gắn sao cho ảnh bạn muốn giữ trên mỗi thẻ trước; chỉ ảnh được gắn sao mới được xuất.',
+      variationsPerStyle: 'Số phương án mỗi kiểu:',
+      createAlbumButton: 'Thiết kế trang album',
+      creatingAlbumButton: 'Đang tạo album...',
+      albumCreationError: 'Không thể tạo trang album.',
+      starHint: 'Lật qua từng chồng ảnh và gắn sao cho ảnh muốn giữ. Mọi phương án vẫn được lưu trong Thư viện Media.',
+      discardUnstarred: 'Bỏ tất cả phương án chưa gắn sao',
       angles: {
         eyeLevel: 'Ngang tầm mắt',
         lowAngle: 'Góc thấp',
@@ -680,7 +1330,118 @@ export const translations = {
         architectural_pose: 'Tạo dáng kiến trúc',
         lounging_elegantly: 'Nằm/ngồi thanh lịch',
         dramatic_gaze: 'Ánh nhìn kịch tính',
-      }
+      },
+      socialExportButton: 'Xuất cho mạng xã hội',
+    },
+    photoshootPresets: {
+      title: 'Preset chụp ảnh',
+      subtitle: 'Tự viết tư thế, góc máy và tông màu của bạn. Chúng được lưu trong trình duyệt này.',
+      tabs: {
+        styles: 'Tư thế & Phong cách',
+        cameraAngles: 'Góc máy',
+        colorGrades: 'Tông màu',
+      },
+      hints: {
+        styles: 'Không thể sửa các danh mục có sẵn; hãy nhân bản để có bản sao chỉnh sửa được, hoặc tạo danh mục mới.',
+        cameraAngles: 'Mô tả là nội dung được đưa vào prompt, ví dụ "chụp từ flycam trên cao". Nhấn biểu tượng sao chép trên một góc máy có sẵn để bắt đầu từ nó.',
+        colorGrades: 'Mô tả là nội dung được đưa vào prompt, ví dụ "Polaroid phai màu". Nhấn biểu tượng sao chép trên một tông màu có sẵn để bắt đầu từ nó.',
+      },
+      builtIn: 'Có sẵn',
+      duplicate: 'Nhân bản',
+      delete: 'Xóa',
+      add: 'Thêm',
+      addCategory: 'Thêm danh mục',
+      copyOf: '{0} (bản sao)',
+      idLabel: 'ID: {0}',
+      labelPlaceholder: 'Tên hiển thị trên nút',
+      categoryPlaceholder: 'Tên danh mục mới',
+      stylePromptPlaceholder: 'Prompt, ví dụ "A full-body shot of the person from the original photo, ..."',
+      optionPromptPlaceholder: 'Mô tả dùng trong prompt (mặc định là tên)',
+      confirmDeleteCategory: 'Xóa "{0}" cùng tất cả phong cách trong đó?',
+      export: 'Xuất JSON',
+      import: 'Nhập JSON',
+      imported: 'Đã nhập {0} preset.',
+      importFailed: 'Tệp này không phải là bản xuất preset chụp ảnh.',
+    },
+    socialExport: {
+      title: 'Xuất cho mạng xã hội',
+      subtitle: 'Dùng AI mở rộng ảnh đã gắn sao theo định dạng của từng nền tảng và tải về dưới dạng ZIP, mỗi nền tảng một thư mục.',
+      chooseImage: 'Ảnh',
+      chooseFormats: 'Định dạng',
+      create: 'Tạo {0} định dạng',
+      creating: 'Đang tạo định dạng...',
+      retryFailed: 'Thử lại {0} định dạng lỗi',
+      upscaled: 'Đã phóng to {0}× từ ảnh AI; có thể hơi mờ',
+      downloadZip: 'Tải ZIP',
+      platforms: {
+        instagram: 'Instagram',
+        tiktok: 'TikTok',
+        youtube: 'YouTube',
+        facebook: 'Facebook',
+      },
+      formats: {
+        feedSquare: 'Bảng tin (vuông)',
+        feedPortrait: 'Bảng tin (dọc)',
+        story: 'Tin (Story)',
+        videoCover: 'Ảnh bìa video',
+        thumbnail: 'Ảnh thu nhỏ',
+        cover: 'Ảnh bìa',
+      },
+    },
+    albumDesigner: {
+      title: 'Trang album',
+      subtitle: 'Chọn mẫu cho các ảnh đã gắn sao. Trang được in ở 300 DPI; ảnh dư sẽ tiếp tục sang trang mới.',
+      layout: 'Bố cục',
+      layouts: {
+        grid: 'Lưới',
+        collage: 'Ghép ảnh',
+        magazine: 'Trang tạp chí',
+        filmstrip: 'Cuộn phim',
+      },
+      pageSize: 'Khổ giấy',
+      pageSizes: {
+        a4: 'A4',
+        letter: 'Letter',
+        a5: 'A5',
+        square: 'Vuông 21 cm',
+      },
+      orientations: {
+        portrait: 'Dọc',
+        landscape: 'Ngang',
+      },
+      background: 'Nền',
+      textures: {
+        none: 'Trơn',
+        paper: 'Giấy',
+        linen: 'Vải lanh',
+        dots: 'Chấm bi',
+      },
+      pageTitle: 'Tiêu đề',
+      pageTitlePlaceholder: 'Tiêu đề (tùy chọn)',
+      pageSubtitlePlaceholder: 'Phụ đề (tùy chọn)',
+      fonts: 'Phông chữ',
+      titleFont: 'Tiêu đề',
+      captionFont: 'Chú thích',
+      captions: 'Chú thích',
+      showCaptions: 'Hiển thị chú thích',
+      arrangement: 'Sắp đặt',
+      shuffle: 'Xáo trộn',
+      seedHint: 'Cùng một số sẽ luôn xoay ảnh theo cùng một cách.',
+      pageCount: '{0} trang',
+      pageAlt: 'Trang album {0}',
+      download: 'Tải trang',
+      downloadPages: 'Tải các trang (ZIP)',
+    },
+    pdfExport: {
+      bleed: 'Tràn lề',
+      noBleed: 'Không',
+      bleedMm: '{0} mm',
+      cropMarks: 'Dấu cắt',
+      printSize: 'Kích thước in',
+      inches: '{0} inch',
+      download: 'Tải PDF',
+      creating: 'Đang tạo PDF...',
+      creationError: 'Không thể tạo tệp PDF.',
     },
     outfitExtractor: {
       subtitle: 'Tách trang phục từ hình ảnh ra một nền sạch.',
@@ -762,6 +1523,7 @@ export const translations = {
         removing: 'Đang xóa...',
         removedResult: 'Kết quả',
         removalFailed: 'Xóa thất bại',
+        batchHint: 'Tải ảnh mẫu lên phía trên và tô vùng cần xóa. Cùng vùng đó, co giãn theo từng ảnh, sẽ được xóa khỏi mọi tệp.',
     },
     backgroundRemover: {
         subtitle: 'Nhấp vào đối tượng bạn muốn giữ lại để xóa nền.',
@@ -773,6 +1535,39 @@ export const translations = {
         removalFailed: 'Xóa thất bại',
         instructions: 'Sau khi ảnh của bạn được tải lên, hãy nhấp vào đối tượng chính để xóa nền.',
         result: 'Kết quả',
+        batchHint: 'Ở chế độ hàng loạt, chủ thể ở giữa mỗi ảnh sẽ được giữ lại.',
+    },
+    faceSwap: {
+      subtitle: 'Ghép khuôn mặt từ một ảnh lên người trong ảnh khác.',
+      sourceFaceTitle: 'Khuôn mặt',
+      sourceFaceDesc: 'Ảnh rõ nét của khuôn mặt bạn muốn dùng.',
+      targetImageTitle: 'Ảnh đích',
+      targetImageDesc: 'Ảnh có khuôn mặt sẽ được thay thế.',
+      dropImage: 'Thả ảnh vào đây',
+      clickToUpload: 'hoặc nhấp để chọn tệp',
+      maskTitle: 'Khuôn mặt nào? (tùy chọn)',
+      maskDesc: 'Nếu ảnh đích có nhiều người, hãy tô lên khuôn mặt cần thay. Nếu không, khuôn mặt chính sẽ được dùng.',
+      brushSize: 'Cỡ cọ',
+      clearMask: 'Xóa',
+      generateButton: 'Hoán đổi khuôn mặt',
+      generatingButton: 'Đang hoán đổi...',
+      generationFailed: 'Hoán đổi khuôn mặt thất bại',
+      originalFace: 'Khuôn mặt',
+      targetImage: 'Ảnh đích',
+    },
+    colorPaletteSwap: {
+      subtitle: 'Tô màu lại ảnh theo màu sắc của một ảnh khác.',
+      originalImageTitle: 'Ảnh gốc',
+      originalImageDesc: 'Ảnh bạn muốn tô màu lại.',
+      paletteImageTitle: 'Ảnh bảng màu',
+      paletteImageDesc: 'Ảnh có màu sắc sẽ được áp dụng.',
+      dropImage: 'Thả ảnh vào đây',
+      clickToUpload: 'hoặc nhấp để chọn tệp',
+      generateButton: 'Đổi bảng màu',
+      generatingButton: 'Đang tô màu...',
+      generationFailed: 'Tô màu lại thất bại',
+      paletteImage: 'Bảng màu',
+      recoloredImage: 'Ảnh đã tô màu',
     },
     portraitGenerator: {
       subtitle: 'Tạo ảnh thẻ chuyên nghiệp từ bất kỳ bức ảnh nào.',
@@ -933,6 +1728,7 @@ export const translations = {
       processingLayers: 'Đang xử lý các lớp...',
       resultTitle: 'Di chuyển chuột của bạn trên hình ảnh',
       generationFailed: 'Tạo ảnh thất bại',
+      batchHint: 'Chế độ hàng loạt xuất bản đồ độ sâu của từng ảnh.',
     },
     productSceneGenerator: {
       subtitle: 'Tạo nhiều góc độ và cảnh khác nhau từ một bức ảnh sản phẩm duy nhất.',
@@ -998,5 +1794,115 @@ export const translations = {
       generationFailed: 'Tạo hình thất bại',
       originalPhrase: 'Cụm từ gốc',
     },
+    pipeline: {
+      subtitle: 'Nối các công cụ thành quy trình dùng lại được và chạy trên một ảnh hoặc cả thư mục.',
+      starterName: 'Chụp ảnh studio từ một bức ảnh',
+      workflowName: 'Tên quy trình',
+      newWorkflow: 'Tạo mới từ mẫu',
+      confirmNew: 'Thay quy trình hiện tại bằng quy trình mẫu?',
+      exportWorkflow: 'Xuất JSON',
+      importWorkflow: 'Nhập JSON',
+      loadFailed: 'Tệp này không phải quy trình mà phiên bản này mở được.',
+      canvasHint: 'Kéo từ chấm đầu ra tới một đầu vào để nối các nút. Nhấp vào đường nối để xóa.',
+      edgeHint: 'Kéo tới một đầu vào để nối',
+      removeEdge: 'Xóa đường nối',
+      removeNode: 'Xóa nút',
+      optional: '(tùy chọn)',
+      chooseImage: 'Chọn ảnh',
+      inputImage: 'Ảnh đầu vào',
+      inputNotNeeded: 'Quy trình này không dùng ảnh đầu vào.',
+      run: 'Chạy',
+      runFolder: 'Chạy trên thư mục',
+      stop: 'Dừng',
+      runName: 'Lần chạy {0}',
+      noImagesInFolder: 'Không tìm thấy ảnh nào trong thư mục đó.',
+      runs: 'Các lần chạy',
+      progress: '{0}/{1} nút',
+      retry: 'Thử lại',
+      retryFailed: 'Thử lại phần lỗi',
+      results: 'Kết quả',
+      downloadAll: 'Tải tất cả (ZIP)',
+      creatingZip: 'Đang tạo ZIP...',
+      zipFailed: 'Không thể tạo tệp ZIP.',
+      categories: {
+        source: 'Nguồn',
+        generation: 'Tạo ảnh',
+        utility: 'Tiện ích',
+        output: 'Đầu ra',
+      },
+      nodes: {
+        input: 'Ảnh đầu vào',
+        image: 'Ảnh cố định',
+        text: 'Văn bản',
+        json: 'JSON',
+        removeBackground: 'Xóa nền',
+        extractOutfit: 'Tách trang phục',
+        backgroundFromConcept: 'Nền từ ý tưởng',
+        studioPose: 'Tư thế studio',
+        styledImage: 'Ảnh theo phong cách',
+        cloneEffect: 'Hiệu ứng nhân bản',
+        photoBooth: 'Photo Booth',
+        swapFaces: 'Hoán đổi khuôn mặt',
+        recolor: 'Tô màu theo bảng màu',
+        depthMap: 'Bản đồ độ sâu',
+        productMockup: 'Mockup sản phẩm',
+        apparelMockup: 'Mockup trang phục',
+        graphicFromPrompt: 'Đồ họa từ mô tả',
+        imageFromPrompt: 'Ảnh từ mô tả',
+        typography: 'Minh họa chữ',
+        conceptSuggestions: 'Gợi ý ý tưởng',
+        resize: 'Đổi tỷ lệ',
+        crop: 'Cắt theo tỷ lệ',
+        printSheet: 'Trang in',
+        jsonField: 'Trường JSON',
+        output: 'Đầu ra',
+      },
+      ports: {
+        image: 'Ảnh',
+        instructions: 'Hướng dẫn',
+        concept: 'Ý tưởng',
+        character: 'Nhân vật',
+        background: 'Nền',
+        outfit: 'Trang phục',
+        reference: 'Tham chiếu',
+        target: 'Ảnh đích',
+        face: 'Khuôn mặt',
+        palette: 'Bảng màu',
+        design: 'Thiết kế',
+        product: 'Sản phẩm',
+        prompt: 'Mô tả',
+        phrase: 'Cụm từ',
+        text: 'Văn bản',
+        json: 'JSON',
+      },
+      params: {
+        image: 'Ảnh',
+        text: 'Văn bản',
+        json: 'JSON',
+        x: 'Chủ thể X (%)',
+        y: 'Chủ thể Y (%)',
+        pose: 'Tư thế',
+        prompt: 'Mô tả',
+        count: 'Số ảnh',
+        ratio: 'Tỷ lệ khung hình',
+        widthCm: 'Rộng (cm)',
+        heightCm: 'Cao (cm)',
+        path: 'Đường dẫn trường',
+        label: 'Tên tệp',
+      },
+      issues: {
+        noOutput: 'Thêm một nút Đầu ra để thu kết quả.',
+        unknownNode: '{0}: loại nút không xác định.',
+        missingInput: '{0}: hãy nối đầu vào "{1}".',
+      },
+      status: {
+        pending: 'Đang chờ',
+        running: 'Đang chạy',
+        done: 'Xong',
+        error: 'Lỗi',
+        cancelled: 'Đã hủy',
+        blocked: 'Bị chặn',
+      },
+    },
   },
 };
\ No newline at end of file
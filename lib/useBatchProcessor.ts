@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useEffect, useRef, useState } from 'react';
+import JSZip from 'jszip';
+import { GenerationOptions } from '../services/geminiService';
+import { getQueueConfig } from '../services/generationQueue';
+import { classifyError, GenerationError } from '../services/errors';
+import { useGenerationController } from './useGenerationController';
+import { blobToDataUrl, createImageId, dataUrlToBlob } from './mediaStore';
+
+export const PROCESSING_MODES = ['single', 'batch'] as const;
+export type ProcessingMode = typeof PROCESSING_MODES[number];
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+    id: string;
+    file: File;
+    /** The file's path inside the picked folder, or just its name; kept for the ZIP. */
+    name: string;
+    /** Object URL of the original file, for the progress grid. */
+    preview: string;
+    status: BatchItemStatus;
+    /** The finished image, kept as a blob so a large batch doesn't hold every result as a base64 string. */
+    result?: Blob;
+    /** Object URL of `result`, for the progress grid. */
+    resultUrl?: string;
+    error?: GenerationError;
+}
+
+/** Turns one source image into one result, with the tool's current settings. */
+export type BatchProcess = (source: string, options: GenerationOptions) => Promise<string>;
+
+// 'shoots/IMG_0042.jpg' + a PNG result -> 'shoots/IMG_0042.png'
+const resultFileName = (name: string, mimeType: string) => {
+    const extension = mimeType.split('/')[1] || 'png';
+    return `${name.replace(/\.[^./]+$/, '')}.${extension}`;
+};
+
+/**
+ * Runs a tool over many files with the same settings. Items go through the shared generation
+ * queue at batch priority, so a single interactive request still jumps ahead. Only a few files
+ * are read into memory at a time: enough to keep the queue busy, not the whole folder.
+ */
+export function useBatchProcessor(process: BatchProcess) {
+    const { getSignal, cancel } = useGenerationController();
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+
+    // The latest settings are picked up by items that haven't started yet.
+    const processRef = useRef(process);
+    processRef.current = process;
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+
+    const revokeUrls = (item: BatchItem) => {
+        URL.revokeObjectURL(item.preview);
+        if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    };
+
+    useEffect(() => () => itemsRef.current.forEach(revokeUrls), []);
+
+    const updateItem = (id: string, update: Partial<BatchItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...update } : item));
+    };
+
+    /** Queues image files (others are skipped); `path` is where the file sat in a picked folder. Returns how many were added. */
+    const addFiles = useCallback((files: { file: File; path?: string }[]) => {
+        const added = files
+            .filter(({ file }) => file.type.startsWith('image/'))
+            .map(({ file, path }): BatchItem => ({
+                id: createImageId(),
+                file,
+                name: path || file.name,
+                preview: URL.createObjectURL(file),
+                status: 'pending',
+            }));
+        setItems(prev => [...prev, ...added]);
+        return added.length;
+    }, []);
+
+    const processItem = async (item: BatchItem, signal: AbortSignal) => {
+        updateItem(item.id, { status: 'running', error: undefined });
+        try {
+            const source = await blobToDataUrl(item.file);
+            const result = await dataUrlToBlob(await processRef.current(source, { signal, priority: 'batch' }));
+            const previous = itemsRef.current.find(candidate => candidate.id === item.id)?.resultUrl;
+            if (previous) URL.revokeObjectURL(previous);
+            updateItem(item.id, { status: 'done', result, resultUrl: URL.createObjectURL(result) });
+        } catch (err) {
+            const error = classifyError(err);
+            // A stopped item simply goes back to waiting.
+            updateItem(item.id, error.code === 'cancelled' ? { status: 'pending' } : { status: 'error', error });
+        }
+    };
+
+    /** Processes every item that isn't done yet. */
+    const start = async () => {
+        const queue = itemsRef.current.filter(item => item.status === 'pending' || item.status === 'error');
+        if (queue.length === 0) return;
+        const signal = getSignal();
+        const workers = Math.min(queue.length, getQueueConfig().concurrency + 1);
+        setIsRunning(true);
+        await Promise.all(Array.from({ length: workers }, async () => {
+            for (let item = queue.shift(); item && !signal.aborted; item = queue.shift()) {
+                await processItem(item, signal);
+            }
+        }));
+        setIsRunning(false);
+    };
+
+    /** Runs one failed item again. A running batch already owns its queue, so retries wait until it ends. */
+    const retry = (id: string) => {
+        if (isRunning) return;
+        const item = itemsRef.current.find(candidate => candidate.id === id);
+        if (item && item.status !== 'running') {
+            processItem(item, getSignal());
+        }
+    };
+
+    const remove = (id: string) => {
+        setItems(prev => prev.filter(item => {
+            if (item.id !== id) return true;
+            revokeUrls(item);
+            return false;
+        }));
+    };
+
+    const clear = () => {
+        cancel();
+        itemsRef.current.forEach(revokeUrls);
+        setItems([]);
+    };
+
+    /** Zips the finished results under their original file names (and folders). */
+    const exportZip = async (): Promise<Blob> => {
+        const zip = new JSZip();
+        const used = new Set<string>();
+        for (const item of itemsRef.current) {
+            if (!item.result) continue;
+            let fileName = resultFileName(item.name, item.result.type);
+            // Two sources that differ only by extension would otherwise overwrite each other.
+            for (let copy = 2; used.has(fileName); copy++) {
+                fileName = resultFileName(`${item.name.replace(/\.[^./]+$/, '')}-${copy}`, item.result.type);
+            }
+            used.add(fileName);
+            zip.file(fileName, item.result);
+        }
+        return zip.generateAsync({ type: 'blob' });
+    };
+
+    return { items, isRunning, addFiles, start, stop: cancel, retry, remove, clear, exportZip };
+}
+
+export type BatchProcessor = ReturnType<typeof useBatchProcessor>;
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Owns the AbortController for a tool's generation requests. Requests started with
+ * `getSignal()` are cancelled when `cancel()` is called or the component unmounts
+ * (e.g. the user goes back to the tool selection).
+ */
+export function useGenerationController() {
+    const controllerRef = useRef<AbortController>(new AbortController());
+
+    useEffect(() => {
+        // Create the controller on mount so a StrictMode remount gets a fresh, un-aborted one.
+        controllerRef.current = new AbortController();
+        return () => controllerRef.current.abort();
+    }, []);
+
+    const getSignal = useCallback(() => controllerRef.current.signal, []);
+
+    const cancel = useCallback(() => {
+        controllerRef.current.abort();
+        controllerRef.current = new AbortController();
+    }, []);
+
+    return { getSignal, cancel };
+}
@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useSyncExternalStore } from 'react';
+import { getQueueSnapshot, subscribeToQueue, QueuedJob } from '../services/generationQueue';
+
+/**
+ * Subscribes a component to the shared generation queue. Returns the running,
+ * pending and failed jobs, in that order.
+ */
+export function useGenerationQueue(): QueuedJob[] {
+    return useSyncExternalStore(subscribeToQueue, getQueueSnapshot);
+}
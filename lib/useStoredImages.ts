@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clearImages, createImageId, createThumbnail, dataUrlToBlob, deleteImages, getAllImages, hashBlob, ImageStoreName, putImage, readImageDimensions, StoredImage, withDerivedData } from './mediaStore';
+
+/** A stored image together with object URLs that can be used as an <img> src. */
+export interface StoredImageItem extends StoredImage {
+    url: string;
+    /** The thumbnail's object URL, or the full image's while no thumbnail exists yet. */
+    thumbnailUrl: string;
+}
+
+const toItem = (record: StoredImage, url = URL.createObjectURL(record.blob)): StoredImageItem => ({
+    ...record,
+    url,
+    thumbnailUrl: record.thumbnail ? URL.createObjectURL(record.thumbnail) : url,
+});
+
+/** Strips the session-only object URLs, leaving what is persisted. */
+export const toRecord = ({ url, thumbnailUrl, ...record }: StoredImageItem): StoredImage => record;
+
+const revokeItem = (item: StoredImageItem) => {
+    URL.revokeObjectURL(item.url);
+    if (item.thumbnailUrl !== item.url) {
+        URL.revokeObjectURL(item.thumbnailUrl);
+    }
+};
+
+/**
+ * Keeps a list of images in sync with one IndexedDB store. Object URLs are created
+ * for every loaded image and revoked again when it is removed or the hook unmounts.
+ */
+export function useStoredImages(storeName: ImageStoreName) {
+    const [items, setItems] = useState<StoredImageItem[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const itemsRef = useRef<StoredImageItem[]>([]);
+    itemsRef.current = items;
+    // Settles once the stored images are in the list, so new images can be checked against them.
+    const loadedRef = useRef<Promise<void>>(Promise.resolve());
+    // Adds still being written, by hash, so the same image added twice at once is stored once.
+    const pendingAddsRef = useRef(new Map<string, Promise<StoredImageItem>>());
+
+    useEffect(() => {
+        let cancelled = false;
+        let markLoaded = () => {};
+        loadedRef.current = new Promise<void>(resolve => { markLoaded = resolve; });
+        getAllImages(storeName)
+            .then(async records => {
+                if (cancelled) return;
+                // Images added while the store was being read stay in front of the stored ones.
+                const loaded = records
+                    .filter(record => !itemsRef.current.some(item => item.id === record.id))
+                    .map(record => toItem(record));
+                itemsRef.current = [...itemsRef.current, ...loaded];
+                setItems(prev => [...prev, ...loaded]);
+                setIsLoaded(true);
+                markLoaded();
+
+                // Images saved before hashes and thumbnails existed get them in the background, one at a time.
+                for (const record of records) {
+                    if (record.hash && record.thumbnail) continue;
+                    const completed = await withDerivedData(record);
+                    if (cancelled) return;
+                    await putImage(storeName, completed);
+                    setItems(prev => prev.map(item => {
+                        if (item.id !== record.id) return item;
+                        if (item.thumbnailUrl !== item.url) URL.revokeObjectURL(item.thumbnailUrl);
+                        return toItem({ ...item, hash: completed.hash, thumbnail: completed.thumbnail }, item.url);
+                    }));
+                }
+            })
+            .catch(error => console.error(`Failed to load "${storeName}" images from IndexedDB`, error))
+            .finally(markLoaded);
+
+        return () => {
+            cancelled = true;
+            itemsRef.current.forEach(revokeItem);
+        };
+    }, [storeName]);
+
+    /** The stored image with the given SHA-256, including ones added moments ago. */
+    const findImageByHash = useCallback((hash: string): StoredImageItem | undefined => itemsRef.current.find(item => item.hash === hash), []);
+
+    const storeImage = useCallback(async (blob: Blob, hash: string | undefined, extra: Partial<StoredImage>): Promise<StoredImageItem> => {
+        await loadedRef.current;
+        const existing = hash && findImageByHash(hash);
+        if (existing) {
+            return existing;
+        }
+        const record: StoredImage = {
+            id: createImageId(),
+            blob,
+            createdAt: Date.now(),
+            size: blob.size,
+            hash,
+            thumbnail: await createThumbnail(blob),
+            ...await readImageDimensions(blob),
+            ...extra,
+        };
+        await putImage(storeName, record);
+        const item = toItem(record);
+        setItems(prev => [item, ...prev]);
+        itemsRef.current = [item, ...itemsRef.current];
+        return item;
+    }, [storeName, findImageByHash]);
+
+    /**
+     * Stores an image and returns its item. If the store already holds an image with the same
+     * bytes, nothing is written and the existing item is returned instead.
+     */
+    const addImage = useCallback(async (dataUrl: string, extra: Partial<Pick<StoredImage, 'libraryId' | 'provenance'>> = {}): Promise<StoredImageItem> => {
+        const blob = await dataUrlToBlob(dataUrl);
+        const hash = await hashBlob(blob);
+        const pending = hash && pendingAddsRef.current.get(hash);
+        if (pending) {
+            return pending;
+        }
+        const adding = storeImage(blob, hash, extra);
+        if (hash) {
+            pendingAddsRef.current.set(hash, adding);
+            adding.then(() => pendingAddsRef.current.delete(hash), () => pendingAddsRef.current.delete(hash));
+        }
+        return adding;
+    }, [storeImage]);
+
+    // Stores complete records, e.g. from an imported backup, keeping their ids and metadata.
+    const importImages = useCallback(async (records: StoredImage[]) => {
+        const completed = await Promise.all(records.map(withDerivedData));
+        await Promise.all(completed.map(record => putImage(storeName, record)));
+        const imported = completed.map(record => toItem(record));
+        setItems(prev => [...imported, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+    }, [storeName]);
+
+    // Persists changes to an image's metadata (tags, rating, albums...); the blob itself never changes.
+    const updateImages = useCallback(async (ids: string[], update: (item: StoredImageItem) => Partial<StoredImage>) => {
+        const updated = itemsRef.current
+            .filter(item => ids.includes(item.id))
+            .map((item): StoredImageItem => ({ ...item, ...update(item) }));
+        await Promise.all(updated.map(item => putImage(storeName, toRecord(item))));
+        setItems(prev => prev.map(item => updated.find(candidate => candidate.id === item.id) ?? item));
+    }, [storeName]);
+
+    const removeImages = useCallback(async (ids: string[]) => {
+        await deleteImages(storeName, ids);
+        setItems(prev => {
+            prev.filter(item => ids.includes(item.id)).forEach(revokeItem);
+            return prev.filter(item => !ids.includes(item.id));
+        });
+    }, [storeName]);
+
+    const clear = useCallback(async () => {
+        await clearImages(storeName);
+        setItems(prev => {
+            prev.forEach(revokeItem);
+            return [];
+        });
+    }, [storeName]);
+
+    return { items, isLoaded, addImage, findImageByHash, importImages, updateImages, removeImages, clear };
+}
@@ -9,6 +9,28 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * The file extension for a data URL's image type, e.g. 'png' or 'jpg'; used to name downloads.
+ */
+export function imageFileExtension(dataUrl: string): string {
+    const subtype = dataUrl.match(/^data:image\/(png|jpeg|webp);/)?.[1];
+    return subtype === 'jpeg' ? 'jpg' : subtype ?? 'png';
+}
+
+/**
+ * Saves a blob (a ZIP, PDF or JSON file) through the browser's download prompt.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
 /**
  * Resizes an image to a specific aspect ratio by padding it with black bars (letterboxing/pillarboxing).
  * The output image will have a maximum dimension of 1024px to keep API request sizes reasonable.
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import * as service from '../services/geminiService';
+import type { BackendErrorBody, BackendResult } from '../services/backend';
+import { classifyError, GenerationErrorCode } from '../services/errors';
+import { setQueueConfig } from '../services/generationQueue';
+import { createGoogleGenAIProvider } from '../services/providers/googleGenAI';
+import { DEFAULT_PROVIDER_ID, GOOGLE_PROVIDER_ID, OPERATION_CAPABILITIES, Operation, registerProvider } from '../services/providers/registry';
+import { createRateLimiter } from './rateLimiter';
+
+/**
+ * Optional backend that keeps the API key on the server. It exposes every geminiService
+ * function as `POST /api/<function name>` with `{ "args": [...] }`, runs it here with the
+ * server's key and returns `{ "result": ... }`. Point the front end at it with BACKEND_URL.
+ *
+ * Configured through environment variables:
+ *   PORT                       port to listen on (8787)
+ *   GEMINI_API_KEY             the key; only ever read here
+ *   AI_PROVIDER=mock           serve placeholder results instead, for local development
+ *   RATE_LIMIT_PER_MINUTE      requests each user may start per minute (20)
+ *   QUEUE_CONCURRENCY          requests in flight to the provider across all users (4)
+ *   QUEUE_REQUESTS_PER_MINUTE  requests started per minute across all users (60)
+ *   TRUST_PROXY=1              identify users by X-Forwarded-For, when behind a reverse proxy
+ *   CORS_ORIGIN                allowed browser origin, if the front end isn't served from the same host
+ *   MAX_BODY_MB                largest accepted request body (25)
+ */
+
+const env = process.env;
+const PORT = Number(env.PORT) || 8787;
+const API_PREFIX = '/api/';
+const MAX_BODY_BYTES = (Number(env.MAX_BODY_MB) || 25) * 1024 * 1024;
+
+const STATUS_BY_CODE: Record<GenerationErrorCode, number> = {
+    invalidInput: 400,
+    rejected: 400,
+    apiKey: 502,
+    safety: 422,
+    noImage: 422,
+    quota: 429,
+    cancelled: 499,
+    network: 502,
+    unknown: 500,
+};
+
+type ServiceFunction = (...args: unknown[]) => Promise<unknown>;
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly code: GenerationErrorCode = 'rejected') {
+        super(message);
+    }
+}
+
+registerProvider(createGoogleGenAIProvider(env.GEMINI_API_KEY, GOOGLE_PROVIDER_ID));
+setQueueConfig({
+    concurrency: Number(env.QUEUE_CONCURRENCY) || 4,
+    requestsPerMinute: Number(env.QUEUE_REQUESTS_PER_MINUTE) || 60,
+});
+const rateLimiter = createRateLimiter(Number(env.RATE_LIMIT_PER_MINUTE) || 20);
+
+// Behind a reverse proxy every request comes from the proxy, so the client address is taken from its header.
+const getUser = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (env.TRUST_PROXY === '1' && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+const readJson = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'The request is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new HttpError(400, 'The request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    if (res.writableEnded || res.destroyed) return;
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, code: GenerationErrorCode, message: string, headers?: Record<string, string>) => {
+    const body: BackendErrorBody = { error: { code, message } };
+    send(res, status, body, headers);
+};
+
+async function handleOperation(req: IncomingMessage, res: ServerResponse, operation: string) {
+    if (!Object.hasOwn(OPERATION_CAPABILITIES, operation)) {
+        throw new HttpError(404, `Unknown operation "${operation}".`);
+    }
+    const retryAfterMs = rateLimiter.take(getUser(req));
+    if (retryAfterMs > 0) {
+        const seconds = Math.ceil(retryAfterMs / 1000);
+        sendError(res, 429, 'quota', `Too many requests. Try again in ${seconds} seconds.`, { 'Retry-After': String(seconds) });
+        return;
+    }
+
+    const body = await readJson(req) as { args?: unknown };
+    const handler = service[operation as Operation] as unknown as ServiceFunction;
+    // Every argument is sent, optional ones as null, so the count must match exactly.
+    if (!Array.isArray(body?.args) || body.args.length !== handler.length) {
+        throw new HttpError(400, `${operation} expects ${handler.length} arguments.`);
+    }
+
+    // A client that goes away (closed tab, cancelled job) cancels the provider request too.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    const args = body.args.map(arg => arg ?? undefined);
+    const result = await handler(...args, { signal: controller.signal, priority: 'interactive' });
+    const response: BackendResult = { result };
+    send(res, 200, response);
+}
+
+const server = createServer(async (req, res) => {
+    if (env.CORS_ORIGIN) {
+        res.setHeader('Access-Control-Allow-Origin', env.CORS_ORIGIN);
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    }
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    try {
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204).end();
+        } else if (req.method === 'GET' && path === `${API_PREFIX}health`) {
+            send(res, 200, { ok: true, provider: DEFAULT_PROVIDER_ID });
+        } else if (req.method === 'POST' && path.startsWith(API_PREFIX)) {
+            await handleOperation(req, res, path.slice(API_PREFIX.length));
+        } else {
+            throw new HttpError(404, 'Not found.');
+        }
+    } catch (err) {
+        if (err instanceof HttpError) {
+            sendError(res, err.status, err.code, err.message);
+            return;
+        }
+        const error = classifyError(err);
+        const status = STATUS_BY_CODE[error.code];
+        if (status >= 500) {
+            console.error(`${req.method} ${path} failed:`, error);
+        }
+        sendError(res, status, error.code, error.message);
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Backend listening on http://localhost:${PORT}${API_PREFIX} (provider: ${DEFAULT_PROVIDER_ID})`);
+    if (DEFAULT_PROVIDER_ID === GOOGLE_PROVIDER_ID && !env.GEMINI_API_KEY) {
+        console.warn('GEMINI_API_KEY is not set; requests will fail. Set it, or AI_PROVIDER=mock for placeholder results.');
+    }
+});
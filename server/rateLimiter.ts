@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Per-user request limits for the backend: each user may start `limit` requests in any rolling
+ * window of `windowMs`. Users are whatever key the server identifies them by (see index.ts).
+ */
+export interface RateLimiter {
+    /** Records a request for `user`; returns 0 if it may proceed, otherwise the milliseconds until it may. */
+    take(user: string): number;
+}
+
+export function createRateLimiter(limit: number, windowMs = 60_000): RateLimiter {
+    const requests = new Map<string, number[]>();
+
+    // Forget users that have been quiet for a whole window, so the map doesn't grow forever.
+    const sweep = setInterval(() => {
+        const cutoff = Date.now() - windowMs;
+        for (const [user, times] of requests) {
+            if (times[times.length - 1] <= cutoff) {
+                requests.delete(user);
+            }
+        }
+    }, windowMs);
+    sweep.unref?.();
+
+    return {
+        take(user) {
+            const now = Date.now();
+            const times = (requests.get(user) ?? []).filter(time => time > now - windowMs);
+            if (times.length >= limit) {
+                requests.set(user, times);
+                return times[0] + windowMs - now;
+            }
+            times.push(now);
+            requests.set(user, times);
+            return 0;
+        },
+    };
+}
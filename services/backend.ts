@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CancelledError, classifyError, GenerationError, GenerationErrorCode } from './errors';
+
+/**
+ * Client side of the optional backend server (see server/). When a backend URL is set, each
+ * geminiService function is sent there as a whole, `POST <url>/<function name>` with its
+ * arguments, and the API key never has to be part of the front end build.
+ */
+
+/** What the backend sends for a successful call. */
+export interface BackendResult {
+    result: unknown;
+}
+
+/** What the backend sends when a call fails; `code` keeps the error's category across the wire. */
+export interface BackendErrorBody {
+    error: {
+        code: GenerationErrorCode;
+        message: string;
+    };
+}
+
+let backendUrl: string | null = null;
+
+/** Routes every generation call through the backend at `url`; null calls the providers directly. */
+export function setBackendUrl(url: string | null): void {
+    backendUrl = url ? url.replace(/\/+$/, '') : null;
+}
+
+export function getBackendUrl(): string | null {
+    return backendUrl;
+}
+
+/**
+ * Calls one service function on the backend. Arguments are sent positionally; `undefined`
+ * travels as null and is turned back into `undefined` by the server. Errors are never marked
+ * retryable: the server has already retried the provider before answering.
+ */
+export async function callBackend(operation: string, args: unknown[], signal?: AbortSignal): Promise<unknown> {
+    if (!backendUrl) {
+        throw new GenerationError('No backend URL is configured.');
+    }
+    let response: Response;
+    try {
+        response = await fetch(`${backendUrl}/${operation}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ args }),
+            signal,
+        });
+    } catch (err) {
+        throw signal?.aborted ? new CancelledError() : classifyError(err);
+    }
+
+    const body = await response.json().catch(() => null) as Partial<BackendResult & BackendErrorBody> | null;
+    if (!response.ok || !body || !('result' in body)) {
+        const error = body?.error;
+        if (error?.code === 'cancelled') {
+            throw new CancelledError(error.message);
+        }
+        if (error) {
+            throw new GenerationError(error.message, error.code, false);
+        }
+        const { code, message } = classifyError(Object.assign(new Error(`The backend answered with HTTP ${response.status}.`), { status: response.status }));
+        throw new GenerationError(message, code, false);
+    }
+    return body.result;
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationErrorCode = 'safety' | 'noImage' | 'quota' | 'network' | 'invalidInput' | 'apiKey' | 'rejected' | 'cancelled' | 'unknown';
+
+/**
+ * Base class for every error thrown by the generation service. `code` identifies the
+ * category (used to pick a translated message) and `retryable` marks transient failures.
+ */
+export class GenerationError extends Error {
+    readonly code: GenerationErrorCode;
+    readonly retryable: boolean;
+
+    constructor(message: string, code: GenerationErrorCode = 'unknown', retryable = false, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'GenerationError';
+        this.code = code;
+        this.retryable = retryable;
+    }
+}
+
+/** The model stopped because of a safety filter or a similar policy block. */
+export class SafetyBlockedError extends GenerationError {
+    readonly finishReason?: string;
+
+    constructor(finishReason?: string) {
+        super(`Image generation stopped due to: ${finishReason}. Check safety ratings.`, 'safety');
+        this.name = 'SafetyBlockedError';
+        this.finishReason = finishReason;
+    }
+}
+
+/** The model answered but returned no image, usually because it refused the request. */
+export class NoImageError extends GenerationError {
+    constructor(message = "No image was generated. The model may have refused the request.") {
+        super(message, 'noImage');
+        this.name = 'NoImageError';
+    }
+}
+
+/** The API rejected the request because a quota or rate limit was hit (HTTP 429). */
+export class QuotaExceededError extends GenerationError {
+    /** How long the API asked to wait before trying again, when it said. */
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, options?: { cause?: unknown, retryAfterMs?: number }) {
+        super(message, 'quota', true, options);
+        this.name = 'QuotaExceededError';
+        this.retryAfterMs = options?.retryAfterMs;
+    }
+}
+
+/** The request never completed: offline, connection reset or a temporary server error. */
+export class NetworkError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, 'network', true, options);
+        this.name = 'NetworkError';
+    }
+}
+
+/** An image could not be read locally, such as a malformed data URL or an undecodable file. */
+export class InvalidInputError extends GenerationError {
+    constructor(message: string) {
+        super(message, 'invalidInput');
+        this.name = 'InvalidInputError';
+    }
+}
+
+/** The API key is missing, invalid or not allowed to use the model. */
+export class ApiKeyError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, 'apiKey', false, options);
+        this.name = 'ApiKeyError';
+    }
+}
+
+/** The API refused the request itself (HTTP 400), e.g. an unsupported prompt, parameter or schema. */
+export class RequestRejectedError extends GenerationError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, 'rejected', false, options);
+        this.name = 'RequestRejectedError';
+    }
+}
+
+/** The caller aborted the request. Components should show this as cancelled, not as a failure. */
+export class CancelledError extends GenerationError {
+    constructor(message = 'The request was cancelled.') {
+        super(message, 'cancelled');
+        this.name = 'CancelledError';
+    }
+}
+
+export const isCancelledError = (err: unknown): err is CancelledError => err instanceof CancelledError;
+
+const getStatus = (err: unknown): number | undefined => {
+    const status = (err as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+// Gemini puts the wait into the error details as `"retryDelay": "37s"`.
+const getRetryAfterMs = (message: string): number | undefined => {
+    const seconds = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/)?.[1];
+    return seconds ? Number(seconds) * 1000 : undefined;
+};
+
+/**
+ * Maps whatever a provider threw onto the GenerationError hierarchy.
+ */
+export function classifyError(err: unknown): GenerationError {
+    if (err instanceof GenerationError) {
+        return err;
+    }
+    if (err instanceof Error && err.name === 'AbortError') {
+        return new CancelledError();
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    const status = getStatus(err);
+
+    if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new QuotaExceededError(message, { cause: err, retryAfterMs: getRetryAfterMs(message) });
+    }
+    if (
+        (status !== undefined && status >= 500) ||
+        /\b50[0234]\b|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|failed to fetch|fetch failed|network|ECONNRESET|ETIMEDOUT/i.test(message)
+    ) {
+        return new NetworkError(message, { cause: err });
+    }
+    // Gemini reports a bad key as 400 INVALID_ARGUMENT, so this has to be checked before other 400s.
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+        return new ApiKeyError(message, { cause: err });
+    }
+    if (status === 400 || /\b400\b|INVALID_ARGUMENT/i.test(message)) {
+        return new RequestRejectedError(message, { cause: err });
+    }
+    return new GenerationError(message, 'unknown', false, { cause: err });
+}
+
+export interface RetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** The shortest wait after a rate-limit error the API gave no delay for. */
+    minQuotaDelayMs?: number;
+    signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    }, { once: true });
+});
+
+/**
+ * Runs `task`, retrying transient (retryable) failures with exponential backoff and full jitter.
+ * A rate-limit error waits as long as the API asked, or at least `minQuotaDelayMs`. `task` is
+ * told whether a failure of this attempt will be the final one. Any error that escapes is a
+ * classified GenerationError.
+ */
+export async function withRetry<T>(task: (attempt: { isLast: boolean }) => Promise<T>, { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 16000, minQuotaDelayMs = 5000, signal }: RetryOptions = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) {
+            throw new CancelledError();
+        }
+        try {
+            return await task({ isLast: attempt >= maxAttempts });
+        } catch (err) {
+            const error = signal?.aborted ? new CancelledError() : classifyError(err);
+            if (!error.retryable || attempt >= maxAttempts) {
+                throw error;
+            }
+            const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const delayMs = error instanceof QuotaExceededError
+                ? Math.max(error.retryAfterMs ?? 0, minQuotaDelayMs + Math.random() * ceiling)
+                : Math.random() * ceiling;
+            console.warn(`Generation attempt ${attempt} failed (${error.code}), retrying in ${Math.round(delayMs)}ms.`, error);
+            await sleep(delayMs, signal);
+        }
+    }
+}
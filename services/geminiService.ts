@@ -2,16 +2,49 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Modality, Type, GenerateContentResponse } from "@google/genai";
+import { getRoute, resolveProvider, Operation } from './providers/registry';
+import type { ContentPart, InlineImagePart, JsonSchema, ProviderResponse } from './providers/types';
+import { CancelledError, classifyError, GenerationError, InvalidInputError, NoImageError, SafetyBlockedError, withRetry } from './errors';
+import { enqueueJob, JobPriority } from './generationQueue';
+import { callBackend, getBackendUrl } from './backend';
 
-// Initialize the Google AI client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Options accepted by every generation function.
+ */
+export interface GenerationOptions {
+    /** Aborting this signal cancels the request; the returned promise then rejects with a CancelledError. */
+    signal?: AbortSignal;
+    /** Bulk runs pass 'batch' so that single interactive requests are scheduled ahead of them. Defaults to 'interactive'. */
+    priority?: JobPriority;
+}
+
+/**
+ * How generated images are encoded before they are returned to the caller.
+ */
+export interface OutputEncoding {
+    mimeType: 'image/png' | 'image/jpeg' | 'image/webp';
+    /** 0-1; only used by the lossy formats. */
+    quality: number;
+}
+
+let outputEncoding: OutputEncoding = { mimeType: 'image/png', quality: 0.92 };
+
+export function setOutputEncoding(encoding: OutputEncoding): void {
+    outputEncoding = encoding;
+}
+
+/**
+ * The model an operation is currently routed to, for recording alongside its results.
+ */
+export function getModelForOperation(operation: Operation): string {
+    return getRoute(operation).model;
+}
 
 // Helper to convert data URL to Part
-const fileToGenerativePart = (dataUrl: string) => {
+const fileToGenerativePart = (dataUrl: string): InlineImagePart => {
     const match = dataUrl.match(/^data:(image\/(?:png|jpeg|webp));base64,(.*)$/);
     if (!match) {
-        throw new Error('Invalid data URL format');
+        throw new InvalidInputError('Invalid data URL format');
     }
     const mimeType = match[1];
     const data = match[2];
@@ -24,47 +57,116 @@ const fileToGenerativePart = (dataUrl: string) => {
 };
 
 // Helper function to extract image data from response
-const extractImageData = (response: GenerateContentResponse): string => {
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
+const extractImageData = (response: ProviderResponse): string => {
+    if (response.images.length > 0) {
+        return response.images[0];
+    }
+
+    if (response.finishReason !== 'STOP' && response.finishReason !== 'MAX_TOKENS') {
+         throw new SafetyBlockedError(response.finishReason);
+    }
+
+    throw new NoImageError();
+};
+
+// Re-encodes a generated image in the chosen output format. Images already in that format pass
+// through untouched, as does everything outside a browser, where there is no canvas to draw on.
+const encodeOutput = async (dataUrl: string): Promise<string> => {
+    const { mimeType, quality } = outputEncoding;
+    if (dataUrl.startsWith(`data:${mimeType};`) || typeof document === 'undefined') {
+        return dataUrl;
+    }
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to decode the generated image.'));
+        img.src = dataUrl;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        return dataUrl;
     }
+    // JPEG has no alpha channel; without a fill, transparent areas would turn black.
+    if (mimeType === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(image, 0, 0);
+    return canvas.toDataURL(mimeType, quality);
+};
+
+// Runs a provider call with retries, and makes sure nothing is returned once the caller has cancelled.
+// Every attempt goes through the shared job queue on its own, so each one counts against the request
+// budget and no slot is held while waiting to retry.
+const callProvider = async (operation: Operation, task: () => Promise<ProviderResponse>, { signal, priority }: GenerationOptions): Promise<ProviderResponse> => {
+    const response = await withRetry(({ isLast }) => enqueueJob(task, {
+        label: operation,
+        priority,
+        signal,
+        isFinalFailure: err => isLast || !classifyError(err).retryable,
+    }), { signal });
+    if (signal?.aborted) {
+        throw new CancelledError();
+    }
+    return response;
+};
 
-    if (response.candidates[0].finishReason !== 'STOP' && response.candidates[0].finishReason !== 'MAX_TOKENS') {
-         throw new Error(`Image generation stopped due to: ${response.candidates[0].finishReason}. Check safety ratings.`);
+// With a backend configured, the whole call (prompt building included) runs on the server and only
+// the result comes back. It still goes through the local queue, so it shows up and can be cancelled there.
+// It is not retried here: the server already retries the provider, and retrying its rate-limit
+// answer would only use up more of the user's quota.
+const forwardToBackend = async <T>(operation: Operation, args: unknown[], { signal, priority }: GenerationOptions): Promise<T> => {
+    const result = await enqueueJob(() => callBackend(operation, args, signal), { label: operation, priority, signal });
+    if (signal?.aborted) {
+        throw new CancelledError();
     }
+    return (typeof result === 'string' && result.startsWith('data:image/') ? await encodeOutput(result) : result) as T;
+};
 
-    throw new Error("No image was generated. The model may have refused the request.");
+// Sends an image + text request to whichever provider is routed for the operation.
+const generateImageContent = async (operation: Operation, parts: ContentPart[], options: GenerationOptions): Promise<string> => {
+    const { provider, model } = resolveProvider(operation);
+    const response = await callProvider(operation, () => provider.generateContent({ model, parts, output: 'image', signal: options.signal }), options);
+    return encodeOutput(extractImageData(response));
+};
+
+// Sends a request expecting a JSON answer and returns the raw text for the caller to parse.
+const generateJsonContent = async (operation: Operation, parts: ContentPart[], responseSchema: JsonSchema | undefined, options: GenerationOptions): Promise<string> => {
+    const { provider, model } = resolveProvider(operation);
+    const response = await callProvider(operation, () => provider.generateContent({ model, parts, output: 'json', responseSchema, signal: options.signal }), options);
+    return response.text;
+};
+
+// Sends a pure text-to-image request (e.g. Imagen) and returns the first image, if any. Filtered results throw SafetyBlockedError.
+const generateImageFromText = async (operation: Operation, prompt: string, options: GenerationOptions): Promise<string | undefined> => {
+    const { provider, model } = resolveProvider(operation);
+    const response = await callProvider(operation, () => provider.generateImages({ model, prompt, mimeType: 'image/png', signal: options.signal }), options);
+    const image = response.images[0];
+    if (!image && response.finishReason && response.finishReason !== 'STOP' && response.finishReason !== 'MAX_TOKENS') {
+        throw new SafetyBlockedError(response.finishReason);
+    }
+    return image ? encodeOutput(image) : undefined;
 };
 
 
 /**
  * A generic function to generate an image based on a prompt and multiple input images.
  */
-export async function generateStyledImage(prompt: string, imageUrls: string[], additionalInstructions?: string): Promise<string> {
+export async function generateStyledImage(prompt: string, imageUrls: string[], additionalInstructions?: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateStyledImage', [prompt, imageUrls, additionalInstructions], options);
     const fullPrompt = additionalInstructions ? `${prompt}\n\nAdditional Instructions: ${additionalInstructions}` : prompt;
     
     const imageParts = imageUrls.map(url => fileToGenerativePart(url));
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: {
-            parts: [
-                ...imageParts,
-                { text: fullPrompt }
-            ]
-        },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-
-    return extractImageData(response);
+    return generateImageContent('generateStyledImage', [...imageParts, { text: fullPrompt }], options);
 }
 
 
-export async function extractOutfitFromImage(imageDataUrl: string, instructions?: string): Promise<string> {
+export async function extractOutfitFromImage(imageDataUrl: string, instructions?: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('extractOutfitFromImage', [imageDataUrl, instructions], options);
     const prompt = `Your task is to isolate and extract only the complete outfit (clothing, shoes, accessories) worn by the person in the provided image.
     
     **CRITICAL INSTRUCTIONS:**
@@ -77,16 +179,11 @@ export async function extractOutfitFromImage(imageDataUrl: string, instructions?
 
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('extractOutfitFromImage', [imagePart, { text: prompt }], options);
 }
 
-export async function fillMaskedImage(prompt: string, maskedImageDataUrl: string, additionalInstructions?: string): Promise<string> {
+export async function fillMaskedImage(prompt: string, maskedImageDataUrl: string, additionalInstructions?: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('fillMaskedImage', [prompt, maskedImageDataUrl, additionalInstructions], options);
     const fullPrompt = `Your task is to perform inpainting. The user has provided an image with a transparent area (the mask). You must fill in this transparent area based on the following instruction: "${prompt}".
 
     **CRITICAL INSTRUCTIONS:**
@@ -98,16 +195,11 @@ export async function fillMaskedImage(prompt: string, maskedImageDataUrl: string
     
     const imagePart = fileToGenerativePart(maskedImageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: fullPrompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('fillMaskedImage', [imagePart, { text: fullPrompt }], options);
 }
 
-export async function removeObjectFromImage(maskedImageDataUrl: string): Promise<string> {
+export async function removeObjectFromImage(maskedImageDataUrl: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('removeObjectFromImage', [maskedImageDataUrl], options);
     const prompt = `Your task is object removal. The user has provided an image with a transparent area (the mask), indicating the object(s) to be removed. You must intelligently fill in the transparent area, making it look as if the object was never there.
 
     **CRITICAL INSTRUCTIONS:**
@@ -117,16 +209,11 @@ export async function removeObjectFromImage(maskedImageDataUrl: string): Promise
     
     const imagePart = fileToGenerativePart(maskedImageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('removeObjectFromImage', [imagePart, { text: prompt }], options);
 }
 
-export async function removeBackgroundFromImageAtPoint(imageDataUrl: string, x: number, y: number): Promise<string> {
+export async function removeBackgroundFromImageAtPoint(imageDataUrl: string, x: number, y: number, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('removeBackgroundFromImageAtPoint', [imageDataUrl, x, y], options);
     const prompt = `Your task is to perform foreground segmentation. The user has provided an image and a coordinate point (x=${Math.round(x)}, y=${Math.round(y)}) that is on the main subject they want to keep.
 
     **CRITICAL INSTRUCTIONS:**
@@ -137,23 +224,25 @@ export async function removeBackgroundFromImageAtPoint(imageDataUrl: string, x:
     
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('removeBackgroundFromImageAtPoint', [imagePart, { text: prompt }], options);
 }
 
-export async function swapFacesInImage(sourceImageDataUrl: string, targetFaceDataUrl: string, mask?: any, additionalInstructions?: string): Promise<string> {
+/**
+ * Replaces a face in `sourceImageDataUrl` with the one in `targetFaceDataUrl`. When the source shows several
+ * people, `maskDataUrl` (white over the face to replace, black elsewhere, same size as the source) picks which one.
+ */
+export async function swapFacesInImage(sourceImageDataUrl: string, targetFaceDataUrl: string, maskDataUrl?: string, additionalInstructions?: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('swapFacesInImage', [sourceImageDataUrl, targetFaceDataUrl, maskDataUrl, additionalInstructions], options);
     const prompt = `Your task is to perform a face swap.
     - The **first image** is the source image that needs to be modified.
-    - The **second image** contains the target face that should be transferred onto the person in the first image.
+    - The **second image** contains the target face that should be transferred onto the person in the first image.${maskDataUrl ? `
+    - The **third image** is a mask of the first image. Its white area marks the one face that must be replaced.` : ''}
 
     **CRITICAL INSTRUCTIONS:**
     1.  Identify the face in the second image.
-    2.  Identify the primary face in the first image.
+    2.  ${maskDataUrl
+        ? 'Identify the face in the first image that lies inside the white area of the mask. Every other face in the first image must stay exactly as it is.'
+        : 'Identify the primary face in the first image.'}
     3.  Replace the face in the first image with the face from the second image.
     4.  The final result must be seamless and photorealistic. You must adjust lighting, skin tone, and perspective of the swapped face to perfectly match the source image's environment.
     5.  Preserve the hair, clothing, and background of the first image.
@@ -162,17 +251,13 @@ export async function swapFacesInImage(sourceImageDataUrl: string, targetFaceDat
     
     const sourceImagePart = fileToGenerativePart(sourceImageDataUrl);
     const targetFacePart = fileToGenerativePart(targetFaceDataUrl);
+    const maskParts = maskDataUrl ? [fileToGenerativePart(maskDataUrl)] : [];
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [sourceImagePart, targetFacePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('swapFacesInImage', [sourceImagePart, targetFacePart, ...maskParts, { text: prompt }], options);
 }
 
-export async function generatePhotoBoothImage(imageDataUrl: string, count: number): Promise<string> {
+export async function generatePhotoBoothImage(imageDataUrl: string, count: number, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generatePhotoBoothImage', [imageDataUrl, count], options);
     const prompt = `Take the person from the provided image and create a photobooth-style photo strip.
 
     **CRITICAL INSTRUCTIONS:**
@@ -185,16 +270,11 @@ export async function generatePhotoBoothImage(imageDataUrl: string, count: numbe
     
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('generatePhotoBoothImage', [imagePart, { text: prompt }], options);
 }
 
-export async function generateCloneEffectImage(imageDataUrl: string, instructions?: string): Promise<string> {
+export async function generateCloneEffectImage(imageDataUrl: string, instructions?: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateCloneEffectImage', [imageDataUrl, instructions], options);
     const prompt = `Your task is to create a "clone" effect photo. Take the single person from the provided image and create a new image where there are three versions of that same person in different poses, interacting within the same scene.
 
 **PRIMARY DIRECTIVE: ABSOLUTE IDENTITY PRESERVATION (NON-NEGOTIABLE)**
@@ -209,16 +289,11 @@ Your single most important, critical, and unbreakable task is to perfectly prese
     
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-    
-    return extractImageData(response);
+    return generateImageContent('generateCloneEffectImage', [imagePart, { text: prompt }], options);
 }
 
-export async function generateBackgroundFromConcept(imageDataUrl: string): Promise<string> {
+export async function generateBackgroundFromConcept(imageDataUrl: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateBackgroundFromConcept', [imageDataUrl], options);
     const prompt = `Analyze the provided concept/mood board image. Your task is to generate a clean, empty, photorealistic background scene inspired by the overall theme, color palette, and style of the image.
 
     **CRITICAL INSTRUCTIONS:**
@@ -228,16 +303,11 @@ export async function generateBackgroundFromConcept(imageDataUrl: string): Promi
     
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-
-    return extractImageData(response);
+    return generateImageContent('generateBackgroundFromConcept', [imagePart, { text: prompt }], options);
 }
 
-export async function generatePoseFromImage(imageDataUrl: string, boneNames: string[], refinementPrompt?: string): Promise<Record<string, { x: number, y: number, z: number }>> {
+export async function generatePoseFromImage(imageDataUrl: string, boneNames: string[], refinementPrompt?: string, options: GenerationOptions = {}): Promise<Record<string, { x: number, y: number, z: number }>> {
+    if (getBackendUrl()) return forwardToBackend('generatePoseFromImage', [imageDataUrl, boneNames, refinementPrompt], options);
     const prompt = `Analyze the pose of the person in the provided image. Your task is to translate this pose into a JSON object of bone rotations in radians.
 
     **CRITICAL INSTRUCTIONS:**
@@ -250,14 +320,19 @@ export async function generatePoseFromImage(imageDataUrl: string, boneNames: str
     
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseMimeType: 'application/json' },
-    });
+    const rotationSchema: JsonSchema = {
+        type: 'object',
+        properties: { x: { type: 'number' }, y: { type: 'number' }, z: { type: 'number' } },
+        required: ['x', 'y', 'z'],
+    };
+    const responseText = await generateJsonContent('generatePoseFromImage', [imagePart, { text: prompt }], {
+        type: 'object',
+        properties: Object.fromEntries(boneNames.map(name => [name, rotationSchema])),
+        required: boneNames,
+    }, options);
 
     try {
-        let text = response.text.trim();
+        let text = responseText.trim();
         if (text.startsWith('```json')) {
             text = text.substring(7, text.length - 3).trim();
         } else if (text.startsWith('```')) {
@@ -265,26 +340,22 @@ export async function generatePoseFromImage(imageDataUrl: string, boneNames: str
         }
         return JSON.parse(text);
     } catch (e) {
-        console.error("Failed to parse JSON from model response:", response.text);
-        throw new Error("Model returned invalid JSON for pose data.");
+        console.error("Failed to parse JSON from model response:", responseText);
+        throw new GenerationError("Model returned invalid JSON for pose data.");
     }
 }
 
-export async function generateDepthMap(imageDataUrl: string): Promise<string> {
+export async function generateDepthMap(imageDataUrl: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateDepthMap', [imageDataUrl], options);
     const prompt = "Generate a depth map for this image. The output must be a grayscale image where white is closest and black is farthest.";
     
     const imagePart = fileToGenerativePart(imageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-
-    return extractImageData(response);
+    return generateImageContent('generateDepthMap', [imagePart, { text: prompt }], options);
 }
 
-export async function generateProductMockup(logoDataUrl: string, productDataUrl: string): Promise<string> {
+export async function generateProductMockup(logoDataUrl: string, productDataUrl: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateProductMockup', [logoDataUrl, productDataUrl], options);
     const prompt = `Your task is to create a product mockup.
     - The **first image** is a logo with a transparent background.
     - The **second image** is a product photo.
@@ -298,34 +369,26 @@ export async function generateProductMockup(logoDataUrl: string, productDataUrl:
     const logoPart = fileToGenerativePart(logoDataUrl);
     const productPart = fileToGenerativePart(productDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [logoPart, productPart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-
-    return extractImageData(response);
+    return generateImageContent('generateProductMockup', [logoPart, productPart, { text: prompt }], options);
 }
 
-export async function generateGraphicFromPrompt(prompt: string): Promise<string> {
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: `Create a high-resolution, professional graphic suitable for a t-shirt, based on the following description: "${prompt}". The graphic should be isolated on a transparent background. The style should be bold and clear.`,
-        config: {
-            numberOfImages: 1,
-            outputMimeType: 'image/png'
-        }
-    });
+export async function generateGraphicFromPrompt(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateGraphicFromPrompt', [prompt], options);
+    const imageUrl = await generateImageFromText(
+        'generateGraphicFromPrompt',
+        `Create a high-resolution, professional graphic suitable for a t-shirt, based on the following description: "${prompt}". The graphic should be isolated on a transparent background. The style should be bold and clear.`,
+        options
+    );
 
-    if (!response.generatedImages || response.generatedImages.length === 0) {
-        throw new Error("AI Graphic Designer failed to generate an image.");
+    if (!imageUrl) {
+        throw new NoImageError("AI Graphic Designer failed to generate an image.");
     }
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    return `data:image/png;base64,${base64ImageBytes}`;
+    return imageUrl;
 }
 
 
-export async function generateApparelMockup(designDataUrl: string, apparelPrompt: string): Promise<string> {
+export async function generateApparelMockup(designDataUrl: string, apparelPrompt: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateApparelMockup', [designDataUrl, apparelPrompt], options);
     const prompt = `
 Your task is to create a photorealistic apparel mockup.
 - The provided image is a design graphic with a transparent background.
@@ -339,81 +402,119 @@ Your task is to create a photorealistic apparel mockup.
     
     const designPart = fileToGenerativePart(designDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [designPart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-
-    return extractImageData(response);
+    return generateImageContent('generateApparelMockup', [designPart, { text: prompt }], options);
 }
 
-export async function generateTypographicIllustration(phrase: string): Promise<string> {
+export async function generateTypographicIllustration(phrase: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateTypographicIllustration', [phrase], options);
     const prompt = `Using only the letters from the phrase ["${phrase}"], create a minimalist black and white typographic illustration depicting the scene described by the phrase. Each letter should be creatively shaped and arranged to form a sense of motion and represent the elements in the scene. The design must be clean and minimal, comprising the entire manipulated alphabet of ["${phrase}"] without any additional shapes or lines. The letters should bend or curve to mimic the natural forms of the scene while remaining legible. The final image should be on a clean, solid, light grey background.`;
     
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: {
-            parts: [
-                { text: prompt }
-            ]
-        },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+    return generateImageContent('generateTypographicIllustration', [{ text: prompt }], options);
+}
+
+/** A choice offered to the concept assistant. The model reads the label and prompt, and answers with the id. */
+export interface ConceptOption {
+    id: string;
+    label: string;
+    prompt?: string;
+}
 
-    return extractImageData(response);
+export interface ConceptSuggestions {
+    background: string;
+    poses: string[];
+    /** Left out when the model's answer matches none of the offered options. */
+    cameraAngle?: string;
+    colorGrade?: string;
 }
 
-export async function generateConceptSuggestions(imageUrls: string[], availablePoses: string[], availableAngles: string[], availableGrades: string[]): Promise<{ background: string, poses: string[], cameraAngle: string, colorGrade: string }> {
+const describeConceptOptions = (options: ConceptOption[]) =>
+    options.map(option => `    - ${option.id}: ${option.label}${option.prompt ? ` (${option.prompt})` : ''}`).join('\n');
+
+// Models sometimes answer with the label rather than the id, so both are accepted.
+const findConceptOptionId = (options: ConceptOption[], answer: unknown) => {
+    if (typeof answer !== 'string') return undefined;
+    const normalized = answer.trim().toLowerCase();
+    return options.find(option => option.id.toLowerCase() === normalized || option.label.toLowerCase() === normalized)?.id;
+};
+
+export async function generateConceptSuggestions(imageUrls: string[], availablePoses: ConceptOption[], availableAngles: ConceptOption[], availableGrades: ConceptOption[], options: GenerationOptions = {}): Promise<ConceptSuggestions> {
+    if (getBackendUrl()) return forwardToBackend('generateConceptSuggestions', [imageUrls, availablePoses, availableAngles, availableGrades], options);
     const imageParts = imageUrls.map(url => fileToGenerativePart(url));
     const prompt = `Analyze the provided image(s) of clothing and/or objects. Based on them, generate a creative photoshoot concept. Provide your answer as a valid JSON object.
 
+Each option below is listed as "ID: label (description)". Answer with the IDs only.
+
 **CRITICAL INSTRUCTIONS:**
 1.  **background**: A detailed description of a suitable background scene.
-2.  **poses**: An array of exactly 5 pose IDs that best fit the concept. Choose ONLY from this list: [${availablePoses.join(', ')}].
-3.  **cameraAngle**: A single camera angle ID that best fits the concept. Choose ONLY from this list: [${availableAngles.join(', ')}].
-4.  **colorGrade**: A single color grade ID that best fits the concept. Choose ONLY from this list: [${availableGrades.join(', ')}].
+2.  **poses**: An array of exactly 5 pose IDs that best fit the concept. Choose ONLY from this list:
+${describeConceptOptions(availablePoses)}
+3.  **cameraAngle**: A single camera angle ID that best fits the concept. Choose ONLY from this list:
+${describeConceptOptions(availableAngles)}
+4.  **colorGrade**: A single color grade ID that best fits the concept. Choose ONLY from this list:
+${describeConceptOptions(availableGrades)}
 
 Your output must be a valid JSON object and nothing else.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [...imageParts, { text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    background: { type: Type.STRING },
-                    poses: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    },
-                    cameraAngle: { type: Type.STRING },
-                    colorGrade: { type: Type.STRING },
-                },
-                required: ['background', 'poses', 'cameraAngle', 'colorGrade']
-            }
+    const responseText = await generateJsonContent('generateConceptSuggestions', [...imageParts, { text: prompt }], {
+        type: 'object',
+        properties: {
+            background: { type: 'string' },
+            poses: {
+                type: 'array',
+                items: { type: 'string', enum: availablePoses.map(option => option.id) },
+                minItems: 5,
+                maxItems: 5,
+            },
+            cameraAngle: { type: 'string', enum: availableAngles.map(option => option.id) },
+            colorGrade: { type: 'string', enum: availableGrades.map(option => option.id) },
         },
-    });
+        required: ['background', 'poses', 'cameraAngle', 'colorGrade']
+    }, options);
 
+    let answer: { background?: unknown, poses?: unknown, cameraAngle?: unknown, colorGrade?: unknown };
     try {
-        let text = response.text.trim();
-        return JSON.parse(text);
+        let text = responseText.trim();
+        answer = JSON.parse(text);
     } catch (e) {
-        console.error("Failed to parse JSON from model response for concepts:", response.text);
-        throw new Error("Model returned invalid JSON for concept suggestions.");
+        console.error("Failed to parse JSON from model response for concepts:", responseText);
+        throw new GenerationError("Model returned invalid JSON for concept suggestions.");
     }
+    const poses = Array.isArray(answer.poses) ? answer.poses.map(pose => findConceptOptionId(availablePoses, pose)) : [];
+    return {
+        background: typeof answer.background === 'string' ? answer.background : '',
+        poses: [...new Set(poses.filter((id): id is string => id !== undefined))],
+        cameraAngle: findConceptOptionId(availableAngles, answer.cameraAngle),
+        colorGrade: findConceptOptionId(availableGrades, answer.colorGrade),
+    };
+}
+
+/**
+ * Extends an image to a new aspect ratio. The input is the image already padded to that ratio
+ * with black bars (see resizeImageToAspectRatio); the model replaces the bars with more of the scene.
+ */
+export async function outpaintImage(paddedImageDataUrl: string, aspectRatio: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('outpaintImage', [paddedImageDataUrl, aspectRatio], options);
+    const prompt = `Your task is outpainting. The provided image has black bars around the original photo, padding it to a ${aspectRatio} canvas.
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Replace all black areas** by photorealistically extending the scene of the original photo. The result MUST be a full-bleed image with NO black borders.
+2.  **Keep the original photo unchanged:** the people, their faces, clothing and pose, and everything else already visible must stay exactly as they are.
+3.  **Seamless extension:** the new areas must match the original's lighting, perspective, textures, color grading and focus.
+4.  Keep the ${aspectRatio} aspect ratio of the provided canvas.`;
+
+    const imagePart = fileToGenerativePart(paddedImageDataUrl);
+
+    return generateImageContent('outpaintImage', [imagePart, { text: prompt }], options);
 }
 
 // FIX: Add missing recolorImageWithPaletteImage function
 export async function recolorImageWithPaletteImage(
     originalImageDataUrl: string,
     paletteImageDataUrl: string,
-    dimensions: { width: number, height: number }
+    dimensions: { width: number, height: number },
+    options: GenerationOptions = {}
 ): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('recolorImageWithPaletteImage', [originalImageDataUrl, paletteImageDataUrl, dimensions], options);
     const prompt = `
 Your task is to perform a color palette swap.
 - The **first image** is the source image that needs to be recolored.
@@ -430,30 +531,17 @@ The result should be a new version of the first image, but as if it were created
     const originalImagePart = fileToGenerativePart(originalImageDataUrl);
     const paletteImagePart = fileToGenerativePart(paletteImageDataUrl);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, paletteImagePart, { text: prompt }] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-    });
-
-    return extractImageData(response);
+    return generateImageContent('recolorImageWithPaletteImage', [originalImagePart, paletteImagePart, { text: prompt }], options);
 }
 
-export async function generateImageFromPrompt(prompt: string): Promise<string> {
+export async function generateImageFromPrompt(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    if (getBackendUrl()) return forwardToBackend('generateImageFromPrompt', [prompt], options);
     const fullPrompt = `Photorealistic, full-body photo of a model for a fashion photoshoot. ${prompt}. Clean studio background, professional lighting, looking at the camera.`;
     
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: fullPrompt,
-        config: {
-            numberOfImages: 1,
-            outputMimeType: 'image/png'
-        }
-    });
+    const imageUrl = await generateImageFromText('generateImageFromPrompt', fullPrompt, options);
 
-    if (!response.generatedImages || response.generatedImages.length === 0) {
-        throw new Error("AI failed to generate an image.");
+    if (!imageUrl) {
+        throw new NoImageError("AI failed to generate an image.");
     }
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    return `data:image/png;base64,${base64ImageBytes}`;
+    return imageUrl;
 }
\ No newline at end of file
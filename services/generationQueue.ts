@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CancelledError, isCancelledError } from './errors';
+
+/**
+ * Interactive jobs (a single generate or regenerate click) always start before
+ * queued bulk jobs (every style of a photoshoot, every colorway of a mockup run).
+ */
+export type JobPriority = 'interactive' | 'batch';
+
+export type JobStatus = 'pending' | 'running' | 'failed';
+
+export interface QueuedJob {
+    id: number;
+    /** The geminiService operation that created the job. */
+    label: string;
+    /** Translation key of the tool that was active when the job was queued. */
+    source: string | null;
+    priority: JobPriority;
+    status: JobStatus;
+    error?: string;
+    createdAt: number;
+}
+
+export interface QueueConfig {
+    /** How many requests may be in flight at once. */
+    concurrency: number;
+    /** How many requests may be started in any rolling 60 second window. */
+    requestsPerMinute: number;
+}
+
+export interface EnqueueOptions {
+    label: string;
+    priority?: JobPriority;
+    signal?: AbortSignal;
+    /** Whether a failure is listed in the queue panel; false for attempts that will be retried. */
+    isFinalFailure?: (err: unknown) => boolean;
+}
+
+interface JobEntry {
+    job: QueuedJob;
+    run: () => void;
+}
+
+const CONFIG_STORAGE_KEY = 'ai-creative-suite-queue';
+const RATE_WINDOW_MS = 60_000;
+const DEFAULT_CONFIG: QueueConfig = { concurrency: 2, requestsPerMinute: 10 };
+
+const loadConfig = (): QueueConfig => {
+    try {
+        const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(CONFIG_STORAGE_KEY) : null;
+        if (saved) {
+            return { ...DEFAULT_CONFIG, ...JSON.parse(saved) };
+        }
+    } catch (error) {
+        console.error("Failed to load queue settings from localStorage", error);
+    }
+    return DEFAULT_CONFIG;
+};
+
+let config = loadConfig();
+let currentSource: string | null = null;
+let nextId = 1;
+let pending: JobEntry[] = [];
+let running: QueuedJob[] = [];
+let failed: QueuedJob[] = [];
+let startTimes: number[] = [];
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+let snapshot: QueuedJob[] = [];
+const listeners = new Set<() => void>();
+
+const publish = () => {
+    snapshot = [...running, ...pending.map(entry => entry.job), ...failed];
+    listeners.forEach(listener => listener());
+};
+
+const byPriority = (a: JobEntry, b: JobEntry) => {
+    if (a.job.priority !== b.job.priority) {
+        return a.job.priority === 'interactive' ? -1 : 1;
+    }
+    return a.job.id - b.job.id;
+};
+
+// Starts as many pending jobs as the concurrency limit and the per-minute budget allow.
+const pump = () => {
+    const now = Date.now();
+    startTimes = startTimes.filter(time => now - time < RATE_WINDOW_MS);
+
+    while (pending.length > 0 && running.length < config.concurrency && startTimes.length < config.requestsPerMinute) {
+        const entry = pending.shift()!;
+        startTimes.push(now);
+        entry.run();
+    }
+
+    if (pending.length > 0 && running.length < config.concurrency && startTimes.length >= config.requestsPerMinute && !wakeTimer) {
+        // Out of budget: try again once the oldest start leaves the window.
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, startTimes[0] + RATE_WINDOW_MS - now);
+    }
+    publish();
+};
+
+/**
+ * Runs `task` once the queue has a free slot and request budget for it.
+ * Jobs whose signal is aborted while still waiting are dropped and reject with a CancelledError.
+ */
+export function enqueueJob<T>(task: () => Promise<T>, { label, priority = 'interactive', signal, isFinalFailure = () => true }: EnqueueOptions): Promise<T> {
+    if (signal?.aborted) {
+        return Promise.reject(new CancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const job: QueuedJob = { id: nextId++, label, source: currentSource, priority, status: 'pending', createdAt: Date.now() };
+
+        const onAbort = () => {
+            const index = pending.findIndex(entry => entry.job.id === job.id);
+            if (index !== -1) {
+                pending.splice(index, 1);
+                publish();
+                reject(new CancelledError());
+            }
+        };
+
+        const run = () => {
+            const active: QueuedJob = { ...job, status: 'running' };
+            running.push(active);
+            task()
+                .then(resolve, (err: unknown) => {
+                    if (!isCancelledError(err) && isFinalFailure(err)) {
+                        failed.push({ ...job, status: 'failed', error: err instanceof Error ? err.message : String(err) });
+                    }
+                    reject(err);
+                })
+                .finally(() => {
+                    signal?.removeEventListener('abort', onAbort);
+                    running = running.filter(item => item !== active);
+                    pump();
+                });
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        pending.push({ job, run });
+        pending.sort(byPriority);
+        pump();
+    });
+}
+
+export function getQueueConfig(): QueueConfig {
+    return config;
+}
+
+export function setQueueConfig(next: Partial<QueueConfig>) {
+    config = {
+        concurrency: Math.max(1, Math.floor(next.concurrency ?? config.concurrency)),
+        requestsPerMinute: Math.max(1, Math.floor(next.requestsPerMinute ?? config.requestsPerMinute)),
+    };
+    try {
+        // Outside a browser (the backend server) there is nothing to persist to.
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+        }
+    } catch (error) {
+        console.error("Failed to save queue settings to localStorage", error);
+    }
+    if (wakeTimer) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+    }
+    pump();
+}
+
+/**
+ * Tags jobs queued from now on with the tool they came from, for the queue panel.
+ */
+export function setJobSource(source: string | null) {
+    currentSource = source;
+}
+
+export function dismissFailedJob(id: number) {
+    failed = failed.filter(job => job.id !== id);
+    publish();
+}
+
+export function clearFailedJobs() {
+    failed = [];
+    publish();
+}
+
+export function subscribeToQueue(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function getQueueSnapshot(): QueuedJob[] {
+    return snapshot;
+}
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, Modality, Type, GenerateContentResponse, Schema } from "@google/genai";
+import type { ImageProvider, JsonSchema, ProviderResponse } from './types';
+
+// Convert our vendor-neutral schema into the shape the Gemini API expects.
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    ...(schema.properties && {
+        properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+    }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.enum && { enum: schema.enum, format: 'enum' }),
+    ...(schema.minItems !== undefined && { minItems: String(schema.minItems) }),
+    ...(schema.maxItems !== undefined && { maxItems: String(schema.maxItems) }),
+});
+
+const normaliseResponse = (response: GenerateContentResponse): ProviderResponse => {
+    const candidate = response.candidates?.[0];
+    const images: string[] = [];
+    const texts: string[] = [];
+    for (const part of candidate?.content?.parts ?? []) {
+        if (part.inlineData) {
+            images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+        } else if (part.text) {
+            texts.push(part.text);
+        }
+    }
+    return { images, text: texts.join(''), finishReason: candidate?.finishReason };
+};
+
+/**
+ * Creates a provider backed by the Google GenAI SDK (Gemini and Imagen models).
+ */
+export function createGoogleGenAIProvider(apiKey: string | undefined, id = 'google'): ImageProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id,
+        async generateContent({ model, parts, output, responseSchema, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts },
+                config: output === 'image'
+                    ? { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: signal }
+                    : {
+                        responseMimeType: 'application/json',
+                        ...(responseSchema && { responseSchema: toGeminiSchema(responseSchema) }),
+                        abortSignal: signal,
+                    },
+            });
+            return normaliseResponse(response);
+        },
+        async generateImages({ model, prompt, mimeType, signal }) {
+            const response = await ai.models.generateImages({
+                model,
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    outputMimeType: mimeType,
+                    includeRaiReason: true,
+                    abortSignal: signal,
+                },
+            });
+            const images = (response.generatedImages ?? [])
+                .filter(generated => generated.image?.imageBytes)
+                .map(generated => `data:${mimeType};base64,${generated.image!.imageBytes}`);
+            // Imagen drops filtered images and gives a RAI reason instead; report that like Gemini's 'SAFETY'.
+            const filtered = (response.generatedImages ?? []).some(generated => generated.raiFilteredReason);
+            return { images, text: '', finishReason: images.length === 0 && filtered ? 'SAFETY' : 'STOP' };
+        },
+    };
+}
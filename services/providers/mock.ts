@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ContentPart, ImageProvider, JsonSchema, ProviderResponse } from './types';
+
+export interface MockProviderOptions {
+    /** Artificial delay before each response, in milliseconds. */
+    latencyMs?: number;
+    /** Probability (0-1) that a request fails with a SAFETY finish reason. */
+    failureRate?: number;
+}
+
+// Prompts containing one of these directives make the mock fail in a specific way,
+// so error handling can be exercised deterministically.
+const FAILURE_DIRECTIVES = {
+    '[mock:safety]': 'SAFETY',
+    '[mock:refuse]': 'STOP',
+    '[mock:error]': 'ERROR',
+} as const;
+
+// FNV-1a, good enough to give every prompt a stable, short fingerprint.
+const hashString = (input: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// A small deterministic PRNG (mulberry32) seeded from the prompt hash.
+const createRandom = (seed: string) => {
+    let state = parseInt(seed, 16) || 1;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Waits like a real network round trip would, rejecting early if the request is aborted.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        return reject(signal.reason);
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Mock provider failed to load an input image.'));
+    img.src = src;
+});
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// hsl(h, s%, l%) -> [r, g, b], the same colours the canvas placeholder uses.
+const hslToRgb = (hue: number, saturation: number, lightness: number): [number, number, number] => {
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [channel(0), channel(8), channel(4)];
+};
+
+/**
+ * Encodes a diagonal gradient as a PNG without a canvas, for when the mock runs outside a
+ * browser (e.g. behind the backend server). The deflate stream uses stored blocks only: the
+ * file is larger than it needs to be, but no compression library is required.
+ */
+const renderGradientPng = (hue: number, width = 256, height = 256): string => {
+    const from = hslToRgb(hue, 0.45, 0.35);
+    const to = hslToRgb((hue + 60) % 360, 0.45, 0.15);
+    const rowLength = width * 3 + 1;
+    const raw = new Uint8Array(height * rowLength);
+    for (let y = 0; y < height; y++) {
+        // Each row starts with its filter type, 0 (none).
+        for (let x = 0; x < width; x++) {
+            const t = (x / width + y / height) / 2;
+            for (let c = 0; c < 3; c++) {
+                raw[y * rowLength + 1 + x * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+            }
+        }
+    }
+
+    const MAX_BLOCK = 65535;
+    const zlib = new Uint8Array(2 + raw.length + Math.ceil(raw.length / MAX_BLOCK) * 5 + 4);
+    const zlibView = new DataView(zlib.buffer);
+    zlib[0] = 0x78;
+    zlib[1] = 0x01;
+    let offset = 2;
+    for (let start = 0; start < raw.length; start += MAX_BLOCK) {
+        const block = raw.subarray(start, start + MAX_BLOCK);
+        zlib[offset] = start + block.length >= raw.length ? 1 : 0;
+        zlibView.setUint16(offset + 1, block.length, true);
+        zlibView.setUint16(offset + 3, ~block.length & 0xffff, true);
+        zlib.set(block, offset + 5);
+        offset += 5 + block.length;
+    }
+    let a = 1;
+    let b = 0;
+    for (const byte of raw) {
+        a = (a + byte) % 65521;
+        b = (b + a) % 65521;
+    }
+    zlibView.setUint32(offset, ((b << 16) | a) >>> 0);
+
+    const chunk = (type: string, data: Uint8Array) => {
+        const bytes = new Uint8Array(12 + data.length);
+        const view = new DataView(bytes.buffer);
+        view.setUint32(0, data.length);
+        for (let i = 0; i < 4; i++) {
+            bytes[4 + i] = type.charCodeAt(i);
+        }
+        bytes.set(data, 8);
+        view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+        return bytes;
+    };
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8; // bits per channel
+    header[9] = 2; // truecolour RGB
+
+    const signature = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+    let binary = '';
+    for (const part of [signature, chunk('IHDR', header), chunk('IDAT', zlib), chunk('IEND', new Uint8Array(0))]) {
+        for (let i = 0; i < part.length; i += 0x8000) {
+            binary += String.fromCharCode(...part.subarray(i, i + 0x8000));
+        }
+    }
+    return `data:image/png;base64,${btoa(binary)}`;
+};
+
+/**
+ * Renders a placeholder image stamped with the prompt hash. If input images are given, the
+ * first one is used as a dimmed backdrop and its dimensions are kept, so chained tools
+ * receive images of a realistic size.
+ */
+async function renderPlaceholder(prompt: string, model: string, inputImages: string[], mimeType: string): Promise<string> {
+    const hash = hashString(`${model}\n${prompt}\n${inputImages.length}`);
+    const random = createRandom(hash);
+    // Without a DOM there is no canvas or image decoding: fall back to a bare gradient PNG.
+    if (typeof document === 'undefined') {
+        return renderGradientPng(Math.floor(random() * 360));
+    }
+    const backdrop = inputImages.length > 0 ? await loadImage(inputImages[0]) : null;
+
+    const MAX_DIMENSION = 1024;
+    let width = backdrop?.naturalWidth || MAX_DIMENSION;
+    let height = backdrop?.naturalHeight || MAX_DIMENSION;
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(width, height));
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+
+    const hue = Math.floor(random() * 360);
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 15%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    if (backdrop) {
+        ctx.globalAlpha = 0.4;
+        ctx.drawImage(backdrop, 0, 0, width, height);
+        ctx.globalAlpha = 1;
+    }
+
+    const unit = Math.min(width, height) / 20;
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(unit * 2)}px monospace`;
+    ctx.fillText(`#${hash}`, width / 2, height / 2 - unit * 2);
+
+    ctx.font = `${Math.round(unit * 0.8)}px 'Roboto', sans-serif`;
+    ctx.fillText(`MOCK · ${model}`, width / 2, height / 2);
+
+    ctx.font = `${Math.round(unit * 0.6)}px 'Roboto', sans-serif`;
+    const summary = prompt.replace(/\s+/g, ' ').trim().slice(0, 240);
+    wrapText(ctx, summary, width * 0.85).slice(0, 5).forEach((line, index) => {
+        ctx.fillText(line, width / 2, height / 2 + unit * (1.5 + index));
+    });
+
+    return canvas.toDataURL(mimeType);
+}
+
+/**
+ * Produces a deterministic value that satisfies the given schema.
+ */
+export function generateFromSchema(schema: JsonSchema, random: () => number): unknown {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, value]) => [key, generateFromSchema(value, random)])
+            );
+        case 'array': {
+            const count = schema.minItems ?? schema.maxItems ?? 3;
+            const pool = schema.items?.enum ? [...schema.items.enum] : null;
+            return Array.from({ length: count }, () => {
+                // Prefer distinct enum values so choices look like a real selection.
+                if (pool && pool.length > 0) {
+                    return pool.splice(Math.floor(random() * pool.length), 1)[0];
+                }
+                return schema.items ? generateFromSchema(schema.items, random) : null;
+            });
+        }
+        case 'string':
+            if (schema.enum && schema.enum.length > 0) {
+                return schema.enum[Math.floor(random() * schema.enum.length)];
+            }
+            return `Mock text ${Math.floor(random() * 1e6).toString(16)}`;
+        case 'number':
+            // Stay within +/- 0.5 so values also work as rotations in radians.
+            return Math.round((random() - 0.5) * 1000) / 1000;
+        case 'integer':
+            return Math.floor(random() * 10);
+        case 'boolean':
+            return random() < 0.5;
+    }
+}
+
+const getPrompt = (parts: ContentPart[]) => parts.map(part => 'text' in part ? part.text : '').join('\n');
+
+const getInputImages = (parts: ContentPart[]) => parts.flatMap(part =>
+    'inlineData' in part ? [`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`] : []
+);
+
+/**
+ * Creates an offline provider that returns deterministic placeholder images and schema-valid
+ * JSON, so every tool can run without network access or an API key.
+ */
+export function createMockProvider(options: MockProviderOptions = {}, id = 'mock'): ImageProvider {
+    const { latencyMs = 600, failureRate = 0 } = options;
+
+    // Returns a failure response if the prompt asks for one or the dice say so.
+    const simulateFailure = (prompt: string): ProviderResponse | null => {
+        for (const [directive, finishReason] of Object.entries(FAILURE_DIRECTIVES)) {
+            if (prompt.includes(directive)) {
+                if (finishReason === 'ERROR') {
+                    throw new Error('Mock provider simulated a network error.');
+                }
+                return { images: [], text: '', finishReason };
+            }
+        }
+        if (failureRate > 0 && Math.random() < failureRate) {
+            return { images: [], text: '', finishReason: 'SAFETY' };
+        }
+        return null;
+    };
+
+    return {
+        id,
+        async generateContent({ model, parts, output, responseSchema, signal }) {
+            await delay(latencyMs, signal);
+            const prompt = getPrompt(parts);
+            const failure = simulateFailure(prompt);
+            if (failure) return failure;
+
+            if (output === 'json') {
+                const random = createRandom(hashString(`${model}\n${prompt}`));
+                const value = responseSchema ? generateFromSchema(responseSchema, random) : {};
+                return { images: [], text: JSON.stringify(value), finishReason: 'STOP' };
+            }
+
+            const image = await renderPlaceholder(prompt, model, getInputImages(parts), 'image/png');
+            return { images: [image], text: '', finishReason: 'STOP' };
+        },
+        async generateImages({ model, prompt, mimeType, signal }) {
+            await delay(latencyMs, signal);
+            const failure = simulateFailure(prompt);
+            if (failure) return failure;
+
+            const image = await renderPlaceholder(prompt, model, [], mimeType);
+            return { images: [image], text: '', finishReason: 'STOP' };
+        },
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Capability, ImageProvider, ModelRoute } from './types';
+import { createGoogleGenAIProvider } from './googleGenAI';
+import { createMockProvider } from './mock';
+
+/**
+ * Every generation operation exposed by geminiService, and the kind of model it needs.
+ */
+export const OPERATION_CAPABILITIES = {
+    generateStyledImage: 'imageEdit',
+    extractOutfitFromImage: 'imageEdit',
+    fillMaskedImage: 'imageEdit',
+    removeObjectFromImage: 'imageEdit',
+    removeBackgroundFromImageAtPoint: 'imageEdit',
+    swapFacesInImage: 'imageEdit',
+    generatePhotoBoothImage: 'imageEdit',
+    generateCloneEffectImage: 'imageEdit',
+    generateBackgroundFromConcept: 'imageEdit',
+    generatePoseFromImage: 'text',
+    generateDepthMap: 'imageEdit',
+    generateProductMockup: 'imageEdit',
+    generateGraphicFromPrompt: 'textToImage',
+    generateApparelMockup: 'imageEdit',
+    generateTypographicIllustration: 'imageEdit',
+    generateConceptSuggestions: 'text',
+    recolorImageWithPaletteImage: 'imageEdit',
+    outpaintImage: 'imageEdit',
+    generateImageFromPrompt: 'textToImage',
+} satisfies Record<string, Capability>;
+
+export type Operation = keyof typeof OPERATION_CAPABILITIES;
+
+export const GOOGLE_PROVIDER_ID = 'google';
+export const MOCK_PROVIDER_ID = 'mock';
+
+// Set AI_PROVIDER=mock in .env.local to run every tool offline against the mock provider.
+export const DEFAULT_PROVIDER_ID = process.env.AI_PROVIDER === MOCK_PROVIDER_ID ? MOCK_PROVIDER_ID : GOOGLE_PROVIDER_ID;
+
+const DEFAULT_MODELS: Record<string, Record<Capability, string>> = {
+    [GOOGLE_PROVIDER_ID]: {
+        imageEdit: 'gemini-2.5-flash-image-preview',
+        textToImage: 'imagen-4.0-generate-001',
+        text: 'gemini-2.5-flash',
+    },
+    [MOCK_PROVIDER_ID]: {
+        imageEdit: 'mock-image-edit',
+        textToImage: 'mock-text-to-image',
+        text: 'mock-text',
+    },
+};
+
+const DEFAULT_CAPABILITY_ROUTES: Record<Capability, ModelRoute> = {
+    imageEdit: { provider: DEFAULT_PROVIDER_ID, model: DEFAULT_MODELS[DEFAULT_PROVIDER_ID].imageEdit },
+    textToImage: { provider: DEFAULT_PROVIDER_ID, model: DEFAULT_MODELS[DEFAULT_PROVIDER_ID].textToImage },
+    text: { provider: DEFAULT_PROVIDER_ID, model: DEFAULT_MODELS[DEFAULT_PROVIDER_ID].text },
+};
+
+const providers = new Map<string, ImageProvider>([
+    [GOOGLE_PROVIDER_ID, createGoogleGenAIProvider(process.env.API_KEY)],
+    [MOCK_PROVIDER_ID, createMockProvider({
+        failureRate: Number(process.env.MOCK_FAILURE_RATE) || 0,
+        latencyMs: process.env.MOCK_LATENCY_MS ? Number(process.env.MOCK_LATENCY_MS) : undefined,
+    })],
+]);
+const capabilityRoutes: Record<Capability, ModelRoute> = { ...DEFAULT_CAPABILITY_ROUTES };
+const operationRoutes: Partial<Record<Operation, ModelRoute>> = {};
+
+/**
+ * Makes a provider available for routing. Registering an id twice replaces the earlier provider.
+ */
+export function registerProvider(provider: ImageProvider): void {
+    providers.set(provider.id, provider);
+}
+
+export function getRegisteredProviderIds(): string[] {
+    return [...providers.keys()];
+}
+
+/**
+ * Sets the default provider and model for every operation of the given capability.
+ */
+export function setCapabilityRoute(capability: Capability, route: ModelRoute): void {
+    capabilityRoutes[capability] = route;
+}
+
+/**
+ * Overrides the provider and model for a single operation. Pass `null` to fall back to the capability default.
+ */
+export function setOperationRoute(operation: Operation, route: ModelRoute | null): void {
+    if (route) {
+        operationRoutes[operation] = route;
+    } else {
+        delete operationRoutes[operation];
+    }
+}
+
+/**
+ * The model a capability uses out of the box, before any settings are applied.
+ */
+export function getDefaultModel(capability: Capability): string {
+    return DEFAULT_CAPABILITY_ROUTES[capability].model;
+}
+
+export function getRoute(operation: Operation): ModelRoute {
+    return operationRoutes[operation] ?? capabilityRoutes[OPERATION_CAPABILITIES[operation]];
+}
+
+/**
+ * Resolves the provider and model that should serve an operation.
+ */
+export function resolveProvider(operation: Operation): { provider: ImageProvider, model: string } {
+    const route = getRoute(operation);
+    const provider = providers.get(route.provider);
+    if (!provider) {
+        throw new Error(`No image provider registered with id "${route.provider}" (needed for ${operation}).`);
+    }
+    return { provider, model: route.model };
+}
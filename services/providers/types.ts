@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// An image sent to a provider, already split into its base64 payload and MIME type.
+export interface InlineImagePart {
+    inlineData: {
+        data: string;
+        mimeType: string;
+    };
+}
+
+export interface TextPart {
+    text: string;
+}
+
+export type ContentPart = InlineImagePart | TextPart;
+
+/**
+ * A small, vendor-neutral subset of JSON Schema used to describe structured responses.
+ * Providers translate it into whatever their API expects.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: string[];
+    minItems?: number;
+    maxItems?: number;
+}
+
+/**
+ * A multimodal request: some images and a text prompt in, either an image or JSON out.
+ */
+export interface ContentRequest {
+    model: string;
+    parts: ContentPart[];
+    output: 'image' | 'json';
+    responseSchema?: JsonSchema;
+    signal?: AbortSignal;
+}
+
+/**
+ * A pure text-to-image request, used for models such as Imagen.
+ */
+export interface TextToImageRequest {
+    model: string;
+    prompt: string;
+    mimeType: 'image/png' | 'image/jpeg';
+    signal?: AbortSignal;
+}
+
+/**
+ * A provider's answer, normalised so that the service layer never sees vendor response shapes.
+ */
+export interface ProviderResponse {
+    /** Images returned by the model, as data URLs. */
+    images: string[];
+    /** Any text returned by the model, concatenated. */
+    text: string;
+    /** Why the model stopped, using Gemini's finish reason names (e.g. 'STOP', 'SAFETY'). */
+    finishReason?: string;
+}
+
+/**
+ * A backend able to serve generation requests. Every function in geminiService goes
+ * through one of these, so a tool can be pointed at another model, vendor or a
+ * self-hosted endpoint without touching the components.
+ */
+export interface ImageProvider {
+    readonly id: string;
+    generateContent(request: ContentRequest): Promise<ProviderResponse>;
+    generateImages(request: TextToImageRequest): Promise<ProviderResponse>;
+}
+
+/**
+ * The kind of work an operation needs, used to pick a sensible default model.
+ */
+export type Capability = 'imageEdit' | 'textToImage' | 'text';
+
+/**
+ * Which provider and model serve a given operation.
+ */
+export interface ModelRoute {
+    provider: string;
+    model: string;
+}
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vite';
+
+// Bundles the optional backend (server/index.ts) for Node. Unlike vite.config.ts nothing is
+// inlined: the server reads its key and settings from the environment when it starts.
+export default defineConfig({
+    build: {
+      ssr: 'server/index.ts',
+      outDir: 'server-dist',
+      emptyOutDir: true,
+      target: 'node20',
+    },
+});